@@ -0,0 +1,41 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { I18n, defineCatalog } from './i18n.js';
+
+const messages = defineCatalog({
+  ja: { greeting: (name: string) => `こんにちは、${name}さん` },
+  en: { greeting: (name: string) => `Hello, ${name}` }
+});
+
+describe('I18n', () => {
+  afterEach(() => {
+    I18n.configure(undefined);
+  });
+
+  it('ロケールのタグから言語を読み取り、対応していない言語は undefined にする', () => {
+    expect(I18n.parse('en')).toBe('en');
+    expect(I18n.parse('en-US')).toBe('en');
+    expect(I18n.parse(' JA_jp.UTF-8 ')).toBe('ja');
+    expect(I18n.parse('fr')).toBeUndefined();
+    expect(I18n.parse(undefined)).toBeUndefined();
+  });
+
+  it('何も決まっていなければ ja のメッセージを引く', () => {
+    expect(messages().greeting('太郎')).toBe('こんにちは、太郎さん');
+  });
+
+  it('クライアントが宣言したロケールは、その呼び出しの中だけで使う', async () => {
+    const inClientLocale = await I18n.runWith('en', async () => {
+      await Promise.resolve();
+      return messages().greeting('Taro');
+    });
+
+    expect(inClientLocale).toBe('Hello, Taro');
+    expect(I18n.current()).toBe('ja');
+  });
+
+  it('設定で決めたロケールはクライアントのロケールより優先する', () => {
+    I18n.configure('ja');
+
+    expect(I18n.runWith('en', I18n.current)).toBe('ja');
+  });
+});
@@ -0,0 +1,69 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+
+/**
+ * Internationalization
+ *
+ * ツール・プロンプト・エラーのメッセージは、モジュールごとに defineCatalog でロケール別に定義し、
+ * 呼び出した時点のロケールで引く。
+ *
+ * ロケールは次の順で最初に決まったものを使う:
+ *   1. 設定（--locale / MCP_DECISIVE_LOCALE / 設定ファイルの locale）
+ *   2. クライアントが initialize で宣言したロケール（セッションごと）
+ *   3. デフォルトの ja
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Locale
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const LOCALES = ['ja', 'en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+export const LocaleSchema = z.enum(LOCALES);
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+let configuredLocale: Locale | undefined;
+
+const sessionLocale = new AsyncLocalStorage<Locale>();
+
+/**
+ * Read a locale such as "en", "en-US" or "ja_JP.UTF-8"; unsupported languages yield undefined
+ */
+const parseLocale = (value: string | undefined): Locale | undefined => {
+  const language = value?.trim().toLowerCase().split(/[-_.]/)[0];
+  return LOCALES.find(locale => locale === language);
+};
+
+/**
+ * Locale selection
+ *
+ * @utility parse - Read a locale tag into a supported locale
+ * @utility configure - Set the locale chosen by the configuration (once at startup)
+ * @utility current - The locale messages are written in
+ * @utility runWith - Run a handler in the locale a client declared
+ */
+export const I18n = {
+  parse: parseLocale,
+  configure: (locale: Locale | undefined): void => {
+    configuredLocale = locale;
+  },
+  current: (): Locale => configuredLocale ?? sessionLocale.getStore() ?? DEFAULT_LOCALE,
+  runWith: <T>(locale: Locale | undefined, run: () => T): T =>
+    locale ? sessionLocale.run(locale, run) : run()
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Catalog
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Define the messages of a module for every locale
+ *
+ * The ja messages define the shape; the other locales must provide the same keys.
+ * The returned function looks the messages up in the current locale on every call.
+ */
+export const defineCatalog = <T>(catalog: { readonly ja: T } & { readonly [L in Exclude<Locale, 'ja'>]: NoInfer<T> }) =>
+  (): T => catalog[I18n.current()];
@@ -0,0 +1,182 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  DistanceEvaluationModel,
+  type DistanceEvaluation,
+  type RequestedDistanceEvaluation,
+  type ValidationError
+} from '../term/distance-evaluation.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type AttainDistanceEvent =
+  | {
+      type: 'DistanceEvaluated';
+      evaluations: readonly DistanceEvaluation[];
+      // 記録後にまだ評価されていない選択肢の数（0 なら Attain Distance が完了）
+      remainingUnevaluatedCount: number;
+    };
+
+// Extract specific event types for type safety
+type DistanceEvaluated = Extract<AttainDistanceEvent, { type: 'DistanceEvaluated' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type EvaluateDistanceCommand = (
+  request: EvaluateDistanceRequest
+) => Result<DistanceEvaluated, AttainDistanceError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type EvaluateDistanceRequest = {
+  evaluations: RequestedDistanceEvaluation[];
+  // 評価対象になりうる選択肢（現在登録されている選択肢）
+  existingOptionIds: readonly OptionId[];
+  // すでに評価が記録されている選択肢
+  evaluatedOptionIds: readonly OptionId[];
+};
+
+// Tagged union for exhaustive error handling
+type AttainDistanceError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'NoOptionsRegistered' }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'DuplicateOption'; optionId: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Business rule: 距離を置いて評価するのは登録済みの選択肢
+const ensureOptionsExist = (
+  request: EvaluateDistanceRequest
+): Result<EvaluateDistanceRequest, AttainDistanceError> =>
+  request.existingOptionIds.length === 0
+    ? err({ type: 'NoOptionsRegistered' })
+    : ok(request);
+
+const createEvaluations = (
+  requested: RequestedDistanceEvaluation[]
+): Result<DistanceEvaluation[], AttainDistanceError> => {
+  if (requested.length === 0) {
+    return err({
+      type: 'ValidationFailed',
+      validationErrors: [{ type: 'required', field: 'evaluations', message: messages().evaluationsEmpty }]
+    });
+  }
+
+  return Result.combineWithAllErrors(requested.map(DistanceEvaluationModel.create))
+    .mapErr((errors): AttainDistanceError => ({
+      type: 'ValidationFailed',
+      validationErrors: errors.flat()
+    }));
+};
+
+// Business rule: 1回の記録で同じ選択肢を2度評価しない / 未登録の選択肢は評価できない
+const ensureValidTargets = (
+  evaluations: DistanceEvaluation[],
+  existingOptionIds: readonly OptionId[]
+): Result<DistanceEvaluation[], AttainDistanceError> => {
+  const seen = new Set<OptionId>();
+  for (const evaluation of evaluations) {
+    if (!existingOptionIds.includes(evaluation.optionId)) {
+      return err({ type: 'UnknownOption', optionId: evaluation.optionId });
+    }
+    if (seen.has(evaluation.optionId)) {
+      return err({ type: 'DuplicateOption', optionId: evaluation.optionId });
+    }
+    seen.add(evaluation.optionId);
+  }
+  return ok(evaluations);
+};
+
+// Command implementation using functional composition
+const evaluateDistanceCommand: EvaluateDistanceCommand = (request) =>
+  ensureOptionsExist(request)
+    .andThen(validRequest => createEvaluations(validRequest.evaluations))
+    .andThen(evaluations => ensureValidTargets(evaluations, request.existingOptionIds))
+    .andThen(evaluations => {
+      const evaluated = new Set([
+        ...request.evaluatedOptionIds,
+        ...evaluations.map(evaluation => evaluation.optionId)
+      ]);
+      const event: DistanceEvaluated = {
+        type: 'DistanceEvaluated',
+        evaluations,
+        remainingUnevaluatedCount: request.existingOptionIds.filter(id => !evaluated.has(id)).length
+      };
+
+      return ok(event);
+    });
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    evaluationsEmpty: '評価を1つ以上入力してください',
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    noOptionsRegistered: '選択肢が登録されていません。先に register_options ツールで選択肢を登録してください',
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    duplicateOption: (optionId: string) => `選択肢「${optionId}」の評価が重複しています。1つの選択肢につき評価は1つにしてください`
+  },
+  en: {
+    evaluationsEmpty: 'Enter at least one evaluation',
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    noOptionsRegistered: 'No options are registered. Register options with the register_options tool first',
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    duplicateOption: (optionId: string) => `Option "${optionId}" is evaluated more than once. Give one evaluation per option`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const AttainDistanceErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: AttainDistanceError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'NoOptionsRegistered':
+        return messages().noOptionsRegistered;
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'DuplicateOption':
+        return messages().duplicateOption(error.optionId);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Attain Distance Aggregate - The public interface for the Attain Distance phase
+ *
+ * @command evaluateDistance - Record 10/10/10 and outside-view evaluations of options
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const AttainDistanceAggregate = {
+  evaluateDistance: evaluateDistanceCommand,
+  toErrorMessage: AttainDistanceErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type { DistanceEvaluated, EvaluateDistanceRequest, AttainDistanceError };
@@ -0,0 +1,210 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  OptionChallengeModel,
+  Values,
+  type Counterpoint,
+  type CounterpointId,
+  type CounterpointNote,
+  type OptionChallenge,
+  type RequestedOptionChallenge,
+  type StrongestCase,
+  type ValidationError
+} from '../term/counterpoint.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type ChallengeOptionEvent =
+  | {
+      type: 'OptionChallenged';
+      optionId: OptionId;
+      strongestCase: StrongestCase;
+      counterpoints: readonly Counterpoint[];
+    }
+  | {
+      type: 'CounterpointStatusRecorded';
+      counterpointId: CounterpointId;
+      // false は「まだ対処できていない」として記録し直したことを表す
+      addressed: boolean;
+      note: CounterpointNote;
+      recordedAt: Date;
+    };
+
+// Extract specific event types for type safety
+type OptionChallenged = Extract<ChallengeOptionEvent, { type: 'OptionChallenged' }>;
+type CounterpointStatusRecorded = Extract<ChallengeOptionEvent, { type: 'CounterpointStatusRecorded' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type ChallengeOptionCommand = (
+  request: ChallengeOptionRequest
+) => Result<OptionChallenged, ChallengeOptionError>;
+
+type RecordCounterpointStatusCommand = (
+  request: RecordCounterpointStatusRequest
+) => Result<CounterpointStatusRecorded, ChallengeOptionError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ChallengeOptionRequest = RequestedOptionChallenge & {
+  // 反論できる選択肢（現在登録されている選択肢）
+  existingOptionIds: readonly OptionId[];
+};
+
+type RecordCounterpointStatusRequest = {
+  counterpointId: string;
+  addressed: boolean;
+  note: string;
+  // 現在の選択肢に紐づいている反論
+  registeredCounterpoints: readonly Counterpoint[];
+};
+
+// Tagged union for exhaustive error handling
+type ChallengeOptionError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'NoOptionsRegistered' }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'CounterpointNotFound'; counterpointId: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Business rule: 反論は登録済みの選択肢に対してのみ立てられる
+const ensureKnownOption = (
+  request: ChallengeOptionRequest
+): Result<ChallengeOptionRequest, ChallengeOptionError> => {
+  if (request.existingOptionIds.length === 0) {
+    return err({ type: 'NoOptionsRegistered' });
+  }
+  const known: readonly string[] = request.existingOptionIds;
+  return known.includes(request.optionId.trim())
+    ? ok(request)
+    : err({ type: 'UnknownOption', optionId: request.optionId });
+};
+
+const createChallenge = (request: ChallengeOptionRequest): Result<OptionChallenge, ChallengeOptionError> =>
+  OptionChallengeModel.create(request)
+    .mapErr((validationErrors): ChallengeOptionError => ({
+      type: 'ValidationFailed',
+      validationErrors
+    }));
+
+// Command implementation using functional composition
+const challengeOptionCommand: ChallengeOptionCommand = (request) =>
+  ensureKnownOption(request)
+    .andThen(createChallenge)
+    .andThen((challenge): Result<OptionChallenged, ChallengeOptionError> => ok({
+      type: 'OptionChallenged',
+      ...challenge
+    }));
+
+// Business rule: 対処の記録は現在の選択肢に紐づく反論にのみ付けられる（記録し直すと上書き）
+const findCounterpoint = (
+  counterpointId: CounterpointId,
+  registeredCounterpoints: readonly Counterpoint[]
+): Result<Counterpoint, ChallengeOptionError> => {
+  const counterpoint = registeredCounterpoints.find(candidate => candidate.id === counterpointId);
+  return counterpoint
+    ? ok(counterpoint)
+    : err({ type: 'CounterpointNotFound', counterpointId });
+};
+
+// Command implementation using functional composition
+const recordCounterpointStatusCommand: RecordCounterpointStatusCommand = (request) =>
+  Result.combineWithAllErrors([
+    Values.CounterpointId.fromString(request.counterpointId),
+    Values.CounterpointNote.create(request.note)
+  ])
+    .mapErr((errors): ChallengeOptionError => ({
+      type: 'ValidationFailed',
+      validationErrors: errors.flat()
+    }))
+    .andThen(([counterpointId, note]) =>
+      findCounterpoint(counterpointId as CounterpointId, request.registeredCounterpoints)
+        .map((counterpoint): CounterpointStatusRecorded => ({
+          type: 'CounterpointStatusRecorded',
+          counterpointId: counterpoint.id,
+          addressed: request.addressed,
+          note: note as CounterpointNote,
+          recordedAt: new Date()
+        }))
+    );
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    noOptionsRegistered: '選択肢が登録されていません。先に register_options ツールで選択肢を登録してください',
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    counterpointNotFound: (counterpointId: string) => `反論「${counterpointId}」は現在の選択肢に紐づいていません。get_current_status ツールで反論IDを確認してください`
+  },
+  en: {
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    noOptionsRegistered: 'No options are registered. Register options with the register_options tool first',
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    counterpointNotFound: (counterpointId: string) => `Counterpoint "${counterpointId}" does not belong to any current option. Check the counterpoint IDs with the get_current_status tool`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ChallengeOptionErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: ChallengeOptionError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'NoOptionsRegistered':
+        return messages().noOptionsRegistered;
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'CounterpointNotFound':
+        return messages().counterpointNotFound(error.counterpointId);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Challenge Option Aggregate - The public interface for arguing against an option
+ *
+ * @command challengeOption - Record the strongest case against an option and the evidence to look for
+ * @command recordCounterpointStatus - Record whether one counterpoint has been addressed
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const ChallengeOptionAggregate = {
+  challengeOption: challengeOptionCommand,
+  recordCounterpointStatus: recordCounterpointStatusCommand,
+  toErrorMessage: ChallengeOptionErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type {
+  OptionChallenged,
+  CounterpointStatusRecorded,
+  ChallengeOptionRequest,
+  RecordCounterpointStatusRequest,
+  ChallengeOptionError
+};
@@ -0,0 +1,194 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  ConstraintCheckModel,
+  type ConstraintCheck,
+  type RequestedConstraintCheck,
+  type ValidationError
+} from '../term/constraint-check.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { Constraint } from '../term/issue-definition.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type ConstraintCheckEvent =
+  | { type: 'ConstraintsChecked'; checks: readonly ConstraintCheck[] };
+
+// Extract specific event types for type safety
+type ConstraintsChecked = Extract<ConstraintCheckEvent, { type: 'ConstraintsChecked' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type CheckConstraintsCommand = (
+  request: CheckConstraintsRequest
+) => Result<ConstraintsChecked, ConstraintCheckError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type CheckConstraintsRequest = {
+  checks: readonly RequestedConstraintCheck[];
+  // 判定の対象（現在登録されている選択肢と、課題に付けた制約）
+  existingOptionIds: readonly OptionId[];
+  constraints: readonly Constraint[];
+};
+
+// Tagged union for exhaustive error handling
+type ConstraintCheckError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'NoOptionsRegistered' }
+  | { type: 'NoConstraintsDefined' }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'UnknownConstraint'; constraintId: string }
+  | { type: 'DuplicateCheck'; optionId: string; constraintId: string }
+  | { type: 'MissingCheck'; optionId: string; constraintId: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Business rule: 判定するには選択肢と制約の両方が必要
+const ensureTargetsExist = (
+  request: CheckConstraintsRequest
+): Result<CheckConstraintsRequest, ConstraintCheckError> => {
+  if (request.existingOptionIds.length === 0) {
+    return err({ type: 'NoOptionsRegistered' });
+  }
+  if (request.constraints.length === 0) {
+    return err({ type: 'NoConstraintsDefined' });
+  }
+  return ok(request);
+};
+
+const createChecks = (
+  requested: readonly RequestedConstraintCheck[]
+): Result<ConstraintCheck[], ConstraintCheckError> =>
+  Result.combineWithAllErrors(requested.map(ConstraintCheckModel.create))
+    .mapErr((errors): ConstraintCheckError => ({
+      type: 'ValidationFailed',
+      validationErrors: errors.flat()
+    }));
+
+const pairKey = (optionId: string, constraintId: string): string => `${optionId}\u0000${constraintId}`;
+
+// Business rule: 選択肢と制約のすべての組について、判定をちょうど1つ記録する
+const ensureEveryPairJudgedOnce = (
+  checks: ConstraintCheck[],
+  request: CheckConstraintsRequest
+): Result<ConstraintCheck[], ConstraintCheckError> => {
+  const constraintIds: readonly string[] = request.constraints.map(constraint => constraint.id);
+  const seen = new Set<string>();
+
+  for (const check of checks) {
+    if (!request.existingOptionIds.includes(check.optionId)) {
+      return err({ type: 'UnknownOption', optionId: check.optionId });
+    }
+    if (!constraintIds.includes(check.constraintId)) {
+      return err({ type: 'UnknownConstraint', constraintId: check.constraintId });
+    }
+    const key = pairKey(check.optionId, check.constraintId);
+    if (seen.has(key)) {
+      return err({ type: 'DuplicateCheck', optionId: check.optionId, constraintId: check.constraintId });
+    }
+    seen.add(key);
+  }
+
+  for (const optionId of request.existingOptionIds) {
+    const missing = request.constraints.find(constraint => !seen.has(pairKey(optionId, constraint.id)));
+    if (missing) {
+      return err({ type: 'MissingCheck', optionId, constraintId: missing.id });
+    }
+  }
+
+  return ok(checks);
+};
+
+// Command implementation using functional composition
+const checkConstraintsCommand: CheckConstraintsCommand = (request) =>
+  ensureTargetsExist(request)
+    .andThen(validRequest => createChecks(validRequest.checks))
+    .andThen(checks => ensureEveryPairJudgedOnce(checks, request))
+    .andThen((checks): Result<ConstraintsChecked, ConstraintCheckError> => ok({
+      type: 'ConstraintsChecked',
+      checks
+    }));
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    noOptionsRegistered: '選択肢が登録されていません。先に register_options ツールで選択肢を登録してください',
+    noConstraintsDefined: '課題に個々の制約が登録されていません。define_issue ツールの constraintItems で制約を登録してください',
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    unknownConstraint: (constraintId: string) => `制約「${constraintId}」は課題に登録されていません。get_current_status ツールで制約IDを確認してください`,
+    duplicateCheck: (optionId: string, constraintId: string) => `選択肢「${optionId}」と制約「${constraintId}」の判定が重複しています`,
+    missingCheck: (optionId: string, constraintId: string) => `選択肢「${optionId}」と制約「${constraintId}」の判定がありません。すべての組を判定してください`
+  },
+  en: {
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    noOptionsRegistered: 'No options are registered. Register options with the register_options tool first',
+    noConstraintsDefined: 'The issue has no individual constraints. Add them with constraintItems of the define_issue tool',
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    unknownConstraint: (constraintId: string) => `Constraint "${constraintId}" is not part of the issue. Check the constraint IDs with the get_current_status tool`,
+    duplicateCheck: (optionId: string, constraintId: string) => `Option "${optionId}" is checked against constraint "${constraintId}" more than once`,
+    missingCheck: (optionId: string, constraintId: string) => `Option "${optionId}" is not checked against constraint "${constraintId}". Check every pair`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ConstraintCheckErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: ConstraintCheckError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'NoOptionsRegistered':
+        return messages().noOptionsRegistered;
+      case 'NoConstraintsDefined':
+        return messages().noConstraintsDefined;
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'UnknownConstraint':
+        return messages().unknownConstraint(error.constraintId);
+      case 'DuplicateCheck':
+        return messages().duplicateCheck(error.optionId, error.constraintId);
+      case 'MissingCheck':
+        return messages().missingCheck(error.optionId, error.constraintId);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Constraint Check Aggregate - The public interface for checking options against the issue constraints
+ *
+ * @command checkConstraints - Record a verdict for every option-constraint pair
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const ConstraintCheckAggregate = {
+  checkConstraints: checkConstraintsCommand,
+  toErrorMessage: ConstraintCheckErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type { ConstraintsChecked, CheckConstraintsRequest, ConstraintCheckError };
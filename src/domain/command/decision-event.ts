@@ -0,0 +1,50 @@
+import type { DecisionStarted, DecisionSwitched } from './decision-session.js';
+import type { IssueDefinitionCreated } from './define-issue.js';
+import type { OptionsGenerated, OptionAdded, OptionUpdated, OptionRemoved } from './option-selection.js';
+import type { DecisionProcessReset } from './reset-decision.js';
+import type { AssumptionsRegistered, AssumptionTestResultRecorded } from './reality-test.js';
+import type { DistanceEvaluated } from './attain-distance.js';
+import type { TripwiresSet, TripwireUpdated, TripwireRemoved, TripwiresEvaluated } from './prepare-to-be-wrong.js';
+import type { DecisionMade, DecisionReviewStarted } from './make-decision.js';
+import type { OptionsScored } from './score-options.js';
+import type { ConstraintsChecked } from './check-constraints.js';
+import type { OptionChallenged, CounterpointStatusRecorded } from './challenge-option.js';
+import type { CommandUndone, CommandRedone } from './undo-redo.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decision Event - すべてのコマンド集約が発行するイベントの和集合
+ * 
+ * 意思決定ごとのジャーナルに追記され、Read Model はこのイベント列を
+ * 射影して現在の状態を再構築する。
+ */
+type DecisionEvent =
+  | DecisionStarted
+  | DecisionSwitched
+  | IssueDefinitionCreated
+  | OptionsGenerated
+  | OptionAdded
+  | OptionUpdated
+  | OptionRemoved
+  | AssumptionsRegistered
+  | AssumptionTestResultRecorded
+  | DistanceEvaluated
+  | TripwiresSet
+  | TripwireUpdated
+  | TripwireRemoved
+  | TripwiresEvaluated
+  | DecisionMade
+  | DecisionReviewStarted
+  | OptionsScored
+  | ConstraintsChecked
+  | OptionChallenged
+  | CounterpointStatusRecorded
+  | DecisionProcessReset
+  | CommandUndone
+  | CommandRedone;
+
+// Export types for other layers
+export type { DecisionEvent };
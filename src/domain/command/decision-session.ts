@@ -0,0 +1,150 @@
+import { Result, ok, err } from 'neverthrow';
+import { DecisionId } from '../term/decision.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { ValidationError } from '../term/decision.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type DecisionSessionEvent =
+  | { type: 'DecisionStarted'; decisionId: DecisionId; startedAt: Date }
+  | { type: 'DecisionSwitched'; decisionId: DecisionId };
+
+// Extract specific event types for type safety
+type DecisionStarted = Extract<DecisionSessionEvent, { type: 'DecisionStarted' }>;
+type DecisionSwitched = Extract<DecisionSessionEvent, { type: 'DecisionSwitched' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type StartDecisionCommand = (
+  request: StartDecisionRequest
+) => Result<DecisionStarted, DecisionSessionError>;
+
+type SwitchDecisionCommand = (
+  request: SwitchDecisionRequest
+) => Result<DecisionSwitched, DecisionSessionError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type StartDecisionRequest = {
+  // No parameters needed - a fresh ID is generated
+};
+
+type SwitchDecisionRequest = {
+  decisionId: string;
+  existingDecisionIds: readonly DecisionId[];
+};
+
+// Tagged union for exhaustive error handling
+type DecisionSessionError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'DecisionNotFound'; decisionId: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Command implementation: a new decision always gets a fresh ID
+const startDecisionCommand: StartDecisionCommand = () => {
+  const event: DecisionStarted = {
+    type: 'DecisionStarted',
+    decisionId: DecisionId.generate(),
+    startedAt: new Date()
+  };
+
+  return ok(event);
+};
+
+// Business rule: only existing decisions can be resumed
+const ensureDecisionExists = (
+  decisionId: DecisionId,
+  existingDecisionIds: readonly DecisionId[]
+): Result<DecisionId, DecisionSessionError> =>
+  existingDecisionIds.includes(decisionId)
+    ? ok(decisionId)
+    : err({ type: 'DecisionNotFound', decisionId });
+
+// Command implementation using functional composition
+const switchDecisionCommand: SwitchDecisionCommand = (request) =>
+  DecisionId.fromString(request.decisionId)
+    .mapErr((validationErrors): DecisionSessionError => ({
+      type: 'ValidationFailed',
+      validationErrors
+    }))
+    .andThen(decisionId => ensureDecisionExists(decisionId, request.existingDecisionIds))
+    .andThen(decisionId => {
+      const event: DecisionSwitched = {
+        type: 'DecisionSwitched',
+        decisionId
+      };
+
+      return ok(event);
+    });
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    decisionNotFound: (decisionId: string) => `意思決定「${decisionId}」は存在しません`
+  },
+  en: {
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    decisionNotFound: (decisionId: string) => `Decision "${decisionId}" does not exist`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const DecisionSessionErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: DecisionSessionError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'DecisionNotFound':
+        return messages().decisionNotFound(error.decisionId);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decision Session Aggregate - The public interface for managing concurrent decisions
+ *
+ * @command startDecision - Start a new decision with a fresh ID
+ * @command switchDecision - Resume an existing decision
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const DecisionSessionAggregate = {
+  startDecision: startDecisionCommand,
+  switchDecision: switchDecisionCommand,
+  toErrorMessage: DecisionSessionErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type {
+  DecisionStarted,
+  DecisionSwitched,
+  StartDecisionRequest,
+  SwitchDecisionRequest,
+  DecisionSessionError
+};
@@ -1,6 +1,7 @@
 import { Result, ok, err } from 'neverthrow';
-import { IssueText, ContextText, ConstraintText } from '../term/issue-definition.js';
-import type { ValidationError } from '../term/issue-definition.js';
+import { IssueText, ContextText, ConstraintText, ConstraintList, SuccessCriteria } from '../term/issue-definition.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { ValidationError, Constraint, SuccessCriterion, RequestedConstraint } from '../term/issue-definition.js';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Type Modeling Section
@@ -14,10 +15,13 @@ type IssueEvent =
 type IssueDefinitionCreated = Extract<IssueEvent, { type: 'IssueDefinitionCreated' }>;
 
 // Domain entity
+// constraints は制約の概要、constraintItems は選択肢を照らし合わせる個々の制約
 type IssueDefinition = {
   issue: IssueText;
   context: ContextText;
   constraints: ConstraintText;
+  constraintItems: readonly Constraint[];
+  successCriteria: readonly SuccessCriterion[];
 };
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -37,6 +41,9 @@ type DefineIssueRequest = {
   issue: string;
   context: string;
   constraints: string;
+  // 省略時は空のリスト
+  constraintItems?: readonly RequestedConstraint[];
+  successCriteria?: readonly string[];
 };
 
 // Tagged union for exhaustive error handling
@@ -50,10 +57,12 @@ type IssueDefinitionError =
 // Business rule: Validate issue definition request
 const validateDefineRequest = (
   request: DefineIssueRequest
-): Result<{ issue: IssueText; context: ContextText; constraints: ConstraintText }, IssueDefinitionError> => {
+): Result<IssueDefinition, IssueDefinitionError> => {
   const issueResult = IssueText.create(request.issue);
   const contextResult = ContextText.create(request.context);
   const constraintsResult = ConstraintText.create(request.constraints);
+  const constraintItemsResult = ConstraintList.create(request.constraintItems ?? []);
+  const successCriteriaResult = SuccessCriteria.create(request.successCriteria ?? []);
 
   // Collect all validation errors
   const allErrors: ValidationError[] = [];
@@ -67,6 +76,12 @@ const validateDefineRequest = (
   if (constraintsResult.isErr()) {
     allErrors.push(...constraintsResult.error);
   }
+  if (constraintItemsResult.isErr()) {
+    allErrors.push(...constraintItemsResult.error);
+  }
+  if (successCriteriaResult.isErr()) {
+    allErrors.push(...successCriteriaResult.error);
+  }
 
   if (allErrors.length > 0) {
     return err({
@@ -76,11 +91,16 @@ const validateDefineRequest = (
   }
 
   // All validations passed - safe to unwrap
-  if (issueResult.isOk() && contextResult.isOk() && constraintsResult.isOk()) {
+  if (
+    issueResult.isOk() && contextResult.isOk() && constraintsResult.isOk() &&
+    constraintItemsResult.isOk() && successCriteriaResult.isOk()
+  ) {
     return ok({
       issue: issueResult.value,
       context: contextResult.value,
-      constraints: constraintsResult.value
+      constraints: constraintsResult.value,
+      constraintItems: constraintItemsResult.value,
+      successCriteria: successCriteriaResult.value
     });
   }
 
@@ -96,7 +116,9 @@ const defineIssueCommand: DefineIssueCommand = (request) =>
       const issueDefinition: IssueDefinition = {
         issue: validated.issue,
         context: validated.context,
-        constraints: validated.constraints
+        constraints: validated.constraints,
+        constraintItems: validated.constraintItems,
+        successCriteria: validated.successCriteria
       };
       
       // Return the event
@@ -108,6 +130,21 @@ const defineIssueCommand: DefineIssueCommand = (request) =>
       return ok(event);
     });
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    unknownError: '不明なエラーです'
+  },
+  en: {
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    unknownError: 'Unknown error type'
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Handling Utilities
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -123,9 +160,9 @@ const IssueDefinitionErrorHandler = {
   toString: (error: IssueDefinitionError): string => {
     switch (error.type) {
       case 'ValidationFailed':
-        return `Validation failed: ${error.validationErrors.map(e => e.message).join(', ')}`;
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
       default:
-        return `Unknown error type`;
+        return messages().unknownError;
     }
   }
 } as const;
@@ -0,0 +1,181 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  FinalDecisionModel,
+  type FinalDecision,
+  type RequestedFinalDecision,
+  type ValidationError
+} from '../term/final-decision.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type MakeDecisionEvent =
+  | { type: 'DecisionMade'; decision: FinalDecision; decidedAt: Date }
+  | { type: 'DecisionReviewStarted'; startedAt: Date };
+
+// Extract specific event types for type safety
+type DecisionMade = Extract<MakeDecisionEvent, { type: 'DecisionMade' }>;
+type DecisionReviewStarted = Extract<MakeDecisionEvent, { type: 'DecisionReviewStarted' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type MakeDecisionCommand = (
+  request: MakeDecisionRequest
+) => Result<DecisionMade, MakeDecisionError>;
+
+type StartReviewCommand = (
+  request: StartReviewRequest
+) => Result<DecisionReviewStarted, MakeDecisionError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type MakeDecisionRequest = RequestedFinalDecision & {
+  // 選ぶことができる選択肢（現在の OptionList に登録されている選択肢）
+  existingOptionIds: readonly OptionId[];
+};
+
+type StartReviewRequest = {
+  // 最後に記録された決定（未決定なら null）
+  currentDecision: FinalDecision | null;
+};
+
+// Tagged union for exhaustive error handling
+type MakeDecisionError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'NoOptionsRegistered' }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'ChosenOptionRejected'; optionId: string }
+  | { type: 'NotDecided' };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Business rule: 選べるのは登録済みの選択肢のみ
+const ensureOptionsExist = (
+  request: MakeDecisionRequest
+): Result<MakeDecisionRequest, MakeDecisionError> =>
+  request.existingOptionIds.length === 0
+    ? err({ type: 'NoOptionsRegistered' })
+    : ok(request);
+
+// Business rule: 選んだ選択肢・選ばなかった選択肢はすべて現在の OptionList にあり、選んだ選択肢を同時に退けない
+const ensureConsistentChoice = (
+  decision: FinalDecision,
+  existingOptionIds: readonly OptionId[]
+): Result<FinalDecision, MakeDecisionError> => {
+  const referenced = [decision.chosenOptionId, ...decision.rejectedOptions.map(rejected => rejected.optionId)];
+  const unknown = referenced.find(optionId => !existingOptionIds.includes(optionId));
+  if (unknown) {
+    return err({ type: 'UnknownOption', optionId: unknown });
+  }
+  if (decision.rejectedOptions.some(rejected => rejected.optionId === decision.chosenOptionId)) {
+    return err({ type: 'ChosenOptionRejected', optionId: decision.chosenOptionId });
+  }
+  return ok(decision);
+};
+
+// Command implementation using functional composition
+const makeDecisionCommand: MakeDecisionCommand = (request) => {
+  const decidedAt = new Date();
+
+  return ensureOptionsExist(request)
+    .andThen(validRequest =>
+      FinalDecisionModel.create(validRequest, decidedAt)
+        .mapErr((validationErrors): MakeDecisionError => ({ type: 'ValidationFailed', validationErrors }))
+    )
+    .andThen(decision => ensureConsistentChoice(decision, request.existingOptionIds))
+    .map((decision): DecisionMade => ({
+      type: 'DecisionMade',
+      decision,
+      decidedAt
+    }));
+};
+
+// Command implementation: 決定済みの意思決定をレビューに入れる
+const startReviewCommand: StartReviewCommand = (request) =>
+  request.currentDecision === null
+    ? err({ type: 'NotDecided' })
+    : ok({ type: 'DecisionReviewStarted', startedAt: new Date() });
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    noOptionsRegistered: '選択肢が登録されていません。先に register_options ツールで選択肢を登録してください',
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    chosenOptionRejected: (optionId: string) => `選択肢「${optionId}」が選んだ選択肢と選ばなかった選択肢の両方に指定されています`,
+    notDecided: 'まだ決定が記録されていません。先に make-decision ツールで決定を記録してください'
+  },
+  en: {
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    noOptionsRegistered: 'No options are registered. Register options with the register_options tool first',
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    chosenOptionRejected: (optionId: string) => `Option "${optionId}" is given both as the chosen option and as a rejected option`,
+    notDecided: 'No decision has been recorded yet. Record one with the make-decision tool first'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MakeDecisionErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: MakeDecisionError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'NoOptionsRegistered':
+        return messages().noOptionsRegistered;
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'ChosenOptionRejected':
+        return messages().chosenOptionRejected(error.optionId);
+      case 'NotDecided':
+        return messages().notDecided;
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Make Decision Aggregate - The public interface for recording the final decision
+ *
+ * @command makeDecision - Record the chosen option with its rationale and review date
+ * @command startReview - Put a recorded decision under review
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const MakeDecisionAggregate = {
+  makeDecision: makeDecisionCommand,
+  startReview: startReviewCommand,
+  toErrorMessage: MakeDecisionErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type {
+  DecisionMade,
+  DecisionReviewStarted,
+  MakeDecisionRequest,
+  StartReviewRequest,
+  MakeDecisionError
+};
@@ -1,5 +1,8 @@
 import { Result, ok, err } from 'neverthrow';
-import { OptionListModel, type Option, type OptionList, type RequestedOptionList, type RequestedOption, type OptionListError } from '../term/option.js';
+import { OptionListModel, OptionModel, OptionCountRule, type Option, type OptionId, type OptionList, type RequestedOptionList, type RequestedOption, type OptionError, type OptionListError } from '../term/option.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { WidenOptionsSteps } from '../term/widen-options-steps.js';
+import type { WorkflowState } from '../term/workflow-state.js';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Type Modeling Section
@@ -7,10 +10,16 @@ import { OptionListModel, type Option, type OptionList, type RequestedOptionList
 
 // Events - The fundamental output of commands
 type OptionSelectionEvent =
-  | { type: 'OptionsGenerated'; optionList: OptionList };
+  | { type: 'OptionsGenerated'; optionList: OptionList; widenOptionsStep: WidenOptionsSteps }
+  | { type: 'OptionAdded'; option: Option }
+  | { type: 'OptionUpdated'; option: Option }
+  | { type: 'OptionRemoved'; optionId: OptionId };
 
 // Extract specific event types for type safety
 type OptionsGenerated = Extract<OptionSelectionEvent, { type: 'OptionsGenerated' }>;
+type OptionAdded = Extract<OptionSelectionEvent, { type: 'OptionAdded' }>;
+type OptionUpdated = Extract<OptionSelectionEvent, { type: 'OptionUpdated' }>;
+type OptionRemoved = Extract<OptionSelectionEvent, { type: 'OptionRemoved' }>;
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Command Types - Define the shape of business operations
@@ -21,18 +30,61 @@ type RegisterOptionsCommand = (
   request: RegisterOptionsRequest
 ) => Result<OptionsGenerated, OptionSelectionError>;
 
+type AddOptionCommand = (
+  request: AddOptionRequest
+) => Result<OptionAdded, OptionSelectionError>;
+
+type UpdateOptionCommand = (
+  request: UpdateOptionRequest
+) => Result<OptionUpdated, OptionSelectionError>;
+
+type RemoveOptionCommand = (
+  request: RemoveOptionRequest
+) => Result<OptionRemoved, OptionSelectionError>;
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Request/Error Types - Input and failure modeling
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 type RegisterOptionsRequest = {
   options: RequestedOption[];
+  widenOptionsStep: WidenOptionsSteps;
+  // 現在登録されている選択肢のID（引き継ぎ・派生元として指定できるもの）
+  existingOptionIds: readonly OptionId[];
+};
+
+// 1つの選択肢を編集するコマンドに共通する入力
+type EditOptionContext = {
+  // 現在登録されている選択肢と、現在のワークフロー状態
+  currentOptions: readonly Option[];
+  currentState: WorkflowState;
+};
+
+type AddOptionRequest = EditOptionContext & {
+  option: Omit<RequestedOption, 'id'>;
+};
+
+type UpdateOptionRequest = EditOptionContext & {
+  optionId: string;
+  // 省略した項目は変更しない
+  text?: string;
+  supplementaryInfo?: string;
+};
+
+type RemoveOptionRequest = EditOptionContext & {
+  optionId: string;
 };
 
 // Tagged union for exhaustive error handling
 type OptionSelectionError =
   | { type: 'ValidationFailed'; reason: string }
-  | { type: 'OptionListCreationFailed'; details: OptionListError[] };
+  | { type: 'OptionListCreationFailed'; details: OptionListError[] }
+  | { type: 'OptionCreationFailed'; details: OptionError[] }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'UnknownParentOption'; parentId: string }
+  | { type: 'DuplicateOption'; optionId: string }
+  | { type: 'OptionsNotEditable'; state: WorkflowState }
+  | { type: 'InvalidOptionCount'; details: OptionListError[] };
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Implementation Section
@@ -45,13 +97,43 @@ const validateRegisterRequest = (
   if (!request.options || request.options.length === 0) {
     return err({
       type: 'ValidationFailed',
-      reason: 'Options list cannot be empty'
+      reason: messages().emptyOptions
     });
   }
   
   return ok(request);
 };
 
+/**
+ * Business rule: 選択肢の系譜は現在の選択肢から辿れる
+ *
+ * 引き継ぐIDと派生元のIDは現在登録されている選択肢のものでなければならない。
+ * 一度外した選択肢を戻すときは新しい選択肢として登録する。
+ */
+const validateLineage = (
+  request: RegisterOptionsRequest
+): Result<RegisterOptionsRequest, OptionSelectionError> => {
+  const existing = new Set<string>(request.existingOptionIds);
+  const carriedOver = new Set<string>();
+
+  for (const option of request.options) {
+    if (option.id !== undefined) {
+      if (!existing.has(option.id)) {
+        return err({ type: 'UnknownOption', optionId: option.id });
+      }
+      if (carriedOver.has(option.id)) {
+        return err({ type: 'DuplicateOption', optionId: option.id });
+      }
+      carriedOver.add(option.id);
+    }
+    if (option.parentId !== undefined && !existing.has(option.parentId)) {
+      return err({ type: 'UnknownParentOption', parentId: option.parentId });
+    }
+  }
+
+  return ok(request);
+};
+
 // Business rule: Register options directly using term models
 const registerOptionList = (request: RegisterOptionsRequest): Result<OptionList, OptionSelectionError> => {
   // Use term model to create properly validated OptionList
@@ -69,18 +151,133 @@ const registerOptionList = (request: RegisterOptionsRequest): Result<OptionList,
 // Command implementation using functional composition
 const registerOptionsCommand: RegisterOptionsCommand = (request) =>
   validateRegisterRequest(request)
+    .andThen(validateLineage)
     .andThen(validRequest => 
       registerOptionList(validRequest)
         .andThen(optionList => {
           const event: OptionsGenerated = {
             type: 'OptionsGenerated',
-            optionList
+            optionList,
+            widenOptionsStep: validRequest.widenOptionsStep
           };
           
           return ok(event);
         })
     );
 
+/**
+ * Business rule: 選択肢を1つずつ編集できるのは、選択肢を広げている間と確定した直後だけ
+ *
+ * 広げている間は一時的に上限を超えてよく、確定した後は OptionCountRule.fixed の範囲を保つ。
+ * 仮説の登録など後続の工程に進んだ後は、選択肢を参照する記録が壊れないよう編集できない。
+ */
+const countRuleForEditing = (state: WorkflowState): Result<OptionCountRule, OptionSelectionError> => {
+  switch (state.type) {
+    case 'initial_options_registered':
+    case 'laddered':
+    case 'analogical_research_done':
+    case 'elimination_tested':
+      return ok(OptionCountRule.widening());
+    case 'options_fixed':
+      return ok(OptionCountRule.fixed());
+    default:
+      return err({ type: 'OptionsNotEditable', state });
+  }
+};
+
+const findOption = (options: readonly Option[], optionId: string): Result<Option, OptionSelectionError> => {
+  const option = options.find(candidate => candidate.id === optionId);
+  return option ? ok(option) : err({ type: 'UnknownOption', optionId });
+};
+
+const checkOptionCount = (
+  options: readonly Option[],
+  edit: (options: readonly Option[]) => readonly Option[],
+  rule: OptionCountRule
+): Result<OptionList, OptionSelectionError> =>
+  OptionListModel.edit(options, edit, rule)
+    .mapErr(details => ({ type: 'InvalidOptionCount' as const, details }));
+
+const createOption = (requested: RequestedOption): Result<Option, OptionSelectionError> =>
+  OptionModel.create(requested)
+    .mapErr(details => ({ type: 'OptionCreationFailed' as const, details }));
+
+// Command implementation: 選択肢を1つ追加する
+const addOptionCommand: AddOptionCommand = (request) =>
+  countRuleForEditing(request.currentState)
+    .andThen((rule): Result<OptionAdded, OptionSelectionError> => {
+      const { parentId } = request.option;
+      if (parentId !== undefined && !request.currentOptions.some(option => option.id === parentId)) {
+        return err({ type: 'UnknownParentOption', parentId });
+      }
+
+      return createOption(request.option)
+        .andThen(option =>
+          checkOptionCount(request.currentOptions, options => [...options, option], rule)
+            .map((): OptionAdded => ({ type: 'OptionAdded', option }))
+        );
+    });
+
+// Command implementation: 選択肢のテキストや補足情報を変更する（IDと派生元は変わらない）
+const updateOptionCommand: UpdateOptionCommand = (request) =>
+  countRuleForEditing(request.currentState)
+    .andThen(() => findOption(request.currentOptions, request.optionId))
+    .andThen((current): Result<OptionUpdated, OptionSelectionError> => {
+      if (request.text === undefined && request.supplementaryInfo === undefined) {
+        return err({ type: 'ValidationFailed', reason: messages().nothingToUpdate });
+      }
+
+      const supplementaryInfo = request.supplementaryInfo ?? current.supplementaryInfo;
+      return createOption({
+        id: current.id,
+        text: request.text ?? current.text,
+        ...(supplementaryInfo && { supplementaryInfo }),
+        ...(current.parentId && { parentId: current.parentId })
+      }).map((option): OptionUpdated => ({ type: 'OptionUpdated', option }));
+    });
+
+// Command implementation: 選択肢を1つ外す
+const removeOptionCommand: RemoveOptionCommand = (request) =>
+  countRuleForEditing(request.currentState)
+    .andThen(rule =>
+      findOption(request.currentOptions, request.optionId)
+        .andThen(target =>
+          checkOptionCount(request.currentOptions, options => options.filter(option => option !== target), rule)
+            .map((): OptionRemoved => ({ type: 'OptionRemoved', optionId: target.id }))
+        )
+    );
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    emptyOptions: '選択肢を1つ以上指定してください',
+    nothingToUpdate: 'text か supplementaryInfo のどちらかを指定してください',
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    optionListCreationFailed: (details: string) => `選択肢リストを作成できませんでした: ${details}`,
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は現在登録されていません。引き継ぐ選択肢には get-option-history ツールで確認した現在の選択肢IDを指定してください`,
+    unknownParentOption: (parentId: string) => `派生元の選択肢「${parentId}」は現在登録されていません。parentId には現在の選択肢IDを指定してください`,
+    duplicateOption: (optionId: string) => `選択肢「${optionId}」を複数回引き継いでいます`,
+    optionCreationFailed: (details: string) => `選択肢を作成できませんでした: ${details}`,
+    optionsNotEditable: (state: string) => `現在の状態（${state}）では選択肢を1つずつ編集できません。選択肢を広げている間か、確定した直後に編集してください`,
+    invalidOptionCount: (details: string) => `選択肢の数が範囲外になるため編集できません: ${details}`
+  },
+  en: {
+    emptyOptions: 'Options list cannot be empty',
+    nothingToUpdate: 'Specify text or supplementaryInfo',
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    optionListCreationFailed: (details: string) => `Option list creation failed: ${details}`,
+    unknownOption: (optionId: string) => `Option "${optionId}" is not currently registered. To carry an option over, give its current ID as shown by the get-option-history tool`,
+    unknownParentOption: (parentId: string) => `The parent option "${parentId}" is not currently registered. Give a current option ID as parentId`,
+    duplicateOption: (optionId: string) => `Option "${optionId}" is carried over more than once`,
+    optionCreationFailed: (details: string) => `Option creation failed: ${details}`,
+    optionsNotEditable: (state: string) => `Options cannot be edited one by one in the current state (${state}). Edit them while widening options or right after fixing them`,
+    invalidOptionCount: (details: string) => `The edit would put the number of options out of range: ${details}`
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Handling Utilities
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -96,9 +293,21 @@ const OptionSelectionErrorHandler = {
   toString: (error: OptionSelectionError): string => {
     switch (error.type) {
       case 'ValidationFailed':
-        return `Validation failed: ${error.reason}`;
+        return messages().validationFailed(error.reason);
       case 'OptionListCreationFailed':
-        return `Option list creation failed: ${error.details.map(d => d.message).join(', ')}`;
+        return messages().optionListCreationFailed(error.details.map(d => d.message).join(', '));
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'UnknownParentOption':
+        return messages().unknownParentOption(error.parentId);
+      case 'DuplicateOption':
+        return messages().duplicateOption(error.optionId);
+      case 'OptionCreationFailed':
+        return messages().optionCreationFailed(error.details.map(d => d.message).join(', '));
+      case 'OptionsNotEditable':
+        return messages().optionsNotEditable(error.state.type);
+      case 'InvalidOptionCount':
+        return messages().invalidOptionCount(error.details.map(d => d.message).join(', '));
       default:
         // Exhaustive check - TypeScript will error if we miss a case
         const _exhaustive: never = error;
@@ -114,13 +323,29 @@ const OptionSelectionErrorHandler = {
 /**
  * Option Selection Aggregate - The public interface for option selection commands
  * 
- * @command registerOptions - Register 3-5 options directly
+ * @command registerOptions - Register 3-5 options, keeping the IDs of options carried over
+ * @command addOption - Add one option
+ * @command updateOption - Change the text or supplementary info of one option
+ * @command removeOption - Remove one option
  * @utility toErrorMessage - Convert errors to user-friendly strings
  */
 export const OptionSelectionAggregate = {
   registerOptions: registerOptionsCommand,
+  addOption: addOptionCommand,
+  updateOption: updateOptionCommand,
+  removeOption: removeOptionCommand,
   toErrorMessage: OptionSelectionErrorHandler.toString,
 } as const;
 
 // Export types for other layers
-export type { OptionsGenerated, RegisterOptionsRequest, OptionSelectionError };
\ No newline at end of file
+export type {
+  OptionsGenerated,
+  OptionAdded,
+  OptionUpdated,
+  OptionRemoved,
+  RegisterOptionsRequest,
+  AddOptionRequest,
+  UpdateOptionRequest,
+  RemoveOptionRequest,
+  OptionSelectionError
+};
\ No newline at end of file
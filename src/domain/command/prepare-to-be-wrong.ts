@@ -0,0 +1,350 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  TripwireModel,
+  TripwireCriterionModel,
+  TripwireConditionModel,
+  Values,
+  type Tripwire,
+  type TripwireCriterion,
+  type RequestedTripwire,
+  type RequestedCriterion,
+  type RequestedCondition,
+  type CriterionId,
+  type CriterionSeverity,
+  type MetricName,
+  type ValidationError
+} from '../term/tripwire.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type PrepareToBeWrongEvent =
+  | { type: 'TripwiresSet'; tripwires: readonly Tripwire[] }
+  | { type: 'TripwireUpdated'; optionId: OptionId; criterion: TripwireCriterion }
+  | { type: 'TripwireRemoved'; optionId: OptionId; criterionId: CriterionId }
+  | {
+      type: 'TripwiresEvaluated';
+      observations: readonly MetricObservation[];
+      // 観測値が条件に抵触した撤退基準（critical が含まれると再検討に移る）
+      firedCriteria: readonly FiredCriterion[];
+      evaluatedAt: Date;
+    };
+
+// 評価時に与えられた指標の観測値
+type MetricObservation = {
+  readonly metric: MetricName;
+  readonly value: number;
+};
+
+type FiredCriterion = {
+  readonly optionId: OptionId;
+  readonly criterionId: CriterionId;
+  readonly severity: CriterionSeverity;
+  readonly observedValue: number;
+};
+
+// Extract specific event types for type safety
+type TripwiresSet = Extract<PrepareToBeWrongEvent, { type: 'TripwiresSet' }>;
+type TripwireUpdated = Extract<PrepareToBeWrongEvent, { type: 'TripwireUpdated' }>;
+type TripwireRemoved = Extract<PrepareToBeWrongEvent, { type: 'TripwireRemoved' }>;
+type TripwiresEvaluated = Extract<PrepareToBeWrongEvent, { type: 'TripwiresEvaluated' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type SetTripwiresCommand = (
+  request: SetTripwiresRequest
+) => Result<TripwiresSet, PrepareToBeWrongError>;
+
+type UpdateTripwireCommand = (
+  request: UpdateTripwireRequest
+) => Result<TripwireUpdated, PrepareToBeWrongError>;
+
+type RemoveTripwireCommand = (
+  request: RemoveTripwireRequest
+) => Result<TripwireRemoved, PrepareToBeWrongError>;
+
+type EvaluateTripwiresCommand = (
+  request: EvaluateTripwiresRequest
+) => Result<TripwiresEvaluated, PrepareToBeWrongError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type SetTripwiresRequest = {
+  tripwires: RequestedTripwire[];
+  // 撤退基準を設定できる選択肢（現在登録されている選択肢）
+  existingOptionIds: readonly OptionId[];
+};
+
+type UpdateTripwireRequest = {
+  criterionId: string;
+  // condition に null を指定すると機械判定の条件を外す
+  changes: Partial<Omit<RequestedCriterion, 'condition'>> & { condition?: RequestedCondition | null };
+  currentTripwires: readonly Tripwire[];
+};
+
+type RemoveTripwireRequest = {
+  criterionId: string;
+  currentTripwires: readonly Tripwire[];
+};
+
+type EvaluateTripwiresRequest = {
+  observations: { metric: string; value: number }[];
+  currentTripwires: readonly Tripwire[];
+};
+
+// Tagged union for exhaustive error handling
+type PrepareToBeWrongError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'CriterionNotFound'; criterionId: string }
+  | { type: 'NoEvaluableTripwires' }
+  | { type: 'DuplicateObservation'; metric: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const toValidationFailed = (validationErrors: ValidationError[]): PrepareToBeWrongError => ({
+  type: 'ValidationFailed',
+  validationErrors
+});
+
+// Business rule: 撤退基準は登録済みの選択肢にのみ設定できる
+const ensureKnownOptions = (
+  tripwires: Tripwire[],
+  existingOptionIds: readonly OptionId[]
+): Result<Tripwire[], PrepareToBeWrongError> => {
+  const unknown = tripwires.find(tripwire => !existingOptionIds.includes(tripwire.optionId));
+  return unknown
+    ? err({ type: 'UnknownOption', optionId: unknown.optionId })
+    : ok(tripwires);
+};
+
+// Command implementation: 指定した選択肢の撤退基準を丸ごと置き換える
+const setTripwiresCommand: SetTripwiresCommand = (request) =>
+  Result.combineWithAllErrors(request.tripwires.map(TripwireModel.create))
+    .mapErr(errors => toValidationFailed(errors.flat()))
+    .andThen(tripwires => ensureKnownOptions(tripwires, request.existingOptionIds))
+    .andThen(tripwires => {
+      const event: TripwiresSet = {
+        type: 'TripwiresSet',
+        tripwires
+      };
+
+      return ok(event);
+    });
+
+// Business rule: 編集・削除できるのは設定済みの撤退基準のみ
+const findCriterion = (
+  criterionId: string,
+  tripwires: readonly Tripwire[]
+): Result<{ optionId: OptionId; criterion: TripwireCriterion }, PrepareToBeWrongError> =>
+  Values.CriterionId.fromString(criterionId)
+    .mapErr(toValidationFailed)
+    .andThen((id): Result<{ optionId: OptionId; criterion: TripwireCriterion }, PrepareToBeWrongError> => {
+      for (const tripwire of tripwires) {
+        const criterion = tripwire.criteria.find(candidate => candidate.id === id);
+        if (criterion) {
+          return ok({ optionId: tripwire.optionId, criterion });
+        }
+      }
+      return err({ type: 'CriterionNotFound', criterionId });
+    });
+
+// Command implementation: 指定した項目だけを変更し、IDは維持する
+const updateTripwireCommand: UpdateTripwireCommand = (request) =>
+  findCriterion(request.criterionId, request.currentTripwires)
+    .andThen(({ optionId, criterion }) =>
+      TripwireCriterionModel.create(
+        {
+          description: request.changes.description ?? criterion.description,
+          type: request.changes.type ?? criterion.type,
+          threshold: request.changes.threshold ?? criterion.threshold,
+          severity: request.changes.severity ?? criterion.severity,
+          condition: request.changes.condition === null
+            ? undefined
+            : request.changes.condition ?? criterion.condition
+        },
+        criterion.id
+      )
+        .mapErr(toValidationFailed)
+        .map((updated): TripwireUpdated => ({
+          type: 'TripwireUpdated',
+          optionId,
+          criterion: updated
+        }))
+    );
+
+// Command implementation
+const removeTripwireCommand: RemoveTripwireCommand = (request) =>
+  findCriterion(request.criterionId, request.currentTripwires)
+    .map(({ optionId, criterion }): TripwireRemoved => ({
+      type: 'TripwireRemoved',
+      optionId,
+      criterionId: criterion.id
+    }));
+
+const createObservations = (
+  requested: EvaluateTripwiresRequest['observations']
+): Result<MetricObservation[], PrepareToBeWrongError> => {
+  if (requested.length === 0) {
+    return err(toValidationFailed([{ type: 'required', field: 'observations', message: messages().observationsEmpty }]));
+  }
+
+  return Result.combineWithAllErrors(
+    requested.map(observation =>
+      Values.MetricName.create(observation.metric).andThen(metric =>
+        Number.isFinite(observation.value)
+          ? ok({ metric, value: observation.value })
+          : err([{ type: 'invalid_number' as const, field: 'value', message: messages().invalidObservation(metric) }])
+      )
+    )
+  ).mapErr(errors => toValidationFailed(errors.flat()));
+};
+
+// Business rule: 1回の評価で同じ指標に2つの観測値を与えない
+const ensureUniqueMetrics = (
+  observations: MetricObservation[]
+): Result<MetricObservation[], PrepareToBeWrongError> => {
+  const seen = new Set<MetricName>();
+  for (const observation of observations) {
+    if (seen.has(observation.metric)) {
+      return err({ type: 'DuplicateObservation', metric: observation.metric });
+    }
+    seen.add(observation.metric);
+  }
+  return ok(observations);
+};
+
+// Business rule: 機械判定できる条件を持つ撤退基準がなければ評価できない
+const ensureEvaluable = (
+  tripwires: readonly Tripwire[]
+): Result<readonly Tripwire[], PrepareToBeWrongError> =>
+  tripwires.some(tripwire => tripwire.criteria.some(criterion => criterion.condition))
+    ? ok(tripwires)
+    : err({ type: 'NoEvaluableTripwires' });
+
+// Command implementation: 観測値を撤退基準の条件と突き合わせ、抵触した基準を記録する
+const evaluateTripwiresCommand: EvaluateTripwiresCommand = (request) =>
+  ensureEvaluable(request.currentTripwires)
+    .andThen(() => createObservations(request.observations))
+    .andThen(ensureUniqueMetrics)
+    .map((observations): TripwiresEvaluated => {
+      const firedCriteria = request.currentTripwires.flatMap(tripwire =>
+        tripwire.criteria.flatMap((criterion): FiredCriterion[] => {
+          const condition = criterion.condition;
+          const observation = condition && observations.find(candidate => candidate.metric === condition.metric);
+          return condition && observation && TripwireConditionModel.isMet(condition, observation.value)
+            ? [{
+                optionId: tripwire.optionId,
+                criterionId: criterion.id,
+                severity: criterion.severity,
+                observedValue: observation.value
+              }]
+            : [];
+        })
+      );
+
+      return {
+        type: 'TripwiresEvaluated',
+        observations,
+        firedCriteria,
+        evaluatedAt: new Date()
+      };
+    });
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    observationsEmpty: '観測値を1つ以上入力してください',
+    invalidObservation: (metric: string) => `「${metric}」の観測値が不正です`,
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    criterionNotFound: (criterionId: string) => `撤退基準「${criterionId}」は設定されていません。get_current_status ツールで撤退基準IDを確認してください`,
+    noEvaluableTripwires: '機械的に判定できる撤退基準がありません。update-tripwire ツールで撤退基準に condition（指標・比較演算子・数値）を設定してください',
+    duplicateObservation: (metric: string) => `指標「${metric}」の観測値が重複しています。1つの指標につき観測値は1つにしてください`
+  },
+  en: {
+    observationsEmpty: 'Enter at least one observation',
+    invalidObservation: (metric: string) => `The observed value of "${metric}" is not a valid number`,
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    criterionNotFound: (criterionId: string) => `Trip wire "${criterionId}" is not set. Check the trip wire IDs with the get_current_status tool`,
+    noEvaluableTripwires: 'No trip wire can be evaluated mechanically. Add a condition (metric, comparator and value) with the update-tripwire tool',
+    duplicateObservation: (metric: string) => `Metric "${metric}" is observed more than once. Give one observation per metric`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const PrepareToBeWrongErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: PrepareToBeWrongError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'CriterionNotFound':
+        return messages().criterionNotFound(error.criterionId);
+      case 'NoEvaluableTripwires':
+        return messages().noEvaluableTripwires;
+      case 'DuplicateObservation':
+        return messages().duplicateObservation(error.metric);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Prepare To Be Wrong Aggregate - The public interface for managing tripwires
+ *
+ * @command setTripwires - Replace the tripwires of the given options
+ * @command updateTripwire - Edit one tripwire criterion
+ * @command removeTripwire - Remove one tripwire criterion
+ * @command evaluateTripwires - Check observed metric values against tripwire conditions
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const PrepareToBeWrongAggregate = {
+  setTripwires: setTripwiresCommand,
+  updateTripwire: updateTripwireCommand,
+  removeTripwire: removeTripwireCommand,
+  evaluateTripwires: evaluateTripwiresCommand,
+  toErrorMessage: PrepareToBeWrongErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type {
+  TripwiresSet,
+  TripwireUpdated,
+  TripwireRemoved,
+  TripwiresEvaluated,
+  MetricObservation,
+  FiredCriterion,
+  SetTripwiresRequest,
+  UpdateTripwireRequest,
+  RemoveTripwireRequest,
+  EvaluateTripwiresRequest,
+  PrepareToBeWrongError
+};
@@ -0,0 +1,228 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  AssumptionModel,
+  Values,
+  type Assumption,
+  type AssumptionId,
+  type AssumptionVerdict,
+  type RequestedAssumption,
+  type ValidationError
+} from '../term/assumption.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type RealityTestEvent =
+  | { type: 'AssumptionsRegistered'; assumptions: readonly Assumption[] }
+  | {
+      type: 'AssumptionTestResultRecorded';
+      assumptionId: AssumptionId;
+      verdict: AssumptionVerdict;
+      evidence: string;
+      testedAt: Date;
+      // 記録後に未検証のまま残っている仮説の数（0 なら現実検証が完了）
+      remainingUntestedCount: number;
+    };
+
+// Extract specific event types for type safety
+type AssumptionsRegistered = Extract<RealityTestEvent, { type: 'AssumptionsRegistered' }>;
+type AssumptionTestResultRecorded = Extract<RealityTestEvent, { type: 'AssumptionTestResultRecorded' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type RegisterAssumptionsCommand = (
+  request: RegisterAssumptionsRequest
+) => Result<AssumptionsRegistered, RealityTestError>;
+
+type RecordTestResultCommand = (
+  request: RecordTestResultRequest
+) => Result<AssumptionTestResultRecorded, RealityTestError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type RegisterAssumptionsRequest = {
+  assumptions: RequestedAssumption[];
+  // 仮説を紐づけられる選択肢（現在登録されている選択肢）
+  existingOptionIds: readonly OptionId[];
+};
+
+type RecordTestResultRequest = {
+  assumptionId: string;
+  verdict: AssumptionVerdict;
+  evidence: string;
+  // 登録済みの仮説と、すでに検証結果が記録された仮説
+  registeredAssumptions: readonly Assumption[];
+  testedAssumptionIds: readonly AssumptionId[];
+};
+
+// Tagged union for exhaustive error handling
+type RealityTestError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'NoOptionsRegistered' }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'AssumptionNotFound'; assumptionId: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Business rule: 仮説は選択肢に対して立てるため、選択肢が必要
+const ensureOptionsExist = (
+  request: RegisterAssumptionsRequest
+): Result<RegisterAssumptionsRequest, RealityTestError> =>
+  request.existingOptionIds.length === 0
+    ? err({ type: 'NoOptionsRegistered' })
+    : ok(request);
+
+// Business rule: 仮説は登録済みの選択肢にのみ紐づけられる
+const ensureKnownOptions = (
+  assumptions: Assumption[],
+  existingOptionIds: readonly OptionId[]
+): Result<Assumption[], RealityTestError> => {
+  const unknown = assumptions.find(assumption => !existingOptionIds.includes(assumption.optionId));
+  return unknown
+    ? err({ type: 'UnknownOption', optionId: unknown.optionId })
+    : ok(assumptions);
+};
+
+const createAssumptions = (requested: RequestedAssumption[]): Result<Assumption[], RealityTestError> => {
+  if (requested.length === 0) {
+    return err({
+      type: 'ValidationFailed',
+      validationErrors: [{ type: 'required', field: 'assumptions', message: messages().assumptionsEmpty }]
+    });
+  }
+
+  return Result.combineWithAllErrors(requested.map(AssumptionModel.create))
+    .mapErr((errors): RealityTestError => ({
+      type: 'ValidationFailed',
+      validationErrors: errors.flat()
+    }));
+};
+
+// Command implementation using functional composition
+const registerAssumptionsCommand: RegisterAssumptionsCommand = (request) =>
+  ensureOptionsExist(request)
+    .andThen(validRequest => createAssumptions(validRequest.assumptions))
+    .andThen(assumptions => ensureKnownOptions(assumptions, request.existingOptionIds))
+    .andThen(assumptions => {
+      const event: AssumptionsRegistered = {
+        type: 'AssumptionsRegistered',
+        assumptions
+      };
+
+      return ok(event);
+    });
+
+// Business rule: 検証結果は登録済みの仮説にのみ記録できる（再検証は上書き）
+const findAssumption = (
+  assumptionId: AssumptionId,
+  registeredAssumptions: readonly Assumption[]
+): Result<Assumption, RealityTestError> => {
+  const assumption = registeredAssumptions.find(candidate => candidate.id === assumptionId);
+  return assumption
+    ? ok(assumption)
+    : err({ type: 'AssumptionNotFound', assumptionId });
+};
+
+// Command implementation using functional composition
+const recordTestResultCommand: RecordTestResultCommand = (request) =>
+  Values.AssumptionId.fromString(request.assumptionId)
+    .mapErr((validationErrors): RealityTestError => ({
+      type: 'ValidationFailed',
+      validationErrors
+    }))
+    .andThen(assumptionId => findAssumption(assumptionId, request.registeredAssumptions))
+    .andThen(assumption => {
+      const tested = new Set([...request.testedAssumptionIds, assumption.id]);
+      const event: AssumptionTestResultRecorded = {
+        type: 'AssumptionTestResultRecorded',
+        assumptionId: assumption.id,
+        verdict: request.verdict,
+        evidence: request.evidence.trim(),
+        testedAt: new Date(),
+        remainingUntestedCount: request.registeredAssumptions.filter(candidate => !tested.has(candidate.id)).length
+      };
+
+      return ok(event);
+    });
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    assumptionsEmpty: '仮説を1つ以上入力してください',
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    noOptionsRegistered: '選択肢が登録されていません。先に register_options ツールで選択肢を登録してください',
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    assumptionNotFound: (assumptionId: string) => `仮説「${assumptionId}」は登録されていません。get_current_status ツールで仮説IDを確認してください`
+  },
+  en: {
+    assumptionsEmpty: 'Enter at least one assumption',
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    noOptionsRegistered: 'No options are registered. Register options with the register_options tool first',
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    assumptionNotFound: (assumptionId: string) => `Assumption "${assumptionId}" is not registered. Check the assumption IDs with the get_current_status tool`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const RealityTestErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: RealityTestError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'NoOptionsRegistered':
+        return messages().noOptionsRegistered;
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'AssumptionNotFound':
+        return messages().assumptionNotFound(error.assumptionId);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Reality Test Aggregate - The public interface for the Reality-Test Assumptions phase
+ *
+ * @command registerAssumptions - Register assumptions tied to existing options
+ * @command recordTestResult - Record the verdict of testing one assumption
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const RealityTestAggregate = {
+  registerAssumptions: registerAssumptionsCommand,
+  recordTestResult: recordTestResultCommand,
+  toErrorMessage: RealityTestErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type {
+  AssumptionsRegistered,
+  AssumptionTestResultRecorded,
+  RegisterAssumptionsRequest,
+  RecordTestResultRequest,
+  RealityTestError
+};
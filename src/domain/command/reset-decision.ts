@@ -1,4 +1,5 @@
 import { Result, ok } from 'neverthrow';
+import { defineCatalog } from '../../common/i18n.js';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Type Modeling Section
@@ -56,6 +57,21 @@ const resetDecisionCommand: ResetDecisionCommand = (request) =>
       return ok(event);
     });
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    resetFailed: (reason: string) => `リセットに失敗しました: ${reason}`,
+    unknownError: '不明なエラーです'
+  },
+  en: {
+    resetFailed: (reason: string) => `Reset failed: ${reason}`,
+    unknownError: 'Unknown error type'
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Handling Utilities
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -71,9 +87,9 @@ const ResetDecisionErrorHandler = {
   toString: (error: ResetDecisionError): string => {
     switch (error.type) {
       case 'ResetFailed':
-        return `Reset failed: ${error.reason}`;
+        return messages().resetFailed(error.reason);
       default:
-        return `Unknown error type`;
+        return messages().unknownError;
     }
   }
 } as const;
@@ -0,0 +1,211 @@
+import { Result, ok, err } from 'neverthrow';
+import {
+  ScoringCriterionModel,
+  OptionScoreModel,
+  type ScoringCriterion,
+  type RequestedScoringCriterion,
+  type OptionScore,
+  type RequestedOptionScore,
+  type ValidationError
+} from '../term/scoring.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { OptionId } from '../term/option.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+type ScoreOptionsEvent =
+  | { type: 'OptionsScored'; criteria: readonly ScoringCriterion[]; scores: readonly OptionScore[] };
+
+// Extract specific event types for type safety
+type OptionsScored = Extract<ScoreOptionsEvent, { type: 'OptionsScored' }>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type ScoreOptionsCommand = (
+  request: ScoreOptionsRequest
+) => Result<OptionsScored, ScoreOptionsError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ScoreOptionsRequest = {
+  criteria: RequestedScoringCriterion[];
+  scores: RequestedOptionScore[];
+  // 採点対象の選択肢（現在登録されている選択肢）
+  existingOptionIds: readonly OptionId[];
+};
+
+// Tagged union for exhaustive error handling
+type ScoreOptionsError =
+  | { type: 'ValidationFailed'; validationErrors: ValidationError[] }
+  | { type: 'NoOptionsRegistered' }
+  | { type: 'DuplicateCriterion'; name: string }
+  | { type: 'UnknownOption'; optionId: string }
+  | { type: 'UnknownCriterion'; name: string }
+  | { type: 'DuplicateScore'; optionId: string; criterion: string }
+  | { type: 'MissingScore'; optionId: string; criterion: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const toValidationFailed = (validationErrors: ValidationError[]): ScoreOptionsError => ({
+  type: 'ValidationFailed',
+  validationErrors
+});
+
+// Business rule: 採点するのは登録済みの選択肢
+const ensureOptionsExist = (
+  request: ScoreOptionsRequest
+): Result<ScoreOptionsRequest, ScoreOptionsError> =>
+  request.existingOptionIds.length === 0
+    ? err({ type: 'NoOptionsRegistered' })
+    : ok(request);
+
+const createCriteria = (
+  requested: RequestedScoringCriterion[]
+): Result<ScoringCriterion[], ScoreOptionsError> => {
+  if (requested.length === 0) {
+    return err(toValidationFailed([{ type: 'required', field: 'criteria', message: messages().criteriaEmpty }]));
+  }
+
+  return Result.combineWithAllErrors(requested.map(ScoringCriterionModel.create))
+    .mapErr(errors => toValidationFailed(errors.flat()))
+    .andThen((criteria): Result<ScoringCriterion[], ScoreOptionsError> => {
+      const duplicate = criteria.find((criterion, index) =>
+        criteria.findIndex(other => other.name === criterion.name) !== index
+      );
+      return duplicate ? err({ type: 'DuplicateCriterion', name: duplicate.name }) : ok(criteria);
+    });
+};
+
+// Business rule: すべての選択肢をすべての評価軸で、ちょうど1回ずつ採点する
+const ensureCompleteMatrix = (
+  criteria: ScoringCriterion[],
+  scores: OptionScore[],
+  existingOptionIds: readonly OptionId[]
+): Result<OptionScore[], ScoreOptionsError> => {
+  const criterionNames = criteria.map(criterion => criterion.name);
+  const seen = new Set<string>();
+
+  for (const score of scores) {
+    if (!existingOptionIds.includes(score.optionId)) {
+      return err({ type: 'UnknownOption', optionId: score.optionId });
+    }
+    if (!criterionNames.includes(score.criterion)) {
+      return err({ type: 'UnknownCriterion', name: score.criterion });
+    }
+    const key = JSON.stringify([score.optionId, score.criterion]);
+    if (seen.has(key)) {
+      return err({ type: 'DuplicateScore', optionId: score.optionId, criterion: score.criterion });
+    }
+    seen.add(key);
+  }
+
+  for (const optionId of existingOptionIds) {
+    for (const name of criterionNames) {
+      if (!seen.has(JSON.stringify([optionId, name]))) {
+        return err({ type: 'MissingScore', optionId, criterion: name });
+      }
+    }
+  }
+
+  return ok(scores);
+};
+
+// Command implementation: 評価軸とスコアの行列を丸ごと記録し直す
+const scoreOptionsCommand: ScoreOptionsCommand = (request) =>
+  ensureOptionsExist(request)
+    .andThen(validRequest => createCriteria(validRequest.criteria))
+    .andThen(criteria =>
+      Result.combineWithAllErrors(request.scores.map(OptionScoreModel.create))
+        .mapErr(errors => toValidationFailed(errors.flat()))
+        .andThen(scores => ensureCompleteMatrix(criteria, scores, request.existingOptionIds))
+        .map((scores): OptionsScored => ({
+          type: 'OptionsScored',
+          criteria,
+          scores
+        }))
+    );
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    criteriaEmpty: '評価軸を1つ以上入力してください',
+    validationFailed: (details: string) => `入力の検証に失敗しました: ${details}`,
+    noOptionsRegistered: '選択肢が登録されていません。先に register_options ツールで選択肢を登録してください',
+    duplicateCriterion: (name: string) => `評価軸「${name}」が重複しています`,
+    unknownOption: (optionId: string) => `選択肢「${optionId}」は登録されていません。get_current_status ツールで選択肢IDを確認してください`,
+    unknownCriterion: (name: string) => `評価軸「${name}」は criteria に定義されていません`,
+    duplicateScore: (optionId: string, criterion: string) => `選択肢「${optionId}」の評価軸「${criterion}」のスコアが重複しています`,
+    missingScore: (optionId: string, criterion: string) => `選択肢「${optionId}」の評価軸「${criterion}」のスコアがありません。すべての選択肢をすべての評価軸で採点してください`
+  },
+  en: {
+    criteriaEmpty: 'Enter at least one criterion',
+    validationFailed: (details: string) => `Validation failed: ${details}`,
+    noOptionsRegistered: 'No options are registered. Register options with the register_options tool first',
+    duplicateCriterion: (name: string) => `Criterion "${name}" is defined more than once`,
+    unknownOption: (optionId: string) => `Option "${optionId}" is not registered. Check the option IDs with the get_current_status tool`,
+    unknownCriterion: (name: string) => `Criterion "${name}" is not defined in criteria`,
+    duplicateScore: (optionId: string, criterion: string) => `Option "${optionId}" is scored on criterion "${criterion}" more than once`,
+    missingScore: (optionId: string, criterion: string) => `Option "${optionId}" has no score on criterion "${criterion}". Score every option on every criterion`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ScoreOptionsErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: ScoreOptionsError): string => {
+    switch (error.type) {
+      case 'ValidationFailed':
+        return messages().validationFailed(error.validationErrors.map(e => e.message).join(', '));
+      case 'NoOptionsRegistered':
+        return messages().noOptionsRegistered;
+      case 'DuplicateCriterion':
+        return messages().duplicateCriterion(error.name);
+      case 'UnknownOption':
+        return messages().unknownOption(error.optionId);
+      case 'UnknownCriterion':
+        return messages().unknownCriterion(error.name);
+      case 'DuplicateScore':
+        return messages().duplicateScore(error.optionId, error.criterion);
+      case 'MissingScore':
+        return messages().missingScore(error.optionId, error.criterion);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Score Options Aggregate - The public interface for the weighted scoring matrix
+ *
+ * @command scoreOptions - Record weighted criteria and per-option scores
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const ScoreOptionsAggregate = {
+  scoreOptions: scoreOptionsCommand,
+  toErrorMessage: ScoreOptionsErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type { OptionsScored, ScoreOptionsRequest, ScoreOptionsError };
@@ -0,0 +1,253 @@
+import { Result, ok, err } from 'neverthrow';
+import { isValidTransition, type WorkflowState } from '../term/workflow-state.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { DecisionEvent } from './decision-event.js';
+import type { DecisionStarted, DecisionSwitched } from './decision-session.js';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Type Modeling Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Events - The fundamental output of commands
+// position はジャーナル上の位置（1始まり）で、取り消す・やり直すコマンドのイベントを指す
+type UndoRedoEvent =
+  | { type: 'CommandUndone'; position: number; undoneEventType: UndoableEvent['type'] }
+  | { type: 'CommandRedone'; position: number; redoneEventType: UndoableEvent['type'] };
+
+// Extract specific event types for type safety
+type CommandUndone = Extract<UndoRedoEvent, { type: 'CommandUndone' }>;
+type CommandRedone = Extract<UndoRedoEvent, { type: 'CommandRedone' }>;
+
+/**
+ * 取り消せるコマンドのイベント
+ *
+ * 意思決定の開始・切り替えと、取り消し・やり直しそのものは取り消しの対象にしない
+ */
+type UndoableEvent = Exclude<DecisionEvent, DecisionStarted | DecisionSwitched | UndoRedoEvent>;
+
+/**
+ * ジャーナル上の1つのコマンド
+ */
+type UndoableCommand = {
+  readonly position: number;
+  readonly event: UndoableEvent;
+};
+
+/**
+ * 取り消し履歴 - ジャーナルを先頭から再生した結果
+ *
+ * effectiveEvents: 取り消されていないイベント（取り消し・やり直しのイベント自体は含まない）
+ * undoable: 取り消せるコマンド（新しい順）
+ * redoable: やり直せるコマンド（次にやり直すものから順）
+ */
+type UndoHistory = {
+  readonly effectiveEvents: readonly DecisionEvent[];
+  readonly undoable: readonly UndoableCommand[];
+  readonly redoable: readonly UndoableCommand[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Command Types - Define the shape of business operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Commands are pure functions that produce events or errors
+type UndoCommand = (
+  request: UndoRequest
+) => Result<CommandUndone, UndoRedoError>;
+
+type RedoCommand = (
+  request: RedoRequest
+) => Result<CommandRedone, UndoRedoError>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Request/Error Types - Input and failure modeling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type UndoRequest = {
+  // 取り消せるコマンド（新しい順）
+  undoable: readonly UndoableCommand[];
+  // 現在のワークフロー状態と、取り消した後のワークフロー状態
+  currentState: WorkflowState;
+  stateAfterUndo: WorkflowState;
+};
+
+type RedoRequest = {
+  // やり直せるコマンド（次にやり直すものから順）
+  redoable: readonly UndoableCommand[];
+  // 現在のワークフロー状態と、やり直した後のワークフロー状態
+  currentState: WorkflowState;
+  stateAfterRedo: WorkflowState;
+};
+
+// Tagged union for exhaustive error handling
+type UndoRedoError =
+  | { type: 'NothingToUndo' }
+  | { type: 'NothingToRedo' }
+  | { type: 'InvalidTransition'; operation: 'undo' | 'redo'; from: WorkflowState; to: WorkflowState };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const isUndoableEvent = (event: DecisionEvent): event is UndoableEvent => {
+  switch (event.type) {
+    case 'DecisionStarted':
+    case 'DecisionSwitched':
+    case 'CommandUndone':
+    case 'CommandRedone':
+      return false;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Replay the journal and work out which commands are in effect
+ *
+ * Business rule: 取り消しは最後に有効なコマンドから順に行い、
+ * 新しいコマンドを記録するとやり直し待ちのコマンドは破棄される
+ */
+const replayUndoHistory = (events: readonly DecisionEvent[]): UndoHistory => {
+  let done: UndoableCommand[] = [];
+  let redoable: UndoableCommand[] = [];
+  const undone = new Set<number>();
+
+  events.forEach((event, index) => {
+    const position = index + 1;
+
+    if (event.type === 'CommandUndone') {
+      const target = done.find(command => command.position === event.position);
+      if (target) {
+        done = done.filter(command => command !== target);
+        redoable = [target, ...redoable];
+        undone.add(target.position);
+      }
+      return;
+    }
+
+    if (event.type === 'CommandRedone') {
+      const target = redoable.find(command => command.position === event.position);
+      if (target) {
+        redoable = redoable.filter(command => command !== target);
+        done = [...done, target];
+        undone.delete(target.position);
+      }
+      return;
+    }
+
+    if (isUndoableEvent(event)) {
+      done = [...done, { position, event }];
+      redoable = [];
+    }
+  });
+
+  return {
+    effectiveEvents: events.filter((event, index) =>
+      event.type !== 'CommandUndone' && event.type !== 'CommandRedone' && !undone.has(index + 1)
+    ),
+    undoable: [...done].reverse(),
+    redoable
+  };
+};
+
+// Command implementation: 最後に有効なコマンドを取り消す
+// Business rule: 取り消しも状態遷移なので isValidTransition を満たす場合のみ許可する
+const undoCommand: UndoCommand = (request) => {
+  const [target] = request.undoable;
+  if (!target) {
+    return err({ type: 'NothingToUndo' });
+  }
+  if (!isValidTransition(request.currentState, request.stateAfterUndo)) {
+    return err({ type: 'InvalidTransition', operation: 'undo', from: request.currentState, to: request.stateAfterUndo });
+  }
+  return ok({ type: 'CommandUndone', position: target.position, undoneEventType: target.event.type });
+};
+
+// Command implementation: 最後に取り消したコマンドをやり直す
+// Business rule: やり直しも状態遷移なので isValidTransition を満たす場合のみ許可する
+const redoCommand: RedoCommand = (request) => {
+  const [target] = request.redoable;
+  if (!target) {
+    return err({ type: 'NothingToRedo' });
+  }
+  if (!isValidTransition(request.currentState, request.stateAfterRedo)) {
+    return err({ type: 'InvalidTransition', operation: 'redo', from: request.currentState, to: request.stateAfterRedo });
+  }
+  return ok({ type: 'CommandRedone', position: target.position, redoneEventType: target.event.type });
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    nothingToUndo: '取り消せるコマンドがありません',
+    nothingToRedo: 'やり直せるコマンドがありません。取り消した後に別のコマンドを記録すると、やり直しはできなくなります',
+    invalidTransition: {
+      undo: (from: string, to: string) => `取り消すと ${from} から ${to} への遷移になるため、取り消せません`,
+      redo: (from: string, to: string) => `やり直すと ${from} から ${to} への遷移になるため、やり直せません`
+    }
+  },
+  en: {
+    nothingToUndo: 'There is no command to undo',
+    nothingToRedo: 'There is no command to redo. Recording another command after an undo discards the redo history',
+    invalidTransition: {
+      undo: (from: string, to: string) => `Undoing would move the workflow from ${from} to ${to}, which is not allowed`,
+      redo: (from: string, to: string) => `Redoing would move the workflow from ${from} to ${to}, which is not allowed`
+    }
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const UndoRedoErrorHandler = {
+  // Convert errors to user-friendly messages
+  toString: (error: UndoRedoError): string => {
+    switch (error.type) {
+      case 'NothingToUndo':
+        return messages().nothingToUndo;
+      case 'NothingToRedo':
+        return messages().nothingToRedo;
+      case 'InvalidTransition':
+        return messages().invalidTransition[error.operation](error.from.type, error.to.type);
+      default:
+        // Exhaustive check - TypeScript will error if we miss a case
+        const _exhaustive: never = error;
+        throw new Error(`Unhandled error type: ${_exhaustive}`);
+    }
+  }
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Expose only what's needed
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Undo/Redo Aggregate - The public interface for reverting and re-applying commands
+ *
+ * @command undo - Revert the last command in effect
+ * @command redo - Re-apply the last reverted command
+ * @utility replay - Work out the commands in effect and the undo/redo stacks from the journal
+ * @utility toErrorMessage - Convert errors to user-friendly strings
+ */
+export const UndoRedoAggregate = {
+  undo: undoCommand,
+  redo: redoCommand,
+  replay: replayUndoHistory,
+  toErrorMessage: UndoRedoErrorHandler.toString,
+} as const;
+
+// Export types for other layers
+export type {
+  CommandUndone,
+  CommandRedone,
+  UndoableEvent,
+  UndoableCommand,
+  UndoHistory,
+  UndoRequest,
+  RedoRequest,
+  UndoRedoError
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { projectAssumptionsFromEvents, serializeAssumptionView } from './index.js';
+import { RealityTestAggregate } from '../../command/reality-test.js';
+import type { OptionId } from '../../term/option.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const optionId = 'option-test' as OptionId;
+
+const registerAssumptions = (statements: string[]) =>
+  RealityTestAggregate.registerAssumptions({
+    assumptions: statements.map(statement => ({
+      optionId,
+      statement,
+      confidence: 'medium',
+      testMethod: '小さく試す'
+    })),
+    existingOptionIds: [optionId]
+  })._unsafeUnwrap();
+
+describe('projectAssumptionsFromEvents', () => {
+  it('should return an empty list when no assumption is registered', () => {
+    // When
+    const view = projectAssumptionsFromEvents([]);
+
+    // Then
+    expect(view.assumptions).toEqual([]);
+  });
+
+  it('should accumulate registrations and keep them untested', () => {
+    // Given
+    const first = registerAssumptions(['需要がある']);
+    const second = registerAssumptions(['予算内で作れる', '半年で作れる']);
+
+    // When
+    const view = projectAssumptionsFromEvents([first, second]);
+
+    // Then
+    expect(view.assumptions.map(a => a.statement)).toEqual(['需要がある', '予算内で作れる', '半年で作れる']);
+    expect(view.assumptions.every(a => a.testResult === null)).toBe(true);
+  });
+
+  it('should apply the latest test result of an assumption', () => {
+    // Given
+    const registered = registerAssumptions(['需要がある']);
+    const [assumption] = registered.assumptions;
+    const recordResult = (verdict: 'refuted' | 'confirmed', evidence: string) =>
+      RealityTestAggregate.recordTestResult({
+        assumptionId: assumption.id,
+        verdict,
+        evidence,
+        registeredAssumptions: registered.assumptions,
+        testedAssumptionIds: []
+      })._unsafeUnwrap();
+
+    // When
+    const view = projectAssumptionsFromEvents([
+      registered,
+      recordResult('refuted', '試作品への反応が薄かった'),
+      recordResult('confirmed', '改良版で予約が集まった')
+    ]);
+
+    // Then
+    expect(view.assumptions[0].testResult?.verdict).toBe('confirmed');
+    expect(serializeAssumptionView(view.assumptions[0]).testResult?.evidence).toBe('改良版で予約が集まった');
+  });
+
+  it('should clear assumptions on reset', () => {
+    // Given
+    const events: DecisionEvent[] = [
+      registerAssumptions(['需要がある']),
+      { type: 'DecisionProcessReset', timestamp: new Date() }
+    ];
+
+    // When
+    const view = projectAssumptionsFromEvents(events);
+
+    // Then
+    expect(view.assumptions).toEqual([]);
+  });
+});
+
+describe('RealityTestAggregate', () => {
+  it('should reject assumptions tied to an unknown option', () => {
+    // When
+    const result = RealityTestAggregate.registerAssumptions({
+      assumptions: [{ optionId: 'option-unknown', statement: '需要がある', confidence: 'low', testMethod: '聞く' }],
+      existingOptionIds: [optionId]
+    });
+
+    // Then
+    expect(result.isErr()).toBe(true);
+    expect(result._unsafeUnwrapErr().type).toBe('UnknownOption');
+  });
+
+  it('should count remaining untested assumptions', () => {
+    // Given
+    const registered = registerAssumptions(['需要がある', '予算内で作れる']);
+    const [first, second] = registered.assumptions;
+
+    // When
+    const firstResult = RealityTestAggregate.recordTestResult({
+      assumptionId: first.id,
+      verdict: 'confirmed',
+      evidence: '予約が集まった',
+      registeredAssumptions: registered.assumptions,
+      testedAssumptionIds: []
+    })._unsafeUnwrap();
+    const secondResult = RealityTestAggregate.recordTestResult({
+      assumptionId: second.id,
+      verdict: 'inconclusive',
+      evidence: '見積もりが揃わなかった',
+      registeredAssumptions: registered.assumptions,
+      testedAssumptionIds: [first.id]
+    })._unsafeUnwrap();
+
+    // Then
+    expect(firstResult.remainingUntestedCount).toBe(1);
+    expect(secondResult.remainingUntestedCount).toBe(0);
+  });
+});
@@ -0,0 +1,172 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { Values, getConfidenceDisplayName, getVerdictDisplayName } from '../../term/assumption.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type { AssumptionView, AssumptionsView, AssumptionsReadError, CurrentAssumptionsQueryResult } from './types.js';
+
+/**
+ * Assumptions Read Model Implementation
+ *
+ * This module provides query functions for retrieving the assumptions registered
+ * in the Reality-Test Assumptions phase together with their test results.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the assumptions and their latest test results from a stream of events
+ *
+ * Registrations accumulate, a later test result overrides an earlier one,
+ * and a reset clears everything.
+ */
+export const projectAssumptionsFromEvents = (events: readonly DecisionEvent[]): AssumptionsView => {
+  let assumptions: AssumptionView[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'AssumptionsRegistered':
+        assumptions = [
+          ...assumptions,
+          ...event.assumptions.map(assumption => ({ ...assumption, testResult: null }))
+        ];
+        break;
+      case 'AssumptionTestResultRecorded':
+        assumptions = assumptions.map(assumption =>
+          assumption.id === event.assumptionId
+            ? {
+                ...assumption,
+                testResult: { verdict: event.verdict, evidence: event.evidence, testedAt: event.testedAt }
+              }
+            : assumption
+        );
+        break;
+      case 'DecisionProcessReset':
+        assumptions = [];
+        break;
+    }
+  }
+
+  return { assumptions };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    untested: '未検証',
+    assumptionLine: (verdict: string, statement: string, confidence: string, testMethod: string) =>
+      `[${verdict}] ${statement}（確信度: ${confidence}、検証方法: ${testMethod}）`,
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    untested: 'untested',
+    assumptionLine: (verdict: string, statement: string, confidence: string, testMethod: string) =>
+      `[${verdict}] ${statement} (confidence: ${confidence}, test method: ${testMethod})`,
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to AssumptionsReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): AssumptionsReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Current Assumptions Query
+ *
+ * Projects the assumptions of a decision from its journal.
+ *
+ * @param decisionId - The decision whose assumptions are queried
+ * @returns Promise<Result<AssumptionsView, AssumptionsReadError>>
+ */
+export const getCurrentAssumptions = async (decisionId: DecisionId): Promise<CurrentAssumptionsQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectAssumptionsFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert AssumptionView to serializable format for MCP responses
+ */
+export const serializeAssumptionView = (assumption: AssumptionView) => ({
+  id: Values.AssumptionId.toString(assumption.id),
+  optionId: assumption.optionId,
+  statement: Values.AssumptionStatement.toString(assumption.statement),
+  confidence: assumption.confidence,
+  testMethod: Values.TestMethod.toString(assumption.testMethod),
+  ...(assumption.testResult && {
+    testResult: {
+      verdict: assumption.testResult.verdict,
+      evidence: assumption.testResult.evidence,
+      testedAt: assumption.testResult.testedAt.toISOString()
+    }
+  })
+});
+
+/**
+ * Format one assumption as a single human-readable line
+ */
+export const formatAssumptionLine = (assumption: AssumptionView): string => {
+  const verdict = assumption.testResult
+    ? getVerdictDisplayName(assumption.testResult.verdict)
+    : messages().untested;
+  return messages().assumptionLine(verdict, assumption.statement, getConfidenceDisplayName(assumption.confidence), assumption.testMethod);
+};
+
+/**
+ * Convert AssumptionsReadError to user-friendly message
+ */
+export const formatAssumptionsReadError = (error: AssumptionsReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
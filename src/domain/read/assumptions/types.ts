@@ -0,0 +1,61 @@
+import { Result } from 'neverthrow';
+import type { Assumption, AssumptionVerdict } from '../../term/assumption.js';
+
+/**
+ * Assumptions Read Model Types
+ *
+ * This module defines the read-side types for querying registered assumptions
+ * and the verdicts of their reality tests.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Assumption Test Result View - The latest verdict recorded for an assumption
+ */
+export type AssumptionTestResultView = {
+  readonly verdict: AssumptionVerdict;
+  readonly evidence: string;
+  readonly testedAt: Date;
+};
+
+/**
+ * Assumption View - An assumption together with its latest test result
+ *
+ * testResult is null while the assumption has not been tested yet.
+ */
+export type AssumptionView = Assumption & {
+  readonly testResult: AssumptionTestResultView | null;
+};
+
+/**
+ * Assumptions View - All assumptions of a decision in registration order
+ */
+export type AssumptionsView = {
+  readonly assumptions: readonly AssumptionView[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Assumptions Read Error - Categorized failures during read operations
+ */
+export type AssumptionsReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Current Assumptions Query Result
+ *
+ * An empty list (not an error) is returned when no assumption is registered.
+ */
+export type CurrentAssumptionsQueryResult = Result<AssumptionsView, AssumptionsReadError>;
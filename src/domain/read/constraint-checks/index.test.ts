@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { projectConstraintChecksFromEvents, findHardConstraintViolations } from './index.js';
+import { ConstraintCheckAggregate } from '../../command/check-constraints.js';
+import { OptionSelectionAggregate } from '../../command/option-selection.js';
+import { IssueDefinitionAggregate } from '../../command/define-issue.js';
+import { ConstraintList } from '../../term/issue-definition.js';
+import { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import { WorkflowState } from '../../term/workflow-state.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const registered = OptionSelectionAggregate.registerOptions({
+  options: [{ text: '内製する' }, { text: '外注する' }, { text: '既製品を買う' }],
+  widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+  existingOptionIds: []
+})._unsafeUnwrap();
+const options = registered.optionList.options;
+const [inHouse, outsource, packaged] = options;
+
+const constraints = ConstraintList.create([
+  { kind: 'hard', text: '予算は1000万円以内' },
+  { kind: 'soft', text: '年度内に始めたい' }
+])._unsafeUnwrap();
+
+const checkAll = (verdictOf: (optionIndex: number, constraintIndex: number) => 'satisfied' | 'violated' | 'uncertain') =>
+  ConstraintCheckAggregate.checkConstraints({
+    checks: options.flatMap((option, optionIndex) => constraints.map((constraint, constraintIndex) => ({
+      optionId: option.id,
+      constraintId: constraint.id,
+      verdict: verdictOf(optionIndex, constraintIndex),
+      reasoning: 'テスト用の理由'
+    }))),
+    existingOptionIds: options.map(option => option.id),
+    constraints
+  });
+
+describe('ConstraintCheckAggregate.checkConstraints', () => {
+  it('should require a verdict for every option-constraint pair', () => {
+    // When
+    const result = ConstraintCheckAggregate.checkConstraints({
+      checks: [{ optionId: inHouse.id, constraintId: 'constraint-1', verdict: 'satisfied', reasoning: '予算内' }],
+      existingOptionIds: options.map(option => option.id),
+      constraints
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'MissingCheck', optionId: inHouse.id, constraintId: 'constraint-2' });
+  });
+
+  it('should reject a constraint that is not on the issue', () => {
+    // When
+    const result = ConstraintCheckAggregate.checkConstraints({
+      checks: [{ optionId: inHouse.id, constraintId: 'constraint-9', verdict: 'satisfied', reasoning: '予算内' }],
+      existingOptionIds: options.map(option => option.id),
+      constraints
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'UnknownConstraint', constraintId: 'constraint-9' });
+  });
+});
+
+describe('projectConstraintChecksFromEvents', () => {
+  it('should flag only options that violate a hard constraint', () => {
+    // Given: 外注は必須の制約に、既製品は希望の制約に反する
+    const checked = checkAll((optionIndex, constraintIndex) =>
+      (optionIndex === 1 && constraintIndex === 0) || (optionIndex === 2 && constraintIndex === 1) ? 'violated' : 'satisfied'
+    )._unsafeUnwrap();
+
+    // When
+    const view = projectConstraintChecksFromEvents([registered, checked]);
+
+    // Then
+    expect(view.checks).toHaveLength(6);
+    expect(findHardConstraintViolations(view, constraints)).toEqual([
+      { optionId: outsource.id, constraintIds: ['constraint-1'] }
+    ]);
+  });
+
+  it('should drop the verdicts of an option whose text changed and clear them when the issue is redefined', () => {
+    // Given
+    const checked = checkAll(() => 'satisfied')._unsafeUnwrap();
+    const updated = OptionSelectionAggregate.updateOption({
+      optionId: packaged.id,
+      text: '既製品をカスタマイズする',
+      currentOptions: options,
+      currentState: WorkflowState.initialOptionsRegistered()
+    })._unsafeUnwrap();
+    const events: DecisionEvent[] = [registered, checked, updated];
+
+    // When
+    const afterUpdate = projectConstraintChecksFromEvents(events);
+    const afterRedefine = projectConstraintChecksFromEvents([
+      ...events,
+      IssueDefinitionAggregate.defineIssue({
+        issue: '再定義した課題',
+        context: '背景',
+        constraints: '制約',
+        constraintItems: [{ kind: 'hard', text: '予算は1000万円以内' }]
+      })._unsafeUnwrap()
+    ]);
+
+    // Then
+    expect(afterUpdate.checks.map(check => check.optionId)).not.toContain(packaged.id);
+    expect(afterUpdate.checks).toHaveLength(4);
+    expect(afterRedefine.checks).toEqual([]);
+  });
+});
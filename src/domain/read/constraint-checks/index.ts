@@ -0,0 +1,220 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { Values } from '../../term/constraint-check.js';
+import { ConstraintKind } from '../../term/issue-definition.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { ConstraintCheck } from '../../term/constraint-check.js';
+import type { Constraint } from '../../term/issue-definition.js';
+import type { OptionId } from '../../term/option.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  ConstraintChecksView,
+  HardConstraintViolation,
+  ConstraintChecksReadError,
+  CurrentConstraintChecksQueryResult
+} from './types.js';
+
+/**
+ * Constraint Checks Read Model Implementation
+ *
+ * This module provides query functions for retrieving the verdicts of each
+ * option against the constraints of the issue.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the verdicts that still apply from a stream of events
+ *
+ * A new check replaces the previous one. Redefining the issue or a reset clears
+ * the verdicts, and the verdicts of an option are dropped once its text changes
+ * or it is removed, since they judged the option as it was.
+ */
+export const projectConstraintChecksFromEvents = (events: readonly DecisionEvent[]): ConstraintChecksView => {
+  let checks: ConstraintCheck[] = [];
+  let optionTexts = new Map<string, string>();
+
+  const dropOptions = (isDropped: (optionId: OptionId) => boolean) => {
+    checks = checks.filter(check => !isDropped(check.optionId));
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'ConstraintsChecked':
+        checks = [...event.checks];
+        break;
+      case 'OptionsGenerated': {
+        const registered = new Map<string, string>(event.optionList.options.map(option => [option.id, option.text]));
+        dropOptions(optionId => registered.get(optionId) !== optionTexts.get(optionId));
+        optionTexts = registered;
+        break;
+      }
+      case 'OptionAdded':
+        optionTexts.set(event.option.id, event.option.text);
+        break;
+      case 'OptionUpdated':
+        if (optionTexts.get(event.option.id) !== event.option.text) {
+          dropOptions(optionId => optionId === event.option.id);
+        }
+        optionTexts.set(event.option.id, event.option.text);
+        break;
+      case 'OptionRemoved':
+        dropOptions(optionId => optionId === event.optionId);
+        optionTexts.delete(event.optionId);
+        break;
+      case 'IssueDefinitionCreated':
+        checks = [];
+        break;
+      case 'DecisionProcessReset':
+        checks = [];
+        optionTexts = new Map();
+        break;
+    }
+  }
+
+  return { checks };
+};
+
+/**
+ * Find the options that violate a hard constraint
+ *
+ * Soft constraints and uncertain verdicts are not counted as violations.
+ */
+export const findHardConstraintViolations = (
+  view: ConstraintChecksView,
+  constraints: readonly Constraint[]
+): HardConstraintViolation[] => {
+  const hardIds: readonly string[] = constraints
+    .filter(constraint => constraint.kind === 'hard')
+    .map(constraint => constraint.id);
+  const violated = view.checks.filter(check => check.verdict === 'violated' && hardIds.includes(check.constraintId));
+
+  const optionIds = [...new Set(violated.map(check => check.optionId))];
+  return optionIds.map(optionId => ({
+    optionId,
+    constraintIds: violated.filter(check => check.optionId === optionId).map(check => check.constraintId)
+  }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to ConstraintChecksReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): ConstraintChecksReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Current Constraint Checks Query
+ *
+ * Projects the verdicts of a decision from its journal.
+ *
+ * @param decisionId - The decision whose verdicts are queried
+ * @returns Promise<Result<ConstraintChecksView, ConstraintChecksReadError>>
+ */
+export const getCurrentConstraintChecks = async (
+  decisionId: DecisionId
+): Promise<CurrentConstraintChecksQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectConstraintChecksFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert ConstraintCheck to serializable format for MCP responses
+ */
+export const serializeConstraintCheck = (check: ConstraintCheck) => ({
+  optionId: check.optionId,
+  constraintId: check.constraintId,
+  verdict: check.verdict,
+  reasoning: Values.VerdictReasoning.toString(check.reasoning)
+});
+
+/**
+ * Format the verdicts grouped by option as human-readable lines
+ */
+export const formatConstraintChecks = (
+  view: ConstraintChecksView,
+  constraints: readonly Constraint[],
+  optionText: (optionId: string) => string
+): string => {
+  const optionIds = [...new Set(view.checks.map(check => check.optionId))];
+
+  return optionIds.map(optionId => {
+    const lines = view.checks
+      .filter(check => check.optionId === optionId)
+      .map(check => {
+        const constraint = constraints.find(candidate => candidate.id === check.constraintId);
+        const label = constraint
+          ? `[${ConstraintKind.toDisplayName(constraint.kind)}] ${constraint.text}`
+          : check.constraintId;
+        return `  ${label}: ${Values.ConstraintVerdict.toDisplayName(check.verdict)}（${check.reasoning}）`;
+      });
+    return [`■ ${optionText(optionId)}`, ...lines].join('\n');
+  }).join('\n');
+};
+
+/**
+ * Convert ConstraintChecksReadError to user-friendly message
+ */
+export const formatConstraintChecksReadError = (error: ConstraintChecksReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,55 @@
+import { Result } from 'neverthrow';
+import type { ConstraintCheck } from '../../term/constraint-check.js';
+import type { ConstraintId } from '../../term/issue-definition.js';
+import type { OptionId } from '../../term/option.js';
+
+/**
+ * Constraint Checks Read Model Types
+ *
+ * This module defines the read-side types for querying the verdicts recorded
+ * by check-constraints for each option-constraint pair.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Constraint Checks View - The verdicts that still apply to the current issue and options
+ *
+ * Verdicts of options that were changed or removed after the check are omitted.
+ */
+export type ConstraintChecksView = {
+  readonly checks: readonly ConstraintCheck[];
+};
+
+/**
+ * Hard Constraint Violation - An option that violates at least one hard constraint
+ */
+export type HardConstraintViolation = {
+  readonly optionId: OptionId;
+  readonly constraintIds: readonly ConstraintId[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Constraint Checks Read Error - Categorized failures during read operations
+ */
+export type ConstraintChecksReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Current Constraint Checks Query Result
+ *
+ * An empty list (not an error) is returned when nothing has been checked.
+ */
+export type CurrentConstraintChecksQueryResult = Result<ConstraintChecksView, ConstraintChecksReadError>;
@@ -1,17 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { getCurrentIssueStatus, serializeStatusView, formatReadError } from './index.js';
 import { ok, err } from 'neverthrow';
-import * as issueStorageModule from '../../../effect/issue-storage.js';
-import { IssueText, ContextText, ConstraintText } from '../../term/issue-definition.js';
+import * as journalStorageModule from '../../../effect/journal-storage.js';
+import { IssueText, ContextText, ConstraintText, ConstraintList, SuccessCriteria } from '../../term/issue-definition.js';
 import type { IssueDefinition } from '../../command/define-issue.js';
 import type { FileSystemError } from '../../../effect/filesystem.js';
+import type { DecisionId } from '../../term/decision.js';
 import type { IssueStatusView, ReadError } from './types.js';
 
 // Mock the effect layer
-vi.mock('../../../effect/issue-storage.js', () => ({
-  loadIssueDefinition: vi.fn()
+vi.mock('../../../effect/journal-storage.js', () => ({
+  loadEvents: vi.fn()
 }));
 
+const decisionId = 'decision-test' as DecisionId;
+
 describe('getCurrentIssueStatus', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -23,15 +26,17 @@ describe('getCurrentIssueStatus', () => {
       const mockIssueDefinition: IssueDefinition = {
         issue: IssueText.create('テスト課題').unwrapOr('' as any),
         context: ContextText.create('テスト背景').unwrapOr('' as any),
-        constraints: ConstraintText.create('テスト制約').unwrapOr('' as any)
+        constraints: ConstraintText.create('テスト制約').unwrapOr('' as any),
+        constraintItems: [],
+        successCriteria: []
       };
 
-      vi.mocked(issueStorageModule.loadIssueDefinition).mockResolvedValue(
-        ok(mockIssueDefinition)
+      vi.mocked(journalStorageModule.loadEvents).mockResolvedValue(
+        ok([{ type: 'IssueDefinitionCreated', issueDefinition: mockIssueDefinition }])
       );
 
       // When
-      const result = await getCurrentIssueStatus();
+      const result = await getCurrentIssueStatus(decisionId);
 
       // Then
       expect(result.isOk()).toBe(true);
@@ -40,24 +45,42 @@ describe('getCurrentIssueStatus', () => {
       expect(statusView).toEqual({
         issue: mockIssueDefinition.issue,
         context: mockIssueDefinition.context,
-        constraints: mockIssueDefinition.constraints
+        constraints: mockIssueDefinition.constraints,
+        constraintItems: [],
+        successCriteria: []
       });
     });
 
-    it('should return null when no issue is defined (ENOENT)', async () => {
+    it('should return null when no issue is defined (empty journal)', async () => {
       // Given
-      const fileNotFoundError: FileSystemError = {
-        tag: 'FileSystemError',
-        message: 'ファイルが見つかりません',
-        originalError: { code: 'ENOENT' } as any
+      vi.mocked(journalStorageModule.loadEvents).mockResolvedValue(ok([]));
+
+      // When
+      const result = await getCurrentIssueStatus(decisionId);
+
+      // Then
+      expect(result.isOk()).toBe(true);
+      expect(result.unwrapOr(null)).toBeNull();
+    });
+    it('should return null when the decision process was reset after the issue', async () => {
+      // Given
+      const mockIssueDefinition: IssueDefinition = {
+        issue: IssueText.create('リセット前の課題').unwrapOr('' as any),
+        context: ContextText.create('背景').unwrapOr('' as any),
+        constraints: ConstraintText.create('制約').unwrapOr('' as any),
+        constraintItems: [],
+        successCriteria: []
       };
 
-      vi.mocked(issueStorageModule.loadIssueDefinition).mockResolvedValue(
-        err(fileNotFoundError)
+      vi.mocked(journalStorageModule.loadEvents).mockResolvedValue(
+        ok([
+          { type: 'IssueDefinitionCreated', issueDefinition: mockIssueDefinition },
+          { type: 'DecisionProcessReset', timestamp: new Date() }
+        ])
       );
 
       // When
-      const result = await getCurrentIssueStatus();
+      const result = await getCurrentIssueStatus(decisionId);
 
       // Then
       expect(result.isOk()).toBe(true);
@@ -74,12 +97,12 @@ describe('getCurrentIssueStatus', () => {
         originalError: new Error('Disk full')
       };
 
-      vi.mocked(issueStorageModule.loadIssueDefinition).mockResolvedValue(
+      vi.mocked(journalStorageModule.loadEvents).mockResolvedValue(
         err(fsError)
       );
 
       // When
-      const result = await getCurrentIssueStatus();
+      const result = await getCurrentIssueStatus(decisionId);
 
       // Then
       expect(result.isErr()).toBe(true);
@@ -98,7 +121,12 @@ describe('serializeStatusView', () => {
     const statusView: IssueStatusView = {
       issue: IssueText.create('シリアライズテスト').unwrapOr('' as any),
       context: ContextText.create('背景情報').unwrapOr('' as any),
-      constraints: ConstraintText.create('制約条件').unwrapOr('' as any)
+      constraints: ConstraintText.create('制約条件').unwrapOr('' as any),
+      constraintItems: ConstraintList.create([
+        { kind: 'hard', text: '予算は100万円以内' },
+        { kind: 'soft', text: '来月中に始めたい' }
+      ])._unsafeUnwrap(),
+      successCriteria: SuccessCriteria.create(['半年で費用を回収できる'])._unsafeUnwrap()
     };
 
     // When
@@ -108,7 +136,12 @@ describe('serializeStatusView', () => {
     expect(serialized).toEqual({
       issue: 'シリアライズテスト',
       context: '背景情報',
-      constraints: '制約条件'
+      constraints: '制約条件',
+      constraintItems: [
+        { id: 'constraint-1', kind: 'hard', text: '予算は100万円以内' },
+        { id: 'constraint-2', kind: 'soft', text: '来月中に始めたい' }
+      ],
+      successCriteria: [{ id: 'criterion-1', text: '半年で費用を回収できる' }]
     });
   });
 });
@@ -1,7 +1,18 @@
 import { Result, ok, err } from 'neverthrow';
-import { loadIssueDefinition } from '../../../effect/issue-storage.js';
-import { IssueText, ContextText, ConstraintText } from '../../term/issue-definition.js';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import {
+  IssueText,
+  ContextText,
+  ConstraintText,
+  ConstraintKind,
+  ConstraintId,
+  SuccessCriterionText,
+  SuccessCriterionId
+} from '../../term/issue-definition.js';
+import { defineCatalog } from '../../../common/i18n.js';
 import type { IssueDefinition } from '../../command/define-issue.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { DecisionId } from '../../term/decision.js';
 import type { FileSystemError } from '../../../effect/filesystem.js';
 import type { IssueStatusView, ReadError, CurrentStatusQueryResult } from './types.js';
 
@@ -13,6 +24,57 @@ import type { IssueStatusView, ReadError, CurrentStatusQueryResult } from './typ
  * into read-optimized views.
  */
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the current IssueDefinition from a stream of events
+ * 
+ * The latest IssueDefinitionCreated wins; a reset clears the issue.
+ */
+export const projectIssueFromEvents = (events: readonly DecisionEvent[]): IssueDefinition | null => {
+  let currentIssue: IssueDefinition | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'IssueDefinitionCreated':
+        currentIssue = event.issueDefinition;
+        break;
+      case 'DecisionProcessReset':
+        currentIssue = null;
+        break;
+    }
+  }
+
+  return currentIssue;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    constraintsHeading: '制約の一覧:',
+    successCriteriaHeading: '成功基準:',
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    transformFailed: 'データの変換中にエラーが発生しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    constraintsHeading: 'Constraints:',
+    successCriteriaHeading: 'Success criteria:',
+    journalParseFailed: 'Failed to parse the journal',
+    transformFailed: 'Failed to transform the data',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Data Transformation Functions
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -29,14 +91,16 @@ const transformToStatusView = (issueDefinition: IssueDefinition): Result<IssueSt
     const statusView: IssueStatusView = {
       issue: issueDefinition.issue,
       context: issueDefinition.context,
-      constraints: issueDefinition.constraints
+      constraints: issueDefinition.constraints,
+      constraintItems: issueDefinition.constraintItems,
+      successCriteria: issueDefinition.successCriteria
     };
     
     return ok(statusView);
   } catch (error) {
     return err({
       type: 'DataCorruption',
-      message: 'データの変換中にエラーが発生しました',
+      message: messages().transformFailed,
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -45,13 +109,16 @@ const transformToStatusView = (issueDefinition: IssueDefinition): Result<IssueSt
 /**
  * Map FileSystemError to ReadError
  * 
- * Transforms effect layer errors into read model errors,
- * handling the special case where file-not-found is not an error.
+ * Transforms effect layer errors into read model errors.
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
  */
-const mapFileSystemError = (fsError: FileSystemError): ReadError | null => {
-  // File not found is not an error - it means no issue is defined yet
-  if (fsError.originalError && 'code' in fsError.originalError && fsError.originalError.code === 'ENOENT') {
-    return null; // This will be handled as "no issue defined" case
+const mapFileSystemError = (fsError: FileSystemError): ReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
   }
   
   return {
@@ -68,33 +135,29 @@ const mapFileSystemError = (fsError: FileSystemError): ReadError | null => {
 /**
  * Get Current Issue Status Query
  * 
- * Retrieves the current issue status from storage and transforms it into
+ * Projects the current issue status from the decision journal into
  * a read-optimized view. Returns null when no issue is defined (not an error).
  * 
+ * @param decisionId - The decision whose issue is queried
  * @returns Promise<Result<IssueStatusView | null, ReadError>>
  *   - Ok(IssueStatusView) when issue exists
  *   - Ok(null) when no issue is defined
  *   - Err(ReadError) when actual errors occur (file system, data corruption)
  */
-export const getCurrentIssueStatus = async (): Promise<CurrentStatusQueryResult> => {
-  const loadResult = await loadIssueDefinition();
+export const getCurrentIssueStatus = async (decisionId: DecisionId): Promise<CurrentStatusQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
   
   return loadResult.match(
-    // Success: Issue definition exists
-    (issueDefinition) => transformToStatusView(issueDefinition),
-    
-    // Error: Handle different error types
-    (fsError) => {
-      const readError = mapFileSystemError(fsError);
-      
-      // File not found means no issue is defined - this is OK
-      if (readError === null) {
-        return ok(null);
-      }
+    // Success: Project the journal
+    (events) => {
+      const issueDefinition = projectIssueFromEvents(events);
       
-      // Other file system errors are actual errors
-      return err(readError);
-    }
+      // Nothing recorded yet means no issue is defined - this is OK
+      return issueDefinition === null ? ok(null) : transformToStatusView(issueDefinition);
+    },
+    
+    // Error: Journal could not be read
+    (fsError) => err(mapFileSystemError(fsError))
   );
 };
 
@@ -116,20 +179,46 @@ export const serializeStatusView = (statusView: IssueStatusView) => {
   return {
     issue: IssueText.toString(statusView.issue),
     context: ContextText.toString(statusView.context),
-    constraints: ConstraintText.toString(statusView.constraints)
+    constraints: ConstraintText.toString(statusView.constraints),
+    constraintItems: statusView.constraintItems.map(constraint => ({
+      id: ConstraintId.toString(constraint.id),
+      kind: constraint.kind,
+      text: ConstraintText.toString(constraint.text)
+    })),
+    successCriteria: statusView.successCriteria.map(criterion => ({
+      id: SuccessCriterionId.toString(criterion.id),
+      text: SuccessCriterionText.toString(criterion.text)
+    }))
   };
 };
 
+/**
+ * Format the constraint items and success criteria as bullet lines
+ *
+ * Returns an empty string when the issue has neither.
+ */
+export const formatIssueCriteria = (statusView: IssueStatusView): string => {
+  const constraintLines = statusView.constraintItems.map(constraint =>
+    `• [${ConstraintKind.toDisplayName(constraint.kind)}] ${constraint.text} (${constraint.id})`
+  );
+  const criterionLines = statusView.successCriteria.map(criterion => `• ${criterion.text} (${criterion.id})`);
+
+  return [
+    ...(constraintLines.length > 0 ? [messages().constraintsHeading, ...constraintLines] : []),
+    ...(criterionLines.length > 0 ? [messages().successCriteriaHeading, ...criterionLines] : [])
+  ].join('\n');
+};
+
 /**
  * Convert ReadError to user-friendly message
  */
 export const formatReadError = (error: ReadError): string => {
   switch (error.type) {
     case 'FileSystemError':
-      return `ファイルシステムエラー: ${error.message}`;
+      return messages().fileSystemError(error.message);
     case 'DataCorruption':
-      return `データ破損エラー: ${error.message}${error.details ? ` (詳細: ${error.details})` : ''}`;
+      return messages().dataCorruption(error.message, error.details);
     default:
-      return '不明なエラーが発生しました';
+      return messages().unknownError;
   }
 };
\ No newline at end of file
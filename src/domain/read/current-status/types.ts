@@ -1,5 +1,6 @@
 import { Result } from 'neverthrow';
 import { IssueText, ContextText, ConstraintText } from '../../term/issue-definition.js';
+import type { Constraint, SuccessCriterion } from '../../term/issue-definition.js';
 
 /**
  * Current Status Read Model Types
@@ -24,6 +25,8 @@ export type IssueStatusView = {
   readonly issue: IssueText;
   readonly context: ContextText;
   readonly constraints: ConstraintText;
+  readonly constraintItems: readonly Constraint[];
+  readonly successCriteria: readonly SuccessCriterion[];
 };
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { projectDecisionRecordFromEvents, renderDecisionRecordMarkdown, serializeDecisionRecord } from './index.js';
+import { DecisionSessionAggregate } from '../../command/decision-session.js';
+import { IssueDefinitionAggregate } from '../../command/define-issue.js';
+import { OptionSelectionAggregate } from '../../command/option-selection.js';
+import { PrepareToBeWrongAggregate } from '../../command/prepare-to-be-wrong.js';
+import { MakeDecisionAggregate } from '../../command/make-decision.js';
+import { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { DecisionId } from '../../term/decision.js';
+
+const buildDecision = (): { decisionId: DecisionId; events: DecisionEvent[] } => {
+  const started = DecisionSessionAggregate.startDecision({})._unsafeUnwrap();
+  const issue = IssueDefinitionAggregate.defineIssue({
+    issue: '社内ツールをどう用意するか',
+    context: '既存のツールが来年サポート終了になる',
+    constraints: '予算は500万円まで'
+  })._unsafeUnwrap();
+  const initial = OptionSelectionAggregate.registerOptions({
+    options: [{ text: '内製する' }, { text: '外注する' }, { text: '既製品を買う' }],
+    widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+    existingOptionIds: []
+  })._unsafeUnwrap();
+  const fixed = OptionSelectionAggregate.registerOptions({
+    options: [{ text: '内製する' }, { text: '既製品を買う' }, { text: '既製品を買って一部だけ内製する' }],
+    widenOptionsStep: WidenOptionsSteps.fixed(),
+    existingOptionIds: []
+  })._unsafeUnwrap();
+  const [chosen, rejected] = fixed.optionList.options.map(option => option.id);
+  const tripwires = PrepareToBeWrongAggregate.setTripwires({
+    tripwires: [{
+      optionId: chosen,
+      criteria: [{ description: '開発費の超過', type: 'cost', threshold: '予算の120%', severity: 'critical' }]
+    }],
+    existingOptionIds: [chosen, rejected]
+  })._unsafeUnwrap();
+  const decision = MakeDecisionAggregate.makeDecision({
+    chosenOptionId: chosen,
+    rationale: '要件に合わせやすい',
+    rejectedOptions: [{ optionId: rejected, reason: '業務に合わない' }],
+    reviewDate: '2999-01-01',
+    existingOptionIds: fixed.optionList.options.map(option => option.id)
+  })._unsafeUnwrap();
+
+  return { decisionId: started.decisionId, events: [started, issue, initial, fixed, tripwires, decision] };
+};
+
+// 選んだ選択肢の critical な撤退基準に抵触した評価
+const criticalTripwireFired = (events: DecisionEvent[]): DecisionEvent => {
+  const tripwires = events.find(event => event.type === 'TripwiresSet');
+  const [tripwire] = tripwires?.type === 'TripwiresSet' ? tripwires.tripwires : [];
+  return {
+    type: 'TripwiresEvaluated',
+    observations: [],
+    firedCriteria: [{
+      optionId: tripwire.optionId,
+      criterionId: tripwire.criteria[0].id,
+      severity: 'critical',
+      observedValue: 130
+    }],
+    evaluatedAt: new Date('2025-06-01T00:00:00.000Z')
+  };
+};
+
+describe('projectDecisionRecordFromEvents', () => {
+  it('should return null when the issue is not defined', () => {
+    // Given
+    const started = DecisionSessionAggregate.startDecision({})._unsafeUnwrap();
+
+    // Then
+    expect(projectDecisionRecordFromEvents(started.decisionId, [started])).toBeNull();
+  });
+
+  it('should keep the option lists of every Widen Options step', () => {
+    // Given
+    const { decisionId, events } = buildDecision();
+
+    // When
+    const view = projectDecisionRecordFromEvents(decisionId, events);
+
+    // Then
+    const bundle = view && serializeDecisionRecord(view);
+    expect(bundle?.status).toBe('accepted');
+    expect(bundle?.optionHistory.map(entry => entry.step)).toEqual(['initial_registered', 'fixed']);
+    expect(bundle?.options.map(option => option.text)).toEqual(['内製する', '既製品を買う', '既製品を買って一部だけ内製する']);
+    expect(bundle?.finalDecision?.reviewDate).toBe('2999-01-01');
+  });
+
+  it('should derive the MADR status from the workflow state', () => {
+    // Given
+    const { decisionId, events } = buildDecision();
+    const [, issue, initial] = events;
+
+    // When
+    const status = (recorded: DecisionEvent[]) => {
+      const view = projectDecisionRecordFromEvents(decisionId, recorded);
+      return view && serializeDecisionRecord(view).status;
+    };
+
+    // Then
+    expect(status(events.slice(0, 3))).toBe('proposed');
+    expect(status(events)).toBe('accepted');
+    expect(status([...events, criticalTripwireFired(events)])).toBe('rejected');
+    expect(status([events[0], issue, initial, criticalTripwireFired(events)])).toBe('proposed');
+  });
+});
+
+describe('renderDecisionRecordMarkdown', () => {
+  it('should render the MADR sections with the chosen option and its tripwires', () => {
+    // Given
+    const { decisionId, events } = buildDecision();
+    const view = projectDecisionRecordFromEvents(decisionId, events);
+
+    // When
+    const markdown = view ? renderDecisionRecordMarkdown(view) : '';
+
+    // Then
+    expect(markdown).toContain('status: accepted');
+    expect(markdown).toContain('# 社内ツールをどう用意するか');
+    expect(markdown).toContain('## Context and Problem Statement\n\n既存のツールが来年サポート終了になる');
+    expect(markdown).toContain('## Decision Drivers\n\n* 予算は500万円まで');
+    expect(markdown).toContain('Chosen option: "内製する", because 要件に合わせやすい');
+    expect(markdown).toContain('* [critical] 開発費の超過（閾値: 予算の120%）');
+    expect(markdown).toContain('### 既製品を買う\n\n* Bad, because 業務に合わない');
+    expect(markdown).toContain('1. 初期登録した: 内製する / 外注する / 既製品を買う');
+  });
+
+  it('should write a rejected status when the decision is reconsidered', () => {
+    // Given
+    const { decisionId, events } = buildDecision();
+    const view = projectDecisionRecordFromEvents(decisionId, [...events, criticalTripwireFired(events)]);
+
+    // When
+    const markdown = view ? renderDecisionRecordMarkdown(view) : '';
+
+    // Then
+    expect(view?.workflowState).toEqual({ type: 'reconsidering' });
+    expect(markdown).toContain('status: rejected');
+    expect(markdown).not.toContain('status: accepted');
+  });
+});
@@ -0,0 +1,295 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { DecisionId } from '../../term/decision.js';
+import { getDisplayName } from '../../term/workflow-state.js';
+import { Values as FinalDecisionValues } from '../../term/final-decision.js';
+import { ConstraintKind } from '../../term/issue-definition.js';
+import { TripwireConditionModel } from '../../term/tripwire.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import { getStepDisplayName } from '../../term/widen-options-steps.js';
+import type { TripwireCriterion } from '../../term/tripwire.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import { projectIssueFromEvents, serializeStatusView } from '../current-status/index.js';
+import {
+  projectOptionsFromEvents,
+  projectOptionHistoryFromEvents,
+  serializeOptionsView,
+  serializeOptionHistoryEntry
+} from '../options/index.js';
+import { projectTripwiresFromEvents, serializeTripwire } from '../tripwires/index.js';
+import { projectFinalDecisionFromEvents, serializeFinalDecisionView } from '../final-decision/index.js';
+import { projectWorkflowStateFromEvents } from '../workflow-state/index.js';
+import type {
+  MadrStatus,
+  DecisionRecordView,
+  DecisionRecordReadError,
+  DecisionRecordQueryResult
+} from './types.js';
+
+/**
+ * Decision Record Read Model Implementation
+ *
+ * This module projects a whole decision into a decision record and renders
+ * it as a MADR (Markdown Architectural Decision Record) document or a plain
+ * JSON bundle, so that teams can keep the decision in their repository.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the decision record from a stream of events
+ *
+ * Composes the projections of the other read models over the same journal.
+ * Returns null when no issue is defined.
+ */
+export const projectDecisionRecordFromEvents = (
+  decisionId: DecisionId,
+  events: readonly DecisionEvent[]
+): DecisionRecordView | null => {
+  const issue = projectIssueFromEvents(events);
+  if (issue === null) {
+    return null;
+  }
+
+  const started = events.find(event => event.type === 'DecisionStarted');
+  const optionList = projectOptionsFromEvents(events);
+
+  return {
+    decisionId,
+    startedAt: started?.type === 'DecisionStarted' ? started.startedAt : null,
+    workflowState: projectWorkflowStateFromEvents(events),
+    issue,
+    options: optionList ? { options: optionList.options } : null,
+    optionHistory: projectOptionHistoryFromEvents(events),
+    tripwires: projectTripwiresFromEvents(events),
+    finalDecision: projectFinalDecisionFromEvents(events)
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    criterionDetails: (threshold: string, condition?: string) =>
+      `（閾値: ${threshold}${condition ? ` / 判定条件: ${condition}` : ''}）`,
+    reviewDate: (date: string) => `レビュー予定日: ${date}`,
+    chosenTripwiresHeading: '撤退基準（満たしたら決定を見直す）:',
+    tripwiresHeading: '撤退基準:',
+    notDecided: 'まだ決定していません。',
+    successCriteriaHeading: '成功基準:',
+    noOptions: 'まだ選択肢が登録されていません。',
+    optionHistoryHeading: '選択肢の変遷（Widen Options）:',
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    criterionDetails: (threshold: string, condition?: string) =>
+      ` (threshold: ${threshold}${condition ? ` / condition: ${condition}` : ''})`,
+    reviewDate: (date: string) => `Review date: ${date}`,
+    chosenTripwiresHeading: 'Trip wires (revisit the decision when one is met):',
+    tripwiresHeading: 'Trip wires:',
+    notDecided: 'Not decided yet.',
+    successCriteriaHeading: 'Success criteria:',
+    noOptions: 'No options have been registered yet.',
+    optionHistoryHeading: 'Option history (Widen Options):',
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to DecisionRecordReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): DecisionRecordReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Decision Record Query
+ *
+ * @param decisionId - The decision to export
+ * @returns Promise<Result<DecisionRecordView | null, DecisionRecordReadError>>
+ */
+export const getDecisionRecord = async (decisionId: DecisionId): Promise<DecisionRecordQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectDecisionRecordFromEvents(decisionId, events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * MADR status of the decision, derived from the workflow state
+ *
+ * - decided / under_review: accepted (the recorded decision stands while it is reviewed)
+ * - reconsidering after a decision: rejected (a critical tripwire of the chosen option fired)
+ * - anything else: proposed (not decided yet, or being reworked after a review)
+ */
+const toMadrStatus = (view: DecisionRecordView): MadrStatus => {
+  switch (view.workflowState.type) {
+    case 'decided':
+    case 'under_review':
+      return 'accepted';
+    case 'reconsidering':
+      return view.finalDecision ? 'rejected' : 'proposed';
+    default:
+      return 'proposed';
+  }
+};
+
+/**
+ * Convert DecisionRecordView to the plain JSON bundle
+ */
+export const serializeDecisionRecord = (view: DecisionRecordView) => ({
+  decisionId: DecisionId.toString(view.decisionId),
+  status: toMadrStatus(view),
+  workflowState: {
+    current: view.workflowState.type,
+    displayName: getDisplayName(view.workflowState)
+  },
+  ...(view.startedAt && { startedAt: view.startedAt.toISOString() }),
+  issue: serializeStatusView(view.issue),
+  options: view.options ? serializeOptionsView(view.options).options : [],
+  optionHistory: view.optionHistory.map(serializeOptionHistoryEntry),
+  tripwires: view.tripwires.tripwires.map(serializeTripwire),
+  ...(view.finalDecision && { finalDecision: serializeFinalDecisionView(view.finalDecision) })
+});
+
+const formatCriterionMarkdown = (criterion: TripwireCriterion): string =>
+  `* [${criterion.severity}] ${criterion.description}` +
+  messages().criterionDetails(criterion.threshold, criterion.condition && `\`${TripwireConditionModel.format(criterion.condition)}\``);
+
+/**
+ * Render the decision record as a MADR document
+ *
+ * Sections follow the MADR template: context, decision drivers (constraints
+ * and success criteria), considered options, outcome with its confirmation
+ * (tripwires of the chosen option), pros and cons per option and the option history.
+ */
+export const renderDecisionRecordMarkdown = (view: DecisionRecordView): string => {
+  const issue = serializeStatusView(view.issue);
+  const options = view.options?.options ?? [];
+  const decision = view.finalDecision?.decision ?? null;
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? optionId;
+  const criteriaOf = (optionId: string) =>
+    view.tripwires.tripwires.find(tripwire => tripwire.optionId === optionId)?.criteria ?? [];
+  const date = (view.finalDecision?.decidedAt ?? view.startedAt ?? new Date()).toISOString().slice(0, 10);
+
+  const frontMatter = [
+    '---',
+    `status: ${toMadrStatus(view)}`,
+    `date: ${date}`,
+    `decision-id: ${DecisionId.toString(view.decisionId)}`,
+    '---'
+  ];
+
+  const outcome = decision
+    ? [
+        `Chosen option: "${optionText(decision.chosenOptionId)}", because ${decision.rationale}`,
+        '',
+        '### Confirmation',
+        '',
+        messages().reviewDate(FinalDecisionValues.ReviewDate.toString(decision.reviewDate)),
+        ...(criteriaOf(decision.chosenOptionId).length > 0
+          ? ['', messages().chosenTripwiresHeading, '', ...criteriaOf(decision.chosenOptionId).map(formatCriterionMarkdown)]
+          : [])
+      ]
+    : [messages().notDecided];
+
+  const prosAndCons = options.flatMap(option => {
+    const rejection = decision?.rejectedOptions.find(rejected => rejected.optionId === option.id);
+    const criteria = criteriaOf(option.id);
+    return [
+      '',
+      `### ${option.text}`,
+      ...(option.supplementaryInfo ? ['', option.supplementaryInfo] : []),
+      ...(decision?.chosenOptionId === option.id ? ['', `* Good, because ${decision.rationale}`] : []),
+      ...(rejection ? ['', `* Bad, because ${rejection.reason}`] : []),
+      ...(criteria.length > 0 ? ['', messages().tripwiresHeading, '', ...criteria.map(formatCriterionMarkdown)] : [])
+    ];
+  });
+
+  const history = view.optionHistory.map((entry, index) =>
+    `${index + 1}. ${getStepDisplayName(entry.step)}: ${entry.options.map(option => option.text).join(' / ')}`
+  );
+
+  return [
+    ...frontMatter,
+    '',
+    `# ${issue.issue}`,
+    '',
+    '## Context and Problem Statement',
+    '',
+    issue.context,
+    '',
+    '## Decision Drivers',
+    '',
+    `* ${issue.constraints}`,
+    ...issue.constraintItems.map(constraint => `* [${ConstraintKind.toDisplayName(constraint.kind)}] ${constraint.text}`),
+    ...(issue.successCriteria.length > 0
+      ? ['', messages().successCriteriaHeading, '', ...issue.successCriteria.map(criterion => `* ${criterion.text}`)]
+      : []),
+    '',
+    '## Considered Options',
+    '',
+    ...(options.length > 0 ? options.map(option => `* ${option.text}`) : [messages().noOptions]),
+    '',
+    '## Decision Outcome',
+    '',
+    ...outcome,
+    ...(options.length > 0 ? ['', '## Pros and Cons of the Options', ...prosAndCons] : []),
+    ...(history.length > 0 ? ['', '## More Information', '', messages().optionHistoryHeading, '', ...history] : []),
+    ''
+  ].join('\n');
+};
+
+/**
+ * Convert DecisionRecordReadError to user-friendly message
+ */
+export const formatDecisionRecordReadError = (error: DecisionRecordReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
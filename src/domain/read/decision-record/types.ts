@@ -0,0 +1,63 @@
+import { Result } from 'neverthrow';
+import type { DecisionId } from '../../term/decision.js';
+import type { WorkflowState } from '../../term/workflow-state.js';
+import type { IssueStatusView } from '../current-status/types.js';
+import type { OptionsView, OptionHistoryEntry } from '../options/types.js';
+import type { TripwiresView } from '../tripwires/types.js';
+import type { FinalDecisionView } from '../final-decision/types.js';
+
+/**
+ * Decision Record Read Model Types
+ *
+ * This module defines the read-side types for exporting a whole decision
+ * as a decision record (ADR). It is composed from the other read models.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decision Record View - Everything that goes into an exported decision record
+ *
+ * options is the current (latest) option list; optionHistory keeps every list
+ * registered across the Widen Options steps.
+ */
+export type DecisionRecordView = {
+  readonly decisionId: DecisionId;
+  readonly startedAt: Date | null;
+  readonly workflowState: WorkflowState;
+  readonly issue: IssueStatusView;
+  readonly options: OptionsView | null;
+  readonly optionHistory: readonly OptionHistoryEntry[];
+  readonly tripwires: TripwiresView;
+  readonly finalDecision: FinalDecisionView | null;
+};
+
+/**
+ * MADR Status - The status written to the front matter of the exported record
+ */
+export type MadrStatus = 'proposed' | 'accepted' | 'rejected';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decision Record Read Error - Categorized failures during read operations
+ */
+export type DecisionRecordReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decision Record Query Result
+ *
+ * null (not an error) is returned when the issue has not been defined yet,
+ * since there is nothing to record.
+ */
+export type DecisionRecordQueryResult = Result<DecisionRecordView | null, DecisionRecordReadError>;
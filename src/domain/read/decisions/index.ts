@@ -0,0 +1,133 @@
+import { ok, err } from 'neverthrow';
+import { listDecisionIds, getActiveDecisionId } from '../../../effect/decision-storage.js';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { DecisionId } from '../../term/decision.js';
+import { getDisplayName } from '../../term/workflow-state.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import { projectIssueFromEvents } from '../current-status/index.js';
+import { projectWorkflowStateFromEvents } from '../workflow-state/index.js';
+import type { DecisionSummaryView, DecisionListView, DecisionsReadError, DecisionListQueryResult } from './types.js';
+
+/**
+ * Decisions Read Model Implementation
+ * 
+ * This module provides query functions for listing all decisions so that
+ * an agent can pick one to resume.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Find when the decision was started
+ */
+const projectStartedAtFromEvents = (events: readonly DecisionEvent[]): string => {
+  const started = events.find(event => event.type === 'DecisionStarted');
+  return started?.type === 'DecisionStarted' ? started.startedAt.toISOString() : '';
+};
+
+/**
+ * Build the summary of one decision by projecting its journal
+ * 
+ * An unreadable journal does not fail the whole list - the decision is
+ * still listed so that it can be switched to and repaired.
+ */
+const buildDecisionSummary = async (
+  decisionId: DecisionId,
+  activeDecisionId: DecisionId | null
+): Promise<DecisionSummaryView> => {
+  const eventsResult = await loadEvents(decisionId);
+  const events = eventsResult.isOk() ? eventsResult.value : [];
+  const issueDefinition = projectIssueFromEvents(events);
+
+  return {
+    id: decisionId,
+    issue: issueDefinition ? issueDefinition.issue : null,
+    workflowState: projectWorkflowStateFromEvents(events),
+    startedAt: projectStartedAtFromEvents(events),
+    isActive: decisionId === activeDecisionId
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * List Decisions Query
+ * 
+ * @returns Promise<Result<DecisionListView, DecisionsReadError>>
+ *   - Ok(DecisionListView) with an empty list when no decision has been started
+ *   - Err(DecisionsReadError) when the data directory cannot be read
+ */
+export const listDecisions = async (): Promise<DecisionListQueryResult> => {
+  const [idsResult, activeResult] = await Promise.all([
+    listDecisionIds(),
+    getActiveDecisionId()
+  ]);
+
+  if (idsResult.isErr()) {
+    return err({
+      type: 'FileSystemError',
+      message: idsResult.error.message,
+      originalError: idsResult.error.originalError
+    });
+  }
+
+  const activeDecisionId = activeResult.isOk() ? activeResult.value : null;
+  const summaries = await Promise.all(
+    idsResult.value.map(decisionId => buildDecisionSummary(decisionId, activeDecisionId))
+  );
+
+  const view: DecisionListView = {
+    decisions: summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt)),
+    activeDecisionId
+  };
+
+  return ok(view);
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert DecisionSummaryView to serializable format for MCP responses
+ */
+export const serializeDecisionSummary = (summary: DecisionSummaryView) => ({
+  id: DecisionId.toString(summary.id),
+  ...(summary.issue !== null && { issue: summary.issue }),
+  workflowState: summary.workflowState.type,
+  workflowStateDisplayName: getDisplayName(summary.workflowState),
+  startedAt: summary.startedAt,
+  isActive: summary.isActive
+});
+
+/**
+ * Convert DecisionsReadError to user-friendly message
+ */
+export const formatDecisionsReadError = (error: DecisionsReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,51 @@
+import { Result } from 'neverthrow';
+import type { DecisionId } from '../../term/decision.js';
+import type { WorkflowState } from '../../term/workflow-state.js';
+
+/**
+ * Decisions Read Model Types
+ * 
+ * This module defines the read-side types for listing all stored decisions.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decision Summary View - One row of the decision list
+ * 
+ * issue is null when the decision was started but its issue could not be read.
+ */
+export type DecisionSummaryView = {
+  readonly id: DecisionId;
+  readonly issue: string | null;
+  readonly workflowState: WorkflowState;
+  readonly startedAt: string;
+  readonly isActive: boolean;
+};
+
+/**
+ * Decision List View - All decisions ordered by start time (newest first)
+ */
+export type DecisionListView = {
+  readonly decisions: readonly DecisionSummaryView[];
+  readonly activeDecisionId: DecisionId | null;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Decisions Read Error - Categorized failures during read operations
+ */
+export type DecisionsReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type DecisionListQueryResult = Result<DecisionListView, DecisionsReadError>;
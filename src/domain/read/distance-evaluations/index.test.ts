@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { projectDistanceEvaluationsFromEvents, serializeDistanceEvaluation } from './index.js';
+import { AttainDistanceAggregate } from '../../command/attain-distance.js';
+import type { OptionId } from '../../term/option.js';
+import type { RequestedDistanceEvaluation } from '../../term/distance-evaluation.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const inHouse = 'option-in-house' as OptionId;
+const outsource = 'option-outsource' as OptionId;
+
+const requested = (optionId: string, tenYears = '技術が社内に残っていてよかったと思う'): RequestedDistanceEvaluation => ({
+  optionId,
+  tenMinutes: '手間が増えて不安',
+  tenMonths: '立ち上がりの苦労を忘れている',
+  tenYears,
+  outsideView: '後任者なら迷わず選ぶ'
+});
+
+const evaluate = (evaluations: RequestedDistanceEvaluation[], evaluatedOptionIds: OptionId[] = []) =>
+  AttainDistanceAggregate.evaluateDistance({
+    evaluations,
+    existingOptionIds: [inHouse, outsource],
+    evaluatedOptionIds
+  });
+
+describe('projectDistanceEvaluationsFromEvents', () => {
+  it('should return an empty list when no option is evaluated', () => {
+    // When
+    const view = projectDistanceEvaluationsFromEvents([]);
+
+    // Then
+    expect(view.evaluations).toEqual([]);
+  });
+
+  it('should replace the evaluation of a re-evaluated option in place', () => {
+    // Given
+    const first = evaluate([requested(inHouse), requested(outsource)])._unsafeUnwrap();
+    const second = evaluate([requested(inHouse, '保守の負担を後悔している')], [inHouse, outsource])._unsafeUnwrap();
+
+    // When
+    const view = projectDistanceEvaluationsFromEvents([first, second]);
+
+    // Then
+    expect(view.evaluations.map(evaluation => evaluation.optionId)).toEqual([inHouse, outsource]);
+    expect(serializeDistanceEvaluation(view.evaluations[0]).tenYears).toBe('保守の負担を後悔している');
+  });
+
+  it('should clear the evaluations on reset', () => {
+    // Given
+    const events: DecisionEvent[] = [
+      evaluate([requested(inHouse)])._unsafeUnwrap(),
+      { type: 'DecisionProcessReset', timestamp: new Date() }
+    ];
+
+    // When
+    const view = projectDistanceEvaluationsFromEvents(events);
+
+    // Then
+    expect(view.evaluations).toEqual([]);
+  });
+});
+
+describe('AttainDistanceAggregate', () => {
+  it('should accept assessments up to 100 characters and trim them', () => {
+    // When
+    const result = evaluate([{ ...requested(inHouse), tenMinutes: 'あ'.repeat(100), outsideView: '  後任者なら選ぶ  ' }]);
+
+    // Then
+    const [evaluation] = result._unsafeUnwrap().evaluations;
+    expect(serializeDistanceEvaluation(evaluation).tenMinutes).toBe('あ'.repeat(100));
+    expect(serializeDistanceEvaluation(evaluation).outsideView).toBe('後任者なら選ぶ');
+  });
+
+  it('should reject empty and too long assessments with every validation error', () => {
+    // When
+    const result = evaluate([{ ...requested(inHouse), tenMonths: ' ', outsideView: 'あ'.repeat(101) }]);
+
+    // Then
+    const error = result._unsafeUnwrapErr();
+    expect(error.type).toBe('ValidationFailed');
+    expect(error.type === 'ValidationFailed' && error.validationErrors.map(e => [e.field, e.type])).toEqual([
+      ['tenMonths', 'required'],
+      ['outsideView', 'too_long']
+    ]);
+  });
+
+  it('should reject an evaluation of an unknown option', () => {
+    // When
+    const result = evaluate([requested('option-unknown')]);
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'UnknownOption', optionId: 'option-unknown' });
+  });
+
+  it('should reject two evaluations of the same option in one record', () => {
+    // When
+    const result = evaluate([requested(inHouse), requested(inHouse)]);
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'DuplicateOption', optionId: inHouse });
+  });
+
+  it('should reject evaluations when no option is registered', () => {
+    // When
+    const result = AttainDistanceAggregate.evaluateDistance({
+      evaluations: [requested(inHouse)],
+      existingOptionIds: [],
+      evaluatedOptionIds: []
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'NoOptionsRegistered' });
+  });
+
+  it('should count the options that are still not evaluated', () => {
+    // When
+    const first = evaluate([requested(inHouse)])._unsafeUnwrap();
+    const again = evaluate([requested(inHouse)], [inHouse])._unsafeUnwrap();
+    const last = evaluate([requested(outsource)], [inHouse])._unsafeUnwrap();
+
+    // Then
+    expect(first.remainingUnevaluatedCount).toBe(1);
+    expect(again.remainingUnevaluatedCount).toBe(1);
+    expect(last.remainingUnevaluatedCount).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { Values } from '../../term/distance-evaluation.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DistanceEvaluation } from '../../term/distance-evaluation.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  DistanceEvaluationsView,
+  DistanceEvaluationsReadError,
+  CurrentDistanceEvaluationsQueryResult
+} from './types.js';
+
+/**
+ * Distance Evaluations Read Model Implementation
+ *
+ * This module provides query functions for retrieving the evaluations recorded
+ * in the Attain Distance phase.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the latest distance evaluation of each option from a stream of events
+ *
+ * Re-evaluating an option replaces its previous evaluation in place;
+ * a reset clears everything.
+ */
+export const projectDistanceEvaluationsFromEvents = (events: readonly DecisionEvent[]): DistanceEvaluationsView => {
+  let evaluations: DistanceEvaluation[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'DistanceEvaluated':
+        for (const evaluation of event.evaluations) {
+          const index = evaluations.findIndex(existing => existing.optionId === evaluation.optionId);
+          evaluations = index === -1
+            ? [...evaluations, evaluation]
+            : evaluations.map((existing, i) => (i === index ? evaluation : existing));
+        }
+        break;
+      case 'DecisionProcessReset':
+        evaluations = [];
+        break;
+    }
+  }
+
+  return { evaluations };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    tenMinutes: '10分後',
+    tenMonths: '10ヶ月後',
+    tenYears: '10年後',
+    outsideView: '外部の視点',
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    tenMinutes: 'In 10 minutes',
+    tenMonths: 'In 10 months',
+    tenYears: 'In 10 years',
+    outsideView: 'Outside view',
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to DistanceEvaluationsReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): DistanceEvaluationsReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Current Distance Evaluations Query
+ *
+ * Projects the distance evaluations of a decision from its journal.
+ *
+ * @param decisionId - The decision whose evaluations are queried
+ * @returns Promise<Result<DistanceEvaluationsView, DistanceEvaluationsReadError>>
+ */
+export const getCurrentDistanceEvaluations = async (
+  decisionId: DecisionId
+): Promise<CurrentDistanceEvaluationsQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectDistanceEvaluationsFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert DistanceEvaluation to serializable format for MCP responses
+ */
+export const serializeDistanceEvaluation = (evaluation: DistanceEvaluation) => ({
+  optionId: evaluation.optionId,
+  tenMinutes: Values.HorizonAssessment.toString(evaluation.tenTenTen.tenMinutes),
+  tenMonths: Values.HorizonAssessment.toString(evaluation.tenTenTen.tenMonths),
+  tenYears: Values.HorizonAssessment.toString(evaluation.tenTenTen.tenYears),
+  outsideView: Values.OutsideView.toString(evaluation.outsideView)
+});
+
+/**
+ * Format one evaluation as human-readable lines
+ */
+export const formatDistanceEvaluation = (evaluation: DistanceEvaluation, optionText: string): string =>
+  `■ ${optionText}\n` +
+  `  ${messages().tenMinutes}: ${evaluation.tenTenTen.tenMinutes}\n` +
+  `  ${messages().tenMonths}: ${evaluation.tenTenTen.tenMonths}\n` +
+  `  ${messages().tenYears}: ${evaluation.tenTenTen.tenYears}\n` +
+  `  ${messages().outsideView}: ${evaluation.outsideView}`;
+
+/**
+ * Convert DistanceEvaluationsReadError to user-friendly message
+ */
+export const formatDistanceEvaluationsReadError = (error: DistanceEvaluationsReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,43 @@
+import { Result } from 'neverthrow';
+import type { DistanceEvaluation } from '../../term/distance-evaluation.js';
+
+/**
+ * Distance Evaluations Read Model Types
+ *
+ * This module defines the read-side types for querying the Attain Distance
+ * evaluations (10/10/10 and outside view) recorded for each option.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Distance Evaluations View - The latest evaluation of each evaluated option
+ */
+export type DistanceEvaluationsView = {
+  readonly evaluations: readonly DistanceEvaluation[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Distance Evaluations Read Error - Categorized failures during read operations
+ */
+export type DistanceEvaluationsReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Current Distance Evaluations Query Result
+ *
+ * An empty list (not an error) is returned when no option has been evaluated.
+ */
+export type CurrentDistanceEvaluationsQueryResult = Result<DistanceEvaluationsView, DistanceEvaluationsReadError>;
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { projectFinalDecisionFromEvents, serializeFinalDecisionView } from './index.js';
+import { MakeDecisionAggregate } from '../../command/make-decision.js';
+import type { OptionId } from '../../term/option.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const chosen = 'option-chosen' as OptionId;
+const rejected = 'option-rejected' as OptionId;
+
+const makeDecision = (rationale: string) =>
+  MakeDecisionAggregate.makeDecision({
+    chosenOptionId: chosen,
+    rationale,
+    rejectedOptions: [{ optionId: rejected, reason: '初期費用が高い' }],
+    reviewDate: '2999-01-01',
+    existingOptionIds: [chosen, rejected]
+  });
+
+describe('projectFinalDecisionFromEvents', () => {
+  it('should keep the latest decision and mark it under review', () => {
+    // Given
+    const first = makeDecision('早く始められる')._unsafeUnwrap();
+    const second = makeDecision('レビューの結果も変わらず早く始められる')._unsafeUnwrap();
+    const review = MakeDecisionAggregate.startReview({ currentDecision: second.decision })._unsafeUnwrap();
+
+    // When
+    const view = projectFinalDecisionFromEvents([first, second, review]);
+
+    // Then
+    expect(view?.decision.rationale).toBe('レビューの結果も変わらず早く始められる');
+    expect(view && serializeFinalDecisionView(view).reviewDate).toBe('2999-01-01');
+    expect(view?.reviewStartedAt).toEqual(review.startedAt);
+  });
+
+  it('should clear the decision on reset', () => {
+    // Given
+    const events: DecisionEvent[] = [
+      makeDecision('早く始められる')._unsafeUnwrap(),
+      { type: 'DecisionProcessReset', timestamp: new Date() }
+    ];
+
+    // Then
+    expect(projectFinalDecisionFromEvents(events)).toBeNull();
+  });
+});
+
+describe('MakeDecisionAggregate', () => {
+  it('should reject an option that is not in the current option list', () => {
+    // When
+    const result = MakeDecisionAggregate.makeDecision({
+      chosenOptionId: 'option-unknown',
+      rationale: '早く始められる',
+      rejectedOptions: [],
+      reviewDate: '2999-01-01',
+      existingOptionIds: [chosen, rejected]
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'UnknownOption', optionId: 'option-unknown' });
+  });
+
+  it('should reject a review date that is not in the future', () => {
+    // When
+    const result = MakeDecisionAggregate.makeDecision({
+      chosenOptionId: chosen,
+      rationale: '早く始められる',
+      rejectedOptions: [],
+      reviewDate: '2000-01-01',
+      existingOptionIds: [chosen, rejected]
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr().type).toBe('ValidationFailed');
+  });
+});
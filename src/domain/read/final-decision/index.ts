@@ -0,0 +1,175 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { Values } from '../../term/final-decision.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  FinalDecisionView,
+  FinalDecisionReadError,
+  CurrentFinalDecisionQueryResult
+} from './types.js';
+
+/**
+ * Final Decision Read Model Implementation
+ *
+ * This module provides query functions for retrieving the final decision
+ * recorded by the make-decision tool.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the latest final decision from a stream of events
+ *
+ * Deciding again (e.g. after a review) replaces the previous decision;
+ * a reset clears it.
+ */
+export const projectFinalDecisionFromEvents = (events: readonly DecisionEvent[]): FinalDecisionView | null => {
+  let view = null as FinalDecisionView | null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'DecisionMade':
+        view = { decision: event.decision, decidedAt: event.decidedAt, reviewStartedAt: null };
+        break;
+      case 'DecisionReviewStarted':
+        if (view !== null) {
+          view = { ...view, reviewStartedAt: event.startedAt };
+        }
+        break;
+      case 'DecisionProcessReset':
+        view = null;
+        break;
+    }
+  }
+
+  return view;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    decision: '決定',
+    rationale: '理由',
+    rejected: (option: string, reason: string) => `選ばなかった: ${option}（${reason}）`,
+    reviewDate: 'レビュー予定日',
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    decision: 'Decision',
+    rationale: 'Rationale',
+    rejected: (option: string, reason: string) => `Rejected: ${option} (${reason})`,
+    reviewDate: 'Review date',
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to FinalDecisionReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): FinalDecisionReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Current Final Decision Query
+ *
+ * Projects the final decision of a decision process from its journal.
+ *
+ * @param decisionId - The decision process whose final decision is queried
+ * @returns Promise<Result<FinalDecisionView | null, FinalDecisionReadError>>
+ */
+export const getCurrentFinalDecision = async (
+  decisionId: DecisionId
+): Promise<CurrentFinalDecisionQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectFinalDecisionFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert FinalDecisionView to serializable format for MCP responses
+ */
+export const serializeFinalDecisionView = (view: FinalDecisionView) => ({
+  chosenOptionId: view.decision.chosenOptionId,
+  rationale: Values.Rationale.toString(view.decision.rationale),
+  rejectedOptions: view.decision.rejectedOptions.map(rejected => ({
+    optionId: rejected.optionId,
+    reason: rejected.reason
+  })),
+  reviewDate: Values.ReviewDate.toString(view.decision.reviewDate),
+  decidedAt: view.decidedAt.toISOString(),
+  ...(view.reviewStartedAt && { reviewStartedAt: view.reviewStartedAt.toISOString() })
+});
+
+/**
+ * Format the final decision as human-readable lines
+ *
+ * @param optionText - Resolves an option ID to its text for display
+ */
+export const formatFinalDecision = (
+  view: FinalDecisionView,
+  optionText: (optionId: string) => string
+): string =>
+  `${messages().decision}: ${optionText(view.decision.chosenOptionId)}\n` +
+  `  ${messages().rationale}: ${view.decision.rationale}\n` +
+  view.decision.rejectedOptions
+    .map(rejected => `  ${messages().rejected(optionText(rejected.optionId), rejected.reason)}\n`)
+    .join('') +
+  `  ${messages().reviewDate}: ${Values.ReviewDate.toString(view.decision.reviewDate)}`;
+
+/**
+ * Convert FinalDecisionReadError to user-friendly message
+ */
+export const formatFinalDecisionReadError = (error: FinalDecisionReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,46 @@
+import { Result } from 'neverthrow';
+import type { FinalDecision } from '../../term/final-decision.js';
+
+/**
+ * Final Decision Read Model Types
+ *
+ * This module defines the read-side types for querying which option was
+ * finally chosen, why, and when the decision is to be reviewed.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Final Decision View - The latest recorded decision
+ */
+export type FinalDecisionView = {
+  readonly decision: FinalDecision;
+  readonly decidedAt: Date;
+  // レビュー中でなければ null
+  readonly reviewStartedAt: Date | null;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Final Decision Read Error - Categorized failures during read operations
+ */
+export type FinalDecisionReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Current Final Decision Query Result
+ *
+ * null (not an error) is returned when no decision has been made yet.
+ */
+export type CurrentFinalDecisionQueryResult = Result<FinalDecisionView | null, FinalDecisionReadError>;
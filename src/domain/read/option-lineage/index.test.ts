@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { projectOptionLineageFromEvents, formatOptionLineage } from './index.js';
+import { OptionSelectionAggregate } from '../../command/option-selection.js';
+import { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const buildLadderedEvents = (): DecisionEvent[] => {
+  const initial = OptionSelectionAggregate.registerOptions({
+    options: [{ text: '内製する' }, { text: '外注する' }, { text: '既製品を買う' }],
+    widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+    existingOptionIds: []
+  })._unsafeUnwrap();
+  const [inHouse, outsource, packaged] = initial.optionList.options.map(option => option.id);
+
+  const laddered = OptionSelectionAggregate.registerOptions({
+    options: [
+      { id: inHouse, text: '内製する' },
+      { id: packaged, text: '既製品を買う' },
+      { text: '既製品を一部だけ内製する', parentId: packaged }
+    ],
+    widenOptionsStep: WidenOptionsSteps.laddered(),
+    existingOptionIds: [inHouse, outsource, packaged]
+  })._unsafeUnwrap();
+
+  return [initial, laddered];
+};
+
+describe('projectOptionLineageFromEvents', () => {
+  it('should keep carried-over options and record the step that introduced, removed or derived each one', () => {
+    // When
+    const view = projectOptionLineageFromEvents(buildLadderedEvents());
+
+    // Then
+    const [inHouse, outsource, packaged, partial] = view.entries;
+    expect(view.entries.map(entry => entry.option.text)).toEqual([
+      '内製する', '外注する', '既製品を買う', '既製品を一部だけ内製する'
+    ]);
+    expect(inHouse.introducedAt.type).toBe('initial_registered');
+    expect(inHouse.removedAt).toBeNull();
+    expect(outsource.removedAt?.type).toBe('laddered');
+    expect(partial.introducedAt.type).toBe('laddered');
+    expect(partial.parentId).toBe(packaged.option.id);
+  });
+
+  it('should show laddered options under their parent', () => {
+    // When
+    const text = formatOptionLineage(projectOptionLineageFromEvents(buildLadderedEvents()));
+
+    // Then
+    const lines = text.split('\n');
+    const parentLine = lines.findIndex(line => line.startsWith('- 既製品を買う'));
+    expect(lines[parentLine + 1]).toMatch(/^ {2}- 既製品を一部だけ内製する（ラダリングした時に追加）/);
+  });
+
+  it('should clear the lineage on reset', () => {
+    // Given
+    const events: DecisionEvent[] = [...buildLadderedEvents(), { type: 'DecisionProcessReset', timestamp: new Date() }];
+
+    // When
+    const view = projectOptionLineageFromEvents(events);
+
+    // Then
+    expect(view.entries).toEqual([]);
+  });
+});
+
+describe('OptionSelectionAggregate.registerOptions', () => {
+  it('should reject carrying over an option that is not currently registered', () => {
+    // When
+    const result = OptionSelectionAggregate.registerOptions({
+      options: [{ id: 'option-unknown', text: '内製する' }, { text: '外注する' }, { text: '既製品を買う' }],
+      widenOptionsStep: WidenOptionsSteps.laddered(),
+      existingOptionIds: []
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'UnknownOption', optionId: 'option-unknown' });
+  });
+});
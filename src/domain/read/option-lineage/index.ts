@@ -0,0 +1,227 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { getStepDisplayName, type WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  OptionLineageEntry,
+  OptionLineageView,
+  OptionLineageReadError,
+  OptionLineageQueryResult
+} from './types.js';
+
+/**
+ * Option Lineage Read Model Implementation
+ *
+ * This module provides query functions for tracing which Widen Options step
+ * introduced and removed each option, and which option a laddered one came from.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the lineage of every option from a stream of events
+ *
+ * Options are matched by ID across OptionsGenerated events: an ID missing from
+ * a later list was removed at that step. Options added or removed one by one
+ * belong to the latest registered step. A reset clears the lineage.
+ */
+export const projectOptionLineageFromEvents = (events: readonly DecisionEvent[]): OptionLineageView => {
+  let entries: OptionLineageEntry[] = [];
+  // 1つずつ編集した選択肢は、直近に選択肢を登録したステップで追加・除外されたものとする
+  let currentStep: WidenOptionsSteps | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'OptionsGenerated': {
+        const step = event.widenOptionsStep;
+        currentStep = step;
+        const registered = new Map(event.optionList.options.map(option => [option.id, option]));
+
+        entries = entries.map(entry => {
+          const option = registered.get(entry.option.id);
+          if (option) {
+            return { ...entry, option, removedAt: null };
+          }
+          return entry.removedAt === null ? { ...entry, removedAt: step } : entry;
+        });
+
+        const known = new Set(entries.map(entry => entry.option.id));
+        const introduced = event.optionList.options
+          .filter(option => !known.has(option.id))
+          .map((option): OptionLineageEntry => ({
+            option,
+            introducedAt: step,
+            removedAt: null,
+            parentId: option.parentId ?? null
+          }));
+        entries = [...entries, ...introduced];
+        break;
+      }
+      case 'OptionAdded':
+        if (currentStep) {
+          entries = [...entries, {
+            option: event.option,
+            introducedAt: currentStep,
+            removedAt: null,
+            parentId: event.option.parentId ?? null
+          }];
+        }
+        break;
+      case 'OptionUpdated':
+        entries = entries.map(entry =>
+          entry.option.id === event.option.id && entry.removedAt === null ? { ...entry, option: event.option } : entry
+        );
+        break;
+      case 'OptionRemoved':
+        entries = entries.map(entry =>
+          entry.option.id === event.optionId && entry.removedAt === null ? { ...entry, removedAt: currentStep } : entry
+        );
+        break;
+      case 'DecisionProcessReset':
+        entries = [];
+        currentStep = null;
+        break;
+    }
+  }
+
+  return { entries };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    lifetime: (introducedAt: string, removedAt: string | null) =>
+      `（${introducedAt}時に追加${removedAt ? `、${removedAt}時に除外` : ''}）`,
+    noOptions: '選択肢はまだ登録されていません',
+    heading: '選択肢の系譜:',
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    lifetime: (introducedAt: string, removedAt: string | null) =>
+      ` (added at ${introducedAt}${removedAt ? `, removed at ${removedAt}` : ''}) `,
+    noOptions: 'No options have been registered yet',
+    heading: 'Option lineage:',
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to OptionLineageReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): OptionLineageReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Option Lineage Query
+ *
+ * Projects the provenance of every option of a decision process from its journal.
+ *
+ * @param decisionId - The decision process whose option lineage is queried
+ * @returns Promise<Result<OptionLineageView, OptionLineageReadError>>
+ */
+export const getOptionLineage = async (decisionId: DecisionId): Promise<OptionLineageQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectOptionLineageFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert OptionLineageView to serializable format for MCP responses
+ */
+export const serializeOptionLineageView = (view: OptionLineageView) => ({
+  options: view.entries.map(entry => ({
+    id: entry.option.id,
+    text: entry.option.text,
+    ...(entry.option.supplementaryInfo && { supplementaryInfo: entry.option.supplementaryInfo }),
+    introducedAt: entry.introducedAt.type,
+    ...(entry.removedAt && { removedAt: entry.removedAt.type }),
+    ...(entry.parentId && { parentId: entry.parentId })
+  }))
+});
+
+const describeEntry = (entry: OptionLineageEntry): string =>
+  `${entry.option.text}` +
+  `${messages().lifetime(getStepDisplayName(entry.introducedAt), entry.removedAt && getStepDisplayName(entry.removedAt))}[${entry.option.id}]`;
+
+/**
+ * Format the lineage as a tree of options, laddered options under their parents
+ */
+export const formatOptionLineage = (view: OptionLineageView): string => {
+  if (view.entries.length === 0) {
+    return messages().noOptions;
+  }
+
+  const ids = new Set(view.entries.map(entry => entry.option.id));
+  const childrenOf = (parentId: string | null) =>
+    view.entries.filter(entry =>
+      parentId === null
+        ? entry.parentId === null || !ids.has(entry.parentId)
+        : entry.parentId === parentId
+    );
+
+  const lines = (entries: readonly OptionLineageEntry[], depth: number): string[] =>
+    entries.flatMap(entry => [
+      `${'  '.repeat(depth)}- ${describeEntry(entry)}`,
+      ...lines(childrenOf(entry.option.id), depth + 1)
+    ]);
+
+  return [messages().heading, ...lines(childrenOf(null), 0)].join('\n');
+};
+
+/**
+ * Convert OptionLineageReadError to user-friendly message
+ */
+export const formatOptionLineageReadError = (error: OptionLineageReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,57 @@
+import { Result } from 'neverthrow';
+import type { Option, OptionId } from '../../term/option.js';
+import type { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+
+/**
+ * Option Lineage Read Model Types
+ *
+ * This module defines the read-side types for querying where each option came
+ * from across the Widen Options steps.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Option Lineage Entry - Provenance of one option
+ *
+ * option holds the latest text of the option while it was registered.
+ */
+export type OptionLineageEntry = {
+  readonly option: Option;
+  // 選択肢が追加されたステップ
+  readonly introducedAt: WidenOptionsSteps;
+  // 選択肢が外されたステップ（現在も登録されていれば null）
+  readonly removedAt: WidenOptionsSteps | null;
+  // ラダリングで派生した選択肢の派生元（なければ null）
+  readonly parentId: OptionId | null;
+};
+
+/**
+ * Option Lineage View - Every option registered since the last reset, in order of introduction
+ */
+export type OptionLineageView = {
+  readonly entries: readonly OptionLineageEntry[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Option Lineage Read Error - Categorized failures during read operations
+ */
+export type OptionLineageReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Option Lineage Query Result
+ */
+export type OptionLineageQueryResult = Result<OptionLineageView, OptionLineageReadError>;
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { projectScoreMatrixFromEvents } from './index.js';
+import { ScoreOptionsAggregate } from '../../command/score-options.js';
+import { OptionSelectionAggregate } from '../../command/option-selection.js';
+import { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import type { OptionId } from '../../term/option.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const optionA = 'option-a' as OptionId;
+const optionB = 'option-b' as OptionId;
+
+const scoreOptions = () =>
+  ScoreOptionsAggregate.scoreOptions({
+    criteria: [
+      { name: 'コスト', weight: 2, direction: 'minimize' },
+      { name: '品質', weight: 1, direction: 'maximize' }
+    ],
+    scores: [
+      { optionId: optionA, criterion: 'コスト', score: 2 },
+      { optionId: optionA, criterion: '品質', score: 6 },
+      { optionId: optionB, criterion: 'コスト', score: 6 },
+      { optionId: optionB, criterion: '品質', score: 10 }
+    ],
+    existingOptionIds: [optionA, optionB]
+  });
+
+describe('projectScoreMatrixFromEvents', () => {
+  it('should rank options by weighted total and compute weight sensitivity', () => {
+    // When
+    const view = projectScoreMatrixFromEvents([scoreOptions()._unsafeUnwrap()]);
+
+    // Then
+    expect(view?.ranking.map(ranked => ranked.optionId)).toEqual([optionA, optionB]);
+    expect(view?.ranking[0].weightedTotal).toBeCloseTo(22 / 3);
+    expect(view?.ranking[1].weightedTotal).toBeCloseTo(6);
+    expect(view?.sensitivity).toEqual([
+      { criterion: 'コスト', weight: 2, weightChange: -1, newTopOptionId: optionB },
+      { criterion: '品質', weight: 1, weightChange: 1, newTopOptionId: optionB }
+    ]);
+  });
+
+  it('should discard the matrix when options are registered again or on reset', () => {
+    // Given
+    const scored = scoreOptions()._unsafeUnwrap();
+    const registered = OptionSelectionAggregate.registerOptions({
+      options: [{ text: '内製する' }, { text: '外注する' }, { text: '既製品を買う' }],
+      widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+      existingOptionIds: []
+    })._unsafeUnwrap();
+    const regenerated: DecisionEvent[] = [scored, registered];
+    const reset: DecisionEvent[] = [scored, { type: 'DecisionProcessReset', timestamp: new Date() }];
+
+    // Then
+    expect(projectScoreMatrixFromEvents(regenerated)).toBeNull();
+    expect(projectScoreMatrixFromEvents(reset)).toBeNull();
+  });
+});
+
+describe('ScoreOptionsAggregate', () => {
+  it('should reject a matrix with a missing score', () => {
+    // When
+    const result = ScoreOptionsAggregate.scoreOptions({
+      criteria: [{ name: 'コスト', weight: 1, direction: 'minimize' }],
+      scores: [{ optionId: optionA, criterion: 'コスト', score: 3 }],
+      existingOptionIds: [optionA, optionB]
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'MissingScore', optionId: optionB, criterion: 'コスト' });
+  });
+});
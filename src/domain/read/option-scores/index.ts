@@ -0,0 +1,298 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { OptionScoreModel } from '../../term/scoring.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { ScoringCriterion, OptionScore } from '../../term/scoring.js';
+import type { OptionId } from '../../term/option.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  ScoreMatrixView,
+  RankedOption,
+  WeightSensitivity,
+  OptionScoresReadError,
+  CurrentOptionScoresQueryResult
+} from './types.js';
+
+/**
+ * Option Scores Read Model Implementation
+ *
+ * This module provides query functions for retrieving the weighted scoring
+ * matrix recorded by the score-options tool, together with the ranking
+ * and sensitivity computed from it.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Scoring Calculations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// 選択肢ごとの、評価軸の向きを揃えた効用（大きいほど良い）
+const utilitiesOf = (
+  criteria: readonly ScoringCriterion[],
+  scores: readonly OptionScore[]
+): Map<OptionId, number[]> => {
+  const utilities = new Map<OptionId, number[]>();
+  for (const score of scores) {
+    const index = criteria.findIndex(criterion => criterion.name === score.criterion);
+    const row = utilities.get(score.optionId) ?? criteria.map(() => 0);
+    row[index] = OptionScoreModel.toUtility(score.score, criteria[index].direction);
+    utilities.set(score.optionId, row);
+  }
+  return utilities;
+};
+
+const weightedSum = (weights: readonly number[], utilities: readonly number[]): number =>
+  weights.reduce((sum, weight, index) => sum + weight * utilities[index], 0);
+
+/**
+ * Rank options by weighted total (normalized back to the 0〜10 score scale)
+ */
+const rankOptions = (
+  weights: readonly number[],
+  utilities: Map<OptionId, number[]>
+): RankedOption[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const totals = [...utilities.entries()]
+    .map(([optionId, row]) => ({ optionId, weightedTotal: weightedSum(weights, row) / totalWeight }))
+    .sort((a, b) => b.weightedTotal - a.weightedTotal);
+
+  return totals.map(total => ({
+    ...total,
+    rank: totals.findIndex(other => other.weightedTotal === total.weightedTotal) + 1
+  }));
+};
+
+/**
+ * For each criterion, find the smallest change of its weight alone that lets
+ * another option catch up with the current top option
+ *
+ * Ranking only depends on Σ weight × utility, so with D = S(top) − S(other)
+ * and d = u(top) − u(other) on the criterion, the tie happens at Δ = −D / d.
+ * The new weight must stay non-negative.
+ */
+const computeSensitivity = (
+  criteria: readonly ScoringCriterion[],
+  weights: readonly number[],
+  utilities: Map<OptionId, number[]>,
+  topOptionId: OptionId
+): WeightSensitivity[] => {
+  const topRow = utilities.get(topOptionId) ?? [];
+  const topSum = weightedSum(weights, topRow);
+
+  return criteria.map((criterion, index) => {
+    let best: { weightChange: number; optionId: OptionId } | null = null;
+
+    for (const [optionId, row] of utilities) {
+      if (optionId === topOptionId) continue;
+      const gap = topSum - weightedSum(weights, row);
+      const difference = topRow[index] - row[index];
+      if (difference === 0) continue;
+      const weightChange = -gap / difference;
+      if (weights[index] + weightChange < 0) continue;
+      if (best === null || Math.abs(weightChange) < Math.abs(best.weightChange)) {
+        best = { weightChange, optionId };
+      }
+    }
+
+    return {
+      criterion: criterion.name,
+      weight: criterion.weight,
+      weightChange: best ? best.weightChange : null,
+      newTopOptionId: best ? best.optionId : null
+    };
+  });
+};
+
+/**
+ * Build the view (ranking and sensitivity) of a recorded matrix
+ */
+export const computeScoreMatrixView = (
+  criteria: readonly ScoringCriterion[],
+  scores: readonly OptionScore[]
+): ScoreMatrixView => {
+  const weights = criteria.map(criterion => criterion.weight);
+  const utilities = utilitiesOf(criteria, scores);
+  const ranking = rankOptions(weights, utilities);
+  const sensitivity = ranking.length > 1
+    ? computeSensitivity(criteria, weights, utilities, ranking[0].optionId)
+    : [];
+
+  return { criteria, scores, ranking, sensitivity };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the latest scoring matrix from a stream of events
+ *
+ * Scoring again replaces the matrix. Registering, adding or removing options discards it,
+ * since the scores were given to the previous option list; a reset clears it too.
+ */
+export const projectScoreMatrixFromEvents = (events: readonly DecisionEvent[]): ScoreMatrixView | null => {
+  let matrix: { criteria: readonly ScoringCriterion[]; scores: readonly OptionScore[] } | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'OptionsScored':
+        matrix = { criteria: event.criteria, scores: event.scores };
+        break;
+      case 'OptionsGenerated':
+      case 'OptionAdded':
+      case 'OptionRemoved':
+      case 'DecisionProcessReset':
+        matrix = null;
+        break;
+    }
+  }
+
+  return matrix ? computeScoreMatrixView(matrix.criteria, matrix.scores) : null;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    ranking: (option: string, weightedTotal: number) => `${option}（加重スコア: ${weightedTotal}）`,
+    stableTop: (criterion: string, weight: number) => `${criterion}（重み ${weight}）: この重みだけでは首位は変わらない`,
+    topChange: (criterion: string, weight: number, change: string, option: string) =>
+      `${criterion}（重み ${weight}）: ${change} で「${option}」が首位に並ぶ`,
+    sensitivityHeading: '感度（首位が入れ替わる重みの変化）:',
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    ranking: (option: string, weightedTotal: number) => `${option} (weighted score: ${weightedTotal})`,
+    stableTop: (criterion: string, weight: number) => `${criterion} (weight ${weight}): this weight alone does not change the top option`,
+    topChange: (criterion: string, weight: number, change: string, option: string) =>
+      `${criterion} (weight ${weight}): a change of ${change} ties "${option}" for the top`,
+    sensitivityHeading: 'Sensitivity (weight changes that swap the top option):',
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to OptionScoresReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): OptionScoresReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Current Option Scores Query
+ *
+ * Projects the scoring matrix of a decision from its journal.
+ *
+ * @param decisionId - The decision whose scores are queried
+ * @returns Promise<Result<ScoreMatrixView | null, OptionScoresReadError>>
+ */
+export const getCurrentOptionScores = async (
+  decisionId: DecisionId
+): Promise<CurrentOptionScoresQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectScoreMatrixFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Convert ScoreMatrixView to serializable format for MCP responses
+ */
+export const serializeScoreMatrixView = (view: ScoreMatrixView) => ({
+  criteria: view.criteria.map(criterion => ({
+    name: criterion.name,
+    weight: criterion.weight,
+    direction: criterion.direction
+  })),
+  scores: view.scores.map(score => ({
+    optionId: score.optionId,
+    criterion: score.criterion,
+    score: score.score
+  })),
+  ranking: view.ranking.map(ranked => ({
+    optionId: ranked.optionId,
+    weightedTotal: round(ranked.weightedTotal),
+    rank: ranked.rank
+  })),
+  sensitivity: view.sensitivity.map(item => ({
+    criterion: item.criterion,
+    weight: item.weight,
+    weightChange: item.weightChange === null ? null : round(item.weightChange),
+    newTopOptionId: item.newTopOptionId
+  }))
+});
+
+/**
+ * Format the ranking and sensitivity as human-readable lines
+ *
+ * @param optionText - Resolves an option ID to its text for display
+ */
+export const formatScoreMatrix = (
+  view: ScoreMatrixView,
+  optionText: (optionId: string) => string
+): string => {
+  const rankingLines = view.ranking
+    .map(ranked => `${ranked.rank}. ${messages().ranking(optionText(ranked.optionId), round(ranked.weightedTotal))}`);
+  const sensitivityLines = view.sensitivity
+    .map(item => item.weightChange === null || item.newTopOptionId === null
+      ? `  - ${messages().stableTop(item.criterion, item.weight)}`
+      : `  - ${messages().topChange(item.criterion, item.weight, `${item.weightChange > 0 ? '+' : ''}${round(item.weightChange)}`, optionText(item.newTopOptionId))}`);
+
+  return [
+    ...rankingLines,
+    ...(sensitivityLines.length > 0 ? [messages().sensitivityHeading, ...sensitivityLines] : [])
+  ].join('\n');
+};
+
+/**
+ * Convert OptionScoresReadError to user-friendly message
+ */
+export const formatOptionScoresReadError = (error: OptionScoresReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,71 @@
+import { Result } from 'neverthrow';
+import type { OptionId } from '../../term/option.js';
+import type { ScoringCriterion, OptionScore, CriterionName } from '../../term/scoring.js';
+
+/**
+ * Option Scores Read Model Types
+ *
+ * This module defines the read-side types for querying the weighted scoring
+ * matrix of the options: weighted totals, ranking and weight sensitivity.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Ranked Option - Weighted total (0〜10) and rank of one option
+ *
+ * Options with the same total share the same rank.
+ */
+export type RankedOption = {
+  readonly optionId: OptionId;
+  readonly weightedTotal: number;
+  readonly rank: number;
+};
+
+/**
+ * Weight Sensitivity - How much one criterion's weight must change to flip the top option
+ *
+ * weightChange is signed (negative means decreasing the weight);
+ * null when no change of this weight alone can flip the top option.
+ */
+export type WeightSensitivity = {
+  readonly criterion: CriterionName;
+  readonly weight: number;
+  readonly weightChange: number | null;
+  readonly newTopOptionId: OptionId | null;
+};
+
+/**
+ * Score Matrix View - The recorded matrix with its computed ranking
+ */
+export type ScoreMatrixView = {
+  readonly criteria: readonly ScoringCriterion[];
+  readonly scores: readonly OptionScore[];
+  readonly ranking: readonly RankedOption[];
+  readonly sensitivity: readonly WeightSensitivity[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Option Scores Read Error - Categorized failures during read operations
+ */
+export type OptionScoresReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Current Option Scores Query Result
+ *
+ * null (not an error) is returned when the current options have not been scored.
+ */
+export type CurrentOptionScoresQueryResult = Result<ScoreMatrixView | null, OptionScoresReadError>;
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  projectOptionsFromEvents,
+  projectOptionHistoryFromEvents,
+  projectOptionChallengesFromEvents,
+  serializeOptionsView
+} from './index.js';
+import { OptionSelectionAggregate } from '../../command/option-selection.js';
+import { ChallengeOptionAggregate } from '../../command/challenge-option.js';
+import { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import { WorkflowState } from '../../term/workflow-state.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const register = (texts: string[], widenOptionsStep = WidenOptionsSteps.initialRegistered()) =>
+  OptionSelectionAggregate.registerOptions({
+    options: texts.map(text => ({ text })),
+    widenOptionsStep,
+    existingOptionIds: []
+  })._unsafeUnwrap();
+
+const currentOptions = (events: DecisionEvent[]) => projectOptionsFromEvents(events)?.options ?? [];
+
+describe('projectOptionsFromEvents with single-option edits', () => {
+  it('should add, update and remove options by ID', () => {
+    // Given
+    const registered = register(['内製する', '外注する', '既製品を買う']);
+    const [inHouse, outsource] = registered.optionList.options;
+    const state = WorkflowState.initialOptionsRegistered();
+
+    const added = OptionSelectionAggregate.addOption({
+      option: { text: '既製品を一部だけ内製する', parentId: inHouse.id },
+      currentOptions: registered.optionList.options,
+      currentState: state
+    })._unsafeUnwrap();
+    const updated = OptionSelectionAggregate.updateOption({
+      optionId: inHouse.id,
+      text: 'すべて内製する',
+      currentOptions: currentOptions([registered, added]),
+      currentState: state
+    })._unsafeUnwrap();
+    const removed = OptionSelectionAggregate.removeOption({
+      optionId: outsource.id,
+      currentOptions: currentOptions([registered, added, updated]),
+      currentState: state
+    })._unsafeUnwrap();
+
+    // When
+    const events = [registered, added, updated, removed];
+
+    // Then
+    expect(currentOptions(events).map(option => option.text)).toEqual([
+      'すべて内製する', '既製品を買う', '既製品を一部だけ内製する'
+    ]);
+    expect(currentOptions(events)[0].id).toBe(inHouse.id);
+    expect(projectOptionHistoryFromEvents(events)[0].options).toEqual(currentOptions(events));
+  });
+});
+
+describe('OptionSelectionAggregate single-option edits', () => {
+  const fiveOptions = register(['A案', 'B案', 'C案', 'D案', 'E案']).optionList.options;
+
+  it('should allow more than 5 options while widening but not after fixing', () => {
+    // When
+    const widening = OptionSelectionAggregate.addOption({
+      option: { text: 'F案' },
+      currentOptions: fiveOptions,
+      currentState: WorkflowState.laddered()
+    });
+    const fixed = OptionSelectionAggregate.addOption({
+      option: { text: 'F案' },
+      currentOptions: fiveOptions,
+      currentState: WorkflowState.optionsFixed()
+    });
+
+    // Then
+    expect(widening.isOk()).toBe(true);
+    expect(fixed._unsafeUnwrapErr().type).toBe('InvalidOptionCount');
+  });
+
+  it('should not remove below 3 options', () => {
+    // Given
+    const threeOptions = register(['A案', 'B案', 'C案']).optionList.options;
+
+    // When
+    const result = OptionSelectionAggregate.removeOption({
+      optionId: threeOptions[0].id,
+      currentOptions: threeOptions,
+      currentState: WorkflowState.laddered()
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr().type).toBe('InvalidOptionCount');
+  });
+
+  it('should reject edits once later steps build on the options', () => {
+    // When
+    const result = OptionSelectionAggregate.updateOption({
+      optionId: fiveOptions[0].id,
+      text: 'A案改',
+      currentOptions: fiveOptions,
+      currentState: WorkflowState.assumptionsRegistered()
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'OptionsNotEditable', state: WorkflowState.assumptionsRegistered() });
+  });
+});
+
+describe('projectOptionChallengesFromEvents', () => {
+  const registered = register(['内製する', '外注する', '既製品を買う']);
+  const options = registered.optionList.options;
+  const [inHouse, outsource] = options;
+
+  const challenge = (optionId: string, disconfirmingEvidence: string[]) =>
+    ChallengeOptionAggregate.challengeOption({
+      optionId,
+      strongestCase: '社内に経験者がおらず、立ち上げに想定の倍の時間がかかる',
+      disconfirmingEvidence,
+      existingOptionIds: options.map(option => option.id)
+    })._unsafeUnwrap();
+
+  it('should attach counterpoints to the option and keep the latest status of each', () => {
+    // Given
+    const challenged = challenge(inHouse.id, ['過去の内製プロジェクトの遅延実績', '採用市場での経験者の数']);
+    const [delays, hiring] = challenged.counterpoints;
+    const addressed = ChallengeOptionAggregate.recordCounterpointStatus({
+      counterpointId: delays.id,
+      addressed: true,
+      note: '直近3件はいずれも予定内に完了していた',
+      registeredCounterpoints: challenged.counterpoints
+    })._unsafeUnwrap();
+
+    // When
+    const events: DecisionEvent[] = [registered, challenged, addressed];
+    const serialized = serializeOptionsView({
+      options: currentOptions(events),
+      challenges: projectOptionChallengesFromEvents(events)
+    });
+
+    // Then
+    expect(serialized.options[0].counterpoints?.disconfirmingEvidence).toEqual([
+      {
+        id: delays.id,
+        evidence: '過去の内製プロジェクトの遅延実績',
+        addressed: true,
+        note: '直近3件はいずれも予定内に完了していた',
+        recordedAt: addressed.recordedAt.toISOString()
+      },
+      { id: hiring.id, evidence: '採用市場での経験者の数', addressed: false }
+    ]);
+    expect(serialized.options[1].counterpoints).toBeUndefined();
+  });
+
+  it('should replace an earlier challenge and drop the counterpoints of options no longer registered', () => {
+    // Given
+    const first = challenge(inHouse.id, ['過去の内製プロジェクトの遅延実績']);
+    const second = challenge(inHouse.id, ['保守要員の確保状況']);
+    const other = challenge(outsource.id, ['外注先の納期遵守率']);
+    // 外注する案を外して登録し直す（残した案はIDを引き継ぐ）
+    const reregistered = OptionSelectionAggregate.registerOptions({
+      options: [{ id: inHouse.id, text: inHouse.text }, { text: '既製品を買う' }, { text: '自社サービスを使う' }],
+      widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+      existingOptionIds: options.map(option => option.id)
+    })._unsafeUnwrap();
+
+    // When
+    const challenges = projectOptionChallengesFromEvents([registered, first, second, other, reregistered]);
+
+    // Then
+    expect(challenges.map(challenge => challenge.optionId)).toEqual([inHouse.id]);
+    expect(challenges[0].counterpoints.map(counterpoint => counterpoint.evidence)).toEqual(['保守要員の確保状況']);
+  });
+
+  it('should not record a status for a counterpoint that no current option has', () => {
+    // When
+    const result = ChallengeOptionAggregate.recordCounterpointStatus({
+      counterpointId: 'counterpoint-unknown',
+      addressed: true,
+      note: '確認済み',
+      registeredCounterpoints: challenge(inHouse.id, ['過去の内製プロジェクトの遅延実績']).counterpoints
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toEqual({ type: 'CounterpointNotFound', counterpointId: 'counterpoint-unknown' });
+  });
+});
@@ -1,8 +1,19 @@
 import { Result, ok, err } from 'neverthrow';
-import { loadOptions } from '../../../effect/options-storage.js';
-import type { OptionList, Option } from '../../term/option.js';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { OptionListModel, type OptionList, type Option } from '../../term/option.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import { getStepDisplayName } from '../../term/widen-options-steps.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
 import type { FileSystemError } from '../../../effect/filesystem.js';
-import type { OptionsView, OptionsReadError, CurrentOptionsQueryResult } from './types.js';
+import type {
+  OptionsView,
+  OptionHistoryEntry,
+  OptionChallengeView,
+  CounterpointView,
+  OptionsReadError,
+  CurrentOptionsQueryResult
+} from './types.js';
 
 /**
  * Options Read Model Implementation
@@ -12,6 +23,158 @@ import type { OptionsView, OptionsReadError, CurrentOptionsQueryResult } from '.
  * into read-optimized views.
  */
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Apply a single-option edit (add, update, remove) to the option list
+ *
+ * Returns the options unchanged for any other event.
+ */
+export const applyOptionEdit = (options: readonly Option[], event: DecisionEvent): readonly Option[] => {
+  switch (event.type) {
+    case 'OptionAdded':
+      return [...options, event.option];
+    case 'OptionUpdated':
+      return options.map(option => option.id === event.option.id ? event.option : option);
+    case 'OptionRemoved':
+      return options.filter(option => option.id !== event.optionId);
+    default:
+      return options;
+  }
+};
+
+/**
+ * Projects the current OptionList from a stream of events
+ * 
+ * Each OptionsGenerated replaces the whole list and single-option edits change it;
+ * a reset clears it.
+ */
+export const projectOptionsFromEvents = (events: readonly DecisionEvent[]): OptionList | null => {
+  let currentOptions: OptionList | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'OptionsGenerated':
+        currentOptions = event.optionList;
+        break;
+      case 'OptionAdded':
+      case 'OptionUpdated':
+      case 'OptionRemoved':
+        currentOptions = currentOptions && OptionListModel.restore(applyOptionEdit(currentOptions.options, event));
+        break;
+      case 'DecisionProcessReset':
+        currentOptions = null;
+        break;
+    }
+  }
+
+  return currentOptions;
+};
+
+/**
+ * Projects every option list registered across the Widen Options steps
+ *
+ * Unlike projectOptionsFromEvents, earlier lists are kept. Single-option edits
+ * change the list of the latest step; a reset clears the history.
+ */
+export const projectOptionHistoryFromEvents = (events: readonly DecisionEvent[]): OptionHistoryEntry[] => {
+  let history: OptionHistoryEntry[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'OptionsGenerated':
+        history = [...history, { step: event.widenOptionsStep, options: event.optionList.options }];
+        break;
+      case 'OptionAdded':
+      case 'OptionUpdated':
+      case 'OptionRemoved':
+        history = history.map((entry, index) =>
+          index === history.length - 1 ? { ...entry, options: applyOptionEdit(entry.options, event) } : entry
+        );
+        break;
+      case 'DecisionProcessReset':
+        history = [];
+        break;
+    }
+  }
+
+  return history;
+};
+
+/**
+ * Projects the counterpoints recorded against each option
+ *
+ * Challenging an option again replaces its earlier counterpoints, and each counterpoint
+ * keeps the latest recorded status. Counterpoints stay when the option text changes,
+ * since changing the option can be how they were addressed; they are dropped once the
+ * option is removed or no longer registered, and a reset clears them.
+ */
+export const projectOptionChallengesFromEvents = (events: readonly DecisionEvent[]): OptionChallengeView[] => {
+  let challenges: OptionChallengeView[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'OptionChallenged': {
+        const challenge: OptionChallengeView = {
+          optionId: event.optionId,
+          strongestCase: event.strongestCase,
+          counterpoints: event.counterpoints.map(counterpoint => ({ ...counterpoint, status: null }))
+        };
+        challenges = [...challenges.filter(existing => existing.optionId !== event.optionId), challenge];
+        break;
+      }
+      case 'CounterpointStatusRecorded':
+        challenges = challenges.map(challenge => ({
+          ...challenge,
+          counterpoints: challenge.counterpoints.map(counterpoint =>
+            counterpoint.id === event.counterpointId
+              ? { ...counterpoint, status: { addressed: event.addressed, note: event.note, recordedAt: event.recordedAt } }
+              : counterpoint
+          )
+        }));
+        break;
+      case 'OptionsGenerated': {
+        const registered: readonly string[] = event.optionList.options.map(option => option.id);
+        challenges = challenges.filter(challenge => registered.includes(challenge.optionId));
+        break;
+      }
+      case 'OptionRemoved':
+        challenges = challenges.filter(challenge => challenge.optionId !== event.optionId);
+        break;
+      case 'DecisionProcessReset':
+        challenges = [];
+        break;
+    }
+  }
+
+  return challenges;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    transformFailed: 'データの変換中にエラーが発生しました',
+    counterpointStatus: { addressed: '対処済み', open: '未対処' },
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    journalParseFailed: 'Failed to parse the journal',
+    transformFailed: 'Failed to transform the data',
+    counterpointStatus: { addressed: 'addressed', open: 'open' },
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Data Transformation Functions
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -22,18 +185,22 @@ import type { OptionsView, OptionsReadError, CurrentOptionsQueryResult } from '.
  * This function bridges the command and read sides, reusing the same value objects
  * to maintain consistency while providing a read-optimized interface.
  */
-const transformToOptionsView = (optionList: OptionList): Result<OptionsView, OptionsReadError> => {
+const transformToOptionsView = (
+  optionList: OptionList,
+  challenges: readonly OptionChallengeView[]
+): Result<OptionsView, OptionsReadError> => {
   try {
     // The command model already uses the same value objects, so we can reuse them directly
     const optionsView: OptionsView = {
-      options: optionList.options
+      options: optionList.options,
+      challenges
     };
     
     return ok(optionsView);
   } catch (error) {
     return err({
       type: 'DataCorruption',
-      message: 'データの変換中にエラーが発生しました',
+      message: messages().transformFailed,
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -42,13 +209,16 @@ const transformToOptionsView = (optionList: OptionList): Result<OptionsView, Opt
 /**
  * Map FileSystemError to OptionsReadError
  * 
- * Transforms effect layer errors into read model errors,
- * handling the special case where file-not-found is not an error.
+ * Transforms effect layer errors into read model errors.
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
  */
-const mapFileSystemError = (fsError: FileSystemError): OptionsReadError | null => {
-  // File not found is not an error - it means no options are defined yet
-  if (fsError.originalError && 'code' in fsError.originalError && fsError.originalError.code === 'ENOENT') {
-    return null; // This will be handled as "no options defined" case
+const mapFileSystemError = (fsError: FileSystemError): OptionsReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
   }
   
   return {
@@ -65,33 +235,31 @@ const mapFileSystemError = (fsError: FileSystemError): OptionsReadError | null =
 /**
  * Get Current Options Query
  * 
- * Retrieves the current options from storage and transforms them into
+ * Projects the current options from the decision journal into
  * a read-optimized view. Returns null when no options are defined (not an error).
  * 
+ * @param decisionId - The decision whose options are queried
  * @returns Promise<Result<OptionsView | null, OptionsReadError>>
  *   - Ok(OptionsView) when options exist
  *   - Ok(null) when no options are defined
  *   - Err(OptionsReadError) when actual errors occur (file system, data corruption)
  */
-export const getCurrentOptions = async (): Promise<CurrentOptionsQueryResult> => {
-  const loadResult = await loadOptions();
+export const getCurrentOptions = async (decisionId: DecisionId): Promise<CurrentOptionsQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
   
   return loadResult.match(
-    // Success: Options exist
-    (optionList) => transformToOptionsView(optionList),
-    
-    // Error: Handle different error types
-    (fsError) => {
-      const readError = mapFileSystemError(fsError);
+    // Success: Project the journal
+    (events) => {
+      const optionList = projectOptionsFromEvents(events);
       
-      // File not found means no options are defined - this is OK
-      if (readError === null) {
-        return ok(null);
-      }
-      
-      // Other file system errors are actual errors
-      return err(readError);
-    }
+      // Nothing recorded yet means no options are defined - this is OK
+      return optionList === null
+        ? ok(null)
+        : transformToOptionsView(optionList, projectOptionChallengesFromEvents(events));
+    },
+    
+    // Error: Journal could not be read
+    (fsError) => err(mapFileSystemError(fsError))
   );
 };
 
@@ -99,6 +267,27 @@ export const getCurrentOptions = async (): Promise<CurrentOptionsQueryResult> =>
 // Utility Functions
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/**
+ * Convert CounterpointView to serializable format for MCP responses
+ */
+export const serializeCounterpoint = (counterpoint: CounterpointView) => ({
+  id: counterpoint.id,
+  evidence: counterpoint.evidence,
+  addressed: counterpoint.status?.addressed ?? false,
+  ...(counterpoint.status && {
+    note: counterpoint.status.note,
+    recordedAt: counterpoint.status.recordedAt.toISOString()
+  })
+});
+
+/**
+ * Convert OptionChallengeView to serializable format for MCP responses
+ */
+export const serializeOptionChallenge = (challenge: OptionChallengeView) => ({
+  strongestCase: challenge.strongestCase,
+  disconfirmingEvidence: challenge.counterpoints.map(serializeCounterpoint)
+});
+
 /**
  * Convert OptionsView to serializable format for MCP responses
  * 
@@ -109,26 +298,61 @@ export const serializeOptionsView = (optionsView: OptionsView) => {
   if (!optionsView) {
     throw new Error('serializeOptionsView: optionsView is required');
   }
+  const challengeOf = (optionId: string) =>
+    optionsView.challenges?.find(challenge => challenge.optionId === optionId);
   
   return {
-    options: optionsView.options.map(option => ({
-      id: option.id,
-      text: option.text,
-      ...(option.supplementaryInfo && { supplementaryInfo: option.supplementaryInfo })
-    }))
+    options: optionsView.options.map(option => {
+      const challenge = challengeOf(option.id);
+      return {
+        id: option.id,
+        text: option.text,
+        ...(option.supplementaryInfo && { supplementaryInfo: option.supplementaryInfo }),
+        ...(option.parentId && { parentId: option.parentId }),
+        ...(challenge && { counterpoints: serializeOptionChallenge(challenge) })
+      };
+    })
   };
 };
 
+/**
+ * Convert OptionHistoryEntry to serializable format for MCP responses
+ */
+export const serializeOptionHistoryEntry = (entry: OptionHistoryEntry) => ({
+  step: entry.step.type,
+  stepDisplayName: getStepDisplayName(entry.step),
+  ...serializeOptionsView({ options: entry.options })
+});
+
+/**
+ * Format a counterpoint with its status as a human-readable line
+ */
+export const formatCounterpointLine = (counterpoint: CounterpointView): string => {
+  const status = counterpoint.status?.addressed
+    ? messages().counterpointStatus.addressed
+    : messages().counterpointStatus.open;
+  return `[${status}] ${counterpoint.evidence}${counterpoint.status ? `（${counterpoint.status.note}）` : ''} (ID: ${counterpoint.id})`;
+};
+
+/**
+ * Format the strongest case against an option and its counterpoints as human-readable lines
+ */
+export const formatOptionChallenge = (challenge: OptionChallengeView, optionText: string): string =>
+  [
+    `■ ${optionText}: ${challenge.strongestCase}`,
+    ...challenge.counterpoints.map(counterpoint => `  ${formatCounterpointLine(counterpoint)}`)
+  ].join('\n');
+
 /**
  * Convert OptionsReadError to user-friendly message
  */
 export const formatOptionsReadError = (error: OptionsReadError): string => {
   switch (error.type) {
     case 'FileSystemError':
-      return `ファイルシステムエラー: ${error.message}`;
+      return messages().fileSystemError(error.message);
     case 'DataCorruption':
-      return `データ破損エラー: ${error.message}${error.details ? ` (詳細: ${error.details})` : ''}`;
+      return messages().dataCorruption(error.message, error.details);
     default:
-      return '不明なエラーが発生しました';
+      return messages().unknownError;
   }
 };
\ No newline at end of file
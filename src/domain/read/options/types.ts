@@ -1,5 +1,7 @@
 import { Result } from 'neverthrow';
 import { Option, OptionId, OptionText } from '../../term/option.js';
+import type { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import type { Counterpoint, CounterpointNote, StrongestCase } from '../../term/counterpoint.js';
 
 /**
  * Options Read Model Types
@@ -22,6 +24,45 @@ import { Option, OptionId, OptionText } from '../../term/option.js';
  */
 export type OptionsView = {
   readonly options: readonly Option[];
+  // challenge-option で選択肢に付けた反論（反論のない選択肢は含まない）
+  readonly challenges?: readonly OptionChallengeView[];
+};
+
+/**
+ * Counterpoint Status - Whether a counterpoint has been addressed, and how
+ */
+export type CounterpointStatusView = {
+  readonly addressed: boolean;
+  readonly note: CounterpointNote;
+  readonly recordedAt: Date;
+};
+
+/**
+ * Counterpoint View - A piece of disconfirming evidence with its latest status
+ *
+ * status is null until it is recorded with address-counterpoint.
+ */
+export type CounterpointView = Counterpoint & {
+  readonly status: CounterpointStatusView | null;
+};
+
+/**
+ * Option Challenge View - The strongest case against an option and its counterpoints
+ */
+export type OptionChallengeView = {
+  readonly optionId: OptionId;
+  readonly strongestCase: StrongestCase;
+  readonly counterpoints: readonly CounterpointView[];
+};
+
+/**
+ * Option History Entry - The option list registered at one Widen Options step
+ *
+ * Entries are kept in registration order, so a step repeated later appears again.
+ */
+export type OptionHistoryEntry = {
+  readonly step: WidenOptionsSteps;
+  readonly options: readonly Option[];
 };
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { projectTripwiresFromEvents } from './index.js';
+import { PrepareToBeWrongAggregate } from '../../command/prepare-to-be-wrong.js';
+import type { OptionId } from '../../term/option.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import { evolveWorkflowState } from '../workflow-state/index.js';
+import { WorkflowState } from '../../term/workflow-state.js';
+
+const optionId = 'option-test' as OptionId;
+
+const setTripwires = (descriptions: string[]) =>
+  PrepareToBeWrongAggregate.setTripwires({
+    tripwires: [{
+      optionId,
+      criteria: descriptions.map(description => ({
+        description,
+        type: 'cost',
+        threshold: '予算の120%',
+        severity: 'high'
+      }))
+    }],
+    existingOptionIds: [optionId]
+  })._unsafeUnwrap();
+
+describe('projectTripwiresFromEvents', () => {
+  it('should replace the criteria of an option when tripwires are set again', () => {
+    // Given
+    const first = setTripwires(['予算超過']);
+    const second = setTripwires(['人件費の超過', '外注費の超過']);
+
+    // When
+    const view = projectTripwiresFromEvents([first, second]);
+
+    // Then
+    expect(view.tripwires).toHaveLength(1);
+    expect(view.tripwires[0].criteria.map(c => c.description)).toEqual(['人件費の超過', '外注費の超過']);
+  });
+
+  it('should apply updates while keeping the criterion ID', () => {
+    // Given
+    const set = setTripwires(['予算超過']);
+    const [criterion] = set.tripwires[0].criteria;
+    const updated = PrepareToBeWrongAggregate.updateTripwire({
+      criterionId: criterion.id,
+      changes: { threshold: '予算の150%' },
+      currentTripwires: set.tripwires
+    })._unsafeUnwrap();
+
+    // When
+    const view = projectTripwiresFromEvents([set, updated]);
+
+    // Then
+    expect(view.tripwires[0].criteria).toEqual([{ ...criterion, threshold: '予算の150%' }]);
+  });
+
+  it('should drop an option once its last criterion is removed', () => {
+    // Given
+    const set = setTripwires(['予算超過']);
+    const removed = PrepareToBeWrongAggregate.removeTripwire({
+      criterionId: set.tripwires[0].criteria[0].id,
+      currentTripwires: set.tripwires
+    })._unsafeUnwrap();
+
+    // When
+    const view = projectTripwiresFromEvents([set, removed]);
+
+    // Then
+    expect(view.tripwires).toEqual([]);
+  });
+
+  it('should clear tripwires on reset', () => {
+    // Given
+    const events: DecisionEvent[] = [
+      setTripwires(['予算超過']),
+      { type: 'DecisionProcessReset', timestamp: new Date() }
+    ];
+
+    // When
+    const view = projectTripwiresFromEvents(events);
+
+    // Then
+    expect(view.tripwires).toEqual([]);
+  });
+});
+
+describe('PrepareToBeWrongAggregate', () => {
+  it('should reject tripwires for an unknown option', () => {
+    // When
+    const result = PrepareToBeWrongAggregate.setTripwires({
+      tripwires: [{
+        optionId: 'option-unknown',
+        criteria: [{ description: '予算超過', type: 'cost', threshold: '120%', severity: 'high' }]
+      }],
+      existingOptionIds: [optionId]
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr().type).toBe('UnknownOption');
+  });
+
+  it('should report a missing criterion', () => {
+    // When
+    const result = PrepareToBeWrongAggregate.removeTripwire({
+      criterionId: 'tripwire-missing',
+      currentTripwires: setTripwires(['予算超過']).tripwires
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr().type).toBe('CriterionNotFound');
+  });
+
+  it('should report fired criteria and move to reconsidering when a critical one fires', () => {
+    // Given
+    const { tripwires } = PrepareToBeWrongAggregate.setTripwires({
+      tripwires: [{
+        optionId,
+        criteria: [
+          { description: '解約率の悪化', type: 'risk', threshold: '5%超', severity: 'critical', condition: { metric: '解約率', comparator: '>', value: 5 } },
+          { description: '売上の未達', type: 'performance', threshold: '100万円未満', severity: 'medium', condition: { metric: '月間売上', comparator: '<', value: 100 } }
+        ]
+      }],
+      existingOptionIds: [optionId]
+    })._unsafeUnwrap();
+
+    // When
+    const evaluated = PrepareToBeWrongAggregate.evaluateTripwires({
+      observations: [{ metric: '解約率', value: 7 }, { metric: '月間売上', value: 120 }],
+      currentTripwires: tripwires
+    })._unsafeUnwrap();
+
+    // Then
+    expect(evaluated.firedCriteria.map(c => c.criterionId)).toEqual([tripwires[0].criteria[0].id]);
+    expect(evolveWorkflowState(WorkflowState.distanceAttained(), evaluated).type).toBe('reconsidering');
+  });
+
+  it('should refuse to evaluate tripwires without conditions', () => {
+    // When
+    const result = PrepareToBeWrongAggregate.evaluateTripwires({
+      observations: [{ metric: '解約率', value: 7 }],
+      currentTripwires: setTripwires(['予算超過']).tripwires
+    });
+
+    // Then
+    expect(result._unsafeUnwrapErr().type).toBe('NoEvaluableTripwires');
+  });
+});
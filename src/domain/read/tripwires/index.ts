@@ -0,0 +1,207 @@
+import { err, ok } from 'neverthrow';
+import { loadEvents } from '../../../effect/journal-storage.js';
+import { TripwireConditionModel } from '../../term/tripwire.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { Tripwire, TripwireCriterion } from '../../term/tripwire.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  TripwiresView,
+  TripwireEvaluation,
+  TripwiresReadError,
+  CurrentTripwiresQueryResult
+} from './types.js';
+
+/**
+ * Tripwires Read Model Implementation
+ *
+ * This module provides query functions for retrieving the tripwires
+ * set in the Prepare to be Wrong phase.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const replaceCriteria = (
+  tripwires: Tripwire[],
+  optionId: Tripwire['optionId'],
+  update: (criteria: readonly TripwireCriterion[]) => readonly TripwireCriterion[]
+): Tripwire[] =>
+  tripwires
+    .map(tripwire => (tripwire.optionId === optionId ? { ...tripwire, criteria: update(tripwire.criteria) } : tripwire))
+    .filter(tripwire => tripwire.criteria.length > 0);
+
+/**
+ * Projects the current tripwires of each option from a stream of events
+ *
+ * Setting tripwires on an option replaces its previous criteria;
+ * a reset clears everything.
+ */
+export const projectTripwiresFromEvents = (events: readonly DecisionEvent[]): TripwiresView => {
+  let tripwires: Tripwire[] = [];
+  let lastEvaluation: TripwireEvaluation | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'TripwiresSet':
+        for (const tripwire of event.tripwires) {
+          const index = tripwires.findIndex(existing => existing.optionId === tripwire.optionId);
+          tripwires = index === -1
+            ? [...tripwires, tripwire]
+            : tripwires.map((existing, i) => (i === index ? tripwire : existing));
+        }
+        break;
+      case 'TripwireUpdated':
+        tripwires = replaceCriteria(tripwires, event.optionId, criteria =>
+          criteria.map(criterion => (criterion.id === event.criterion.id ? event.criterion : criterion))
+        );
+        break;
+      case 'TripwireRemoved':
+        tripwires = replaceCriteria(tripwires, event.optionId, criteria =>
+          criteria.filter(criterion => criterion.id !== event.criterionId)
+        );
+        break;
+      case 'TripwiresEvaluated': {
+        const { type: _type, ...evaluation } = event;
+        lastEvaluation = evaluation;
+        break;
+      }
+      case 'DecisionProcessReset':
+        tripwires = [];
+        lastEvaluation = null;
+        break;
+    }
+  }
+
+  return { tripwires, lastEvaluation };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    criterionDetails: (threshold: string, condition?: string) =>
+      `（閾値: ${threshold}${condition ? ` / 判定条件: ${condition}` : ''}）`,
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    criterionDetails: (threshold: string, condition?: string) =>
+      ` (threshold: ${threshold}${condition ? ` / condition: ${condition}` : ''}) `,
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to TripwiresReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): TripwiresReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Current Tripwires Query
+ *
+ * Projects the tripwires of a decision from its journal.
+ *
+ * @param decisionId - The decision whose tripwires are queried
+ * @returns Promise<Result<TripwiresView, TripwiresReadError>>
+ */
+export const getCurrentTripwires = async (
+  decisionId: DecisionId
+): Promise<CurrentTripwiresQueryResult> => {
+  const loadResult = await loadEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectTripwiresFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Convert TripwireCriterion to serializable format for MCP responses
+ */
+export const serializeTripwireCriterion = (criterion: TripwireCriterion) => ({
+  id: criterion.id,
+  description: criterion.description,
+  type: criterion.type,
+  threshold: criterion.threshold,
+  severity: criterion.severity,
+  ...(criterion.condition && {
+    condition: {
+      metric: criterion.condition.metric,
+      comparator: criterion.condition.comparator,
+      value: criterion.condition.value
+    }
+  })
+});
+
+/**
+ * Convert Tripwire to serializable format for MCP responses
+ */
+export const serializeTripwire = (tripwire: Tripwire) => ({
+  optionId: tripwire.optionId,
+  criteria: tripwire.criteria.map(serializeTripwireCriterion)
+});
+
+/**
+ * Format one criterion as a human-readable line
+ */
+export const formatTripwireCriterion = (criterion: TripwireCriterion): string =>
+  `  - [${criterion.severity}] ${criterion.description}` +
+  `${messages().criterionDetails(criterion.threshold, criterion.condition && TripwireConditionModel.format(criterion.condition))}(ID: ${criterion.id})`;
+
+/**
+ * Format the tripwires of one option as human-readable lines
+ */
+export const formatTripwire = (tripwire: Tripwire, optionText: string): string =>
+  `■ ${optionText}\n` + tripwire.criteria.map(formatTripwireCriterion).join('\n');
+
+/**
+ * Convert TripwiresReadError to user-friendly message
+ */
+export const formatTripwiresReadError = (error: TripwiresReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
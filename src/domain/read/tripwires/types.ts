@@ -0,0 +1,52 @@
+import { Result } from 'neverthrow';
+import type { Tripwire } from '../../term/tripwire.js';
+import type { TripwiresEvaluated } from '../../command/prepare-to-be-wrong.js';
+
+/**
+ * Tripwires Read Model Types
+ *
+ * This module defines the read-side types for querying the tripwires
+ * (withdrawal criteria) set on each option in the Prepare to be Wrong phase.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Tripwire Evaluation - The result of the latest evaluate-tripwires run
+ */
+export type TripwireEvaluation = Omit<TripwiresEvaluated, 'type'>;
+
+/**
+ * Tripwires View - The current criteria of each option that has tripwires
+ *
+ * Options whose last criterion was removed are omitted.
+ */
+export type TripwiresView = {
+  readonly tripwires: readonly Tripwire[];
+  readonly lastEvaluation: TripwireEvaluation | null;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Tripwires Read Error - Categorized failures during read operations
+ */
+export type TripwiresReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Current Tripwires Query Result
+ *
+ * An empty list (not an error) is returned when no tripwire has been set.
+ */
+export type CurrentTripwiresQueryResult = Result<TripwiresView, TripwiresReadError>;
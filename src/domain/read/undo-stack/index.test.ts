@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { projectUndoStackFromEvents } from './index.js';
+import { DecisionSessionAggregate } from '../../command/decision-session.js';
+import { IssueDefinitionAggregate } from '../../command/define-issue.js';
+import { OptionSelectionAggregate } from '../../command/option-selection.js';
+import { UndoRedoAggregate } from '../../command/undo-redo.js';
+import { projectOptionsFromEvents } from '../options/index.js';
+import { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+const buildLadderedDecision = (): DecisionEvent[] => [
+  DecisionSessionAggregate.startDecision({})._unsafeUnwrap(),
+  IssueDefinitionAggregate.defineIssue({
+    issue: '社内ツールをどう用意するか',
+    context: '既存のツールが来年サポート終了になる',
+    constraints: '予算は500万円まで'
+  })._unsafeUnwrap(),
+  OptionSelectionAggregate.registerOptions({
+    options: [{ text: '内製する' }, { text: '外注する' }, { text: '既製品を買う' }],
+    widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+    existingOptionIds: []
+  })._unsafeUnwrap(),
+  OptionSelectionAggregate.registerOptions({
+    options: [{ text: '何もしない' }, { text: '占いで決める' }, { text: 'くじ引き' }],
+    widenOptionsStep: WidenOptionsSteps.laddered(),
+    existingOptionIds: []
+  })._unsafeUnwrap()
+];
+
+const undo = (events: DecisionEvent[]): DecisionEvent[] => {
+  const view = projectUndoStackFromEvents(events);
+  return [...events, UndoRedoAggregate.undo({
+    undoable: view.undoable,
+    currentState: view.currentState,
+    stateAfterUndo: view.stateAfterUndo ?? view.currentState
+  })._unsafeUnwrap()];
+};
+
+const redo = (events: DecisionEvent[]): DecisionEvent[] => {
+  const view = projectUndoStackFromEvents(events);
+  return [...events, UndoRedoAggregate.redo({
+    redoable: view.redoable,
+    currentState: view.currentState,
+    stateAfterRedo: view.stateAfterRedo ?? view.currentState
+  })._unsafeUnwrap()];
+};
+
+const optionTexts = (events: DecisionEvent[]) =>
+  projectOptionsFromEvents(UndoRedoAggregate.replay(events).effectiveEvents)?.options.map(option => option.text);
+
+describe('projectUndoStackFromEvents', () => {
+  it('should list commands newest first and tell the state undo would restore', () => {
+    // When
+    const view = projectUndoStackFromEvents(buildLadderedDecision());
+
+    // Then
+    expect(view.undoable.map(command => [command.position, command.event.type])).toEqual([
+      [4, 'OptionsGenerated'],
+      [3, 'OptionsGenerated'],
+      [2, 'IssueDefinitionCreated']
+    ]);
+    expect(view.currentState.type).toBe('laddered');
+    expect(view.stateAfterUndo?.type).toBe('initial_options_registered');
+    expect(view.redoable).toEqual([]);
+  });
+
+  it('should restore the previous options on undo and re-apply them on redo', () => {
+    // Given
+    const events = buildLadderedDecision();
+
+    // When
+    const undone = undo(events);
+    const redone = redo(undone);
+
+    // Then
+    expect(optionTexts(undone)).toEqual(['内製する', '外注する', '既製品を買う']);
+    expect(projectUndoStackFromEvents(undone).redoable.map(command => command.position)).toEqual([4]);
+    expect(optionTexts(redone)).toEqual(['何もしない', '占いで決める', 'くじ引き']);
+    expect(projectUndoStackFromEvents(redone).currentState.type).toBe('laddered');
+  });
+
+  it('should drop the redo stack when a new command is recorded', () => {
+    // Given
+    const undone = undo(undo(buildLadderedDecision()));
+    const registered = OptionSelectionAggregate.registerOptions({
+      options: [{ text: 'A案' }, { text: 'B案' }, { text: 'C案' }],
+      widenOptionsStep: WidenOptionsSteps.initialRegistered(),
+      existingOptionIds: []
+    })._unsafeUnwrap();
+
+    // When
+    const view = projectUndoStackFromEvents([...undone, registered]);
+
+    // Then
+    expect(view.redoable).toEqual([]);
+    expect(UndoRedoAggregate.redo({ redoable: view.redoable, currentState: view.currentState, stateAfterRedo: view.currentState })
+      ._unsafeUnwrapErr().type).toBe('NothingToRedo');
+    expect(view.undoable.map(command => command.position)).toEqual([7, 2]);
+  });
+
+  it('should reject an undo that moves to a state not reachable from the current state', () => {
+    // Given - リセット後の未定義状態から、リセット前のラダリング済みには直接遷移できない
+    const reset: DecisionEvent[] = [...buildLadderedDecision(), { type: 'DecisionProcessReset', timestamp: new Date() }];
+    const view = projectUndoStackFromEvents(reset);
+
+    // When
+    const result = UndoRedoAggregate.undo({
+      undoable: view.undoable,
+      currentState: view.currentState,
+      stateAfterUndo: view.stateAfterUndo ?? view.currentState
+    });
+
+    // Then
+    expect(view.currentState.type).toBe('undefined');
+    expect(view.stateAfterUndo?.type).toBe('laddered');
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'InvalidTransition', operation: 'undo' });
+  });
+});
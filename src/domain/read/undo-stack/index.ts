@@ -0,0 +1,267 @@
+import { err, ok } from 'neverthrow';
+import { loadRecordedEvents } from '../../../effect/journal-storage.js';
+import { getDisplayName } from '../../term/workflow-state.js';
+import { getStepDisplayName } from '../../term/widen-options-steps.js';
+import { UndoRedoAggregate, type UndoableCommand, type UndoableEvent } from '../../command/undo-redo.js';
+import { projectWorkflowStateFromEvents } from '../workflow-state/index.js';
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DecisionId } from '../../term/decision.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+import type {
+  UndoStackView,
+  UndoStackReadError,
+  UndoStackQueryResult
+} from './types.js';
+
+/**
+ * Undo Stack Read Model Implementation
+ *
+ * This module provides query functions for listing the commands that the
+ * undo and redo tools would revert or re-apply.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Projects the undo stack from every recorded event (including undone ones)
+ *
+ * The states after undo/redo are found by replaying the journal as if
+ * the undo/redo had been recorded.
+ */
+export const projectUndoStackFromEvents = (events: readonly DecisionEvent[]): UndoStackView => {
+  const history = UndoRedoAggregate.replay(events);
+  const stateAfter = (event: DecisionEvent) =>
+    projectWorkflowStateFromEvents(UndoRedoAggregate.replay([...events, event]).effectiveEvents);
+
+  const [undoTarget] = history.undoable;
+  const [redoTarget] = history.redoable;
+
+  return {
+    undoable: history.undoable,
+    redoable: history.redoable,
+    currentState: projectWorkflowStateFromEvents(history.effectiveEvents),
+    stateAfterUndo: undoTarget
+      ? stateAfter({ type: 'CommandUndone', position: undoTarget.position, undoneEventType: undoTarget.event.type })
+      : null,
+    stateAfterRedo: redoTarget
+      ? stateAfter({ type: 'CommandRedone', position: redoTarget.position, redoneEventType: redoTarget.event.type })
+      : null
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    issueDefined: (issue: string) => `課題の定義: ${issue}`,
+    optionsGenerated: (step: string, options: string) => `選択肢の登録（${step}）: ${options}`,
+    optionAdded: (option: string) => `選択肢の追加: ${option}`,
+    optionUpdated: (option: string) => `選択肢の変更: ${option}`,
+    optionRemoved: (optionId: string) => `選択肢の削除: ${optionId}`,
+    assumptionsRegistered: (count: number) => `仮説の登録: ${count}件`,
+    assumptionTestResultRecorded: '仮説の検証結果の記録',
+    distanceEvaluated: (count: number) => `距離を置いた評価の記録: ${count}件`,
+    tripwiresSet: (count: number) => `撤退基準の設定: ${count}件`,
+    tripwireUpdated: '撤退基準の更新',
+    tripwireRemoved: '撤退基準の削除',
+    tripwiresEvaluated: (firedCount: number) => `撤退基準の評価: 抵触 ${firedCount}件`,
+    optionsScored: (criteriaCount: number) => `選択肢の採点: 評価軸 ${criteriaCount}件`,
+    constraintsChecked: (count: number) => `制約の判定: ${count}件`,
+    optionChallenged: (optionId: string, count: number) => `選択肢への反論: ${optionId}（反証 ${count}件）`,
+    counterpointStatusRecorded: '反論への対処の記録',
+    decisionMade: (optionId: string) => `決定の記録: ${optionId}`,
+    decisionReviewStarted: '決定のレビュー開始',
+    decisionProcessReset: 'リセット',
+    none: '（なし）',
+    currentState: (state: string) => `現在の状態: ${state}`,
+    undoableHeading: (stateAfterUndo: string | null) =>
+      `取り消せるコマンド（新しい順）${stateAfterUndo ? ` - 取り消すと「${stateAfterUndo}」に戻ります` : ''}:`,
+    redoableHeading: (stateAfterRedo: string | null) =>
+      `やり直せるコマンド${stateAfterRedo ? ` - やり直すと「${stateAfterRedo}」になります` : ''}:`,
+    journalParseFailed: 'ジャーナルの解析に失敗しました',
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    dataCorruption: (message: string, details?: string) => `データ破損エラー: ${message}${details ? ` (詳細: ${details})` : ''}`,
+    unknownError: '不明なエラーが発生しました'
+  },
+  en: {
+    issueDefined: (issue: string) => `Define the issue: ${issue}`,
+    optionsGenerated: (step: string, options: string) => `Register options (${step}): ${options}`,
+    optionAdded: (option: string) => `Add an option: ${option}`,
+    optionUpdated: (option: string) => `Update an option: ${option}`,
+    optionRemoved: (optionId: string) => `Remove an option: ${optionId}`,
+    assumptionsRegistered: (count: number) => `Register assumptions: ${count}`,
+    assumptionTestResultRecorded: 'Record an assumption test result',
+    distanceEvaluated: (count: number) => `Record distance evaluations: ${count}`,
+    tripwiresSet: (count: number) => `Set trip wires: ${count}`,
+    tripwireUpdated: 'Update a trip wire',
+    tripwireRemoved: 'Remove a trip wire',
+    tripwiresEvaluated: (firedCount: number) => `Evaluate trip wires: ${firedCount} fired`,
+    optionsScored: (criteriaCount: number) => `Score options: ${criteriaCount} criteria`,
+    constraintsChecked: (count: number) => `Check constraints: ${count}`,
+    optionChallenged: (optionId: string, count: number) => `Challenge an option: ${optionId} (${count} pieces of disconfirming evidence)`,
+    counterpointStatusRecorded: 'Record how a counterpoint was addressed',
+    decisionMade: (optionId: string) => `Record the decision: ${optionId}`,
+    decisionReviewStarted: 'Start reviewing the decision',
+    decisionProcessReset: 'Reset',
+    none: '(none)',
+    currentState: (state: string) => `Current state: ${state}`,
+    undoableHeading: (stateAfterUndo: string | null) =>
+      `Undoable commands (newest first)${stateAfterUndo ? ` - undo returns to "${stateAfterUndo}"` : ''}:`,
+    redoableHeading: (stateAfterRedo: string | null) =>
+      `Redoable commands${stateAfterRedo ? ` - redo moves to "${stateAfterRedo}"` : ''}:`,
+    journalParseFailed: 'Failed to parse the journal',
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    dataCorruption: (message: string, details?: string) => `Data corruption: ${message}${details ? ` (details: ${details})` : ''}`,
+    unknownError: 'An unknown error occurred'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Data Transformation Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Map FileSystemError to UndoStackReadError
+ *
+ * Journal lines that cannot be parsed, migrated or validated mean the journal is corrupted.
+ */
+const mapFileSystemError = (fsError: FileSystemError): UndoStackReadError => {
+  if (fsError.type === 'data_corruption') {
+    return {
+      type: 'DataCorruption',
+      message: messages().journalParseFailed,
+      details: fsError.originalError.message
+    };
+  }
+
+  return {
+    type: 'FileSystemError',
+    message: fsError.message,
+    originalError: fsError.originalError
+  };
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Functions - Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get Undo Stack Query
+ *
+ * Projects the undo/redo stacks of a decision process from its whole journal.
+ *
+ * @param decisionId - The decision process whose undo stack is queried
+ * @returns Promise<Result<UndoStackView, UndoStackReadError>>
+ */
+export const getUndoStack = async (decisionId: DecisionId): Promise<UndoStackQueryResult> => {
+  const loadResult = await loadRecordedEvents(decisionId);
+
+  return loadResult.match(
+    (events) => ok(projectUndoStackFromEvents(events)),
+    (fsError) => err(mapFileSystemError(fsError))
+  );
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Utility Functions
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Describe what a command did, so the agent can tell what undo would revert
+ */
+export const describeUndoableEvent = (event: UndoableEvent): string => {
+  switch (event.type) {
+    case 'IssueDefinitionCreated':
+      return messages().issueDefined(event.issueDefinition.issue);
+    case 'OptionsGenerated':
+      return messages().optionsGenerated(getStepDisplayName(event.widenOptionsStep), event.optionList.options.map(option => option.text).join(' / '));
+    case 'OptionAdded':
+      return messages().optionAdded(event.option.text);
+    case 'OptionUpdated':
+      return messages().optionUpdated(event.option.text);
+    case 'OptionRemoved':
+      return messages().optionRemoved(event.optionId);
+    case 'AssumptionsRegistered':
+      return messages().assumptionsRegistered(event.assumptions.length);
+    case 'AssumptionTestResultRecorded':
+      return messages().assumptionTestResultRecorded;
+    case 'DistanceEvaluated':
+      return messages().distanceEvaluated(event.evaluations.length);
+    case 'TripwiresSet':
+      return messages().tripwiresSet(event.tripwires.length);
+    case 'TripwireUpdated':
+      return messages().tripwireUpdated;
+    case 'TripwireRemoved':
+      return messages().tripwireRemoved;
+    case 'TripwiresEvaluated':
+      return messages().tripwiresEvaluated(event.firedCriteria.length);
+    case 'OptionsScored':
+      return messages().optionsScored(event.criteria.length);
+    case 'ConstraintsChecked':
+      return messages().constraintsChecked(event.checks.length);
+    case 'OptionChallenged':
+      return messages().optionChallenged(event.optionId, event.counterpoints.length);
+    case 'CounterpointStatusRecorded':
+      return messages().counterpointStatusRecorded;
+    case 'DecisionMade':
+      return messages().decisionMade(event.decision.chosenOptionId);
+    case 'DecisionReviewStarted':
+      return messages().decisionReviewStarted;
+    case 'DecisionProcessReset':
+      return messages().decisionProcessReset;
+  }
+};
+
+const serializeUndoableCommand = (command: UndoableCommand) => ({
+  position: command.position,
+  eventType: command.event.type,
+  description: describeUndoableEvent(command.event)
+});
+
+/**
+ * Convert UndoStackView to serializable format for MCP responses
+ */
+export const serializeUndoStackView = (view: UndoStackView) => ({
+  undoable: view.undoable.map(serializeUndoableCommand),
+  redoable: view.redoable.map(serializeUndoableCommand),
+  currentState: view.currentState.type,
+  ...(view.stateAfterUndo && { stateAfterUndo: view.stateAfterUndo.type }),
+  ...(view.stateAfterRedo && { stateAfterRedo: view.stateAfterRedo.type })
+});
+
+/**
+ * Format the undo stack as human-readable lines
+ */
+export const formatUndoStack = (view: UndoStackView): string => {
+  const lines = (commands: readonly UndoableCommand[]) =>
+    commands.length === 0
+      ? [`  ${messages().none}`]
+      : commands.map(command => `  #${command.position} ${describeUndoableEvent(command.event)}`);
+
+  return [
+    messages().currentState(getDisplayName(view.currentState)),
+    messages().undoableHeading(view.stateAfterUndo && getDisplayName(view.stateAfterUndo)),
+    ...lines(view.undoable),
+    messages().redoableHeading(view.stateAfterRedo && getDisplayName(view.stateAfterRedo)),
+    ...lines(view.redoable)
+  ].join('\n');
+};
+
+/**
+ * Convert UndoStackReadError to user-friendly message
+ */
+export const formatUndoStackReadError = (error: UndoStackReadError): string => {
+  switch (error.type) {
+    case 'FileSystemError':
+      return messages().fileSystemError(error.message);
+    case 'DataCorruption':
+      return messages().dataCorruption(error.message, error.details);
+    default:
+      return messages().unknownError;
+  }
+};
@@ -0,0 +1,49 @@
+import { Result } from 'neverthrow';
+import type { WorkflowState } from '../../term/workflow-state.js';
+import type { UndoableCommand } from '../../command/undo-redo.js';
+
+/**
+ * Undo Stack Read Model Types
+ *
+ * This module defines the read-side types for querying which commands
+ * undo would revert and redo would re-apply.
+ * Following CQRS pattern, these are optimized for query operations.
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Read Model View Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Undo Stack View - Commands that can be undone and redone
+ *
+ * undoable is newest first, redoable is in the order redo would re-apply them.
+ */
+export type UndoStackView = {
+  readonly undoable: readonly UndoableCommand[];
+  readonly redoable: readonly UndoableCommand[];
+  readonly currentState: WorkflowState;
+  // 取り消し・やり直しした場合のワークフロー状態（対象がなければ null）
+  readonly stateAfterUndo: WorkflowState | null;
+  readonly stateAfterRedo: WorkflowState | null;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Read Operation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Undo Stack Read Error - Categorized failures during read operations
+ */
+export type UndoStackReadError =
+  | { readonly type: 'FileSystemError'; readonly message: string; readonly originalError?: Error }
+  | { readonly type: 'DataCorruption'; readonly message: string; readonly details?: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Query Result Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Undo Stack Query Result
+ */
+export type UndoStackQueryResult = Result<UndoStackView, UndoStackReadError>;
@@ -0,0 +1,85 @@
+import { WorkflowState } from '../../term/workflow-state.js';
+import type { WidenOptionsSteps } from '../../term/widen-options-steps.js';
+import type { DecisionEvent } from '../../command/decision-event.js';
+
+/**
+ * Workflow State Read Model Implementation
+ * 
+ * ワークフロー状態はファイルに直接保存せず、ジャーナルのイベント列から射影する。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Event Projections - Building State from Events
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const stateFromWidenOptionsStep = (step: WidenOptionsSteps): WorkflowState => {
+  switch (step.type) {
+    case 'initial_registered':
+      return WorkflowState.initialOptionsRegistered();
+    case 'laddered':
+      return WorkflowState.laddered();
+    case 'analogical_research_done':
+      return WorkflowState.analogicalResearchDone();
+    case 'elimination_tested':
+      return WorkflowState.eliminationTested();
+    case 'fixed':
+      return WorkflowState.optionsFixed();
+  }
+};
+
+/**
+ * Apply one event to a workflow state
+ * 
+ * Events that do not move the workflow (e.g. DecisionSwitched) keep the state as is.
+ */
+export const evolveWorkflowState = (state: WorkflowState, event: DecisionEvent): WorkflowState => {
+  switch (event.type) {
+    case 'IssueDefinitionCreated':
+      return WorkflowState.issueDefined();
+    case 'OptionsGenerated':
+      return stateFromWidenOptionsStep(event.widenOptionsStep);
+    case 'AssumptionsRegistered':
+      return WorkflowState.assumptionsRegistered();
+    case 'AssumptionTestResultRecorded':
+      return event.remainingUntestedCount === 0
+        ? WorkflowState.realityTested()
+        : WorkflowState.assumptionsRegistered();
+    case 'DistanceEvaluated':
+      return event.remainingUnevaluatedCount === 0
+        ? WorkflowState.distanceAttained()
+        : WorkflowState.attainingDistance();
+    case 'TripwiresEvaluated':
+      return event.firedCriteria.some(criterion => criterion.severity === 'critical')
+        ? WorkflowState.reconsidering()
+        : state;
+    case 'DecisionMade':
+      return WorkflowState.decided();
+    case 'DecisionReviewStarted':
+      return WorkflowState.underReview();
+    case 'DecisionProcessReset':
+      return WorkflowState.undefined();
+    case 'DecisionStarted':
+    case 'DecisionSwitched':
+    case 'TripwiresSet':
+    case 'TripwireUpdated':
+    case 'TripwireRemoved':
+    case 'OptionsScored':
+    case 'ConstraintsChecked':
+    case 'OptionChallenged':
+    case 'CounterpointStatusRecorded':
+    case 'OptionAdded':
+    case 'OptionUpdated':
+    case 'OptionRemoved':
+      return state;
+    // 取り消し・やり直しの結果はジャーナルを再生し直して求める（loadEvents が適用済みのイベント列を返す）
+    case 'CommandUndone':
+    case 'CommandRedone':
+      return state;
+  }
+};
+
+/**
+ * Projects the workflow state from a stream of events
+ */
+export const projectWorkflowStateFromEvents = (events: readonly DecisionEvent[]): WorkflowState =>
+  events.reduce(evolveWorkflowState, WorkflowState.undefined());
@@ -0,0 +1,259 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Assumption Term Model Implementation
+ *
+ * WRAPプロセスの「R（Reality-Test Assumptions）」で扱う語彙。
+ * 仮説は必ずいずれかの選択肢に紐づき、どう検証するかとセットで登録される。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「AssumptionId」
+ * domain type: value
+ */
+type AssumptionId = string & { readonly _brand: 'AssumptionId' };
+
+const AssumptionId = {
+  generate: (): AssumptionId => {
+    return `assumption-${Date.now()}-${Math.random().toString(36).substring(2, 11)}` as AssumptionId;
+  },
+
+  fromString: (value: string): Result<AssumptionId, ValidationError[]> => {
+    if (!value || value.trim().length === 0) {
+      return err([ValidationError.create('required', 'assumptionId', messages().assumptionIdRequired)]);
+    }
+    return ok(value.trim() as AssumptionId);
+  },
+
+  toString: (id: AssumptionId): string => id
+} as const;
+
+/**
+ * 語彙「AssumptionStatement」
+ * domain type: value
+ *
+ * 「この選択肢がうまくいくためには何が真でなければならないか」を表す文（100文字まで）
+ */
+type AssumptionStatement = string & { readonly _brand: 'AssumptionStatement' };
+
+const AssumptionStatement = {
+  create: (value: string): Result<AssumptionStatement, ValidationError[]> => {
+    const errors = validateText(value, 'statement', messages().statement);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as AssumptionStatement);
+  },
+
+  toString: (statement: AssumptionStatement): string => statement
+} as const;
+
+/**
+ * 語彙「TestMethod」
+ * domain type: value
+ *
+ * 仮説をどうやって確かめるか（小さく試す・データを見る・人に聞くなど、100文字まで）
+ */
+type TestMethod = string & { readonly _brand: 'TestMethod' };
+
+const TestMethod = {
+  create: (value: string): Result<TestMethod, ValidationError[]> => {
+    const errors = validateText(value, 'testMethod', messages().testMethod);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as TestMethod);
+  },
+
+  toString: (method: TestMethod): string => method
+} as const;
+
+/**
+ * 語彙「AssumptionConfidence」
+ * domain type: value
+ *
+ * 検証前の時点で、その仮説が正しいとどの程度確信しているか
+ */
+type AssumptionConfidence = 'low' | 'medium' | 'high';
+
+/**
+ * 語彙「AssumptionVerdict」
+ * domain type: value
+ *
+ * 検証の結果（裏付けられた・覆された・判断できなかった）
+ */
+type AssumptionVerdict = 'confirmed' | 'refuted' | 'inconclusive';
+
+/**
+ * 語彙「Assumption」
+ * domain type: value
+ */
+type Assumption = {
+  readonly id: AssumptionId;
+  readonly optionId: OptionId;
+  readonly statement: AssumptionStatement;
+  readonly confidence: AssumptionConfidence;
+  readonly testMethod: TestMethod;
+};
+
+type RequestedAssumption = {
+  optionId: string;
+  statement: string;
+  confidence: AssumptionConfidence;
+  testMethod: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Smart constructor for Assumption - collects every validation error at once
+const constructAssumption = (params: RequestedAssumption): Result<Assumption, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'optionId', messages().optionIdRequired)]);
+  const statementResult = AssumptionStatement.create(params.statement);
+  const testMethodResult = TestMethod.create(params.testMethod);
+
+  return Result.combineWithAllErrors([optionIdResult, statementResult, testMethodResult])
+    .mapErr(errors => errors.flat())
+    .map(([optionId, statement, testMethod]) => ({
+      id: AssumptionId.generate(),
+      optionId: optionId as OptionId,
+      statement: statement as AssumptionStatement,
+      confidence: params.confidence,
+      testMethod: testMethod as TestMethod
+    }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_TEXT_LENGTH = 100;
+
+const validateText = (value: string, field: string, label: string): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', field, messages().required(label))];
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    return [ValidationError.create('too_long', field, messages().tooLong(label, MAX_TEXT_LENGTH))];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    assumptionIdRequired: '仮説IDは必須です',
+    optionIdRequired: '仮説を紐づける選択肢IDは必須です',
+    statement: '仮説',
+    testMethod: '検証方法',
+    required: (label: string) => `${label}は必須です`,
+    tooLong: (label: string, maxLength: number) => `${label}は${maxLength}文字以内で入力してください`,
+    confidence: { low: '低', medium: '中', high: '高' } satisfies Record<AssumptionConfidence, string>,
+    verdict: {
+      confirmed: '裏付けられた',
+      refuted: '覆された',
+      inconclusive: '判断できなかった'
+    } satisfies Record<AssumptionVerdict, string>
+  },
+  en: {
+    assumptionIdRequired: 'Assumption ID is required',
+    optionIdRequired: 'The option ID the assumption belongs to is required',
+    statement: 'Assumption',
+    testMethod: 'Test method',
+    required: (label: string) => `${label} is required`,
+    tooLong: (label: string, maxLength: number) => `${label} must be at most ${maxLength} characters`,
+    confidence: { low: 'low', medium: 'medium', high: 'high' },
+    verdict: {
+      confirmed: 'confirmed',
+      refuted: 'refuted',
+      inconclusive: 'inconclusive'
+    }
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Zodスキーマ
+ */
+export const AssumptionConfidenceSchema = z.enum(['low', 'medium', 'high']);
+export const AssumptionVerdictSchema = z.enum(['confirmed', 'refuted', 'inconclusive']);
+
+/**
+ * Assumption Term Model
+ */
+export const AssumptionModel = {
+  create: constructAssumption
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  AssumptionId,
+  AssumptionStatement,
+  TestMethod
+} as const;
+
+/**
+ * 確信度の表示名を取得する純粋関数
+ */
+export const getConfidenceDisplayName = (confidence: AssumptionConfidence): string =>
+  messages().confidence[confidence];
+
+/**
+ * 検証結果の表示名を取得する純粋関数
+ */
+export const getVerdictDisplayName = (verdict: AssumptionVerdict): string =>
+  messages().verdict[verdict];
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  Assumption,
+  RequestedAssumption,
+  AssumptionId,
+  AssumptionStatement,
+  TestMethod,
+  AssumptionConfidence,
+  AssumptionVerdict,
+  ValidationError
+};
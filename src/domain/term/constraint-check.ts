@@ -0,0 +1,199 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+import type { ConstraintId } from './issue-definition.js';
+
+/**
+ * Constraint Check Term Model Implementation
+ *
+ * 課題に付けた個々の制約（必須・希望）に、登録済みの選択肢が合っているかを判定した結果の語彙。
+ * 判定は選択肢と制約の組ごとに1つで、理由を必ず添える。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「ConstraintVerdict」
+ * domain type: value
+ *
+ * satisfied: 制約を満たす
+ * violated: 制約に反する
+ * uncertain: 今ある情報では判断できない
+ */
+type ConstraintVerdict = 'satisfied' | 'violated' | 'uncertain';
+
+const ConstraintVerdict = {
+  toDisplayName: (verdict: ConstraintVerdict): string => messages().verdict[verdict]
+} as const;
+
+/**
+ * 語彙「VerdictReasoning」
+ * domain type: value
+ *
+ * 判定の理由（200文字まで）
+ */
+type VerdictReasoning = string & { readonly _brand: 'VerdictReasoning' };
+
+const VerdictReasoning = {
+  create: (value: string): Result<VerdictReasoning, ValidationError[]> => {
+    const errors = validateReasoning(value);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as VerdictReasoning);
+  },
+
+  toString: (reasoning: VerdictReasoning): string => reasoning
+} as const;
+
+/**
+ * 語彙「ConstraintCheck」
+ * domain type: value
+ *
+ * 1つの選択肢を1つの制約に照らした判定
+ */
+type ConstraintCheck = {
+  readonly optionId: OptionId;
+  readonly constraintId: ConstraintId;
+  readonly verdict: ConstraintVerdict;
+  readonly reasoning: VerdictReasoning;
+};
+
+type RequestedConstraintCheck = {
+  optionId: string;
+  constraintId: string;
+  verdict: ConstraintVerdict;
+  reasoning: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Smart constructor for ConstraintCheck - collects every validation error at once
+// 制約IDが課題に存在するかは Command 側で確認する
+const constructConstraintCheck = (
+  params: RequestedConstraintCheck
+): Result<ConstraintCheck, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'optionId', messages().optionIdRequired)]);
+  const constraintIdResult: Result<ConstraintId, ValidationError[]> = params.constraintId.trim().length > 0
+    ? ok(params.constraintId.trim() as ConstraintId)
+    : err([ValidationError.create('required', 'constraintId', messages().constraintIdRequired)]);
+  const reasoningResult = VerdictReasoning.create(params.reasoning);
+
+  return Result.combineWithAllErrors([optionIdResult, constraintIdResult, reasoningResult])
+    .mapErr(errors => errors.flat())
+    .map(([optionId, constraintId, reasoning]) => ({
+      optionId: optionId as OptionId,
+      constraintId: constraintId as ConstraintId,
+      verdict: params.verdict,
+      reasoning: reasoning as VerdictReasoning
+    }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_REASONING_LENGTH = 200;
+
+const validateReasoning = (value: string): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', 'reasoning', messages().reasoningRequired)];
+  }
+  if (value.length > MAX_REASONING_LENGTH) {
+    return [ValidationError.create('too_long', 'reasoning', messages().reasoningTooLong(MAX_REASONING_LENGTH))];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    verdict: {
+      satisfied: '満たす',
+      violated: '反する',
+      uncertain: '判断できない'
+    } satisfies Record<ConstraintVerdict, string>,
+    optionIdRequired: '判定する選択肢IDは必須です',
+    constraintIdRequired: '判定する制約IDは必須です',
+    reasoningRequired: '判定の理由は必須です',
+    reasoningTooLong: (maxLength: number) => `判定の理由は${maxLength}文字以内で入力してください`
+  },
+  en: {
+    verdict: {
+      satisfied: 'satisfied',
+      violated: 'violated',
+      uncertain: 'uncertain'
+    },
+    optionIdRequired: 'The option ID to check is required',
+    constraintIdRequired: 'The constraint ID to check is required',
+    reasoningRequired: 'The reasoning for the verdict is required',
+    reasoningTooLong: (maxLength: number) => `The reasoning for the verdict must be at most ${maxLength} characters`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * ConstraintCheck Term Model
+ */
+export const ConstraintCheckModel = {
+  create: constructConstraintCheck
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  ConstraintVerdict,
+  VerdictReasoning
+} as const;
+
+export const ConstraintVerdictSchema = z.enum(['satisfied', 'violated', 'uncertain']);
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  ConstraintCheck,
+  RequestedConstraintCheck,
+  ConstraintVerdict,
+  VerdictReasoning,
+  ValidationError
+};
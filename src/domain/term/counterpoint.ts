@@ -0,0 +1,259 @@
+import { Result, ok, err } from 'neverthrow';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Counterpoint Term Model Implementation
+ *
+ * 確証バイアスに対抗するため、選んだ選択肢に対して最も強い反論を立て、
+ * それを裏付けうる「反証となる証拠」を探す対象として記録する語彙。
+ * 反論は選択肢に紐づき、証拠ごとに対処したかどうかを記録できる。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「CounterpointId」
+ * domain type: value
+ */
+type CounterpointId = string & { readonly _brand: 'CounterpointId' };
+
+const CounterpointId = {
+  generate: (): CounterpointId => {
+    return `counterpoint-${Date.now()}-${Math.random().toString(36).substring(2, 11)}` as CounterpointId;
+  },
+
+  fromString: (value: string): Result<CounterpointId, ValidationError[]> => {
+    if (!value || value.trim().length === 0) {
+      return err([ValidationError.create('required', 'counterpointId', messages().counterpointIdRequired)]);
+    }
+    return ok(value.trim() as CounterpointId);
+  },
+
+  toString: (id: CounterpointId): string => id
+} as const;
+
+/**
+ * 語彙「StrongestCase」
+ * domain type: value
+ *
+ * その選択肢を採るべきでない理由を、最も説得力のある形でまとめた反論（400文字まで）
+ */
+type StrongestCase = string & { readonly _brand: 'StrongestCase' };
+
+const StrongestCase = {
+  create: (value: string): Result<StrongestCase, ValidationError[]> => {
+    const errors = validateText(value, 'strongestCase', messages().strongestCase, MAX_STRONGEST_CASE_LENGTH);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as StrongestCase);
+  },
+
+  toString: (strongestCase: StrongestCase): string => strongestCase
+} as const;
+
+/**
+ * 語彙「DisconfirmingEvidence」
+ * domain type: value
+ *
+ * 見つかれば反論が正しいと分かる、探しに行くべき証拠（200文字まで）
+ */
+type DisconfirmingEvidence = string & { readonly _brand: 'DisconfirmingEvidence' };
+
+const DisconfirmingEvidence = {
+  create: (value: string): Result<DisconfirmingEvidence, ValidationError[]> => {
+    const errors = validateText(value, 'disconfirmingEvidence', messages().disconfirmingEvidence, MAX_TEXT_LENGTH);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as DisconfirmingEvidence);
+  },
+
+  toString: (evidence: DisconfirmingEvidence): string => evidence
+} as const;
+
+/**
+ * 語彙「CounterpointNote」
+ * domain type: value
+ *
+ * 反論にどう対処したか、証拠を探して何が分かったか（200文字まで）
+ */
+type CounterpointNote = string & { readonly _brand: 'CounterpointNote' };
+
+const CounterpointNote = {
+  create: (value: string): Result<CounterpointNote, ValidationError[]> => {
+    const errors = validateText(value, 'note', messages().note, MAX_TEXT_LENGTH);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as CounterpointNote);
+  },
+
+  toString: (note: CounterpointNote): string => note
+} as const;
+
+/**
+ * 語彙「Counterpoint」
+ * domain type: value
+ *
+ * 反論を確かめるために探す、反証となる証拠の1つ
+ */
+type Counterpoint = {
+  readonly id: CounterpointId;
+  readonly evidence: DisconfirmingEvidence;
+};
+
+/**
+ * 語彙「OptionChallenge」
+ * domain type: value
+ *
+ * 1つの選択肢に対する最も強い反論と、探すべき反証の一覧
+ */
+type OptionChallenge = {
+  readonly optionId: OptionId;
+  readonly strongestCase: StrongestCase;
+  readonly counterpoints: readonly Counterpoint[];
+};
+
+type RequestedOptionChallenge = {
+  optionId: string;
+  strongestCase: string;
+  disconfirmingEvidence: readonly string[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const createCounterpoints = (
+  disconfirmingEvidence: readonly string[]
+): Result<Counterpoint[], ValidationError[]> => {
+  if (disconfirmingEvidence.length === 0) {
+    return err([ValidationError.create('required', 'disconfirmingEvidence', messages().disconfirmingEvidenceEmpty)]);
+  }
+
+  return Result.combineWithAllErrors(disconfirmingEvidence.map(DisconfirmingEvidence.create))
+    .mapErr(errors => errors.flat())
+    .map(evidences => evidences.map(evidence => ({ id: CounterpointId.generate(), evidence })));
+};
+
+// Smart constructor for OptionChallenge - collects every validation error at once
+// 選択肢が登録されているかは Command 側で確認する
+const constructOptionChallenge = (
+  params: RequestedOptionChallenge
+): Result<OptionChallenge, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'optionId', messages().optionIdRequired)]);
+  const strongestCaseResult = StrongestCase.create(params.strongestCase);
+  const counterpointsResult = createCounterpoints(params.disconfirmingEvidence);
+
+  return Result.combineWithAllErrors([optionIdResult, strongestCaseResult, counterpointsResult])
+    .mapErr(errors => errors.flat())
+    .map(([optionId, strongestCase, counterpoints]) => ({
+      optionId: optionId as OptionId,
+      strongestCase: strongestCase as StrongestCase,
+      counterpoints: counterpoints as Counterpoint[]
+    }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_STRONGEST_CASE_LENGTH = 400;
+const MAX_TEXT_LENGTH = 200;
+
+const validateText = (value: string, field: string, label: string, maxLength: number): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', field, messages().required(label))];
+  }
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', field, messages().tooLong(label, maxLength))];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    counterpointIdRequired: '反論IDは必須です',
+    optionIdRequired: '反論する選択肢IDは必須です',
+    strongestCase: '最も強い反論',
+    disconfirmingEvidence: '反証となる証拠',
+    disconfirmingEvidenceEmpty: '反証となる証拠を1つ以上入力してください',
+    note: '対処の内容',
+    required: (label: string) => `${label}は必須です`,
+    tooLong: (label: string, maxLength: number) => `${label}は${maxLength}文字以内で入力してください`
+  },
+  en: {
+    counterpointIdRequired: 'Counterpoint ID is required',
+    optionIdRequired: 'The option ID to challenge is required',
+    strongestCase: 'The strongest case against the option',
+    disconfirmingEvidence: 'Disconfirming evidence',
+    disconfirmingEvidenceEmpty: 'Enter at least one piece of disconfirming evidence',
+    note: 'The note on how it was addressed',
+    required: (label: string) => `${label} is required`,
+    tooLong: (label: string, maxLength: number) => `${label} must be at most ${maxLength} characters`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * OptionChallenge Term Model
+ */
+export const OptionChallengeModel = {
+  create: constructOptionChallenge
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  CounterpointId,
+  StrongestCase,
+  DisconfirmingEvidence,
+  CounterpointNote
+} as const;
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  OptionChallenge,
+  RequestedOptionChallenge,
+  Counterpoint,
+  CounterpointId,
+  StrongestCase,
+  DisconfirmingEvidence,
+  CounterpointNote,
+  ValidationError
+};
@@ -0,0 +1,115 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Decision Term Model Implementation
+ *
+ * 一つの意思決定（課題・選択肢・ワークフロー状態のまとまり）を識別する語彙。
+ * 複数の意思決定を並行して進めるための単位となる。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「DecisionId」
+ * domain type: value
+ *
+ * 保存先ディレクトリ名としても使うため、英数字・ハイフン・アンダースコアのみ許可する
+ */
+type DecisionId = string & { readonly _brand: 'DecisionId' };
+
+const DecisionId = {
+  generate: (): DecisionId => {
+    return `decision-${Date.now()}-${Math.random().toString(36).substring(2, 11)}` as DecisionId;
+  },
+
+  fromString: (value: string): Result<DecisionId, ValidationError[]> => {
+    const errors = validateDecisionId(value);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as DecisionId);
+  },
+
+  toString: (id: DecisionId): string => id
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'invalid_format';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const DECISION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const validateDecisionId = (value: string): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', 'decisionId', messages().required)];
+  }
+  if (!DECISION_ID_PATTERN.test(value.trim())) {
+    return [ValidationError.create('invalid_format', 'decisionId', messages().invalidFormat)];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    required: '意思決定IDは必須です',
+    invalidFormat: '意思決定IDは英数字・ハイフン・アンダースコアのみ使用できます'
+  },
+  en: {
+    required: 'Decision ID is required',
+    invalidFormat: 'Decision IDs may only contain letters, digits, hyphens and underscores'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Zodスキーマ（ツール入力で意思決定を指定するために使用）
+ *
+ * エラーメッセージは検証するときのロケールで引く
+ */
+export const DecisionIdSchema = z.string({
+  errorMap: (issue, ctx) => ({ message: issue.code === 'invalid_string' ? messages().invalidFormat : ctx.defaultError })
+}).regex(DECISION_ID_PATTERN);
+
+export { DecisionId };
+
+/**
+ * Type Exports for External Use
+ */
+export type { ValidationError };
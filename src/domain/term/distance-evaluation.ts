@@ -0,0 +1,214 @@
+import { Result, ok, err } from 'neverthrow';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Distance Evaluation Term Model Implementation
+ *
+ * WRAPプロセスの「A（Attain Distance）」で扱う語彙。
+ * 短期的な感情から距離を置くため、選択肢ごとに 10/10/10 の時間軸評価と
+ * 外部の視点（後任者・親友ならどうするか）を記録する。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「HorizonAssessment」
+ * domain type: value
+ *
+ * ある時間軸（10分後・10ヶ月後・10年後）から見た、その選択肢への評価（100文字まで）
+ */
+type HorizonAssessment = string & { readonly _brand: 'HorizonAssessment' };
+
+const HorizonAssessment = {
+  create: (value: string, field: string, label: string): Result<HorizonAssessment, ValidationError[]> => {
+    const errors = validateText(value, field, label);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as HorizonAssessment);
+  },
+
+  toString: (assessment: HorizonAssessment): string => assessment
+} as const;
+
+/**
+ * 語彙「OutsideView」
+ * domain type: value
+ *
+ * 「自分の後任者（または親友）ならこの選択肢をどう判断するか」という外部の視点（100文字まで）
+ */
+type OutsideView = string & { readonly _brand: 'OutsideView' };
+
+const OutsideView = {
+  create: (value: string): Result<OutsideView, ValidationError[]> => {
+    const errors = validateText(value, 'outsideView', messages().outsideView);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as OutsideView);
+  },
+
+  toString: (view: OutsideView): string => view
+} as const;
+
+/**
+ * 語彙「TenTenTen」
+ * domain type: value
+ *
+ * 10/10/10 法: 10分後・10ヶ月後・10年後にその選択をどう感じているか
+ */
+type TenTenTen = {
+  readonly tenMinutes: HorizonAssessment;
+  readonly tenMonths: HorizonAssessment;
+  readonly tenYears: HorizonAssessment;
+};
+
+/**
+ * 語彙「DistanceEvaluation」
+ * domain type: value
+ */
+type DistanceEvaluation = {
+  readonly optionId: OptionId;
+  readonly tenTenTen: TenTenTen;
+  readonly outsideView: OutsideView;
+};
+
+type RequestedDistanceEvaluation = {
+  optionId: string;
+  tenMinutes: string;
+  tenMonths: string;
+  tenYears: string;
+  outsideView: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Smart constructor for DistanceEvaluation - collects every validation error at once
+const constructDistanceEvaluation = (
+  params: RequestedDistanceEvaluation
+): Result<DistanceEvaluation, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'optionId', messages().optionIdRequired)]);
+  const tenMinutesResult = HorizonAssessment.create(params.tenMinutes, 'tenMinutes', messages().tenMinutes);
+  const tenMonthsResult = HorizonAssessment.create(params.tenMonths, 'tenMonths', messages().tenMonths);
+  const tenYearsResult = HorizonAssessment.create(params.tenYears, 'tenYears', messages().tenYears);
+  const outsideViewResult = OutsideView.create(params.outsideView);
+
+  return Result.combineWithAllErrors([
+    optionIdResult,
+    tenMinutesResult,
+    tenMonthsResult,
+    tenYearsResult,
+    outsideViewResult
+  ])
+    .mapErr(errors => errors.flat())
+    .map(([optionId, tenMinutes, tenMonths, tenYears, outsideView]) => ({
+      optionId: optionId as OptionId,
+      tenTenTen: {
+        tenMinutes: tenMinutes as HorizonAssessment,
+        tenMonths: tenMonths as HorizonAssessment,
+        tenYears: tenYears as HorizonAssessment
+      },
+      outsideView: outsideView as OutsideView
+    }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_TEXT_LENGTH = 100;
+
+const validateText = (value: string, field: string, label: string): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', field, messages().required(label))];
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    return [ValidationError.create('too_long', field, messages().tooLong(label, MAX_TEXT_LENGTH))];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    optionIdRequired: '評価する選択肢IDは必須です',
+    outsideView: '外部の視点',
+    tenMinutes: '10分後の評価',
+    tenMonths: '10ヶ月後の評価',
+    tenYears: '10年後の評価',
+    required: (label: string) => `${label}は必須です`,
+    tooLong: (label: string, maxLength: number) => `${label}は${maxLength}文字以内で入力してください`
+  },
+  en: {
+    optionIdRequired: 'The option ID to evaluate is required',
+    outsideView: 'Outside view',
+    tenMinutes: 'The 10-minute assessment',
+    tenMonths: 'The 10-month assessment',
+    tenYears: 'The 10-year assessment',
+    required: (label: string) => `${label} is required`,
+    tooLong: (label: string, maxLength: number) => `${label} must be at most ${maxLength} characters`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * DistanceEvaluation Term Model
+ */
+export const DistanceEvaluationModel = {
+  create: constructDistanceEvaluation
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  HorizonAssessment,
+  OutsideView
+} as const;
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  DistanceEvaluation,
+  RequestedDistanceEvaluation,
+  TenTenTen,
+  HorizonAssessment,
+  OutsideView,
+  ValidationError
+};
@@ -0,0 +1,133 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Domain Policy Term Model
+ *
+ * 文字数の上限や選択肢の数など、運用に合わせて変えたいビジネスルールの値を1か所にまとめる。
+ * 起動時に設定ファイルから読み込んだ値を configure で設定し、
+ * Term Model の検証とツールの入力スキーマはどちらも current() の値から作る。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Policy Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「DomainPolicy」
+ * domain type: policy
+ *
+ * textLimits: 課題・コンテキスト・制約・成功基準・選択肢の最大文字数
+ * optionCount: 確定する選択肢の数（min〜max）と、選択肢を広げている間の一時的な上限（wideningMax）
+ */
+type DomainPolicy = {
+  readonly textLimits: {
+    readonly issue: number;
+    readonly context: number;
+    readonly constraints: number;
+    readonly successCriterion: number;
+    readonly option: number;
+  };
+  readonly optionCount: {
+    readonly min: number;
+    readonly max: number;
+    readonly wideningMax: number;
+  };
+};
+
+/**
+ * 設定ファイルで上書きする値（指定しなかった値はデフォルトのまま）
+ */
+type DomainPolicyOverrides = {
+  readonly textLimits?: Partial<DomainPolicy['textLimits']>;
+  readonly optionCount?: Partial<DomainPolicy['optionCount']>;
+};
+
+type DomainPolicyError = {
+  readonly type: 'InvalidDomainPolicy';
+  readonly message: string;
+};
+
+const DEFAULT_DOMAIN_POLICY: DomainPolicy = {
+  textLimits: { issue: 30, context: 60, constraints: 60, successCriterion: 60, option: 30 },
+  optionCount: { min: 3, max: 5, wideningMax: 10 }
+};
+
+const positiveInteger = z.number().int().positive();
+
+const DomainPolicyOverridesSchema = z.object({
+  textLimits: z.object({
+    issue: positiveInteger,
+    context: positiveInteger,
+    constraints: positiveInteger,
+    successCriterion: positiveInteger,
+    option: positiveInteger
+  }).partial().strict().optional(),
+  optionCount: z.object({
+    min: positiveInteger,
+    max: positiveInteger,
+    wideningMax: positiveInteger
+  }).partial().strict().optional()
+}).strict();
+
+const messages = defineCatalog({
+  ja: {
+    invalidOptionCount: (min: number, max: number, wideningMax: number) =>
+      `optionCount は min ≦ max ≦ wideningMax にしてください（min=${min}, max=${max}, wideningMax=${wideningMax}）`
+  },
+  en: {
+    invalidOptionCount: (min: number, max: number, wideningMax: number) =>
+      `optionCount must satisfy min ≤ max ≤ wideningMax (min=${min}, max=${max}, wideningMax=${wideningMax})`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Business rule: 選択肢の数は min ≦ max ≦ wideningMax である
+const validateOptionCount = (policy: DomainPolicy): Result<DomainPolicy, DomainPolicyError> => {
+  const { min, max, wideningMax } = policy.optionCount;
+  if (min > max || max > wideningMax) {
+    return err({
+      type: 'InvalidDomainPolicy',
+      message: messages().invalidOptionCount(min, max, wideningMax)
+    });
+  }
+  return ok(policy);
+};
+
+/**
+ * Apply overrides on top of the defaults and check the result
+ */
+const resolveDomainPolicy = (overrides: DomainPolicyOverrides = {}): Result<DomainPolicy, DomainPolicyError> =>
+  validateOptionCount({
+    textLimits: { ...DEFAULT_DOMAIN_POLICY.textLimits, ...overrides.textLimits },
+    optionCount: { ...DEFAULT_DOMAIN_POLICY.optionCount, ...overrides.optionCount }
+  });
+
+let currentPolicy: DomainPolicy = DEFAULT_DOMAIN_POLICY;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Domain Policy Term Model
+ *
+ * @utility resolve - Build a policy from overrides
+ * @utility configure - Set the policy used by term validators and tool schemas (once at startup)
+ * @utility current - The policy in use
+ */
+const DomainPolicy = {
+  resolve: resolveDomainPolicy,
+  configure: (policy: DomainPolicy): void => {
+    currentPolicy = policy;
+  },
+  current: (): DomainPolicy => currentPolicy
+} as const;
+
+export { DomainPolicy, DEFAULT_DOMAIN_POLICY, DomainPolicyOverridesSchema };
+
+export type { DomainPolicyOverrides, DomainPolicyError };
@@ -0,0 +1,238 @@
+import { Result, ok, err } from 'neverthrow';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Final Decision Term Model Implementation
+ *
+ * WRAPプロセスを経て、実際にどの選択肢を選んだか・なぜ選んだかを表す語彙。
+ * 選ばなかった選択肢の理由と、決定を見直す日（レビュー予定日）もあわせて記録する。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「Rationale」
+ * domain type: value
+ *
+ * その選択肢を選んだ理由（500文字まで）
+ */
+type Rationale = string & { readonly _brand: 'Rationale' };
+
+const Rationale = {
+  create: (value: string): Result<Rationale, ValidationError[]> => {
+    const errors = validateText(value, 'rationale', messages().rationale, MAX_RATIONALE_LENGTH);
+    return errors.length > 0 ? err(errors) : ok(value.trim() as Rationale);
+  },
+
+  toString: (rationale: Rationale): string => rationale
+} as const;
+
+/**
+ * 語彙「RejectionReason」
+ * domain type: value
+ *
+ * 選ばなかった選択肢と、選ばなかった理由（200文字まで）
+ */
+type RejectionReason = {
+  readonly optionId: OptionId;
+  readonly reason: string;
+};
+
+type RequestedRejectionReason = {
+  optionId: string;
+  reason: string;
+};
+
+/**
+ * 語彙「ReviewDate」
+ * domain type: value
+ *
+ * 決定を見直す予定日。決定した時点より後の日付でなければならない
+ */
+type ReviewDate = Date & { readonly _brand: 'ReviewDate' };
+
+const ReviewDate = {
+  create: (value: string, decidedAt: Date): Result<ReviewDate, ValidationError[]> => {
+    const date = new Date(value);
+    if (!value || Number.isNaN(date.getTime())) {
+      return err([ValidationError.create('invalid_date', 'reviewDate', messages().reviewDateInvalid)]);
+    }
+    if (date.getTime() <= decidedAt.getTime()) {
+      return err([ValidationError.create('invalid_date', 'reviewDate', messages().reviewDateNotFuture)]);
+    }
+    return ok(date as ReviewDate);
+  },
+
+  toString: (date: ReviewDate): string => date.toISOString().slice(0, 10)
+} as const;
+
+/**
+ * 語彙「FinalDecision」
+ * domain type: value
+ */
+type FinalDecision = {
+  readonly chosenOptionId: OptionId;
+  readonly rationale: Rationale;
+  readonly rejectedOptions: readonly RejectionReason[];
+  readonly reviewDate: ReviewDate;
+};
+
+type RequestedFinalDecision = {
+  chosenOptionId: string;
+  rationale: string;
+  rejectedOptions: RequestedRejectionReason[];
+  reviewDate: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long' | 'invalid_date';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Smart constructor for RejectionReason
+const constructRejectionReason = (
+  params: RequestedRejectionReason
+): Result<RejectionReason, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'rejectedOptions.optionId', messages().rejectedOptionIdRequired)]);
+  const reasonErrors = validateText(params.reason, 'rejectedOptions.reason', messages().rejectionReason, MAX_REASON_LENGTH);
+
+  if (optionIdResult.isErr() || reasonErrors.length > 0) {
+    return err([...(optionIdResult.isErr() ? optionIdResult.error : []), ...reasonErrors]);
+  }
+  return ok({ optionId: optionIdResult.value as OptionId, reason: params.reason.trim() });
+};
+
+// Smart constructor for FinalDecision - collects every validation error at once
+const constructFinalDecision = (
+  params: RequestedFinalDecision,
+  decidedAt: Date
+): Result<FinalDecision, ValidationError[]> => {
+  const chosenOptionIdResult = OptionValues.OptionId.fromString(params.chosenOptionId)
+    .mapErr(() => [ValidationError.create('required', 'chosenOptionId', messages().chosenOptionIdRequired)]);
+  const rationaleResult = Rationale.create(params.rationale);
+  const rejectedOptionsResult = Result.combineWithAllErrors(params.rejectedOptions.map(constructRejectionReason))
+    .mapErr(errors => errors.flat());
+  const reviewDateResult = ReviewDate.create(params.reviewDate, decidedAt);
+
+  return Result.combineWithAllErrors([
+    chosenOptionIdResult,
+    rationaleResult,
+    rejectedOptionsResult,
+    reviewDateResult
+  ])
+    .mapErr(errors => errors.flat())
+    .map(([chosenOptionId, rationale, rejectedOptions, reviewDate]) => ({
+      chosenOptionId: chosenOptionId as OptionId,
+      rationale: rationale as Rationale,
+      rejectedOptions: rejectedOptions as RejectionReason[],
+      reviewDate: reviewDate as ReviewDate
+    }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_RATIONALE_LENGTH = 500;
+const MAX_REASON_LENGTH = 200;
+
+const validateText = (value: string, field: string, label: string, maxLength: number): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', field, messages().required(label))];
+  }
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', field, messages().tooLong(label, maxLength))];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    chosenOptionIdRequired: '選んだ選択肢IDは必須です',
+    rejectedOptionIdRequired: '選ばなかった選択肢IDは必須です',
+    rationale: '選択理由',
+    rejectionReason: '選ばなかった理由',
+    reviewDateInvalid: 'レビュー予定日の形式が不正です（例: 2025-12-31）',
+    reviewDateNotFuture: 'レビュー予定日は今日より後の日付を指定してください',
+    required: (label: string) => `${label}は必須です`,
+    tooLong: (label: string, maxLength: number) => `${label}は${maxLength}文字以内で入力してください`
+  },
+  en: {
+    chosenOptionIdRequired: 'The chosen option ID is required',
+    rejectedOptionIdRequired: 'The rejected option ID is required',
+    rationale: 'Rationale',
+    rejectionReason: 'The reason for rejecting the option',
+    reviewDateInvalid: 'The review date is not a valid date (e.g. 2025-12-31)',
+    reviewDateNotFuture: 'The review date must be after today',
+    required: (label: string) => `${label} is required`,
+    tooLong: (label: string, maxLength: number) => `${label} must be at most ${maxLength} characters`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * FinalDecision Term Model
+ */
+export const FinalDecisionModel = {
+  create: constructFinalDecision
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  Rationale,
+  ReviewDate
+} as const;
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  FinalDecision,
+  RequestedFinalDecision,
+  RejectionReason,
+  RequestedRejectionReason,
+  Rationale,
+  ReviewDate,
+  ValidationError
+};
@@ -1,4 +1,6 @@
 import { Result, ok, err } from 'neverthrow';
+import { DomainPolicy } from './domain-policy.js';
+import { defineCatalog } from '../../common/i18n.js';
 
 /**
  * Issue Definition Term Model Implementation
@@ -18,6 +20,7 @@ import { Result, ok, err } from 'neverthrow';
 /**
  * Term types in this domain:
  * - value: Value objects and identifiers
+ * - collection: Constraint and success criterion lists of an issue
  */
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -69,6 +72,129 @@ const ConstraintText = {
   toString: (constraintText: ConstraintText): string => constraintText
 } as const;
 
+/**
+ * 語彙「ConstraintKind」
+ * domain type: value
+ *
+ * hard: 満たさない選択肢は採れない制約
+ * soft: できれば満たしたい希望
+ */
+type ConstraintKind = 'hard' | 'soft';
+
+const ConstraintKind = {
+  hard: (): ConstraintKind => 'hard',
+  soft: (): ConstraintKind => 'soft',
+
+  toDisplayName: (kind: ConstraintKind): string => messages().constraintKind[kind]
+} as const;
+
+/**
+ * 語彙「ConstraintId」
+ * domain type: value
+ *
+ * 課題の中での順番から振る（constraint-1, constraint-2, ...）。
+ * 選択肢を制約に照らすときはこの ID で制約を指す
+ */
+type ConstraintId = string & { readonly _brand: 'ConstraintId' };
+
+const ConstraintId = {
+  fromIndex: (index: number): ConstraintId => `constraint-${index + 1}` as ConstraintId,
+
+  toString: (id: ConstraintId): string => id
+} as const;
+
+/**
+ * 語彙「Constraint」
+ * domain type: value
+ *
+ * 課題に付ける1つの制約（必須か希望か）
+ */
+type Constraint = {
+  readonly id: ConstraintId;
+  readonly kind: ConstraintKind;
+  readonly text: ConstraintText;
+};
+
+/**
+ * 語彙「SuccessCriterionText」
+ * domain type: value
+ */
+type SuccessCriterionText = string & { readonly _brand: 'SuccessCriterionText' };
+
+const SuccessCriterionText = {
+  toString: (successCriterionText: SuccessCriterionText): string => successCriterionText
+} as const;
+
+/**
+ * 語彙「SuccessCriterionId」
+ * domain type: value
+ *
+ * 課題の中での順番から振る（criterion-1, criterion-2, ...）
+ */
+type SuccessCriterionId = string & { readonly _brand: 'SuccessCriterionId' };
+
+const SuccessCriterionId = {
+  fromIndex: (index: number): SuccessCriterionId => `criterion-${index + 1}` as SuccessCriterionId,
+
+  toString: (id: SuccessCriterionId): string => id
+} as const;
+
+/**
+ * 語彙「SuccessCriterion」
+ * domain type: value
+ *
+ * 決定がうまくいったと言える条件
+ */
+type SuccessCriterion = {
+  readonly id: SuccessCriterionId;
+  readonly text: SuccessCriterionText;
+};
+
+/**
+ * 制約を1つずつ指定するときの入力
+ */
+type RequestedConstraint = {
+  readonly kind: ConstraintKind;
+  readonly text: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Collection Types - Lists attached to the issue
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ConstraintList = {
+  // 入力の順番で ID を振る。不正な項目はすべて集めて返す
+  create: (requested: readonly RequestedConstraint[]): Result<readonly Constraint[], ValidationError[]> => {
+    const errors = requested.flatMap((item, index) => validateConstraintItem(item.text, index));
+    return errors.length > 0
+      ? err(errors)
+      : ok(requested.map((item, index): Constraint => ({
+          id: ConstraintId.fromIndex(index),
+          kind: item.kind,
+          text: item.text.trim() as ConstraintText
+        })));
+  },
+
+  hard: (constraints: readonly Constraint[]): readonly Constraint[] =>
+    constraints.filter(constraint => constraint.kind === 'hard'),
+
+  soft: (constraints: readonly Constraint[]): readonly Constraint[] =>
+    constraints.filter(constraint => constraint.kind === 'soft')
+} as const;
+
+const SuccessCriteria = {
+  // 入力の順番で ID を振る。不正な項目はすべて集めて返す
+  create: (texts: readonly string[]): Result<readonly SuccessCriterion[], ValidationError[]> => {
+    const errors = texts.flatMap((text, index) => validateSuccessCriterionText(text, index));
+    return errors.length > 0
+      ? err(errors)
+      : ok(texts.map((text, index): SuccessCriterion => ({
+          id: SuccessCriterionId.fromIndex(index),
+          text: text.trim() as SuccessCriterionText
+        })));
+  }
+} as const;
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Types - Validation Failures
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -83,36 +209,90 @@ type ValidationError = {
 // Business Rules - Domain Policies
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+// 最大文字数は DomainPolicy の textLimits に従う
 const validateIssueText = (value: string): ValidationError[] => {
   if (!value || value.trim().length === 0) {
-    return [ValidationError.create('required', 'issue', '課題は必須です')];
+    return [ValidationError.create('required', 'issue', messages().required(messages().issue))];
   }
-  if (value.length > 30) {
-    return [ValidationError.create('too_long', 'issue', '課題は30文字以内で入力してください')];
+  const maxLength = DomainPolicy.current().textLimits.issue;
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', 'issue', messages().tooLong(messages().issue, maxLength))];
   }
   return [];
 };
 
 const validateContextText = (value: string): ValidationError[] => {
   if (!value || value.trim().length === 0) {
-    return [ValidationError.create('required', 'context', 'コンテキストは必須です')];
+    return [ValidationError.create('required', 'context', messages().required(messages().context))];
   }
-  if (value.length > 60) {
-    return [ValidationError.create('too_long', 'context', 'コンテキストは60文字以内で入力してください')];
+  const maxLength = DomainPolicy.current().textLimits.context;
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', 'context', messages().tooLong(messages().context, maxLength))];
   }
   return [];
 };
 
 const validateConstraintText = (value: string): ValidationError[] => {
   if (!value || value.trim().length === 0) {
-    return [ValidationError.create('required', 'constraints', '制約は必須です')];
+    return [ValidationError.create('required', 'constraints', messages().required(messages().constraints))];
+  }
+  const maxLength = DomainPolicy.current().textLimits.constraints;
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', 'constraints', messages().tooLong(messages().constraints, maxLength))];
+  }
+  return [];
+};
+
+// 制約・成功基準のリストでは、何番目の項目かをメッセージに含める
+const validateConstraintItem = (value: string, index: number): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', 'constraintItems', messages().required(messages().constraintItem(index + 1)))];
+  }
+  const maxLength = DomainPolicy.current().textLimits.constraints;
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', 'constraintItems', messages().tooLong(messages().constraintItem(index + 1), maxLength))];
+  }
+  return [];
+};
+
+const validateSuccessCriterionText = (value: string, index: number): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', 'successCriteria', messages().required(messages().successCriterion(index + 1)))];
   }
-  if (value.length > 60) {
-    return [ValidationError.create('too_long', 'constraints', '制約は60文字以内で入力してください')];
+  const maxLength = DomainPolicy.current().textLimits.successCriterion;
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', 'successCriteria', messages().tooLong(messages().successCriterion(index + 1), maxLength))];
   }
   return [];
 };
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    constraintKind: { hard: '必須', soft: '希望' } satisfies Record<ConstraintKind, string>,
+    issue: '課題',
+    context: 'コンテキスト',
+    constraints: '制約',
+    constraintItem: (position: number) => `制約${position}`,
+    successCriterion: (position: number) => `成功基準${position}`,
+    required: (label: string) => `${label}は必須です`,
+    tooLong: (label: string, maxLength: number) => `${label}は${maxLength}文字以内で入力してください`
+  },
+  en: {
+    constraintKind: { hard: 'hard', soft: 'soft' },
+    issue: 'Issue',
+    context: 'Context',
+    constraints: 'Constraints',
+    constraintItem: (position: number) => `Constraint ${position}`,
+    successCriterion: (position: number) => `Success criterion ${position}`,
+    required: (label: string) => `${label} is required`,
+    tooLong: (label: string, maxLength: number) => `${label} must be at most ${maxLength} characters`
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Handling Utilities
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -133,13 +313,27 @@ const ValidationError = {
 export const Values = {
   IssueText,
   ContextText,
-  ConstraintText
+  ConstraintText,
+  ConstraintKind,
+  ConstraintId,
+  SuccessCriterionText,
+  SuccessCriterionId
 } as const;
 
 // Export constructors directly
-export { IssueText, ContextText, ConstraintText };
+export {
+  IssueText,
+  ContextText,
+  ConstraintText,
+  ConstraintKind,
+  ConstraintId,
+  SuccessCriterionText,
+  SuccessCriterionId,
+  ConstraintList,
+  SuccessCriteria
+};
 
 /**
  * Type Exports for External Use
  */
-export type { ValidationError };
\ No newline at end of file
+export type { ValidationError, Constraint, SuccessCriterion, RequestedConstraint };
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { Result, ok, err } from 'neverthrow';
+import { DomainPolicy } from './domain-policy.js';
+import { defineCatalog } from '../../common/i18n.js';
 
 /**
  * Option Selection Term Model Implementation
@@ -48,7 +50,7 @@ const OptionId = {
  * 語彙「OptionText」
  * domain type: value
  * 
- * 選択肢の文字列（30文字まで）
+ * 選択肢の文字列（DomainPolicy の textLimits.option 文字まで、デフォルト30文字）
  */
 type OptionText = string & { readonly _brand: 'OptionText' };
 
@@ -69,18 +71,23 @@ type Option = {
   readonly id: OptionId;
   readonly text: OptionText;
   readonly supplementaryInfo?: string;
+  // ラダリングで派生した選択肢の場合、派生元の選択肢
+  readonly parentId?: OptionId;
 };
 
 type RequestedOption = {
+  // 前のステップから引き継ぐ選択肢のID（省略時は新しい選択肢として採番する）
+  id?: string;
   text: string;
   supplementaryInfo?: string;
+  parentId?: string;
 };
 
 /**
  * 語彙「OptionList」
  * domain type: policy
  * 
- * Business rule: 選択肢は3〜5個である
+ * Business rule: 選択肢は3〜5個である（DomainPolicy の optionCount で変更できる）
  */
 type OptionList = {
   readonly options: readonly Option[];
@@ -90,6 +97,30 @@ type RequestedOptionList = {
   options: readonly RequestedOption[];
 };
 
+/**
+ * 語彙「OptionCountRule」
+ * domain type: policy
+ *
+ * Business rule: 確定する選択肢は3〜5個である。
+ * 選択肢を広げている間は、1つずつ追加するために一時的に10個まで増やしてよい
+ * （いずれも DomainPolicy の optionCount で変更できる）
+ */
+type OptionCountRule = {
+  readonly min: number;
+  readonly max: number;
+};
+
+const OptionCountRule = {
+  fixed: (): OptionCountRule => {
+    const { min, max } = DomainPolicy.current().optionCount;
+    return { min, max };
+  },
+  widening: (): OptionCountRule => {
+    const { min, wideningMax } = DomainPolicy.current().optionCount;
+    return { min, max: wideningMax };
+  }
+} as const;
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Types - Validation Failures
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -121,20 +152,33 @@ type ConstructOptionList = (params: RequestedOptionList) => Result<OptionList, O
 // Implementation Section - Business Logic
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+// 引き継ぐ選択肢はIDをそのまま使い、新しい選択肢だけ採番する
+const resolveOptionId = (id: string | undefined): Result<OptionId, ValidationError[]> =>
+  id === undefined ? ok(OptionId.generate()) : OptionId.fromString(id);
+
+const resolveParentId = (parentId: string | undefined): Result<OptionId | undefined, ValidationError[]> =>
+  parentId === undefined ? ok(undefined) : OptionId.fromString(parentId);
+
 // Smart constructor for Option
 const constructOption: ConstructOption = (params) =>
   OptionText.create(params.text)
-    .andThen(text => {
-      const option: Option = {
-        id: OptionId.generate(),
-        text,
-        ...(params.supplementaryInfo && { supplementaryInfo: params.supplementaryInfo })
-      };
-      return ok(option);
-    })
-    .mapErr(errors => errors.map(e => 
-      OptionError.create('OptionCreationFailed', `Text validation failed: ${e.message}`)
-    ));
+    .mapErr(errors => errors.map(e =>
+      OptionError.create('OptionCreationFailed', messages().textValidationFailed(e.message))
+    ))
+    .andThen(text =>
+      resolveOptionId(params.id)
+        .andThen(id => resolveParentId(params.parentId).map(parentId => ({ id, parentId })))
+        .map(({ id, parentId }) => {
+          const option: Option = {
+            id,
+            text,
+            ...(params.supplementaryInfo && { supplementaryInfo: params.supplementaryInfo }),
+            ...(parentId && { parentId })
+          };
+          return option;
+        })
+        .mapErr(errors => errors.map(e => OptionError.create('InvalidId', e.message)))
+    );
 
 // Smart constructor for OptionList with business rule enforcement
 const constructOptionList: ConstructOptionList = (params) =>
@@ -152,7 +196,7 @@ const validateOptionListParams = (params: RequestedOptionList): Result<Requested
   const errors: OptionListError[] = [];
   
   if (!params.options || params.options.length === 0) {
-    errors.push(OptionListError.create('InvalidOptionCount', 'Options array cannot be empty'));
+    errors.push(OptionListError.create('InvalidOptionCount', messages().optionsEmpty));
   }
   
   return errors.length > 0 ? err(errors) : ok(params);
@@ -162,8 +206,8 @@ const createOptionsFromParams = (optionParams: readonly RequestedOption[]): Resu
   const optionResults = optionParams.map((optionParam, index) => 
     constructOption(optionParam)
       .mapErr(optionErrors => 
-        OptionListError.create('OptionCreationFailed', 
-          `Option ${index + 1}: ${optionErrors.map(e => e.message).join(', ')}`
+        OptionListError.create('OptionCreationFailed',
+          messages().optionFailed(index + 1, optionErrors.map(e => e.message).join(', '))
         )
       )
   );
@@ -188,30 +232,71 @@ const createOptionList = (options: Option[]): OptionList => {
 
 const validateOptionId = (value: string): ValidationError[] => {
   if (!value || value.trim().length === 0) {
-    return [ValidationError.create('required', 'optionId', 'Option ID is required')];
+    return [ValidationError.create('required', 'optionId', messages().optionIdRequired)];
   }
   return [];
 };
 
 const validateOptionText = (value: string): ValidationError[] => {
   if (!value || value.trim().length === 0) {
-    return [ValidationError.create('required', 'text', '選択肢は必須です')];
+    return [ValidationError.create('required', 'text', messages().textRequired)];
   }
-  if (value.length > 30) {
-    return [ValidationError.create('too_long', 'text', '選択肢は30文字以内で入力してください')];
+  const maxLength = DomainPolicy.current().textLimits.option;
+  if (value.length > maxLength) {
+    return [ValidationError.create('too_long', 'text', messages().textTooLong(maxLength))];
   }
   return [];
 };
 
-// Business rule: 選択肢は3〜5個である
-const validateOptionCount = (options: Option[]): OptionListError[] => {
-  if (options.length < 3 || options.length > 5) {
-    return [OptionListError.create('InvalidOptionCount', 
-      `Option count must be between 3 and 5, but got ${options.length}`)];
+// Business rule: 選択肢は3〜5個である（広げている間は OptionCountRule.widening）
+const validateOptionCount = (
+  options: readonly Option[],
+  rule: OptionCountRule = OptionCountRule.fixed()
+): OptionListError[] => {
+  if (options.length < rule.min || options.length > rule.max) {
+    return [OptionListError.create('InvalidOptionCount', messages().invalidCount(rule.min, rule.max, options.length))];
   }
   return [];
 };
 
+/**
+ * Apply an edit to an option list and check the count against the rule
+ */
+const editOptionList = (
+  options: readonly Option[],
+  edit: (options: readonly Option[]) => readonly Option[],
+  rule: OptionCountRule
+): Result<OptionList, OptionListError[]> => {
+  const edited = edit(options);
+  const errors = validateOptionCount(edited, rule);
+  return errors.length > 0 ? err(errors) : ok(createOptionList([...edited]));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    optionIdRequired: '選択肢IDは必須です',
+    textRequired: '選択肢は必須です',
+    textTooLong: (maxLength: number) => `選択肢は${maxLength}文字以内で入力してください`,
+    textValidationFailed: (message: string) => `選択肢の検証に失敗しました: ${message}`,
+    optionsEmpty: '選択肢がありません',
+    optionFailed: (position: number, message: string) => `${position}番目の選択肢: ${message}`,
+    invalidCount: (min: number, max: number, count: number) => `選択肢は${min}〜${max}個にしてください（現在${count}個）`
+  },
+  en: {
+    optionIdRequired: 'Option ID is required',
+    textRequired: 'Option text is required',
+    textTooLong: (maxLength: number) => `Options must be at most ${maxLength} characters`,
+    textValidationFailed: (message: string) => `Text validation failed: ${message}`,
+    optionsEmpty: 'Options array cannot be empty',
+    optionFailed: (position: number, message: string) => `Option ${position}: ${message}`,
+    invalidCount: (min: number, max: number, count: number) => `Option count must be between ${min} and ${max}, but got ${count}`
+  }
+});
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // Error Handling Utilities
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -245,9 +330,17 @@ export const OptionModel = {
  * OptionList Term Model
  */
 export const OptionListModel = {
-  create: constructOptionList
+  create: constructOptionList,
+  edit: editOptionList,
+  // ジャーナルに記録済みの選択肢から組み立てる（記録時に検証済みなので再検証しない）
+  restore: (options: readonly Option[]): OptionList => createOptionList([...options])
 } as const;
 
+/**
+ * Option Count Policy
+ */
+export { OptionCountRule };
+
 /**
  * Value Object Constructors
  */
@@ -0,0 +1,245 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Scoring Term Model Implementation
+ *
+ * 選択肢を複数の評価軸で比較するための語彙。
+ * 評価軸ごとに重みと向き（大きいほど良い／小さいほど良い）を持ち、
+ * 各選択肢を評価軸ごとに 0〜10 のスコアで採点する。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「CriterionName」
+ * domain type: value
+ *
+ * 評価軸の名前（例: コスト、実現までの期間、50文字まで）。スコアとはこの名前で紐づける
+ */
+type CriterionName = string & { readonly _brand: 'CriterionName' };
+
+const CriterionName = {
+  create: (value: string): Result<CriterionName, ValidationError[]> => {
+    if (!value || value.trim().length === 0) {
+      return err([ValidationError.create('required', 'name', messages().nameRequired)]);
+    }
+    if (value.length > MAX_NAME_LENGTH) {
+      return err([ValidationError.create('too_long', 'name', messages().nameTooLong(MAX_NAME_LENGTH))]);
+    }
+    return ok(value.trim() as CriterionName);
+  },
+
+  toString: (name: CriterionName): string => name
+} as const;
+
+/**
+ * 語彙「Weight」
+ * domain type: value
+ *
+ * 評価軸の重み（0より大きい数）。比率だけが意味を持つ
+ */
+type Weight = number & { readonly _brand: 'Weight' };
+
+const Weight = {
+  create: (value: number): Result<Weight, ValidationError[]> =>
+    Number.isFinite(value) && value > 0
+      ? ok(value as Weight)
+      : err([ValidationError.create('out_of_range', 'weight', messages().weightOutOfRange)])
+} as const;
+
+/**
+ * 語彙「ScoreDirection」
+ * domain type: value
+ *
+ * maximize: スコアが大きいほど良い / minimize: スコアが小さいほど良い（コストやリスクなど）
+ */
+type ScoreDirection = 'maximize' | 'minimize';
+
+/**
+ * 語彙「ScoreValue」
+ * domain type: value
+ *
+ * ある選択肢のある評価軸でのスコア（0〜10）
+ */
+type ScoreValue = number & { readonly _brand: 'ScoreValue' };
+
+const ScoreValue = {
+  create: (value: number): Result<ScoreValue, ValidationError[]> =>
+    Number.isFinite(value) && value >= MIN_SCORE && value <= MAX_SCORE
+      ? ok(value as ScoreValue)
+      : err([ValidationError.create('out_of_range', 'score', messages().scoreOutOfRange(MIN_SCORE, MAX_SCORE))])
+} as const;
+
+/**
+ * 語彙「ScoringCriterion」
+ * domain type: value
+ */
+type ScoringCriterion = {
+  readonly name: CriterionName;
+  readonly weight: Weight;
+  readonly direction: ScoreDirection;
+};
+
+type RequestedScoringCriterion = {
+  name: string;
+  weight: number;
+  direction: ScoreDirection;
+};
+
+/**
+ * 語彙「OptionScore」
+ * domain type: value
+ */
+type OptionScore = {
+  readonly optionId: OptionId;
+  readonly criterion: CriterionName;
+  readonly score: ScoreValue;
+};
+
+type RequestedOptionScore = {
+  optionId: string;
+  criterion: string;
+  score: number;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long' | 'out_of_range';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Smart constructor for ScoringCriterion
+const constructScoringCriterion = (
+  params: RequestedScoringCriterion
+): Result<ScoringCriterion, ValidationError[]> =>
+  Result.combineWithAllErrors([CriterionName.create(params.name), Weight.create(params.weight)])
+    .mapErr(errors => errors.flat())
+    .map(([name, weight]) => ({
+      name: name as CriterionName,
+      weight: weight as Weight,
+      direction: params.direction
+    }));
+
+// Smart constructor for OptionScore
+const constructOptionScore = (
+  params: RequestedOptionScore
+): Result<OptionScore, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'optionId', messages().optionIdRequired)]);
+
+  return Result.combineWithAllErrors([optionIdResult, CriterionName.create(params.criterion), ScoreValue.create(params.score)])
+    .mapErr(errors => errors.flat())
+    .map(([optionId, criterion, score]) => ({
+      optionId: optionId as OptionId,
+      criterion: criterion as CriterionName,
+      score: score as ScoreValue
+    }));
+};
+
+// 向きを揃えた効用（大きいほど良い）に変換する
+const toUtility = (score: ScoreValue, direction: ScoreDirection): number =>
+  direction === 'maximize' ? score : MAX_SCORE - score;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_NAME_LENGTH = 50;
+const MIN_SCORE = 0;
+const MAX_SCORE = 10;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    nameRequired: '評価軸の名前は必須です',
+    nameTooLong: (maxLength: number) => `評価軸の名前は${maxLength}文字以内で入力してください`,
+    weightOutOfRange: '重みは0より大きい数で入力してください',
+    scoreOutOfRange: (min: number, max: number) => `スコアは${min}〜${max}の範囲で入力してください`,
+    optionIdRequired: '採点する選択肢IDは必須です'
+  },
+  en: {
+    nameRequired: 'Criterion name is required',
+    nameTooLong: (maxLength: number) => `Criterion names must be at most ${maxLength} characters`,
+    weightOutOfRange: 'Weight must be a number greater than 0',
+    scoreOutOfRange: (min: number, max: number) => `Scores must be between ${min} and ${max}`,
+    optionIdRequired: 'The ID of the option to score is required'
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Zodスキーマ
+ */
+export const ScoreDirectionSchema = z.enum(['maximize', 'minimize']);
+
+/**
+ * Scoring Term Models
+ */
+export const ScoringCriterionModel = {
+  create: constructScoringCriterion
+} as const;
+
+export const OptionScoreModel = {
+  create: constructOptionScore,
+  toUtility
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  CriterionName
+} as const;
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  ScoringCriterion,
+  RequestedScoringCriterion,
+  OptionScore,
+  RequestedOptionScore,
+  CriterionName,
+  Weight,
+  ScoreDirection,
+  ScoreValue,
+  ValidationError
+};
@@ -0,0 +1,350 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { Values as OptionValues, type OptionId } from './option.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Tripwire Term Model Implementation
+ *
+ * WRAPプロセスの「P（Prepare to be Wrong）」で扱う語彙。
+ * トリップワイヤーは選択肢ごとに設定する撤退基準で、満たされたら判断を見直す合図になる。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Domain Type Classification
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Term types in this domain:
+ * - value: Value objects and identifiers
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Value Types - Branded Types for Type Safety
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 語彙「CriterionId」
+ * domain type: value
+ */
+type CriterionId = string & { readonly _brand: 'CriterionId' };
+
+const CriterionId = {
+  generate: (): CriterionId => {
+    return `tripwire-${Date.now()}-${Math.random().toString(36).substring(2, 11)}` as CriterionId;
+  },
+
+  fromString: (value: string): Result<CriterionId, ValidationError[]> => {
+    if (!value || value.trim().length === 0) {
+      return err([ValidationError.create('required', 'criterionId', messages().criterionIdRequired)]);
+    }
+    return ok(value.trim() as CriterionId);
+  },
+
+  toString: (id: CriterionId): string => id
+} as const;
+
+/**
+ * 語彙「CriterionType」
+ * domain type: value
+ */
+type CriterionType = 'performance' | 'cost' | 'risk' | 'timeline' | 'quality' | 'other';
+
+/**
+ * 語彙「CriterionSeverity」
+ * domain type: value
+ */
+type CriterionSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * 語彙「MetricName」
+ * domain type: value
+ *
+ * 観測する指標の名前（例: 月間売上、解約率）。評価時の観測値とはこの名前で突き合わせる
+ */
+type MetricName = string & { readonly _brand: 'MetricName' };
+
+const MetricName = {
+  create: (value: string): Result<MetricName, ValidationError[]> => {
+    if (!value || value.trim().length === 0) {
+      return err([ValidationError.create('required', 'metric', messages().required(messages().metric))]);
+    }
+    if (value.length > MAX_METRIC_NAME_LENGTH) {
+      return err([ValidationError.create('too_long', 'metric', messages().tooLong(messages().metric, MAX_METRIC_NAME_LENGTH))]);
+    }
+    return ok(value.trim() as MetricName);
+  },
+
+  toString: (name: MetricName): string => name
+} as const;
+
+/**
+ * 語彙「Comparator」
+ * domain type: value
+ *
+ * 観測値と閾値の比較方法（「観測値 comparator 閾値」が成り立つと撤退基準に抵触する）
+ */
+type Comparator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+/**
+ * 語彙「TripwireCondition」
+ * domain type: value
+ *
+ * 機械的に判定できる閾値（例: 解約率 > 5）
+ */
+type TripwireCondition = {
+  readonly metric: MetricName;
+  readonly comparator: Comparator;
+  readonly value: number;
+};
+
+type RequestedCondition = {
+  metric: string;
+  comparator: Comparator;
+  value: number;
+};
+
+/**
+ * 語彙「TripwireCriterion」
+ * domain type: value
+ *
+ * 一つの撤退基準（何を見て・どの閾値を超えたら撤退を検討するか）
+ * condition がない基準は人が判断する（evaluate-tripwires の対象外）
+ */
+type TripwireCriterion = {
+  readonly id: CriterionId;
+  readonly description: string;
+  readonly type: CriterionType;
+  readonly threshold: string;
+  readonly severity: CriterionSeverity;
+  readonly condition?: TripwireCondition;
+};
+
+type RequestedCriterion = {
+  description: string;
+  type: CriterionType;
+  threshold: string;
+  severity: CriterionSeverity;
+  condition?: RequestedCondition;
+};
+
+/**
+ * 語彙「Tripwire」
+ * domain type: value
+ *
+ * ある選択肢に設定された撤退基準の集まり
+ */
+type Tripwire = {
+  readonly optionId: OptionId;
+  readonly criteria: readonly TripwireCriterion[];
+};
+
+type RequestedTripwire = {
+  optionId: string;
+  criteria: RequestedCriterion[];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Types - Validation Failures
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type ValidationError = {
+  readonly type: 'required' | 'too_long' | 'invalid_number';
+  readonly field: string;
+  readonly message: string;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Implementation Section - Business Logic
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// Smart constructor for TripwireCondition
+const constructCondition = (params: RequestedCondition): Result<TripwireCondition, ValidationError[]> => {
+  const valueErrors = Number.isFinite(params.value)
+    ? []
+    : [ValidationError.create('invalid_number', 'value', messages().invalidThresholdValue)];
+
+  return MetricName.create(params.metric)
+    .andThen(metric => (valueErrors.length > 0 ? err(valueErrors) : ok(metric)))
+    .map(metric => ({
+      metric,
+      comparator: params.comparator,
+      value: params.value
+    }));
+};
+
+// Smart constructor for TripwireCriterion - a fresh ID is assigned on creation
+const constructCriterion = (
+  params: RequestedCriterion,
+  id: CriterionId = CriterionId.generate()
+): Result<TripwireCriterion, ValidationError[]> => {
+  const conditionResult = params.condition ? constructCondition(params.condition) : ok(undefined);
+  const errors = [
+    ...validateText(params.description, 'description', messages().description),
+    ...validateText(params.threshold, 'threshold', messages().threshold),
+    ...(conditionResult.isErr() ? conditionResult.error : [])
+  ];
+
+  if (errors.length > 0 || conditionResult.isErr()) {
+    return err(errors);
+  }
+
+  const condition = conditionResult.value;
+  return ok({
+    id,
+    description: params.description.trim(),
+    type: params.type,
+    threshold: params.threshold.trim(),
+    severity: params.severity,
+    ...(condition && { condition })
+  });
+};
+
+// 観測値が撤退基準の条件に抵触しているかを判定する
+const isConditionMet = (condition: TripwireCondition, observedValue: number): boolean => {
+  switch (condition.comparator) {
+    case '>':
+      return observedValue > condition.value;
+    case '>=':
+      return observedValue >= condition.value;
+    case '<':
+      return observedValue < condition.value;
+    case '<=':
+      return observedValue <= condition.value;
+    case '==':
+      return observedValue === condition.value;
+    case '!=':
+      return observedValue !== condition.value;
+  }
+};
+
+// 条件を「解約率 > 5」の形で表示する
+const formatCondition = (condition: TripwireCondition): string =>
+  `${condition.metric} ${condition.comparator} ${condition.value}`;
+
+// Smart constructor for Tripwire
+const constructTripwire = (params: RequestedTripwire): Result<Tripwire, ValidationError[]> => {
+  const optionIdResult = OptionValues.OptionId.fromString(params.optionId)
+    .mapErr(() => [ValidationError.create('required', 'optionId', messages().optionIdRequired)]);
+  const criteriaResult = params.criteria.length === 0
+    ? err([ValidationError.create('required', 'criteria', messages().criteriaEmpty)])
+    : Result.combineWithAllErrors(params.criteria.map(criterion => constructCriterion(criterion)))
+        .mapErr(errors => errors.flat());
+
+  return Result.combineWithAllErrors([optionIdResult, criteriaResult])
+    .mapErr(errors => errors.flat())
+    .map(([optionId, criteria]) => ({
+      optionId: optionId as OptionId,
+      criteria: criteria as TripwireCriterion[]
+    }));
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Business Rules - Domain Policies
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_METRIC_NAME_LENGTH = 50;
+
+const validateText = (value: string, field: string, label: string): ValidationError[] => {
+  if (!value || value.trim().length === 0) {
+    return [ValidationError.create('required', field, messages().required(label))];
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    return [ValidationError.create('too_long', field, messages().tooLong(label, MAX_TEXT_LENGTH))];
+  }
+  return [];
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    criterionIdRequired: '撤退基準IDは必須です',
+    optionIdRequired: '撤退基準を設定する選択肢IDは必須です',
+    criteriaEmpty: '撤退基準を1つ以上設定してください',
+    invalidThresholdValue: '閾値の数値が不正です',
+    metric: '指標名',
+    description: '撤退基準の説明',
+    threshold: '閾値',
+    required: (label: string) => `${label}は必須です`,
+    tooLong: (label: string, maxLength: number) => `${label}は${maxLength}文字以内で入力してください`
+  },
+  en: {
+    criterionIdRequired: 'Trip wire ID is required',
+    optionIdRequired: 'The option ID to set trip wires for is required',
+    criteriaEmpty: 'Set at least one trip wire',
+    invalidThresholdValue: 'The threshold value is not a valid number',
+    metric: 'Metric name',
+    description: 'Trip wire description',
+    threshold: 'Threshold',
+    required: (label: string) => `${label} is required`,
+    tooLong: (label: string, maxLength: number) => `${label} must be at most ${maxLength} characters`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ValidationError = {
+  create: (type: ValidationError['type'], field: string, message: string): ValidationError => ({
+    type, field, message
+  })
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API - Term Model Interface
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Zodスキーマ
+ */
+export const CriterionTypeSchema = z.enum(['performance', 'cost', 'risk', 'timeline', 'quality', 'other']);
+export const CriterionSeveritySchema = z.enum(['low', 'medium', 'high', 'critical']);
+export const ComparatorSchema = z.enum(['>', '>=', '<', '<=', '==', '!=']);
+
+/**
+ * Tripwire Term Models
+ */
+export const TripwireCriterionModel = {
+  create: constructCriterion
+} as const;
+
+export const TripwireModel = {
+  create: constructTripwire
+} as const;
+
+export const TripwireConditionModel = {
+  create: constructCondition,
+  isMet: isConditionMet,
+  format: formatCondition
+} as const;
+
+/**
+ * Value Object Constructors
+ */
+export const Values = {
+  CriterionId,
+  MetricName
+} as const;
+
+/**
+ * Type Exports for External Use
+ */
+export type {
+  Tripwire,
+  RequestedTripwire,
+  TripwireCriterion,
+  RequestedCriterion,
+  CriterionId,
+  CriterionType,
+  CriterionSeverity,
+  MetricName,
+  Comparator,
+  TripwireCondition,
+  RequestedCondition,
+  ValidationError
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { defineCatalog } from '../../common/i18n.js';
 
 /**
  * WidenOptionsSteps - 選択肢の幅を広げるためのステップ定義
@@ -6,47 +7,35 @@ import { z } from 'zod';
  * domain type: value
  */
 export type WidenOptionsSteps =
-  | { type: 'initial_registered'; description: '初期登録した' }
-  | { type: 'laddered'; description: 'ラダリングした' }
-  | { type: 'analogical_research_done'; description: '類推解決策調査した' }
-  | { type: 'elimination_tested'; description: '消去テストした' }
-  | { type: 'fixed'; description: 'fixした' };
+  | { type: 'initial_registered' }
+  | { type: 'laddered' }
+  | { type: 'analogical_research_done' }
+  | { type: 'elimination_tested' }
+  | { type: 'fixed' };
 
 /**
  * WidenOptionsStepsのコンストラクタ
  */
 export const WidenOptionsSteps = {
-  initialRegistered: (): WidenOptionsSteps => ({ type: 'initial_registered', description: '初期登録した' }),
-  laddered: (): WidenOptionsSteps => ({ type: 'laddered', description: 'ラダリングした' }),
-  analogicalResearchDone: (): WidenOptionsSteps => ({ type: 'analogical_research_done', description: '類推解決策調査した' }),
-  eliminationTested: (): WidenOptionsSteps => ({ type: 'elimination_tested', description: '消去テストした' }),
-  fixed: (): WidenOptionsSteps => ({ type: 'fixed', description: 'fixした' }),
+  initialRegistered: (): WidenOptionsSteps => ({ type: 'initial_registered' }),
+  laddered: (): WidenOptionsSteps => ({ type: 'laddered' }),
+  analogicalResearchDone: (): WidenOptionsSteps => ({ type: 'analogical_research_done' }),
+  eliminationTested: (): WidenOptionsSteps => ({ type: 'elimination_tested' }),
+  fixed: (): WidenOptionsSteps => ({ type: 'fixed' }),
 } as const;
 
 /**
  * Zodスキーマ
+ *
+ * ステップはロケールに依存しない type だけで表す。
+ * 以前の記録やクライアントが送る日本語の description は読み捨てる。
  */
 export const WidenOptionsStepsSchema = z.discriminatedUnion('type', [
-  z.object({ 
-    type: z.literal('initial_registered'), 
-    description: z.literal('初期登録した') 
-  }),
-  z.object({ 
-    type: z.literal('laddered'), 
-    description: z.literal('ラダリングした') 
-  }),
-  z.object({ 
-    type: z.literal('analogical_research_done'), 
-    description: z.literal('類推解決策調査した') 
-  }),
-  z.object({ 
-    type: z.literal('elimination_tested'), 
-    description: z.literal('消去テストした') 
-  }),
-  z.object({ 
-    type: z.literal('fixed'), 
-    description: z.literal('fixした') 
-  }),
+  z.object({ type: z.literal('initial_registered') }),
+  z.object({ type: z.literal('laddered') }),
+  z.object({ type: z.literal('analogical_research_done') }),
+  z.object({ type: z.literal('elimination_tested') }),
+  z.object({ type: z.literal('fixed') }),
 ]);
 
 /**
@@ -87,10 +76,28 @@ export const toWorkflowStateType = (step: WidenOptionsSteps): string => {
   }
 };
 
+// 表示名は記録に残さず、ロケールごとに引く
+const displayNames = defineCatalog({
+  ja: {
+    initial_registered: '初期登録した',
+    laddered: 'ラダリングした',
+    analogical_research_done: '類推解決策調査した',
+    elimination_tested: '消去テストした',
+    fixed: 'fixした'
+  } satisfies Record<WidenOptionsSteps['type'], string>,
+  en: {
+    initial_registered: 'initial registration',
+    laddered: 'laddering',
+    analogical_research_done: 'analogous solution research',
+    elimination_tested: 'elimination test',
+    fixed: 'fixing'
+  }
+});
+
 /**
  * ステップの表示名を取得する純粋関数
  */
-export const getStepDisplayName = (step: WidenOptionsSteps): string => step.description;
+export const getStepDisplayName = (step: WidenOptionsSteps): string => displayNames()[step.type];
 
 /**
  * すべてのステップを順序通りに取得
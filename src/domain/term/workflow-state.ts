@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { defineCatalog } from '../../common/i18n.js';
 
 /**
  * ワークフロー状態のADT（代数的データ型）
@@ -10,7 +11,14 @@ export type WorkflowState =
   | { type: 'laddered' }
   | { type: 'analogical_research_done' }
   | { type: 'elimination_tested' }
-  | { type: 'options_fixed' };
+  | { type: 'options_fixed' }
+  | { type: 'assumptions_registered' }
+  | { type: 'reality_tested' }
+  | { type: 'attaining_distance' }
+  | { type: 'distance_attained' }
+  | { type: 'reconsidering' }
+  | { type: 'decided' }
+  | { type: 'under_review' };
 
 /**
  * ワークフロー状態のコンストラクタ
@@ -23,6 +31,13 @@ export const WorkflowState = {
   analogicalResearchDone: (): WorkflowState => ({ type: 'analogical_research_done' }),
   eliminationTested: (): WorkflowState => ({ type: 'elimination_tested' }),
   optionsFixed: (): WorkflowState => ({ type: 'options_fixed' }),
+  assumptionsRegistered: (): WorkflowState => ({ type: 'assumptions_registered' }),
+  realityTested: (): WorkflowState => ({ type: 'reality_tested' }),
+  attainingDistance: (): WorkflowState => ({ type: 'attaining_distance' }),
+  distanceAttained: (): WorkflowState => ({ type: 'distance_attained' }),
+  reconsidering: (): WorkflowState => ({ type: 'reconsidering' }),
+  decided: (): WorkflowState => ({ type: 'decided' }),
+  underReview: (): WorkflowState => ({ type: 'under_review' }),
 } as const;
 
 /**
@@ -36,11 +51,18 @@ export const WorkflowStateSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('analogical_research_done') }),
   z.object({ type: z.literal('elimination_tested') }),
   z.object({ type: z.literal('options_fixed') }),
+  z.object({ type: z.literal('assumptions_registered') }),
+  z.object({ type: z.literal('reality_tested') }),
+  z.object({ type: z.literal('attaining_distance') }),
+  z.object({ type: z.literal('distance_attained') }),
+  z.object({ type: z.literal('reconsidering') }),
+  z.object({ type: z.literal('decided') }),
+  z.object({ type: z.literal('under_review') }),
 ]);
 
 /**
  * 状態遷移ルールの定義
- * 注意: issue_definedへの遷移は別途isValidTransitionで常に許可される
+ * 注意: issue_defined・undefined・reconsideringへの遷移は別途isValidTransitionで常に許可される
  */
 const getValidTransitions = (state: WorkflowState): WorkflowState['type'][] => {
   switch (state.type) {
@@ -57,7 +79,33 @@ const getValidTransitions = (state: WorkflowState): WorkflowState['type'][] => {
     case 'elimination_tested':
       return ['options_fixed', 'initial_options_registered', 'analogical_research_done'];
     case 'options_fixed':
-      return [];
+      return ['assumptions_registered', 'attaining_distance', 'distance_attained', 'decided'];
+    case 'assumptions_registered':
+      return ['reality_tested'];
+    case 'reality_tested':
+      // 検証で新たな仮説が見つかった場合は追加登録できる
+      return ['assumptions_registered', 'attaining_distance', 'distance_attained', 'decided'];
+    case 'attaining_distance':
+      return ['distance_attained', 'decided'];
+    case 'distance_attained':
+      // 距離を置いた結果、前提を検証し直したくなった場合は仮説を追加登録できる
+      return ['assumptions_registered', 'decided'];
+    case 'decided':
+      return ['under_review'];
+    case 'under_review':
+      // レビューの結果、決定を維持・変更する（make-decision）か、前提を検証し直す
+      return ['decided', 'assumptions_registered'];
+    case 'reconsidering':
+      // 撤退基準に抵触した選択を見直す: 選択肢の出し直し・仮説の再検証・距離を置いた再評価
+      return [
+        'initial_options_registered',
+        'options_fixed',
+        'assumptions_registered',
+        'reality_tested',
+        'attaining_distance',
+        'distance_attained',
+        'decided'
+      ];
   }
 };
 
@@ -69,7 +117,17 @@ export const isValidTransition = (from: WorkflowState, to: WorkflowState): boole
   if (to.type === 'issue_defined') {
     return true;
   }
+
+  // reset: どの状態からも未定義状態に戻せる
+  if (to.type === 'undefined') {
+    return true;
+  }
   
+  // critical な撤退基準への抵触: どの状態からも再検討に遷移する
+  if (to.type === 'reconsidering') {
+    return true;
+  }
+
   // 同じ状態への遷移は常に許可（上書き）
   if (from.type === to.type) {
     return true;
@@ -79,27 +137,45 @@ export const isValidTransition = (from: WorkflowState, to: WorkflowState): boole
   return validTransitions.includes(to.type);
 };
 
+const displayNames = defineCatalog({
+  ja: {
+    undefined: '未定義状態',
+    issue_defined: '課題定義済み',
+    initial_options_registered: '初期選択肢登録済み',
+    laddered: 'ラダリング済み',
+    analogical_research_done: '類推による類似問題調査済み',
+    elimination_tested: '消去テスト済み',
+    options_fixed: '選択肢fixed',
+    assumptions_registered: '仮説登録済み',
+    reality_tested: '仮説検証済み',
+    attaining_distance: '距離を置いた評価中',
+    distance_attained: '距離を置いた評価済み',
+    reconsidering: '再検討中（撤退基準に抵触）',
+    decided: '決定済み',
+    under_review: '決定をレビュー中'
+  } satisfies Record<WorkflowState['type'], string>,
+  en: {
+    undefined: 'Not started',
+    issue_defined: 'Issue defined',
+    initial_options_registered: 'Initial options registered',
+    laddered: 'Laddered',
+    analogical_research_done: 'Analogous problems researched',
+    elimination_tested: 'Elimination tested',
+    options_fixed: 'Options fixed',
+    assumptions_registered: 'Assumptions registered',
+    reality_tested: 'Assumptions tested',
+    attaining_distance: 'Attaining distance',
+    distance_attained: 'Distance attained',
+    reconsidering: 'Reconsidering (a trip wire fired)',
+    decided: 'Decided',
+    under_review: 'Reviewing the decision'
+  }
+});
+
 /**
  * 状態の表示名を取得する純粋関数
  */
-export const getDisplayName = (state: WorkflowState): string => {
-  switch (state.type) {
-    case 'undefined':
-      return '未定義状態';
-    case 'issue_defined':
-      return '課題定義済み';
-    case 'initial_options_registered':
-      return '初期選択肢登録済み';
-    case 'laddered':
-      return 'ラダリング済み';
-    case 'analogical_research_done':
-      return '類推による類似問題調査済み';
-    case 'elimination_tested':
-      return '消去テスト済み';
-    case 'options_fixed':
-      return '選択肢fixed';
-  }
-};
+export const getDisplayName = (state: WorkflowState): string => displayNames()[state.type];
 
 /**
  * 状態を比較する純粋関数
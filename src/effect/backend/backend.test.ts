@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ok, err } from 'neverthrow';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { DecisionId } from '../../domain/term/decision.js';
+import { setStorageBackend, type StorageBackend, type StorageBackendKind } from '../storage-backend.js';
+import { appendEvent, loadEvents, withJournalLock } from '../journal-storage.js';
+import { recordEvent, recordEventWith } from '../workflow-state-storage.js';
+import { getActiveDecisionId, listDecisionIds, setActiveDecisionId, clearActiveDecisionId } from '../decision-storage.js';
+import { createStorageBackend, createFileSystemBackend } from './index.js';
+
+const decisionId = 'decision-test' as DecisionId;
+
+// node:sqlite は Node.js 22.13 以降でしか使えない
+const sqliteAvailable = await import('node:sqlite').then(() => true, () => false);
+
+describe.each<StorageBackendKind>(['filesystem', 'memory', 'sqlite'])('%s backend', kind => {
+  let root: string;
+  let backend: StorageBackend;
+
+  beforeEach(async ({ skip }) => {
+    if (kind === 'sqlite' && !sqliteAvailable) {
+      skip();
+    }
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-decisive-backend-'));
+    process.env.MCP_DECISIVE_TEST_DATA_DIR = root;
+    backend = (await createStorageBackend(kind, root))._unsafeUnwrap();
+    setStorageBackend(backend);
+  });
+
+  afterEach(async () => {
+    if (!root) return;
+    await backend.close();
+    setStorageBackend(createFileSystemBackend());
+    delete process.env.MCP_DECISIVE_TEST_DATA_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should keep journal events in order and list the decision', async () => {
+    // When
+    await Promise.all([1, 2, 3].map(() =>
+      appendEvent(decisionId, { type: 'DecisionProcessReset', timestamp: new Date('2025-01-01T00:00:00.000Z') })
+    ));
+    const events = (await loadEvents(decisionId))._unsafeUnwrap();
+
+    // Then
+    expect(events).toHaveLength(3);
+    expect(events[0]).toEqual({ type: 'DecisionProcessReset', timestamp: new Date('2025-01-01T00:00:00.000Z') });
+    expect((await listDecisionIds())._unsafeUnwrap()).toEqual([decisionId]);
+    expect(await backend.decisionExists(decisionId)).toBe(true);
+  });
+
+  it('should record events through the nested journal lock of recordEvent', async () => {
+    // Given
+    const startedAt = new Date('2025-01-01T00:00:00.000Z');
+
+    // When - recordEvent は appendEvent を同じロックの中で呼ぶ
+    const started = await recordEvent(decisionId, { type: 'DecisionStarted', decisionId, startedAt });
+    const concurrent = await Promise.all([1, 2].map(() =>
+      recordEvent(decisionId, { type: 'DecisionProcessReset', timestamp: startedAt })
+    ));
+    const nested = await withJournalLock(decisionId, () => recordEvent(decisionId, { type: 'DecisionProcessReset', timestamp: startedAt }));
+
+    // Then
+    expect(started.isOk()).toBe(true);
+    expect(concurrent.every(result => result.isOk())).toBe(true);
+    expect(nested.isOk()).toBe(true);
+    expect((await loadEvents(decisionId))._unsafeUnwrap().map(event => event.type)).toEqual([
+      'DecisionStarted', 'DecisionProcessReset', 'DecisionProcessReset', 'DecisionProcessReset'
+    ]);
+  });
+
+  it('should decide and append under one journal lock in recordEventWith', async () => {
+    // Given
+    const timestamp = new Date('2025-01-01T00:00:00.000Z');
+    await recordEvent(decisionId, { type: 'DecisionStarted', decisionId, startedAt: timestamp });
+
+    // When - どちらもまだリセットされていないことを読んでから追記しようとする
+    const results = await Promise.all([1, 2].map(() =>
+      recordEventWith(decisionId, async () => {
+        const events = (await loadEvents(decisionId))._unsafeUnwrap();
+        return events.some(event => event.type === 'DecisionProcessReset')
+          ? err('already reset')
+          : ok({ event: { type: 'DecisionProcessReset' as const, timestamp } });
+      })
+    ));
+
+    // Then
+    expect(results.filter(result => result.isOk())).toHaveLength(1);
+    expect(results.find(result => result.isErr())?._unsafeUnwrapErr())
+      .toEqual({ type: 'command_rejected', reason: 'already reset' });
+    expect((await loadEvents(decisionId))._unsafeUnwrap().map(event => event.type))
+      .toEqual(['DecisionStarted', 'DecisionProcessReset']);
+  });
+
+  it('should not create a decision by only taking its journal lock', async () => {
+    // When
+    const locked = await withJournalLock(decisionId, async () => ok('nothing appended'));
+
+    // Then
+    expect(locked._unsafeUnwrap()).toBe('nothing appended');
+    expect(await backend.decisionExists(decisionId)).toBe(false);
+    expect((await listDecisionIds())._unsafeUnwrap()).toEqual([]);
+  });
+
+  it('should set and clear the active decision', async () => {
+    // When
+    const before = (await getActiveDecisionId())._unsafeUnwrap();
+    await setActiveDecisionId(decisionId);
+    const active = (await getActiveDecisionId())._unsafeUnwrap();
+    await clearActiveDecisionId();
+    const cleared = (await getActiveDecisionId())._unsafeUnwrap();
+
+    // Then
+    expect(before).toBeNull();
+    expect(active).toBe(decisionId);
+    expect(cleared).toBeNull();
+  });
+});
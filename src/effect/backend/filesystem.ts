@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Result, ok, err } from 'neverthrow';
+import { DecisionId } from '../../domain/term/decision.js';
+import {
+  getDataDirectory,
+  saveJsonFile,
+  readJsonFile,
+  appendJsonLine,
+  readJsonLines,
+  fileExists,
+  withFileLock,
+  categorizeFileSystemError,
+  type FileSystemError
+} from '../filesystem.js';
+import type { StorageBackend } from '../storage-backend.js';
+
+/**
+ * Filesystem Storage Backend
+ *
+ * データディレクトリの下に JSON / JSON Lines ファイルとして保存する。
+ *
+ * <data>/active-decision.json           現在アクティブな意思決定ID
+ * <data>/decisions/<id>/journal.jsonl   意思決定ごとのイベントジャーナル
+ * <data>/locks/<id>.journal.lock        ジャーナルのロックファイル
+ *
+ * 意思決定があるかどうかはジャーナルがあるかで決まる。ロックファイルを意思決定のディレクトリの外に置き、
+ * ロックを取っただけ（存在しない意思決定への書き込みの失敗など）で意思決定ができたことにならないようにする。
+ *
+ * ディレクトリはアクセスのたびに解決するので、起動後の設定変更やテスト用の上書きにも追従する。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Paths
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const JOURNAL_FILE_NAME = 'journal.jsonl';
+
+const getDecisionsRootDirectory = (): string => {
+  return path.join(getDataDirectory(), 'decisions');
+};
+
+const getActiveDecisionFilePath = (): string => {
+  return path.join(getDataDirectory(), 'active-decision.json');
+};
+
+/**
+ * Get the directory that holds all files of one decision
+ */
+export const getDecisionDirectory = (decisionId: DecisionId): string => {
+  return path.join(getDecisionsRootDirectory(), DecisionId.toString(decisionId));
+};
+
+/**
+ * Get the journal file path of a decision
+ */
+export const getJournalFilePath = (decisionId: DecisionId): string => {
+  return path.join(getDecisionDirectory(decisionId), JOURNAL_FILE_NAME);
+};
+
+const getJournalLockFilePath = (decisionId: DecisionId): string => {
+  return path.join(getDataDirectory(), 'locks', `${DecisionId.toString(decisionId)}.journal.lock`);
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Storage Operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const readJournal = async (decisionId: DecisionId): Promise<Result<unknown[], FileSystemError>> => {
+  const result = await readJsonLines<unknown>(getJournalFilePath(decisionId));
+
+  if (result.isErr()) {
+    // A missing journal means nothing has happened yet
+    const nodeError = result.error.originalError as NodeJS.ErrnoException;
+    return nodeError.code === 'ENOENT' ? ok([]) : err(result.error);
+  }
+  return ok(result.value);
+};
+
+const readActiveDecision = async (): Promise<Result<unknown | null, FileSystemError>> => {
+  const filePath = getActiveDecisionFilePath();
+
+  if (!(await fileExists(filePath))) {
+    return ok(null);
+  }
+  return readJsonFile<unknown>(filePath);
+};
+
+const clearActiveDecision = async (): Promise<Result<void, FileSystemError>> => {
+  try {
+    await fs.rm(getActiveDecisionFilePath(), { force: true });
+    return ok(undefined);
+  } catch (error) {
+    return err(categorizeFileSystemError(error as Error, 'clear_active_decision'));
+  }
+};
+
+const decisionExists = (decisionId: DecisionId): Promise<boolean> => fileExists(getJournalFilePath(decisionId));
+
+const listDecisionIds = async (): Promise<Result<string[], FileSystemError>> => {
+  try {
+    const entries = await fs.readdir(getDecisionsRootDirectory(), { withFileTypes: true });
+    const names = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    // ジャーナルのないディレクトリ（以前のバージョンがロックのために作ったものなど）は意思決定ではない
+    const hasJournal = await Promise.all(names.map(name =>
+      fileExists(path.join(getDecisionsRootDirectory(), name, JOURNAL_FILE_NAME))
+    ));
+    return ok(names.filter((_, index) => hasJournal[index]));
+  } catch (error) {
+    // No decision has been started yet
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return ok([]);
+    }
+    return err(categorizeFileSystemError(error as Error, 'list_decisions'));
+  }
+};
+
+/**
+ * Create the filesystem backend (the default)
+ */
+export const createFileSystemBackend = (): StorageBackend => ({
+  kind: 'filesystem',
+  get location() {
+    return getDataDirectory();
+  },
+  readJournal,
+  appendJournal: (decisionId, document) => appendJsonLine(getJournalFilePath(decisionId), document),
+  // ロックファイルを使うので、同じデータディレクトリを共有する別プロセスとも排他できる
+  withJournalLock: (decisionId, operation) => withFileLock(getJournalLockFilePath(decisionId), operation),
+  listDecisionIds,
+  decisionExists,
+  readActiveDecision,
+  writeActiveDecision: document => saveJsonFile(getActiveDecisionFilePath(), document),
+  clearActiveDecision,
+  close: async () => undefined
+});
@@ -0,0 +1,30 @@
+import path from 'path';
+import { Result, ok } from 'neverthrow';
+import type { FileSystemError } from '../filesystem.js';
+import type { StorageBackend, StorageBackendKind } from '../storage-backend.js';
+import { createFileSystemBackend } from './filesystem.js';
+import { createMemoryBackend } from './memory.js';
+import { createSqliteBackend, SQLITE_FILE_NAME } from './sqlite.js';
+
+/**
+ * Create the storage backend of the given kind
+ *
+ * The SQLite database is kept in the data directory.
+ */
+export const createStorageBackend = async (
+  kind: StorageBackendKind,
+  dataDirectory: string
+): Promise<Result<StorageBackend, FileSystemError>> => {
+  switch (kind) {
+    case 'filesystem':
+      return ok(createFileSystemBackend());
+    case 'memory':
+      return ok(createMemoryBackend());
+    case 'sqlite':
+      return createSqliteBackend(path.join(dataDirectory, SQLITE_FILE_NAME));
+  }
+};
+
+export { createFileSystemBackend, getDecisionDirectory, getJournalFilePath } from './filesystem.js';
+export { createMemoryBackend } from './memory.js';
+export { createSqliteBackend, SQLITE_FILE_NAME } from './sqlite.js';
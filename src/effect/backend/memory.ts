@@ -0,0 +1,53 @@
+import { Result, ok } from 'neverthrow';
+import { DecisionId } from '../../domain/term/decision.js';
+import type { FileSystemError } from '../filesystem.js';
+import type { StorageBackend } from '../storage-backend.js';
+import { withProcessLock } from './process-lock.js';
+
+/**
+ * In-memory Storage Backend
+ *
+ * プロセスが終わると消える保存先（テストや使い捨てのセッション用）。
+ * ドキュメントは JSON 文字列で持ち、ファイルに保存した場合と同じ形で読み戻す。
+ */
+
+/**
+ * Create an empty in-memory backend
+ */
+export const createMemoryBackend = (): StorageBackend => {
+  const journals = new Map<string, string[]>();
+  let activeDecision: string | null = null;
+
+  const readJournal = async (decisionId: DecisionId): Promise<Result<unknown[], FileSystemError>> =>
+    ok((journals.get(DecisionId.toString(decisionId)) ?? []).map(line => JSON.parse(line) as unknown));
+
+  const appendJournal = async (decisionId: DecisionId, document: object): Promise<Result<void, FileSystemError>> => {
+    const key = DecisionId.toString(decisionId);
+    journals.set(key, [...(journals.get(key) ?? []), JSON.stringify(document)]);
+    return ok(undefined);
+  };
+
+  return {
+    kind: 'memory',
+    location: 'memory',
+    readJournal,
+    appendJournal,
+    withJournalLock: (decisionId, operation) =>
+      withProcessLock(`memory:${DecisionId.toString(decisionId)}`, operation),
+    listDecisionIds: async () => ok([...journals.keys()]),
+    decisionExists: async decisionId => journals.has(DecisionId.toString(decisionId)),
+    readActiveDecision: async () => ok(activeDecision === null ? null : JSON.parse(activeDecision) as unknown),
+    writeActiveDecision: async document => {
+      activeDecision = JSON.stringify(document);
+      return ok(undefined);
+    },
+    clearActiveDecision: async () => {
+      activeDecision = null;
+      return ok(undefined);
+    },
+    close: async () => {
+      journals.clear();
+      activeDecision = null;
+    }
+  };
+};
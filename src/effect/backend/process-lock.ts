@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * In-process lock for backends that have no lock files
+ *
+ * Operations on the same key run one at a time in call order. Nested calls
+ * for a key already held in the same async call chain run immediately.
+ */
+
+const heldKeys = new AsyncLocalStorage<Set<string>>();
+const queueTails = new Map<string, Promise<void>>();
+
+const ignore = () => undefined;
+
+export const withProcessLock = <T>(key: string, operation: () => Promise<T>): Promise<T> => {
+  const held = heldKeys.getStore() ?? new Set<string>();
+  if (held.has(key)) {
+    return operation();
+  }
+
+  const previous = queueTails.get(key) ?? Promise.resolve();
+  const current = previous.then(() => heldKeys.run(new Set([...held, key]), operation));
+
+  const tail = current.then(ignore, ignore);
+  queueTails.set(key, tail);
+  tail.then(() => {
+    if (queueTails.get(key) === tail) {
+      queueTails.delete(key);
+    }
+  });
+
+  return current;
+};
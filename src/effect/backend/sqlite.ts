@@ -0,0 +1,201 @@
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Result, ok, err } from 'neverthrow';
+import type { DatabaseSync } from 'node:sqlite';
+import { DecisionId } from '../../domain/term/decision.js';
+import {
+  ensureDirectory,
+  categorizeFileSystemError,
+  lockContentionMessage,
+  type FileSystemError,
+  type StorageOperation
+} from '../filesystem.js';
+import type { StorageBackend } from '../storage-backend.js';
+import { withProcessLock } from './process-lock.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * SQLite Storage Backend
+ *
+ * 1つの SQLite ファイルにすべての意思決定を保存する（意思決定が多いチーム向け）。
+ * Node.js 組み込みの node:sqlite を使うので、Node.js 22.13 以降が必要。
+ *
+ * ジャーナルのロックは BEGIN IMMEDIATE のトランザクションで取り、
+ * 同じデータベースを開いている別プロセスとも排他する。
+ */
+
+export const SQLITE_FILE_NAME = 'decisive.sqlite';
+
+// 他のプロセスが書き込み中のとき待つ時間（ミリ秒）。超えたら lock_contention エラー
+const BUSY_TIMEOUT_MS = 5000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS journal_entries (
+    decision_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    document TEXT NOT NULL,
+    PRIMARY KEY (decision_id, position)
+  );
+  CREATE TABLE IF NOT EXISTS active_decision (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    document TEXT NOT NULL
+  );
+`;
+
+const messages = defineCatalog({
+  ja: {
+    nodeSqliteRequired: (version: string) =>
+      `SQLite バックエンドには node:sqlite が使える Node.js（22.13 以降）が必要です（現在 ${version}）`
+  },
+  en: {
+    nodeSqliteRequired: (version: string) =>
+      `The SQLite backend requires a Node.js with node:sqlite (22.13 or later); the current version is ${version}`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Error Handling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const toSqliteError = (error: unknown, operation: StorageOperation): FileSystemError => {
+  const cause = error instanceof Error ? error : new Error(String(error));
+  if (/SQLITE_BUSY|database is locked/i.test(cause.message)) {
+    return {
+      type: 'lock_contention',
+      message: lockContentionMessage('database'),
+      originalError: cause
+    };
+  }
+  return categorizeFileSystemError(cause, operation);
+};
+
+const attempt = <T>(operation: StorageOperation, run: () => T): Result<T, FileSystemError> => {
+  try {
+    return ok(run());
+  } catch (error) {
+    return err(toSqliteError(error, operation));
+  }
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Backend
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const openDatabase = async (filePath: string): Promise<Result<DatabaseSync, FileSystemError>> => {
+  let sqlite: typeof import('node:sqlite');
+  try {
+    sqlite = await import('node:sqlite');
+  } catch (error) {
+    return err({
+      type: 'unknown',
+      message: messages().nodeSqliteRequired(process.version),
+      originalError: error as Error
+    });
+  }
+
+  const dirResult = await ensureDirectory(path.dirname(filePath));
+  if (dirResult.isErr()) {
+    return err(dirResult.error);
+  }
+
+  return attempt('connect_database', () => {
+    const database = new sqlite.DatabaseSync(filePath);
+    database.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS};`);
+    database.exec('PRAGMA journal_mode = WAL;');
+    database.exec(SCHEMA);
+    return database;
+  });
+};
+
+const parseDocument = (operation: StorageOperation, text: unknown): Result<unknown, FileSystemError> =>
+  attempt(operation, () => JSON.parse(String(text)) as unknown);
+
+/**
+ * Open (or create) the SQLite database and build a backend on it
+ */
+export const createSqliteBackend = async (filePath: string): Promise<Result<StorageBackend, FileSystemError>> => {
+  const databaseResult = await openDatabase(filePath);
+  if (databaseResult.isErr()) {
+    return err(databaseResult.error);
+  }
+  const database = databaseResult.value;
+
+  const selectJournal = database.prepare(
+    'SELECT document FROM journal_entries WHERE decision_id = ? ORDER BY position'
+  );
+  const insertJournal = database.prepare(`
+    INSERT INTO journal_entries (decision_id, position, document)
+    VALUES (?, (SELECT COALESCE(MAX(position), 0) + 1 FROM journal_entries WHERE decision_id = ?), ?)
+  `);
+  const selectDecisionIds = database.prepare('SELECT DISTINCT decision_id FROM journal_entries ORDER BY decision_id');
+  const selectDecision = database.prepare('SELECT 1 FROM journal_entries WHERE decision_id = ? LIMIT 1');
+  const selectActive = database.prepare('SELECT document FROM active_decision WHERE id = 1');
+  const upsertActive = database.prepare(
+    'INSERT INTO active_decision (id, document) VALUES (1, ?) ON CONFLICT (id) DO UPDATE SET document = excluded.document'
+  );
+  const deleteActive = database.prepare('DELETE FROM active_decision WHERE id = 1');
+
+  const readJournal = async (decisionId: DecisionId): Promise<Result<unknown[], FileSystemError>> =>
+    attempt('read_journal', () => selectJournal.all(DecisionId.toString(decisionId)))
+      .andThen(rows => Result.combine(rows.map(row => parseDocument('read_journal', row.document))));
+
+  // 同じ呼び出しの流れの中で開いているトランザクション（入れ子の呼び出しはその中で行う）
+  const openTransaction = new AsyncLocalStorage<true>();
+
+  // 1つの接続を共有するので、トランザクションはプロセス内でも1つずつ順番に行う。
+  // プロセスロックは再入できるため、BEGIN と COMMIT / ROLLBACK は一番外側の呼び出しだけが行う
+  const withJournalLock = <T, E>(
+    _decisionId: DecisionId,
+    operation: () => Promise<Result<T, E>>
+  ): Promise<Result<T, E | FileSystemError>> => {
+    if (openTransaction.getStore()) {
+      return operation();
+    }
+
+    return withProcessLock(`sqlite:${filePath}`, () => openTransaction.run(true, async (): Promise<Result<T, E | FileSystemError>> => {
+      const beginResult = attempt('acquire_lock', () => database.exec('BEGIN IMMEDIATE'));
+      if (beginResult.isErr()) {
+        return err(beginResult.error);
+      }
+
+      try {
+        const result = await operation();
+        const endResult = attempt('write_journal', () => database.exec(result.isOk() ? 'COMMIT' : 'ROLLBACK'));
+        return endResult.isErr() ? err(endResult.error) : result;
+      } catch (error) {
+        database.exec('ROLLBACK');
+        throw error;
+      }
+    }));
+  };
+
+  return ok({
+    kind: 'sqlite',
+    location: filePath,
+    readJournal,
+    appendJournal: async (decisionId, document) =>
+      attempt('write_journal', () => {
+        const id = DecisionId.toString(decisionId);
+        insertJournal.run(id, id, JSON.stringify(document));
+      }),
+    withJournalLock,
+    listDecisionIds: async () =>
+      attempt('list_decisions', () => selectDecisionIds.all().map(row => String(row.decision_id))),
+    decisionExists: async decisionId =>
+      attempt('check_decision', () => selectDecision.get(DecisionId.toString(decisionId)) !== undefined).unwrapOr(false),
+    readActiveDecision: async () =>
+      attempt('read_active_decision', () => selectActive.get())
+        .andThen(row => row === undefined ? ok(null) : parseDocument('read_active_decision', row.document)),
+    writeActiveDecision: async document =>
+      attempt('write_active_decision', () => {
+        upsertActive.run(JSON.stringify(document));
+      }),
+    clearActiveDecision: async () =>
+      attempt('clear_active_decision', () => {
+        deleteActive.run();
+      }),
+    close: async () => {
+      database.close();
+    }
+  });
+};
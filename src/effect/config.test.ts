@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from './config.js';
+
+describe('loadConfig', () => {
+  let root: string;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-decisive-config-'));
+    // ユーザーの実際の設定を読まないように XDG の場所を差し替える
+    env = {
+      XDG_CONFIG_HOME: path.join(root, 'config-home'),
+      XDG_DATA_HOME: path.join(root, 'data-home')
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should default to the XDG data directory', async () => {
+    // When
+    const config = (await loadConfig({ argv: [], env, cwd: root }))._unsafeUnwrap();
+
+    // Then
+    expect(config.dataDirectory).toBe(path.join(root, 'data-home', 'mcp-decisive'));
+    expect(config.dataDirectorySource).toBe('default');
+  });
+
+  it('should use the nearest .decisive/ directory found by walking up', async () => {
+    // Given
+    const project = path.join(root, 'project');
+    const nested = path.join(project, 'src', 'feature');
+    await fs.mkdir(path.join(project, '.decisive'), { recursive: true });
+    await fs.mkdir(nested, { recursive: true });
+
+    // When
+    const config = (await loadConfig({ argv: [], env, cwd: nested }))._unsafeUnwrap();
+
+    // Then
+    expect(config.dataDirectory).toBe(path.join(project, '.decisive'));
+    expect(config.dataDirectorySource).toBe('project');
+  });
+
+  it('should prefer CLI arguments over environment variables and config files', async () => {
+    // Given
+    await fs.mkdir(path.join(root, 'config-home', 'mcp-decisive'), { recursive: true });
+    await fs.writeFile(
+      path.join(root, 'config-home', 'mcp-decisive', 'config.json'),
+      JSON.stringify({ dataDir: 'from-user-config', transport: 'http' })
+    );
+
+    // When
+    const fromFile = (await loadConfig({ argv: [], env, cwd: root }))._unsafeUnwrap();
+    const fromEnv = (await loadConfig({ argv: [], env: { ...env, MCP_DECISIVE_DATA_DIR: 'from-env' }, cwd: root }))._unsafeUnwrap();
+    const fromCli = (await loadConfig({
+      argv: ['--data-dir', 'from-cli'],
+      env: { ...env, MCP_DECISIVE_DATA_DIR: 'from-env' },
+      cwd: root
+    }))._unsafeUnwrap();
+
+    // Then
+    expect(fromFile.dataDirectory).toBe(path.join(root, 'config-home', 'mcp-decisive', 'from-user-config'));
+    expect(fromFile.file.transport).toBe('http');
+    expect(fromEnv.dataDirectory).toBe(path.join(root, 'from-env'));
+    expect(fromCli.dataDirectory).toBe(path.join(root, 'from-cli'));
+  });
+
+  it('should fail when an explicitly given config file is missing or invalid', async () => {
+    // Given
+    await fs.writeFile(path.join(root, 'broken.json'), JSON.stringify({ dataDir: 42 }));
+
+    // When
+    const missing = await loadConfig({ argv: ['--config', 'missing.json'], env, cwd: root });
+    const invalid = await loadConfig({ argv: [], env: { ...env, MCP_DECISIVE_CONFIG: 'broken.json' }, cwd: root });
+
+    // Then
+    expect(missing._unsafeUnwrapErr().type).toBe('config_not_found');
+    expect(invalid._unsafeUnwrapErr().type).toBe('invalid_config_file');
+  });
+
+  it('should choose the storage backend from CLI, environment or config file', async () => {
+    // Given
+    await fs.writeFile(path.join(root, 'team.json'), JSON.stringify({ storage: 'sqlite' }));
+    const withFile = { ...env, MCP_DECISIVE_CONFIG: 'team.json' };
+
+    // When
+    const byDefault = (await loadConfig({ argv: [], env, cwd: root }))._unsafeUnwrap();
+    const fromFile = (await loadConfig({ argv: [], env: withFile, cwd: root }))._unsafeUnwrap();
+    const fromCli = (await loadConfig({ argv: ['--storage=memory'], env: withFile, cwd: root }))._unsafeUnwrap();
+    const unknown = await loadConfig({ argv: [], env: { ...env, MCP_DECISIVE_STORAGE: 'redis' }, cwd: root });
+
+    // Then
+    expect(byDefault.storage).toBe('filesystem');
+    expect(fromFile.storage).toBe('sqlite');
+    expect(fromCli.storage).toBe('memory');
+    expect(unknown._unsafeUnwrapErr()).toEqual({ type: 'unknown_storage', value: 'redis' });
+  });
+
+  it('should merge policy overrides from config files item by item over the defaults', async () => {
+    // Given
+    await fs.mkdir(path.join(root, '.decisive'));
+    await fs.writeFile(path.join(root, '.decisive', 'config.json'), JSON.stringify({
+      policy: { textLimits: { constraints: 200 }, optionCount: { max: 7 } }
+    }));
+    await fs.writeFile(path.join(root, 'team.json'), JSON.stringify({
+      policy: { optionCount: { max: 6 } }
+    }));
+    await fs.writeFile(path.join(root, 'broken.json'), JSON.stringify({
+      policy: { optionCount: { min: 8 } }
+    }));
+
+    // When
+    const config = (await loadConfig({ argv: ['--config', 'team.json'], env, cwd: root }))._unsafeUnwrap();
+    const broken = await loadConfig({ argv: ['--config', 'broken.json'], env, cwd: root });
+
+    // Then
+    expect(config.policy).toEqual({
+      textLimits: { issue: 30, context: 60, constraints: 200, successCriterion: 60, option: 30 },
+      optionCount: { min: 3, max: 6, wideningMax: 10 }
+    });
+    expect(broken._unsafeUnwrapErr().type).toBe('invalid_policy');
+  });
+
+  it('should choose the message locale from CLI, environment or config file', async () => {
+    // Given
+    await fs.writeFile(path.join(root, 'team.json'), JSON.stringify({ locale: 'en' }));
+    const withFile = { ...env, MCP_DECISIVE_CONFIG: 'team.json' };
+
+    // When
+    const byDefault = (await loadConfig({ argv: [], env, cwd: root }))._unsafeUnwrap();
+    const fromFile = (await loadConfig({ argv: [], env: withFile, cwd: root }))._unsafeUnwrap();
+    const fromEnv = (await loadConfig({ argv: [], env: { ...withFile, MCP_DECISIVE_LOCALE: 'ja_JP.UTF-8' }, cwd: root }))._unsafeUnwrap();
+    const fromCli = (await loadConfig({ argv: ['--locale', 'en-US'], env: { ...env, MCP_DECISIVE_LOCALE: 'ja' }, cwd: root }))._unsafeUnwrap();
+    const unknown = await loadConfig({ argv: ['--locale=fr'], env, cwd: root });
+
+    // Then
+    expect(byDefault.locale).toBeUndefined();
+    expect(fromFile.locale).toBe('en');
+    expect(fromEnv.locale).toBe('ja');
+    expect(fromCli.locale).toBe('en');
+    expect(unknown._unsafeUnwrapErr()).toEqual({ type: 'unknown_locale', value: 'fr' });
+  });
+});
@@ -0,0 +1,297 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { readJsonFile, fileExists, getDefaultDataDirectory, setDataDirectory } from './filesystem.js';
+import { STORAGE_BACKEND_KINDS, type StorageBackendKind } from './storage-backend.js';
+import { DomainPolicy, DomainPolicyOverridesSchema, type DomainPolicyOverrides } from '../domain/term/domain-policy.js';
+import { I18n, LOCALES, type Locale } from '../common/i18n.js';
+
+/**
+ * Config Effect Layer
+ *
+ * 設定ファイル・環境変数・CLI引数から設定を読み込み、データディレクトリを決める。
+ *
+ * データディレクトリは次の順で最初に見つかったものを使う:
+ *   1. --data-dir <path>                 CLI引数
+ *   2. MCP_DECISIVE_DATA_DIR             環境変数
+ *   3. --config / MCP_DECISIVE_CONFIG で指定した設定ファイルの dataDir
+ *   4. プロジェクトの .decisive/config.json の dataDir
+ *   5. プロジェクトの .decisive/ ディレクトリそのもの（意思決定をコードと一緒にコミットできる）
+ *   6. ユーザー設定 $XDG_CONFIG_HOME/mcp-decisive/config.json の dataDir
+ *   7. XDG のデフォルト $XDG_DATA_HOME/mcp-decisive
+ *
+ * 保存先のバックエンド（filesystem / memory / sqlite）は
+ * --storage、MCP_DECISIVE_STORAGE、設定ファイルの storage の順で決める（デフォルトは filesystem）。
+ *
+ * 文字数の上限や選択肢の数（DomainPolicy）は設定ファイルの policy で上書きできる。
+ * 複数の設定ファイルに policy があるときは、項目ごとに優先度の高いものを使う。
+ *
+ * メッセージのロケール（ja / en）は --locale、MCP_DECISIVE_LOCALE、設定ファイルの locale の順で決める。
+ * どれもなければクライアントが宣言したロケールを使う。
+ *
+ * プロジェクトの .decisive/ は作業ディレクトリから親へ辿って探す。
+ * 設定ファイル内の相対パスは、その設定ファイルのディレクトリを基準に解決する。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const PROJECT_DIRECTORY_NAME = '.decisive';
+const CONFIG_FILE_NAME = 'config.json';
+
+const ConfigFileSchema = z.object({
+  dataDir: z.string().min(1).optional(),
+  storage: z.string().optional(),
+  transport: z.string().optional(),
+  port: z.union([z.number(), z.string()]).optional(),
+  host: z.string().optional(),
+  locale: z.string().optional(),
+  policy: DomainPolicyOverridesSchema.optional()
+});
+
+/**
+ * Config File - config.json の内容
+ */
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export type DataDirectorySource = 'cli' | 'env' | 'config_file' | 'project' | 'default';
+
+/**
+ * Decisive Config - 起動時に解決した設定
+ *
+ * file は読み込んだ設定ファイルを優先度順に重ねたもの（transport などの設定に使う）
+ */
+export type DecisiveConfig = {
+  readonly dataDirectory: string;
+  readonly dataDirectorySource: DataDirectorySource;
+  readonly storage: StorageBackendKind;
+  readonly policy: DomainPolicy;
+  readonly locale: Locale | undefined;
+  readonly configFiles: readonly string[];
+  readonly file: ConfigFile;
+};
+
+export type ConfigError =
+  | { readonly type: 'missing_value'; readonly flag: string }
+  | { readonly type: 'config_not_found'; readonly path: string }
+  | { readonly type: 'unknown_storage'; readonly value: string }
+  | { readonly type: 'unknown_locale'; readonly value: string }
+  | { readonly type: 'invalid_policy'; readonly message: string }
+  | { readonly type: 'invalid_config_file'; readonly path: string; readonly message: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CLI Arguments
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Read --flag value / --flag=value pairs of the given flags; other arguments are ignored
+ */
+export const parseCliFlags = <Flag extends string>(
+  argv: readonly string[],
+  flags: readonly Flag[]
+): Result<Partial<Record<Flag, string>>, { type: 'missing_value'; flag: string }> => {
+  const values: Partial<Record<Flag, string>> = {};
+
+  for (let index = 0; index < argv.length; index++) {
+    if (!argv[index].startsWith('--')) continue;
+    const [name, inlineValue] = argv[index].slice(2).split('=', 2);
+    const flag = flags.find(candidate => candidate === name);
+    if (!flag) continue;
+
+    const value = inlineValue ?? argv[index + 1];
+    if (value === undefined || value.startsWith('--')) {
+      return err({ type: 'missing_value', flag: `--${flag}` });
+    }
+    if (inlineValue === undefined) index++;
+    values[flag] = value;
+  }
+
+  return ok(values);
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Locations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Get the XDG-compliant user config file path
+ */
+export const getUserConfigFilePath = (env: NodeJS.ProcessEnv): string => {
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'mcp-decisive', CONFIG_FILE_NAME);
+};
+
+/**
+ * Find the nearest .decisive/ directory by walking up from the working directory
+ */
+export const findProjectDirectory = async (cwd: string): Promise<string | null> => {
+  let current = path.resolve(cwd);
+
+  while (true) {
+    const candidate = path.join(current, PROJECT_DIRECTORY_NAME);
+    try {
+      if ((await fs.stat(candidate)).isDirectory()) {
+        return candidate;
+      }
+    } catch {
+      // not found here - keep walking up
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Loading
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type LoadedConfigFile = { readonly path: string; readonly content: ConfigFile };
+
+/**
+ * Read one config file
+ *
+ * A missing optional file yields null; a missing required (explicitly given) file is an error.
+ */
+const readConfigFile = async (
+  filePath: string,
+  required: boolean
+): Promise<Result<LoadedConfigFile | null, ConfigError>> => {
+  if (!(await fileExists(filePath))) {
+    return required ? err({ type: 'config_not_found', path: filePath }) : ok(null);
+  }
+
+  const readResult = await readJsonFile<unknown>(filePath);
+  if (readResult.isErr()) {
+    return err({ type: 'invalid_config_file', path: filePath, message: readResult.error.message });
+  }
+
+  const parsed = ConfigFileSchema.safeParse(readResult.value);
+  if (!parsed.success) {
+    return err({
+      type: 'invalid_config_file',
+      path: filePath,
+      message: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+    });
+  }
+
+  const content = parsed.data.dataDir
+    ? { ...parsed.data, dataDir: path.resolve(path.dirname(filePath), parsed.data.dataDir) }
+    : parsed.data;
+  return ok({ path: filePath, content });
+};
+
+/**
+ * Load the configuration from CLI arguments, environment variables and config files
+ */
+export const loadConfig = async (params: {
+  argv: readonly string[];
+  env: NodeJS.ProcessEnv;
+  cwd: string;
+}): Promise<Result<DecisiveConfig, ConfigError>> => {
+  const { argv, env, cwd } = params;
+
+  const flagsResult = parseCliFlags(argv, ['config', 'data-dir', 'storage', 'locale'] as const);
+  if (flagsResult.isErr()) {
+    return err(flagsResult.error);
+  }
+  const flags = flagsResult.value;
+
+  const projectDirectory = await findProjectDirectory(cwd);
+  const explicitConfigPath = flags.config ?? env.MCP_DECISIVE_CONFIG;
+
+  const fileResults = await Promise.all([
+    explicitConfigPath ? readConfigFile(path.resolve(cwd, explicitConfigPath), true) : Promise.resolve(ok(null)),
+    projectDirectory ? readConfigFile(path.join(projectDirectory, CONFIG_FILE_NAME), false) : Promise.resolve(ok(null)),
+    readConfigFile(getUserConfigFilePath(env), false)
+  ]);
+  const combined = Result.combine(fileResults);
+  if (combined.isErr()) {
+    return err(combined.error);
+  }
+  const [explicitFile, projectFile, userFile] = combined.value;
+
+  // 優先度の高いものから順に、最初に見つかったデータディレクトリを使う
+  const candidates: [string | undefined | null, DataDirectorySource][] = [
+    [flags['data-dir'] && path.resolve(cwd, flags['data-dir']), 'cli'],
+    [env.MCP_DECISIVE_DATA_DIR && path.resolve(cwd, env.MCP_DECISIVE_DATA_DIR), 'env'],
+    [explicitFile?.content.dataDir, 'config_file'],
+    [projectFile?.content.dataDir, 'config_file'],
+    [projectDirectory, 'project'],
+    [userFile?.content.dataDir, 'config_file']
+  ];
+  const found = candidates.find((candidate): candidate is [string, DataDirectorySource] => Boolean(candidate[0]));
+  const [dataDirectory, dataDirectorySource] = found ?? [getDefaultDataDirectory(env), 'default'];
+
+  const loadedFiles = [explicitFile, projectFile, userFile].filter((file): file is LoadedConfigFile => file !== null);
+  // 優先度の低いものから重ねて、高いものが上書きする
+  const file = loadedFiles.reduceRight<ConfigFile>((merged, loaded) => ({ ...merged, ...loaded.content }), {});
+
+  const storage = flags.storage ?? env.MCP_DECISIVE_STORAGE ?? file.storage ?? 'filesystem';
+  const storageKind = STORAGE_BACKEND_KINDS.find(kind => kind === storage);
+  if (!storageKind) {
+    return err({ type: 'unknown_storage', value: storage });
+  }
+
+  const localeValue = flags.locale ?? env.MCP_DECISIVE_LOCALE ?? file.locale;
+  const locale = I18n.parse(localeValue);
+  if (localeValue !== undefined && !locale) {
+    return err({ type: 'unknown_locale', value: localeValue });
+  }
+
+  // policy は項目ごとに重ねる（優先度の低いものから）
+  const policyOverrides = loadedFiles.reduceRight<DomainPolicyOverrides>((merged, loaded) => ({
+    textLimits: { ...merged.textLimits, ...loaded.content.policy?.textLimits },
+    optionCount: { ...merged.optionCount, ...loaded.content.policy?.optionCount }
+  }), {});
+  // 設定したロケールはまだ適用していないので、エラーメッセージのロケールはここで決める
+  const policyResult = I18n.runWith(locale, () => DomainPolicy.resolve(policyOverrides));
+  if (policyResult.isErr()) {
+    return err({ type: 'invalid_policy', message: policyResult.error.message });
+  }
+
+  return ok({
+    dataDirectory,
+    dataDirectorySource,
+    storage: storageKind,
+    policy: policyResult.value,
+    locale,
+    configFiles: loadedFiles.map(loaded => loaded.path),
+    file
+  });
+};
+
+/**
+ * Apply the loaded configuration to the effect layer, the domain policy and the message locale
+ */
+export const applyConfig = (config: DecisiveConfig): void => {
+  setDataDirectory(config.dataDirectory);
+  DomainPolicy.configure(config.policy);
+  I18n.configure(config.locale);
+};
+
+/**
+ * Convert ConfigError to a message for the command line
+ */
+export const formatConfigError = (error: ConfigError): string => {
+  switch (error.type) {
+    case 'missing_value':
+      return `Missing value for ${error.flag}`;
+    case 'config_not_found':
+      return `Config file not found: ${error.path}`;
+    case 'unknown_storage':
+      return `Unknown storage backend: ${error.value} (expected ${STORAGE_BACKEND_KINDS.join(', ')})`;
+    case 'unknown_locale':
+      return `Unknown locale: ${error.value} (expected ${LOCALES.join(', ')})`;
+    case 'invalid_policy':
+      return `Invalid policy: ${error.message}`;
+    case 'invalid_config_file':
+      return `Invalid config file ${error.path}: ${error.message}`;
+  }
+};
@@ -0,0 +1,209 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import { DecisionId } from '../domain/term/decision.js';
+import { defineCatalog } from '../common/i18n.js';
+import type { FileSystemError } from './filesystem.js';
+import { notifyStorageChange } from './storage-change.js';
+import { getStorageBackend } from './storage-backend.js';
+import { decodeDocument, withDocumentVersion, type DocumentDefinition } from './schema-migration.js';
+
+/**
+ * Decision Storage Effect Layer
+ *
+ * 意思決定の一覧と、現在アクティブな意思決定を管理する（保存先は StorageBackend）。
+ * HTTP のようにひとつのプロセスが複数のクライアントを受け付けるときは、アクティブな意思決定を
+ * セッションごとに持ち、ほかのクライアントの切り替えに影響されないようにする。
+ */
+
+export type DecisionStorageError =
+  | { type: 'file_system_error'; error: FileSystemError }
+  | { type: 'invalid_decision_id'; message: string }
+  | { type: 'decision_not_found'; decisionId: string }
+  | { type: 'no_active_decision' };
+
+/**
+ * Active decision pointer document
+ *
+ * version 0: version フィールド導入前のファイル（内容は version 1 と同じ）
+ */
+const ACTIVE_DECISION_DOCUMENT: DocumentDefinition<{ version: number; decisionId: string }> = {
+  name: 'active-decision.json',
+  currentVersion: 1,
+  migrations: [
+    { from: 0, description: 'version フィールドを追加', migrate: document => document }
+  ],
+  schema: z.object({
+    version: z.number().int(),
+    decisionId: z.string()
+  })
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Session Scope
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Active Decision Session - セッションごとのアクティブな意思決定
+ *
+ * セッションの中ではストレージの active-decision を読み書きせず、このセッションの値だけを使う。
+ * セッションの外（stdio）では、これまでどおりストレージの値を使う。
+ */
+export type ActiveDecisionSession = {
+  decisionId: DecisionId | null;
+};
+
+const sessionScope = new AsyncLocalStorage<ActiveDecisionSession>();
+
+export const ActiveDecisionSession = {
+  /**
+   * Create a session with no active decision yet
+   */
+  create: (): ActiveDecisionSession => ({ decisionId: null }),
+
+  /**
+   * Run an operation with the given session as the active decision scope
+   *
+   * Without a session the operation uses the stored active decision.
+   */
+  runWith: <T>(session: ActiveDecisionSession | undefined, operation: () => T): T =>
+    session ? sessionScope.run(session, operation) : operation(),
+
+  /**
+   * The session the current operation runs in, if any
+   */
+  current: (): ActiveDecisionSession | undefined => sessionScope.getStore()
+} as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Storage Operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Mark the given decision as the active one
+ */
+export const setActiveDecisionId = async (decisionId: DecisionId): Promise<Result<void, FileSystemError>> => {
+  const session = ActiveDecisionSession.current();
+  if (session) {
+    session.decisionId = decisionId;
+    notifyStorageChange({ type: 'active_decision_changed', decisionId, session });
+    return ok(undefined);
+  }
+
+  const saveResult = await getStorageBackend().writeActiveDecision(
+    withDocumentVersion(ACTIVE_DECISION_DOCUMENT, { decisionId: DecisionId.toString(decisionId) })
+  );
+  return saveResult.map(() => notifyStorageChange({ type: 'active_decision_changed', decisionId, session: null }));
+};
+
+/**
+ * Clear the active decision pointer (e.g. after the active decision was deleted)
+ */
+export const clearActiveDecisionId = async (): Promise<Result<void, FileSystemError>> => {
+  const session = ActiveDecisionSession.current();
+  if (session) {
+    session.decisionId = null;
+    notifyStorageChange({ type: 'active_decision_changed', decisionId: null, session });
+    return ok(undefined);
+  }
+
+  const clearResult = await getStorageBackend().clearActiveDecision();
+  return clearResult.map(() => notifyStorageChange({ type: 'active_decision_changed', decisionId: null, session: null }));
+};
+
+/**
+ * Get the active decision ID, or null when no decision has been started yet
+ */
+export const getActiveDecisionId = async (): Promise<Result<DecisionId | null, FileSystemError>> => {
+  const session = ActiveDecisionSession.current();
+  if (session) {
+    return ok(session.decisionId);
+  }
+
+  const result = await getStorageBackend().readActiveDecision();
+  return result.andThen(data =>
+    data === null
+      ? ok(null)
+      : decodeDocument(ACTIVE_DECISION_DOCUMENT, data)
+        .map(document => DecisionId.fromString(document.decisionId).unwrapOr(null))
+  );
+};
+
+/**
+ * List the IDs of all stored decisions
+ */
+export const listDecisionIds = async (): Promise<Result<DecisionId[], FileSystemError>> => {
+  const result = await getStorageBackend().listDecisionIds();
+  return result.map(names => names.flatMap(name => DecisionId.fromString(name).match(id => [id], () => [])));
+};
+
+/**
+ * Check if a decision exists
+ */
+export const decisionExists = async (decisionId: DecisionId): Promise<boolean> => {
+  return getStorageBackend().decisionExists(decisionId);
+};
+
+/**
+ * Resolve the decision a tool call targets
+ *
+ * - 明示的に指定された場合はその意思決定（存在チェックあり）
+ * - 指定がない場合は現在アクティブな意思決定
+ */
+export const resolveDecisionId = async (
+  requestedId?: string
+): Promise<Result<DecisionId, DecisionStorageError>> => {
+  if (requestedId !== undefined) {
+    const idResult = DecisionId.fromString(requestedId);
+    if (idResult.isErr()) {
+      return err({
+        type: 'invalid_decision_id',
+        message: idResult.error.map(e => e.message).join(', ')
+      });
+    }
+    if (!(await decisionExists(idResult.value))) {
+      return err({ type: 'decision_not_found', decisionId: requestedId });
+    }
+    return ok(idResult.value);
+  }
+
+  const activeResult = await getActiveDecisionId();
+  if (activeResult.isErr()) {
+    return err({ type: 'file_system_error', error: activeResult.error });
+  }
+  if (activeResult.value === null) {
+    return err({ type: 'no_active_decision' });
+  }
+  return ok(activeResult.value);
+};
+
+const messages = defineCatalog({
+  ja: {
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    invalidDecisionId: (message: string) => `意思決定IDが不正です: ${message}`,
+    decisionNotFound: (decisionId: string) => `意思決定「${decisionId}」は存在しません。list-decisions ツールで一覧を確認してください`,
+    noActiveDecision: 'アクティブな意思決定がありません。define_issue ツールで新しい意思決定を開始してください'
+  },
+  en: {
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    invalidDecisionId: (message: string) => `Invalid decision ID: ${message}`,
+    decisionNotFound: (decisionId: string) => `Decision "${decisionId}" does not exist. Check the list with the list-decisions tool`,
+    noActiveDecision: 'There is no active decision. Start a new decision with the define_issue tool'
+  }
+});
+
+/**
+ * Convert DecisionStorageError to user-friendly message
+ */
+export const formatDecisionStorageError = (error: DecisionStorageError): string => {
+  switch (error.type) {
+    case 'file_system_error':
+      return messages().fileSystemError(error.error.message);
+    case 'invalid_decision_id':
+      return messages().invalidDecisionId(error.message);
+    case 'decision_not_found':
+      return messages().decisionNotFound(error.decisionId);
+    case 'no_active_decision':
+      return messages().noActiveDecision;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ok } from 'neverthrow';
+import { saveJsonFile, readJsonFile, withFileLock } from './filesystem.js';
+
+describe('filesystem', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-decisive-fs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should save JSON atomically without leaving temp files behind', async () => {
+    // Given
+    const filePath = path.join(root, 'data', 'state.json');
+
+    // When
+    await Promise.all([1, 2, 3].map(value => saveJsonFile(filePath, { value })));
+
+    // Then
+    const saved = (await readJsonFile<{ value: number }>(filePath))._unsafeUnwrap();
+    expect([1, 2, 3]).toContain(saved.value);
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['state.json']);
+  });
+
+  it('should serialize read-modify-write operations on the same lock', async () => {
+    // Given
+    const lockPath = path.join(root, 'counter.lock');
+    let counter = 0;
+    const increment = () => withFileLock(lockPath, async () => {
+      const read = counter;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      counter = read + 1;
+      return ok(counter);
+    });
+
+    // When
+    await Promise.all(Array.from({ length: 5 }, increment));
+
+    // Then
+    expect(counter).toBe(5);
+  });
+
+  it('should let nested operations reuse a lock that is already held', async () => {
+    // Given
+    const lockPath = path.join(root, 'nested.lock');
+
+    // When
+    const result = await withFileLock(lockPath, () => withFileLock(lockPath, async () => ok('done')));
+
+    // Then
+    expect(result._unsafeUnwrap()).toBe('done');
+  });
+
+  it('should report lock contention when the lock is not released in time', async () => {
+    // Given
+    const lockPath = path.join(root, 'busy.lock');
+    await fs.writeFile(lockPath, JSON.stringify({ pid: 0 }));
+
+    // When
+    const result = await withFileLock(lockPath, async () => ok('never'), { timeoutMs: 50 });
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'lock_contention' });
+  });
+});
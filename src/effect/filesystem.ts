@@ -1,28 +1,112 @@
 import { promises as fs } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
 import { Result, ok, err } from 'neverthrow';
 import path from 'path';
 import os from 'os';
+import { defineCatalog } from '../common/i18n.js';
 
 /**
  * File system error types for better error categorization
  */
 export interface FileSystemError {
-  type: 'permission_denied' | 'directory_create_failed' | 'file_write_failed' | 'disk_full' | 'unknown';
+  type: 'permission_denied' | 'directory_create_failed' | 'file_write_failed' | 'disk_full' | 'lock_contention' | 'data_corruption' | 'unknown';
   message: string;
   originalError: Error;
 }
 
+/**
+ * The storage operation that failed, named in the error message
+ */
+export type StorageOperation =
+  | 'create_directory'
+  | 'read_file'
+  | 'write_file'
+  | 'acquire_lock'
+  | 'connect_database'
+  | 'read_journal'
+  | 'write_journal'
+  | 'list_decisions'
+  | 'check_decision'
+  | 'read_active_decision'
+  | 'write_active_decision'
+  | 'clear_active_decision';
+
+const messages = defineCatalog({
+  ja: {
+    operations: {
+      create_directory: 'ディレクトリ作成',
+      read_file: 'ファイル読み込み',
+      write_file: 'ファイル書き込み',
+      acquire_lock: 'ロック取得',
+      connect_database: 'データベース接続',
+      read_journal: 'ジャーナル読み込み',
+      write_journal: 'ジャーナル書き込み',
+      list_decisions: '意思決定一覧の読み込み',
+      check_decision: '意思決定の確認',
+      read_active_decision: 'アクティブな意思決定の読み込み',
+      write_active_decision: 'アクティブな意思決定の書き込み',
+      clear_active_decision: 'アクティブな意思決定の解除'
+    } satisfies Record<StorageOperation, string>,
+    dataCorruption: (operation: string) => `データ破損: ${operation}したJSONを解析できません`,
+    permissionDenied: (operation: string) => `権限エラー: ${operation}の権限がありません`,
+    diskFull: (operation: string) => `ディスク容量不足: ${operation}に必要な容量がありません`,
+    directoryCreateFailed: (cause: string) => `ディレクトリ作成失敗: ${cause}`,
+    fileWriteFailed: (cause: string) => `ファイル書き込み失敗: ${cause}`,
+    unknown: (operation: string, cause: string) => `${operation}中に予期しないエラーが発生しました: ${cause}`,
+    lockContention: (target: string) => `ロック競合: 他の処理が ${target} を更新中です。しばらくしてから再試行してください`
+  },
+  en: {
+    operations: {
+      create_directory: 'create directory',
+      read_file: 'read file',
+      write_file: 'write file',
+      acquire_lock: 'acquire lock',
+      connect_database: 'connect to database',
+      read_journal: 'read journal',
+      write_journal: 'write journal',
+      list_decisions: 'list decisions',
+      check_decision: 'check decision',
+      read_active_decision: 'read active decision',
+      write_active_decision: 'write active decision',
+      clear_active_decision: 'clear active decision'
+    },
+    dataCorruption: (operation: string) => `Data corruption: could not parse the JSON (${operation})`,
+    permissionDenied: (operation: string) => `Permission denied: not allowed to ${operation}`,
+    diskFull: (operation: string) => `Disk full: not enough space to ${operation}`,
+    directoryCreateFailed: (cause: string) => `Failed to create directory: ${cause}`,
+    fileWriteFailed: (cause: string) => `Failed to write file: ${cause}`,
+    unknown: (operation: string, cause: string) => `Unexpected error while trying to ${operation}: ${cause}`,
+    lockContention: (target: string) => `Lock contention: another process is updating ${target}. Please try again shortly`
+  }
+});
+
+/**
+ * Lock contention message for the given target (a decision directory or the database)
+ */
+export const lockContentionMessage = (target: string): string => messages().lockContention(target);
+
 /**
  * Categorize file system errors based on error codes and messages
  */
-const categorizeFileSystemError = (error: Error, operation: string): FileSystemError => {
+export const categorizeFileSystemError = (error: Error, operation: StorageOperation): FileSystemError => {
   const errorMessage = error.message.toLowerCase();
   const nodeError = error as NodeJS.ErrnoException;
+  const operationName = messages().operations[operation];
+
+  // 読めたが JSON として解析できない内容はデータ破損
+  if (error instanceof SyntaxError) {
+    return {
+      type: 'data_corruption',
+      message: messages().dataCorruption(operationName),
+      originalError: error
+    };
+  }
 
   if (nodeError.code === 'EACCES' || nodeError.code === 'EPERM' || errorMessage.includes('permission')) {
     return {
       type: 'permission_denied',
-      message: `権限エラー: ${operation}の権限がありません`,
+      message: messages().permissionDenied(operationName),
       originalError: error
     };
   }
@@ -30,34 +114,59 @@ const categorizeFileSystemError = (error: Error, operation: string): FileSystemE
   if (nodeError.code === 'ENOSPC' || errorMessage.includes('no space')) {
     return {
       type: 'disk_full',
-      message: `ディスク容量不足: ${operation}に必要な容量がありません`,
+      message: messages().diskFull(operationName),
       originalError: error
     };
   }
 
-  if (operation === 'ディレクトリ作成' && (nodeError.code === 'ENOTDIR' || nodeError.code === 'EEXIST')) {
+  if (operation === 'create_directory' && (nodeError.code === 'ENOTDIR' || nodeError.code === 'EEXIST')) {
     return {
       type: 'directory_create_failed',
-      message: `ディレクトリ作成失敗: ${error.message}`,
+      message: messages().directoryCreateFailed(error.message),
       originalError: error
     };
   }
 
-  if (operation === 'ファイル書き込み' && (nodeError.code === 'EISDIR' || nodeError.code === 'ENOENT')) {
+  if (operation === 'write_file' && (nodeError.code === 'EISDIR' || nodeError.code === 'ENOENT')) {
     return {
       type: 'file_write_failed',
-      message: `ファイル書き込み失敗: ${error.message}`,
+      message: messages().fileWriteFailed(error.message),
       originalError: error
     };
   }
 
   return {
     type: 'unknown',
-    message: `${operation}中に予期しないエラーが発生しました: ${error.message}`,
+    message: messages().unknown(operationName, error.message),
     originalError: error
   };
 };
 
+let configuredDataDirectory: string | null = null;
+
+/**
+ * Use the given directory as the data directory (resolved by the config layer at startup)
+ */
+export const setDataDirectory = (dataDirectory: string | null): void => {
+  configuredDataDirectory = dataDirectory;
+};
+
+/**
+ * Get the XDG-compliant default data directory
+ *
+ * $XDG_DATA_HOME/mcp-decisive, falling back to ~/.local/share/mcp-decisive
+ * (%LOCALAPPDATA%\mcp-decisive on Windows).
+ */
+export const getDefaultDataDirectory = (env: NodeJS.ProcessEnv = process.env): string => {
+  if (env.XDG_DATA_HOME) {
+    return path.join(env.XDG_DATA_HOME, 'mcp-decisive');
+  }
+  if (process.platform === 'win32' && env.LOCALAPPDATA) {
+    return path.join(env.LOCALAPPDATA, 'mcp-decisive');
+  }
+  return path.join(os.homedir(), '.local', 'share', 'mcp-decisive');
+};
+
 /**
  * Get the data directory path for mcp-decisive
  */
@@ -67,6 +176,15 @@ export const getDataDirectory = (): string => {
   if (testDataDir) {
     return testDataDir;
   }
+  return configuredDataDirectory ?? getDefaultDataDirectory();
+};
+
+/**
+ * Directory used before the data directory became configurable
+ *
+ * Read at startup to import the earlier decision or tell users where their earlier decisions are.
+ */
+export const getLegacyDataDirectory = (): string => {
   return path.join(os.tmpdir(), 'mcp-decisive-data');
 };
 
@@ -78,7 +196,7 @@ export const ensureDirectory = async (dirPath: string): Promise<Result<void, Fil
     await fs.mkdir(dirPath, { recursive: true });
     return ok(undefined);
   } catch (error) {
-    const fsError = categorizeFileSystemError(error as Error, 'ディレクトリ作成');
+    const fsError = categorizeFileSystemError(error as Error, 'create_directory');
     return err(fsError);
   }
 };
@@ -100,11 +218,15 @@ export const saveJsonFile = async <T>(
   // Prepare JSON data
   const jsonData = JSON.stringify(data, null, 2);
 
+  // 一時ファイルに書いてから rename し、読み手が書きかけのファイルを見ないようにする
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
   try {
-    await fs.writeFile(filePath, jsonData, 'utf-8');
+    await fs.writeFile(tempPath, jsonData, 'utf-8');
+    await fs.rename(tempPath, filePath);
     return ok(undefined);
   } catch (error) {
-    const fsError = categorizeFileSystemError(error as Error, 'ファイル書き込み');
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    const fsError = categorizeFileSystemError(error as Error, 'write_file');
     return err(fsError);
   }
 };
@@ -118,7 +240,52 @@ export const readJsonFile = async <T>(filePath: string): Promise<Result<T, FileS
     const data = JSON.parse(fileContent) as T;
     return ok(data);
   } catch (error) {
-    const fsError = categorizeFileSystemError(error as Error, 'ファイル読み込み');
+    const fsError = categorizeFileSystemError(error as Error, 'read_file');
+    return err(fsError);
+  }
+};
+
+/**
+ * Append one JSON value as a line to a JSON Lines file (append-only)
+ *
+ * The line is written with a single append, so readers never see a partial
+ * line from another writer; ordering between writers is up to withFileLock.
+ */
+export const appendJsonLine = async <T>(
+  filePath: string,
+  data: T
+): Promise<Result<void, FileSystemError>> => {
+  // Ensure directory exists first
+  const dirPath = path.dirname(filePath);
+  const dirResult = await ensureDirectory(dirPath);
+  if (dirResult.isErr()) {
+    return err(dirResult.error);
+  }
+
+  const line = `${JSON.stringify(data)}\n`;
+
+  try {
+    await fs.writeFile(filePath, line, { encoding: 'utf-8', flag: 'a' });
+    return ok(undefined);
+  } catch (error) {
+    const fsError = categorizeFileSystemError(error as Error, 'write_file');
+    return err(fsError);
+  }
+};
+
+/**
+ * Read all values from a JSON Lines file
+ */
+export const readJsonLines = async <T>(filePath: string): Promise<Result<T[], FileSystemError>> => {
+  try {
+    const fileContent = await fs.readFile(filePath, 'utf-8');
+    const data = fileContent
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as T);
+    return ok(data);
+  } catch (error) {
+    const fsError = categorizeFileSystemError(error as Error, 'read_file');
     return err(fsError);
   }
 };
@@ -133,4 +300,101 @@ export const fileExists = async (filePath: string): Promise<boolean> => {
   } catch {
     return false;
   }
-};
\ No newline at end of file
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Advisory Locking
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type FileLockOptions = {
+  // ロックを待つ最大時間（ミリ秒）。超えたら lock_contention エラー
+  readonly timeoutMs: number;
+  // これより古いロックファイルは、持ち主が異常終了したものとみなして取り除く
+  readonly staleMs: number;
+  readonly retryIntervalMs: number;
+};
+
+const DEFAULT_LOCK_OPTIONS: FileLockOptions = {
+  timeoutMs: 5000,
+  staleMs: 30000,
+  retryIntervalMs: 25
+};
+
+// 同じ非同期処理の中で既に持っているロック（入れ子の withFileLock はそのまま通す）
+const heldLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isStaleLock = async (lockPath: string, staleMs: number): Promise<boolean> => {
+  try {
+    const stat = await fs.stat(lockPath);
+    return Date.now() - stat.mtimeMs > staleMs;
+  } catch {
+    // 既に解放された
+    return false;
+  }
+};
+
+/**
+ * Try to create the lock file exclusively until it succeeds or times out
+ */
+const acquireLock = async (lockPath: string, options: FileLockOptions): Promise<Result<void, FileSystemError>> => {
+  const dirResult = await ensureDirectory(path.dirname(lockPath));
+  if (dirResult.isErr()) {
+    return err(dirResult.error);
+  }
+
+  const deadline = Date.now() + options.timeoutMs;
+  while (true) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }), { flag: 'wx' });
+      return ok(undefined);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        return err(categorizeFileSystemError(error as Error, 'acquire_lock'));
+      }
+    }
+
+    if (await isStaleLock(lockPath, options.staleMs)) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      return err({
+        type: 'lock_contention',
+        message: lockContentionMessage(path.basename(path.dirname(lockPath))),
+        originalError: new Error(`Timed out after ${options.timeoutMs}ms waiting for ${lockPath}`)
+      });
+    }
+    await sleep(options.retryIntervalMs);
+  }
+};
+
+/**
+ * Run a read-modify-write operation while holding an advisory lock file
+ *
+ * The lock is a file created exclusively next to the data, so it also works
+ * across processes. Nested calls for the same lock in the same async call
+ * chain do not wait for themselves.
+ */
+export const withFileLock = async <T, E>(
+  lockPath: string,
+  operation: () => Promise<Result<T, E>>,
+  options: Partial<FileLockOptions> = {}
+): Promise<Result<T, E | FileSystemError>> => {
+  const held = heldLocks.getStore() ?? new Set<string>();
+  if (held.has(lockPath)) {
+    return operation();
+  }
+
+  const lockResult = await acquireLock(lockPath, { ...DEFAULT_LOCK_OPTIONS, ...options });
+  if (lockResult.isErr()) {
+    return err(lockResult.error);
+  }
+
+  try {
+    return await heldLocks.run(new Set([...held, lockPath]), operation);
+  } finally {
+    await fs.rm(lockPath, { force: true }).catch(() => undefined);
+  }
+};
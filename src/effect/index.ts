@@ -1,8 +1,25 @@
 // Filesystem operations
 export * from './filesystem.js';
 
-// Issue storage operations
-export * from './issue-storage.js';
+// Storage backend port and backends
+export * from './storage-backend.js';
+export * from './backend/index.js';
 
-// Reset storage operations
-export * from './reset-storage.js';
\ No newline at end of file
+// Decision storage operations
+export * from './decision-storage.js';
+
+// Stored document versioning and migrations
+export * from './schema-migration.js';
+
+// Journal storage operations
+export * from './journal-storage.js';
+
+// Import of the snapshot files written before the journal
+export * from './snapshot-import.js';
+
+
+// Storage change notifications
+export * from './storage-change.js';
+
+// Configuration
+export * from './config.js';
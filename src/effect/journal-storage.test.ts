@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { DecisionId } from '../domain/term/decision.js';
+import { appendEvent, loadJournal } from './journal-storage.js';
+import { getJournalFilePath } from './backend/filesystem.js';
+
+const decisionId = 'decision-test' as DecisionId;
+
+const issueLine = (entry: Record<string, unknown>) => JSON.stringify({
+  sequence: 1,
+  recordedAt: '2025-01-01T00:00:00.000Z',
+  event: {
+    type: 'IssueDefinitionCreated',
+    issueDefinition: { issue: 'テスト課題', context: 'テスト背景', constraints: 'テスト制約' }
+  },
+  ...entry
+});
+
+describe('journal storage', () => {
+  let root: string;
+
+  const writeJournal = async (...lines: string[]) => {
+    const filePath = getJournalFilePath(decisionId);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, lines.map(line => `${line}\n`).join(''), 'utf-8');
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-decisive-journal-'));
+    process.env.MCP_DECISIVE_TEST_DATA_DIR = root;
+  });
+
+  afterEach(async () => {
+    delete process.env.MCP_DECISIVE_TEST_DATA_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should migrate entries written before versioning and stamp new ones', async () => {
+    // Given
+    await writeJournal(issueLine({}));
+
+    // When
+    const appended = await appendEvent(decisionId, { type: 'DecisionProcessReset', timestamp: new Date() });
+    const entries = (await loadJournal(decisionId))._unsafeUnwrap();
+
+    // Then
+    expect(appended._unsafeUnwrap().version).toBe(2);
+    expect(entries.map(entry => [entry.version, entry.sequence, entry.event.type])).toEqual([
+      [2, 1, 'IssueDefinitionCreated'],
+      [2, 2, 'DecisionProcessReset']
+    ]);
+    expect(entries[0].event).toMatchObject({
+      issueDefinition: { constraints: 'テスト制約', constraintItems: [], successCriteria: [] }
+    });
+  });
+
+  it('should report an issue event with a broken shape as data corruption', async () => {
+    // Given
+    await writeJournal(issueLine({ version: 1, event: { type: 'IssueDefinitionCreated', issueDefinition: { issue: 'テスト課題' } } }));
+
+    // When
+    const error = (await loadJournal(decisionId))._unsafeUnwrapErr();
+
+    // Then
+    expect(error.type).toBe('data_corruption');
+    expect(error.originalError.message).toContain('ジャーナルの1件目');
+    expect(error.originalError.message).toContain('event.issueDefinition.context');
+  });
+
+  it('should report entries from a newer version as data corruption', async () => {
+    // Given
+    await writeJournal(issueLine({ version: 99 }));
+
+    // When
+    const error = (await loadJournal(decisionId))._unsafeUnwrapErr();
+
+    // Then
+    expect(error.type).toBe('data_corruption');
+    expect(error.message).toContain('version 99');
+  });
+});
@@ -0,0 +1,268 @@
+import { Result, err } from 'neverthrow';
+import { z } from 'zod';
+import { defineCatalog } from '../common/i18n.js';
+import type { DecisionId } from '../domain/term/decision.js';
+import type { DecisionEvent } from '../domain/command/decision-event.js';
+import type { ReviewDate } from '../domain/term/final-decision.js';
+import { WidenOptionsStepsSchema } from '../domain/term/widen-options-steps.js';
+import { ConstraintVerdictSchema } from '../domain/term/constraint-check.js';
+import { UndoRedoAggregate } from '../domain/command/undo-redo.js';
+import type { FileSystemError } from './filesystem.js';
+import { decodeDocument, isRecord, withDocumentVersion, type DocumentDefinition } from './schema-migration.js';
+import { getStorageBackend } from './storage-backend.js';
+import { notifyStorageChange } from './storage-change.js';
+
+/**
+ * Journal Storage Effect Layer
+ *
+ * 意思決定ごとの追記専用ジャーナルにドメインイベントを保存する（保存先は StorageBackend）。
+ * 既存の行は書き換えず、現在の状態は Read Model がイベント列を射影して求める。
+ */
+
+/**
+ * Journal Entry - ジャーナルの1行
+ */
+export type JournalEntry = {
+  readonly version: number;
+  readonly sequence: number;
+  readonly recordedAt: string;
+  readonly event: DecisionEvent;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Stored Schema
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const StoredIssueDefinitionSchema = z.object({
+  issue: z.string(),
+  context: z.string(),
+  constraints: z.string(),
+  constraintItems: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(['hard', 'soft']),
+    text: z.string()
+  })),
+  successCriteria: z.array(z.object({
+    id: z.string(),
+    text: z.string()
+  }))
+});
+
+const StoredOptionSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  supplementaryInfo: z.string().optional(),
+  parentId: z.string().optional()
+});
+
+/**
+ * Payload schemas of the events whose shape other features build on
+ *
+ * Other events are only checked for a type.
+ */
+const STORED_EVENT_PAYLOAD_SCHEMAS: Partial<Record<DecisionEvent['type'], z.ZodTypeAny>> = {
+  IssueDefinitionCreated: z.object({
+    issueDefinition: StoredIssueDefinitionSchema
+  }),
+  OptionsGenerated: z.object({
+    optionList: z.object({ options: z.array(StoredOptionSchema) }),
+    widenOptionsStep: WidenOptionsStepsSchema
+  }),
+  OptionAdded: z.object({ option: StoredOptionSchema }),
+  OptionUpdated: z.object({ option: StoredOptionSchema }),
+  OptionRemoved: z.object({ optionId: z.string() }),
+  ConstraintsChecked: z.object({
+    checks: z.array(z.object({
+      optionId: z.string(),
+      constraintId: z.string(),
+      verdict: ConstraintVerdictSchema,
+      reasoning: z.string()
+    }))
+  }),
+  OptionChallenged: z.object({
+    optionId: z.string(),
+    strongestCase: z.string(),
+    counterpoints: z.array(z.object({ id: z.string(), evidence: z.string() }))
+  }),
+  CounterpointStatusRecorded: z.object({
+    counterpointId: z.string(),
+    addressed: z.boolean(),
+    note: z.string()
+  }),
+  // 取り消し履歴の再生はジャーナル上の位置を頼りにする
+  CommandUndone: z.object({ position: z.number().int().positive() }),
+  CommandRedone: z.object({ position: z.number().int().positive() })
+};
+
+const StoredEventSchema = z
+  .object({ type: z.string() })
+  .passthrough()
+  .superRefine((event, context) => {
+    const payloadSchema = STORED_EVENT_PAYLOAD_SCHEMAS[event.type as DecisionEvent['type']];
+    const parsed = payloadSchema?.safeParse(event);
+    parsed?.error?.issues.forEach(issue => context.addIssue(issue));
+  });
+
+// 以前の課題定義は制約を1つの文章でしか持たないので、リストは空にする
+const addIssueDefinitionLists = (entry: Record<string, unknown>): Record<string, unknown> => {
+  const event = entry.event;
+  if (!isRecord(event) || event.type !== 'IssueDefinitionCreated' || !isRecord(event.issueDefinition)) {
+    return entry;
+  }
+  return {
+    ...entry,
+    event: {
+      ...event,
+      issueDefinition: { constraintItems: [], successCriteria: [], ...event.issueDefinition }
+    }
+  };
+};
+
+const messages = defineCatalog({
+  ja: {
+    journalLine: (lineNumber: number) => `ジャーナルの${lineNumber}件目`
+  },
+  en: {
+    journalLine: (lineNumber: number) => `journal line ${lineNumber}`
+  }
+});
+
+/**
+ * Journal entry document
+ *
+ * version 0: version フィールド導入前の行（内容は version 1 と同じ）
+ * version 1: 課題定義に制約のリストと成功基準がない
+ */
+const JOURNAL_ENTRY_DOCUMENT: DocumentDefinition<{ version: number; sequence: number; recordedAt: string; event: unknown }> = {
+  name: 'journal',
+  currentVersion: 2,
+  migrations: [
+    { from: 0, description: 'version フィールドを追加', migrate: entry => entry },
+    { from: 1, description: '課題定義に制約のリストと成功基準を追加', migrate: addIssueDefinitionLists }
+  ],
+  schema: z.object({
+    version: z.number().int(),
+    sequence: z.number().int().positive(),
+    recordedAt: z.string(),
+    event: StoredEventSchema
+  })
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Serialization
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Restore Date fields that JSON serialization turned into strings
+ */
+const reviveEvent = (event: DecisionEvent): DecisionEvent => {
+  switch (event.type) {
+    case 'DecisionStarted':
+      return { ...event, startedAt: new Date(event.startedAt) };
+    case 'AssumptionTestResultRecorded':
+      return { ...event, testedAt: new Date(event.testedAt) };
+    case 'TripwiresEvaluated':
+      return { ...event, evaluatedAt: new Date(event.evaluatedAt) };
+    case 'CounterpointStatusRecorded':
+      return { ...event, recordedAt: new Date(event.recordedAt) };
+    case 'DecisionMade':
+      return {
+        ...event,
+        decision: { ...event.decision, reviewDate: new Date(event.decision.reviewDate) as ReviewDate },
+        decidedAt: new Date(event.decidedAt)
+      };
+    case 'DecisionReviewStarted':
+      return { ...event, startedAt: new Date(event.startedAt) };
+    case 'DecisionProcessReset':
+      return { ...event, timestamp: new Date(event.timestamp) };
+    default:
+      return event;
+  }
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Storage Operations
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Run a read-modify-write on the journal of a decision while holding its lock
+ *
+ * Appends made inside the operation reuse the same lock.
+ */
+export const withJournalLock = <T, E>(
+  decisionId: DecisionId,
+  operation: () => Promise<Result<T, E>>
+): Promise<Result<T, E | FileSystemError>> =>
+  getStorageBackend().withJournalLock(decisionId, operation);
+
+/**
+ * Load all journal entries of a decision in recorded order
+ *
+ * A missing journal means nothing has happened yet and yields an empty list.
+ */
+export const loadJournal = async (decisionId: DecisionId): Promise<Result<JournalEntry[], FileSystemError>> => {
+  const result = await getStorageBackend().readJournal(decisionId);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  // 古い形式の行は現在の形式に移行し、検証できない行があればデータ破損として扱う
+  return Result.combine(result.value.map((line, index) =>
+    decodeDocument({ ...JOURNAL_ENTRY_DOCUMENT, name: messages().journalLine(index + 1) }, line)
+      .map((entry): JournalEntry => ({ ...entry, event: reviveEvent(entry.event as DecisionEvent) }))
+  ));
+};
+
+/**
+ * Load every recorded event of a decision in recorded order, including undone
+ * commands and the undo/redo events themselves
+ */
+export const loadRecordedEvents = async (decisionId: DecisionId): Promise<Result<DecisionEvent[], FileSystemError>> => {
+  const result = await loadJournal(decisionId);
+  return result.map(entries => entries.map(entry => entry.event));
+};
+
+/**
+ * Load the events in effect of a decision in recorded order
+ *
+ * Undone commands are left out, so read models see the state after undo/redo.
+ */
+export const loadEvents = async (decisionId: DecisionId): Promise<Result<DecisionEvent[], FileSystemError>> => {
+  const result = await loadRecordedEvents(decisionId);
+  return result.map(events => [...UndoRedoAggregate.replay(events).effectiveEvents]);
+};
+
+/**
+ * Append one event to the journal of a decision
+ *
+ * The sequence number is derived from the journal, so reading and appending
+ * happen under the journal lock.
+ */
+export const appendEvent = (
+  decisionId: DecisionId,
+  event: DecisionEvent
+): Promise<Result<JournalEntry, FileSystemError>> =>
+  withJournalLock(decisionId, () => appendEventLocked(decisionId, event));
+
+const appendEventLocked = async (
+  decisionId: DecisionId,
+  event: DecisionEvent
+): Promise<Result<JournalEntry, FileSystemError>> => {
+  const journalResult = await loadJournal(decisionId);
+  if (journalResult.isErr()) {
+    return err(journalResult.error);
+  }
+
+  const entry: JournalEntry = withDocumentVersion(JOURNAL_ENTRY_DOCUMENT, {
+    sequence: journalResult.value.length + 1,
+    recordedAt: new Date().toISOString(),
+    event
+  });
+
+  const appendResult = await getStorageBackend().appendJournal(decisionId, entry);
+  return appendResult.map(() => {
+    notifyStorageChange({ type: 'journal_appended', decisionId, event });
+    return entry;
+  });
+};
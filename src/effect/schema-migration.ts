@@ -0,0 +1,134 @@
+import { Result, ok, err } from 'neverthrow';
+import { defineCatalog } from '../common/i18n.js';
+import type { z } from 'zod';
+import type { FileSystemError } from './filesystem.js';
+
+/**
+ * Schema Migration Effect Layer
+ *
+ * 保存するJSONドキュメントはすべて version フィールドを持つ。
+ * 読み込み時に古いバージョンのドキュメントを1段ずつ現在のバージョンへ移行し、
+ * Zodで検証してから使う。ファイル自体は書き換えない（ジャーナルは追記専用のため）。
+ */
+
+/**
+ * version フィールドを導入する前のドキュメントのバージョン
+ */
+export const LEGACY_DOCUMENT_VERSION = 0;
+
+/**
+ * One migration step: upgrades a document from `from` to `from + 1`
+ */
+export type DocumentMigration = {
+  readonly from: number;
+  readonly description: string;
+  readonly migrate: (document: Record<string, unknown>) => Record<string, unknown>;
+};
+
+/**
+ * Stored document definition - current version, migration registry and schema
+ */
+export type DocumentDefinition<T> = {
+  readonly name: string;
+  readonly currentVersion: number;
+  readonly migrations: readonly DocumentMigration[];
+  readonly schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+};
+
+const messages = defineCatalog({
+  ja: {
+    unreadableDocument: (documentName: string, details: string) => `データ破損: ${documentName}を読み込めません（${details}）`,
+    invalidVersion: (version: string) => `version が不正です: ${version}`,
+    newerVersion: (version: number) => `version ${version} はこのバージョンの mcp-decisive では読めません。mcp-decisive を更新してください`,
+    missingMigration: (from: number) => `version ${from} から ${from + 1} への移行が登録されていません`,
+    notAnObject: 'JSONオブジェクトではありません'
+  },
+  en: {
+    unreadableDocument: (documentName: string, details: string) => `Data corruption: cannot read ${documentName} (${details})`,
+    invalidVersion: (version: string) => `Invalid version: ${version}`,
+    newerVersion: (version: number) => `version ${version} cannot be read by this version of mcp-decisive. Please update mcp-decisive`,
+    missingMigration: (from: number) => `No migration is registered from version ${from} to ${from + 1}`,
+    notAnObject: 'not a JSON object'
+  }
+});
+
+/**
+ * Build a data_corruption error for a document that cannot be read
+ */
+export const toDataCorruptionError = (documentName: string, details: string): FileSystemError => ({
+  type: 'data_corruption',
+  message: messages().unreadableDocument(documentName, details),
+  originalError: new Error(`${documentName}: ${details}`)
+});
+
+/**
+ * Check that a parsed JSON value is an object (not an array)
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readVersion = (document: Record<string, unknown>): Result<number, string> => {
+  const version = document.version ?? LEGACY_DOCUMENT_VERSION;
+  return Number.isInteger(version) && (version as number) >= LEGACY_DOCUMENT_VERSION
+    ? ok(version as number)
+    : err(messages().invalidVersion(JSON.stringify(version)));
+};
+
+/**
+ * Upgrade a document step by step until it reaches the current version
+ */
+const migrateDocument = <T>(
+  definition: DocumentDefinition<T>,
+  document: Record<string, unknown>,
+  version: number
+): Result<Record<string, unknown>, string> => {
+  if (version > definition.currentVersion) {
+    return err(messages().newerVersion(version));
+  }
+
+  let current = document;
+  for (let step = version; step < definition.currentVersion; step++) {
+    const migration = definition.migrations.find(candidate => candidate.from === step);
+    if (!migration) {
+      return err(messages().missingMigration(step));
+    }
+    current = { ...migration.migrate(current), version: step + 1 };
+  }
+  return ok(current);
+};
+
+const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join(', ');
+
+/**
+ * Decode a parsed JSON value as the given stored document
+ *
+ * Missing version means the document predates versioning. Anything that cannot
+ * be migrated or fails validation becomes a data_corruption error.
+ */
+export const decodeDocument = <T>(
+  definition: DocumentDefinition<T>,
+  raw: unknown
+): Result<T, FileSystemError> => {
+  if (!isRecord(raw)) {
+    return err(toDataCorruptionError(definition.name, messages().notAnObject));
+  }
+
+  return readVersion(raw)
+    .andThen(version => migrateDocument(definition, raw, version))
+    .andThen((migrated): Result<T, string> => {
+      const parsed = definition.schema.safeParse(migrated);
+      return parsed.success ? ok(parsed.data) : err(formatIssues(parsed.error));
+    })
+    .mapErr(details => toDataCorruptionError(definition.name, details));
+};
+
+/**
+ * Stamp the current version onto a document before saving it
+ */
+export const withDocumentVersion = <T extends object>(
+  definition: { readonly currentVersion: number },
+  document: T
+): T & { version: number } => ({ ...document, version: definition.currentVersion });
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { importSnapshots } from './snapshot-import.js';
+import { loadEvents } from './journal-storage.js';
+import { getActiveDecisionId, listDecisionIds } from './decision-storage.js';
+import { getCurrentState } from './workflow-state-storage.js';
+import { projectOptionsFromEvents } from '../domain/read/options/index.js';
+
+const writeSnapshot = (directory: string, file: string, data: unknown) =>
+  fs.writeFile(path.join(directory, file), JSON.stringify(data, null, 2), 'utf-8');
+
+describe('importSnapshots', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-decisive-snapshot-'));
+    process.env.MCP_DECISIVE_TEST_DATA_DIR = root;
+  });
+
+  afterEach(async () => {
+    delete process.env.MCP_DECISIVE_TEST_DATA_DIR;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should turn the snapshot files into the journal of a new active decision', async () => {
+    // Given
+    await writeSnapshot(root, 'issue.json', { issue: 'サーバーを移行するか', context: '保守期限が近い', constraints: '今期の予算内' });
+    await writeSnapshot(root, 'options.json', { options: [
+      { id: 'option-1-aaa', text: 'クラウドへ移行する' },
+      { id: 'option-2-bbb', text: 'オンプレミスを更新する', supplementaryInfo: '5年保守' },
+      { id: 'option-3-ccc', text: '現状維持' }
+    ] });
+    await writeSnapshot(root, 'workflow-state.json', { type: 'laddered' });
+
+    // When
+    const decisionId = (await importSnapshots(root))._unsafeUnwrap();
+
+    // Then
+    expect(decisionId).not.toBeNull();
+    const events = (await loadEvents(decisionId!))._unsafeUnwrap();
+    expect(events.map(event => event.type)).toEqual(['DecisionStarted', 'IssueDefinitionCreated', 'OptionsGenerated']);
+    expect(projectOptionsFromEvents(events)?.options.map(option => [option.id, option.text])).toEqual([
+      ['option-1-aaa', 'クラウドへ移行する'],
+      ['option-2-bbb', 'オンプレミスを更新する'],
+      ['option-3-ccc', '現状維持']
+    ]);
+    expect((await getCurrentState(decisionId!))._unsafeUnwrap().type).toBe('laddered');
+    expect((await getActiveDecisionId())._unsafeUnwrap()).toBe(decisionId);
+    expect((await fs.readdir(root)).filter(file => file.endsWith('.imported')).sort()).toEqual([
+      'issue.json.imported',
+      'options.json.imported',
+      'workflow-state.json.imported'
+    ]);
+  });
+
+  it('should import only once', async () => {
+    // Given
+    await writeSnapshot(root, 'issue.json', { issue: 'サーバーを移行するか', context: '保守期限が近い', constraints: '今期の予算内' });
+    await importSnapshots(root);
+    await writeSnapshot(root, 'issue.json', { issue: '監視を見直すか', context: 'アラートが多い', constraints: '今月中' });
+
+    // When
+    const second = await importSnapshots(root);
+
+    // Then
+    expect(second._unsafeUnwrap()).toBeNull();
+    expect((await listDecisionIds())._unsafeUnwrap()).toHaveLength(1);
+  });
+
+  it('should do nothing without an issue snapshot', async () => {
+    // When
+    const result = await importSnapshots(root);
+
+    // Then
+    expect(result._unsafeUnwrap()).toBeNull();
+    expect((await listDecisionIds())._unsafeUnwrap()).toEqual([]);
+  });
+
+  it('should report a snapshot it cannot read and leave the files in place', async () => {
+    // Given
+    await writeSnapshot(root, 'issue.json', { issue: 'サーバーを移行するか' });
+
+    // When
+    const result = await importSnapshots(root);
+
+    // Then
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'invalid_snapshot', file: 'issue.json' });
+    expect(await fs.readdir(root)).toContain('issue.json');
+  });
+});
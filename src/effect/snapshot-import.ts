@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import { Result, ok, err } from 'neverthrow';
+import path from 'path';
+import { z } from 'zod';
+import { defineCatalog } from '../common/i18n.js';
+import { DecisionSessionAggregate } from '../domain/command/decision-session.js';
+import { IssueDefinitionAggregate } from '../domain/command/define-issue.js';
+import { OptionSelectionAggregate } from '../domain/command/option-selection.js';
+import { WorkflowStateSchema } from '../domain/term/workflow-state.js';
+import { WidenOptionsSteps, fromWorkflowState } from '../domain/term/widen-options-steps.js';
+import type { DecisionId } from '../domain/term/decision.js';
+import type { OptionId } from '../domain/term/option.js';
+import type { DecisionEvent } from '../domain/command/decision-event.js';
+import { categorizeFileSystemError, fileExists, readJsonFile, type FileSystemError } from './filesystem.js';
+import { appendEvent } from './journal-storage.js';
+import { listDecisionIds, setActiveDecisionId } from './decision-storage.js';
+
+/**
+ * Snapshot Import Effect Layer
+ *
+ * ジャーナルを導入する前は、ひとつの意思決定を issue.json・options.json・workflow-state.json に
+ * 上書き保存していた。意思決定がまだひとつもないときに限り、これらのファイルを新しい意思決定の
+ * ジャーナルへ種イベントとして取り込む。取り込んだファイルは拡張子 .imported を付けて残す。
+ */
+
+export type SnapshotImportError =
+  | { type: 'file_system_error'; error: FileSystemError }
+  | { type: 'invalid_snapshot'; file: string; message: string };
+
+const SNAPSHOT_FILES = {
+  issue: 'issue.json',
+  options: 'options.json',
+  workflowState: 'workflow-state.json'
+} as const;
+
+const IMPORTED_SUFFIX = '.imported';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Stored Schema
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const IssueSnapshotSchema = z.object({
+  issue: z.string(),
+  context: z.string(),
+  constraints: z.string()
+});
+
+const OptionsSnapshotSchema = z.object({
+  options: z.array(z.object({
+    id: z.string(),
+    text: z.string(),
+    supplementaryInfo: z.string().optional()
+  }))
+});
+
+const messages = defineCatalog({
+  ja: {
+    invalidSnapshot: (file: string, message: string) => `以前の形式の ${file} を取り込めません: ${message}`,
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`
+  },
+  en: {
+    invalidSnapshot: (file: string, message: string) => `Cannot import the earlier ${file}: ${message}`,
+    fileSystemError: (message: string) => `File system error: ${message}`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Snapshot Reading
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Read and validate one snapshot file, or null when it does not exist
+ */
+const readSnapshot = async <T>(
+  directory: string,
+  file: string,
+  schema: z.ZodType<T>
+): Promise<Result<T | null, SnapshotImportError>> => {
+  const filePath = path.join(directory, file);
+  if (!(await fileExists(filePath))) {
+    return ok(null);
+  }
+
+  const readResult = await readJsonFile<unknown>(filePath);
+  if (readResult.isErr()) {
+    return err({ type: 'file_system_error', error: readResult.error });
+  }
+
+  const parsed = schema.safeParse(readResult.value);
+  return parsed.success
+    ? ok(parsed.data)
+    : err({ type: 'invalid_snapshot', file, message: parsed.error.message });
+};
+
+type SeedEvents = {
+  readonly decisionId: DecisionId;
+  readonly events: readonly DecisionEvent[];
+};
+
+/**
+ * Turn the snapshots into the events that rebuild the same decision
+ *
+ * The options keep their IDs and move to the widen-options step the stored workflow state names.
+ */
+const toSeedEvents = async (directory: string): Promise<Result<SeedEvents | null, SnapshotImportError>> => {
+  const issueResult = await readSnapshot(directory, SNAPSHOT_FILES.issue, IssueSnapshotSchema);
+  if (issueResult.isErr() || issueResult.value === null) {
+    return issueResult.map(() => null);
+  }
+  const optionsResult = await readSnapshot(directory, SNAPSHOT_FILES.options, OptionsSnapshotSchema);
+  if (optionsResult.isErr()) {
+    return err(optionsResult.error);
+  }
+  const stateResult = await readSnapshot(directory, SNAPSHOT_FILES.workflowState, WorkflowStateSchema);
+  if (stateResult.isErr()) {
+    return err(stateResult.error);
+  }
+
+  const started = DecisionSessionAggregate.startDecision({});
+  if (started.isErr()) {
+    return err({
+      type: 'invalid_snapshot',
+      file: SNAPSHOT_FILES.issue,
+      message: DecisionSessionAggregate.toErrorMessage(started.error)
+    });
+  }
+
+  const issueDefined = IssueDefinitionAggregate.defineIssue(issueResult.value);
+  if (issueDefined.isErr()) {
+    return err({
+      type: 'invalid_snapshot',
+      file: SNAPSHOT_FILES.issue,
+      message: IssueDefinitionAggregate.toErrorMessage(issueDefined.error)
+    });
+  }
+
+  const decisionId = started.value.decisionId;
+  const options = optionsResult.value?.options ?? [];
+  if (options.length === 0) {
+    return ok({ decisionId, events: [started.value, issueDefined.value] });
+  }
+
+  const optionsGenerated = OptionSelectionAggregate.registerOptions({
+    options,
+    widenOptionsStep: (stateResult.value && fromWorkflowState(stateResult.value)) ?? WidenOptionsSteps.initialRegistered(),
+    existingOptionIds: options.map(option => option.id as OptionId)
+  });
+  if (optionsGenerated.isErr()) {
+    return err({
+      type: 'invalid_snapshot',
+      file: SNAPSHOT_FILES.options,
+      message: OptionSelectionAggregate.toErrorMessage(optionsGenerated.error)
+    });
+  }
+
+  return ok({ decisionId, events: [started.value, issueDefined.value, optionsGenerated.value] });
+};
+
+/**
+ * Keep the imported files under another name so they are not imported twice
+ */
+const markImported = async (directory: string): Promise<Result<void, SnapshotImportError>> => {
+  try {
+    for (const file of Object.values(SNAPSHOT_FILES)) {
+      const filePath = path.join(directory, file);
+      if (await fileExists(filePath)) {
+        await fs.rename(filePath, `${filePath}${IMPORTED_SUFFIX}`);
+      }
+    }
+    return ok(undefined);
+  } catch (error) {
+    return err({ type: 'file_system_error', error: categorizeFileSystemError(error as Error, 'write_file') });
+  }
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Public API
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Import the decision saved as snapshot files in the given directory
+ *
+ * Runs only while no decision has a journal yet, and makes the imported decision the active one.
+ * Returns the ID of the imported decision, or null when there was nothing to import.
+ */
+export const importSnapshots = async (directory: string): Promise<Result<DecisionId | null, SnapshotImportError>> => {
+  if (!(await fileExists(path.join(directory, SNAPSHOT_FILES.issue)))) {
+    return ok(null);
+  }
+
+  const decisionsResult = await listDecisionIds();
+  if (decisionsResult.isErr()) {
+    return err({ type: 'file_system_error', error: decisionsResult.error });
+  }
+  if (decisionsResult.value.length > 0) {
+    return ok(null);
+  }
+
+  const seedResult = await toSeedEvents(directory);
+  if (seedResult.isErr() || seedResult.value === null) {
+    return seedResult.map(() => null);
+  }
+  const { decisionId, events } = seedResult.value;
+
+  // 種イベントは以前の状態をそのまま再現するので、遷移チェックをせずに追記する
+  for (const event of events) {
+    const appendResult = await appendEvent(decisionId, event);
+    if (appendResult.isErr()) {
+      return err({ type: 'file_system_error', error: appendResult.error });
+    }
+  }
+
+  const activateResult = await setActiveDecisionId(decisionId);
+  if (activateResult.isErr()) {
+    return err({ type: 'file_system_error', error: activateResult.error });
+  }
+
+  return (await markImported(directory)).map(() => decisionId);
+};
+
+/**
+ * Convert SnapshotImportError to user-friendly message
+ */
+export const formatSnapshotImportError = (error: SnapshotImportError): string => {
+  switch (error.type) {
+    case 'file_system_error':
+      return messages().fileSystemError(error.error.message);
+    case 'invalid_snapshot':
+      return messages().invalidSnapshot(error.file, error.message);
+  }
+};
@@ -0,0 +1,67 @@
+import type { Result } from 'neverthrow';
+import type { DecisionId } from '../domain/term/decision.js';
+import type { FileSystemError } from './filesystem.js';
+import { createFileSystemBackend } from './backend/filesystem.js';
+
+/**
+ * Storage Backend Port
+ *
+ * journal-storage / decision-storage が使う保存先のインターフェース。
+ * バックエンドは生のドキュメントを出し入れするだけで、
+ * バージョン移行・検証・イベントの復元は呼び出し側の storage モジュールが行う。
+ */
+
+export const STORAGE_BACKEND_KINDS = ['filesystem', 'memory', 'sqlite'] as const;
+
+export type StorageBackendKind = typeof STORAGE_BACKEND_KINDS[number];
+
+/**
+ * Storage Backend - 起動時に選んだ保存先
+ *
+ * エラーはどのバックエンドでも FileSystemError で返す（呼び出し側のエラー処理を共通にするため）
+ */
+export type StorageBackend = {
+  readonly kind: StorageBackendKind;
+  /** 人が読むための保存先の説明（ログ用） */
+  readonly location: string;
+
+  /** ジャーナルの全ドキュメントを記録順に返す。まだ何もなければ空配列 */
+  readonly readJournal: (decisionId: DecisionId) => Promise<Result<unknown[], FileSystemError>>;
+  /** ジャーナルの末尾に1ドキュメントを追記する */
+  readonly appendJournal: (decisionId: DecisionId, document: object) => Promise<Result<void, FileSystemError>>;
+  /** ジャーナルの read-modify-write をロックを持って行う。入れ子の呼び出しは同じロックを使う */
+  readonly withJournalLock: <T, E>(
+    decisionId: DecisionId,
+    operation: () => Promise<Result<T, E>>
+  ) => Promise<Result<T, E | FileSystemError>>;
+
+  /** ジャーナルを持つ意思決定のIDをすべて返す */
+  readonly listDecisionIds: () => Promise<Result<string[], FileSystemError>>;
+  readonly decisionExists: (decisionId: DecisionId) => Promise<boolean>;
+
+  /** アクティブな意思決定を指すドキュメント。未設定なら null */
+  readonly readActiveDecision: () => Promise<Result<unknown | null, FileSystemError>>;
+  readonly writeActiveDecision: (document: object) => Promise<Result<void, FileSystemError>>;
+  readonly clearActiveDecision: () => Promise<Result<void, FileSystemError>>;
+
+  /** 接続などを閉じる */
+  readonly close: () => Promise<void>;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Active Backend
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+let activeBackend: StorageBackend = createFileSystemBackend();
+
+/**
+ * Use the given backend for all storage operations (chosen once at startup)
+ */
+export const setStorageBackend = (backend: StorageBackend): void => {
+  activeBackend = backend;
+};
+
+/**
+ * Get the backend in use (the filesystem backend unless another one was set)
+ */
+export const getStorageBackend = (): StorageBackend => activeBackend;
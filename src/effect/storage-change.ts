@@ -0,0 +1,54 @@
+import type { DecisionId } from '../domain/term/decision.js';
+import type { DecisionEvent } from '../domain/command/decision-event.js';
+import type { ActiveDecisionSession } from './decision-storage.js';
+
+/**
+ * Storage Change Effect Layer
+ *
+ * ストレージを書き換えたことを、購読している側（MCP リソースの通知など）に知らせる。
+ * 書き込みの成否には影響せず、購読者がいなければ何もしない。
+ */
+
+/**
+ * Storage Change - 何が書き換わったか
+ *
+ * アクティブな意思決定の切り替えには、切り替えたセッション（ストレージの値なら null）を添える
+ */
+export type StorageChange =
+  | { readonly type: 'journal_appended'; readonly decisionId: DecisionId; readonly event: DecisionEvent }
+  | {
+    readonly type: 'active_decision_changed';
+    readonly decisionId: DecisionId | null;
+    readonly session: ActiveDecisionSession | null;
+  };
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+const listeners = new Set<StorageChangeListener>();
+
+/**
+ * Subscribe to storage changes
+ *
+ * @returns A function that removes the listener
+ */
+export const onStorageChange = (listener: StorageChangeListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Notify every listener of a storage change
+ *
+ * A failing listener must not break the write that triggered it.
+ */
+export const notifyStorageChange = (change: StorageChange): void => {
+  listeners.forEach(listener => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('Storage change listener failed:', error);
+    }
+  });
+};
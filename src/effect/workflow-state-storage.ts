@@ -1,17 +1,15 @@
 import { Result, ok, err } from 'neverthrow';
-import path from 'path';
-import { 
-  WorkflowState, 
-  WorkflowStateSchema, 
-  isValidTransition 
+import {
+  WorkflowState,
+  isValidTransition,
+  getDisplayName
 } from '../domain/term/workflow-state.js';
-import { 
-  getDataDirectory, 
-  saveJsonFile, 
-  readJsonFile, 
-  fileExists, 
-  FileSystemError 
-} from './filesystem.js';
+import { defineCatalog } from '../common/i18n.js';
+import type { DecisionId } from '../domain/term/decision.js';
+import type { DecisionEvent } from '../domain/command/decision-event.js';
+import { evolveWorkflowState, projectWorkflowStateFromEvents } from '../domain/read/workflow-state/index.js';
+import { FileSystemError } from './filesystem.js';
+import { loadEvents, appendEvent, withJournalLock } from './journal-storage.js';
 
 /**
  * ワークフロー状態の永続化エラー
@@ -22,56 +20,101 @@ export type WorkflowStateStorageError =
   | { type: 'invalid_transition'; from: WorkflowState; to: WorkflowState };
 
 /**
- * ワークフロー状態ファイルのパスを取得
+ * 現在のワークフロー状態を取得（ジャーナルを射影）
  */
-const getWorkflowStateFilePath = (): string => {
-  return path.join(getDataDirectory(), 'workflow-state.json');
+export const getCurrentState = async (
+  decisionId: DecisionId
+): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
+  const eventsResult = await loadEvents(decisionId);
+
+  if (eventsResult.isErr()) {
+    const fsError = eventsResult.error;
+    // 解析・移行・検証できない行はデータ破損として扱う
+    if (fsError.type === 'data_corruption') {
+      return err({ type: 'parse_error', message: fsError.originalError.message });
+    }
+    return err({ type: 'file_system_error', error: fsError });
+  }
+
+  return ok(projectWorkflowStateFromEvents(eventsResult.value));
 };
 
 /**
- * 現在のワークフロー状態を取得
+ * 現在の状態から決めたイベントを記録するときのエラー
+ *
+ * command_rejected: decide がイベントを作れなかった（何も追記していない）
  */
-export const getCurrentState = async (): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
-  const filePath = getWorkflowStateFilePath();
-  
-  // ファイルが存在しない場合は初期状態を返す
-  if (!(await fileExists(filePath))) {
-    return ok(WorkflowState.undefined());
-  }
-  
-  const result = await readJsonFile<WorkflowState>(filePath);
-  
-  if (result.isErr()) {
-    return err({ type: 'file_system_error', error: result.error });
-  }
-  
-  // Zodでバリデーション
-  const validation = WorkflowStateSchema.safeParse(result.value);
-  
-  if (!validation.success) {
-    return err({ 
-      type: 'parse_error', 
-      message: validation.error.message 
-    });
-  }
-  
-  return ok(validation.data);
+export type RecordEventWithError<E> =
+  | WorkflowStateStorageError
+  | { type: 'command_rejected'; reason: E };
+
+/**
+ * イベントをジャーナルに記録（遷移ルールをチェック）
+ *
+ * イベント適用後の状態が現在の状態から遷移可能な場合のみ追記し、遷移後の状態を返す。
+ * 遷移チェックと追記の間に他の書き込みが割り込まないよう、ジャーナルのロックを持って行う
+ */
+export const recordEvent = async (
+  decisionId: DecisionId,
+  event: DecisionEvent
+): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
+  const result = await withJournalLock(decisionId, () => checkAndAppendEvent(decisionId, event));
+  return result.mapErr(fromLockError);
 };
 
 /**
- * ワークフロー状態を更新（遷移ルールをチェック）
+ * 現在の状態を読んでイベントを決め、ジャーナルに記録する
+ *
+ * 状態や読みモデルを読んでコマンドを実行し、追記するまでをひとつのロックの中で行うため、
+ * 読んだ内容が追記までに他の書き込みで古くなることはない。decide の中で読むものも同じロックの中で読む
  */
-export const updateState = async (
-  newState: WorkflowState
+export const recordEventWith = async <Decision extends { readonly event: DecisionEvent }, E>(
+  decisionId: DecisionId,
+  decide: (currentState: WorkflowState) => Promise<Result<Decision, E>>
+): Promise<Result<Decision, RecordEventWithError<E>>> => {
+  const result = await withJournalLock(decisionId, async (): Promise<Result<Decision, RecordEventWithError<E>>> => {
+    const currentStateResult = await getCurrentState(decisionId);
+    if (currentStateResult.isErr()) {
+      return err(currentStateResult.error);
+    }
+
+    const decision = await decide(currentStateResult.value);
+    if (decision.isErr()) {
+      return err({ type: 'command_rejected', reason: decision.error });
+    }
+
+    const appendResult = await checkAndAppend(decisionId, currentStateResult.value, decision.value.event);
+    return appendResult.map(() => decision.value);
+  });
+  return result.mapErr(fromLockError);
+};
+
+// ロックを取れなかった場合は FileSystemError（lock_contention など）が返る
+const fromLockError = <E>(error: E | FileSystemError): E | WorkflowStateStorageError =>
+  typeof error === 'object' && error !== null && 'originalError' in error
+    ? { type: 'file_system_error', error: error as FileSystemError }
+    : error as E;
+
+const checkAndAppendEvent = async (
+  decisionId: DecisionId,
+  event: DecisionEvent
 ): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
-  const currentStateResult = await getCurrentState();
-  
+  const currentStateResult = await getCurrentState(decisionId);
+
   if (currentStateResult.isErr()) {
     return err(currentStateResult.error);
   }
-  
-  const currentState = currentStateResult.value;
-  
+
+  return checkAndAppend(decisionId, currentStateResult.value, event);
+};
+
+const checkAndAppend = async (
+  decisionId: DecisionId,
+  currentState: WorkflowState,
+  event: DecisionEvent
+): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
+  const newState = evolveWorkflowState(currentState, event);
+
   // 遷移ルールをチェック
   if (!isValidTransition(currentState, newState)) {
     return err({
@@ -80,31 +123,45 @@ export const updateState = async (
       to: newState
     });
   }
-  
-  return saveState(newState);
+
+  const appendResult = await appendEvent(decisionId, event);
+
+  if (appendResult.isErr()) {
+    return err({ type: 'file_system_error', error: appendResult.error });
+  }
+
+  return ok(newState);
 };
 
+const messages = defineCatalog({
+  ja: {
+    invalidTransition: (from: string, to: string) => `状態遷移エラー: ${from} から ${to} への遷移は無効です`,
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+    parseError: (message: string) => `データ解析エラー: ${message}`
+  },
+  en: {
+    invalidTransition: (from: string, to: string) => `Invalid state transition: cannot move from ${from} to ${to}`,
+    fileSystemError: (message: string) => `File system error: ${message}`,
+    parseError: (message: string) => `Data parse error: ${message}`
+  }
+});
+
 /**
- * ワークフロー状態を強制的に設定（遷移ルールを無視）
+ * Convert WorkflowStateStorageError to user-friendly message
  */
-export const forceSetState = async (
-  state: WorkflowState
-): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
-  return saveState(state);
+export const formatWorkflowStateStorageError = (error: WorkflowStateStorageError): string => {
+  switch (error.type) {
+    case 'invalid_transition':
+      return messages().invalidTransition(getDisplayName(error.from), getDisplayName(error.to));
+    case 'file_system_error':
+      return messages().fileSystemError(error.error.message);
+    case 'parse_error':
+      return messages().parseError(error.message);
+  }
 };
 
 /**
- * 状態をファイルに保存
+ * Convert RecordEventWithError to user-friendly message (decide rejects with a message)
  */
-const saveState = async (
-  state: WorkflowState
-): Promise<Result<WorkflowState, WorkflowStateStorageError>> => {
-  const filePath = getWorkflowStateFilePath();
-  const result = await saveJsonFile(filePath, state);
-  
-  if (result.isErr()) {
-    return err({ type: 'file_system_error', error: result.error });
-  }
-  
-  return ok(state);
-};
\ No newline at end of file
+export const formatRecordEventWithError = (error: RecordEventWithError<string>): string =>
+  error.type === 'command_rejected' ? error.reason : formatWorkflowStateStorageError(error);
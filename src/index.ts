@@ -1,15 +1,80 @@
 #!/usr/bin/env node
+import path from 'path';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './mcp/Server.js';
+import { parseTransportOptions, formatTransportOptionsError } from './mcp/transport/options.js';
+import { startHttpTransport } from './mcp/transport/http.js';
+import { loadConfig, applyConfig, formatConfigError } from './effect/config.js';
+import { fileExists, getLegacyDataDirectory } from './effect/filesystem.js';
+import { setStorageBackend } from './effect/storage-backend.js';
+import { createStorageBackend } from './effect/backend/index.js';
+import { importSnapshots, formatSnapshotImportError } from './effect/snapshot-import.js';
 
 async function main() {
-  const server = createServer();
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('MCP server started');
+  const argv = process.argv.slice(2);
+
+  const configResult = await loadConfig({ argv, env: process.env, cwd: process.cwd() });
+  if (configResult.isErr()) {
+    console.error(formatConfigError(configResult.error));
+    process.exit(1);
+  }
+  const config = configResult.value;
+  applyConfig(config);
+  console.error(`Data directory: ${config.dataDirectory} (${config.dataDirectorySource})`);
+
+  const backendResult = await createStorageBackend(config.storage, config.dataDirectory);
+  if (backendResult.isErr()) {
+    console.error(backendResult.error.message);
+    process.exit(1);
+  }
+  const backend = backendResult.value;
+  setStorageBackend(backend);
+  console.error(`Storage: ${backend.kind} (${backend.location})`);
+
+  // Decisions used to be stored under the OS temp directory. The snapshot files of the first
+  // versions there or in the data directory become the first decision
+  const legacyDirectory = getLegacyDataDirectory();
+  for (const directory of new Set([config.dataDirectory, legacyDirectory])) {
+    const importResult = await importSnapshots(directory);
+    if (importResult.isErr()) {
+      console.error(formatSnapshotImportError(importResult.error));
+    } else if (importResult.value) {
+      console.error(`Imported the earlier decision in ${directory} as ${importResult.value}`);
+    }
+  }
+
+  // Journals written there by later versions are left to the user
+  if (await fileExists(path.join(legacyDirectory, 'decisions')) &&
+      !(await fileExists(path.join(config.dataDirectory, 'decisions')))) {
+    console.error(`Earlier decisions were found in ${legacyDirectory}. Copy them into the data directory to keep using them.`);
+  }
+
+  const optionsResult = parseTransportOptions(argv, process.env, config.file);
+  if (optionsResult.isErr()) {
+    console.error(formatTransportOptionsError(optionsResult.error));
+    process.exit(1);
+  }
+  const options = optionsResult.value;
+
+  if (options.type === 'stdio') {
+    const server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error('MCP server started');
+    return;
+  }
+
+  const handle = await startHttpTransport(options);
+  console.error(`MCP server started on ${handle.url}`);
+
+  const shutdown = () => {
+    handle.close().then(() => backend.close()).finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
 main().catch((error) => {
   console.error('Server error:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
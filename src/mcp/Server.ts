@@ -1,55 +1,191 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { defineIssueTool } from './tool/define-issue/index.js';
+import { McpServer, ResourceTemplate, type ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z, type ZodRawShape } from 'zod';
+import { createDefineIssueTool } from './tool/define-issue/index.js';
 import { getCurrentStatusTool } from './tool/get-current-status/index.js';
 import { createRegisterOptionsTool } from './tool/resister-options/index.js';
 import { createMakeTripwireTool } from './tool/make-tripwire/index.js';
+import { createCheckConstraintsTool } from './tool/check-constraints/index.js';
+import { createChallengeOptionTool } from './tool/challenge-option/index.js';
+import { submitTripwiresTool } from './tool/submit-tripwires/index.js';
+import { submitConstraintChecksTool } from './tool/submit-constraint-checks/index.js';
+import { submitCounterpointsTool } from './tool/submit-counterpoints/index.js';
+import { addressCounterpointTool } from './tool/address-counterpoint/index.js';
 import { resetTool } from './tool/reset/index.js';
+import { listDecisionsTool } from './tool/list-decisions/index.js';
+import { switchDecisionTool } from './tool/switch-decision/index.js';
+import { registerAssumptionsTool } from './tool/register-assumptions/index.js';
+import { recordAssumptionTestResultTool } from './tool/record-assumption-test-result/index.js';
+import { recordDistanceEvaluationTool } from './tool/record-distance-evaluation/index.js';
+import { updateTripwireTool } from './tool/update-tripwire/index.js';
+import { removeTripwireTool } from './tool/remove-tripwire/index.js';
+import { evaluateTripwiresTool } from './tool/evaluate-tripwires/index.js';
+import { makeDecisionTool } from './tool/make-decision/index.js';
+import { startDecisionReviewTool } from './tool/start-decision-review/index.js';
+import { scoreOptionsTool } from './tool/score-options/index.js';
+import { exportDecisionTool } from './tool/export-decision/index.js';
+import { undoTool } from './tool/undo/index.js';
+import { redoTool } from './tool/redo/index.js';
+import { getUndoStackTool } from './tool/get-undo-stack/index.js';
+import { getOptionHistoryTool } from './tool/get-option-history/index.js';
+import { createAddOptionTool } from './tool/add-option/index.js';
+import { createUpdateOptionTool } from './tool/update-option/index.js';
+import { createRemoveOptionTool } from './tool/remove-option/index.js';
 import { identifyIssuePrompt } from './prompt/identify-issue/index.js';
 import { widenOptionsPrompt } from './prompt/widen-options/index.js';
+import { attainDistancePrompt } from './prompt/attain-distance/index.js';
+import { currentIssueResource, currentOptionsResource, currentWorkflowResource } from './resource/current-decision/index.js';
+import { decisionResource } from './resource/decision/index.js';
+import { decisionRecordMarkdownResource, decisionRecordJsonResource } from './resource/decision-record/index.js';
+import { enableResourceNotifications } from './resource/notification.js';
+import { reportClientSupport, inClientLocale, onClientLocale } from './client-capabilities.js';
+import { DomainPolicy } from '../domain/term/domain-policy.js';
+import { ActiveDecisionSession } from '../effect/decision-storage.js';
 
-export function createServer(): McpServer {
+export type CreateServerOptions = {
+  /**
+   * このサーバーのアクティブな意思決定（省略時はストレージに保存したものを使う）
+   */
+  readonly session?: ActiveDecisionSession;
+};
+
+export function createServer(options: CreateServerOptions = {}): McpServer {
   const server = new McpServer({
     name: 'mcp-decisive',
     version: '0.0.2',
     description: 'MCP server for WRAP decision-making framework',
   });
 
+  // ハンドラーはクライアントのロケールと、このサーバーのアクティブな意思決定で動かす
+  const inSession = <Args extends unknown[], R>(handler: (...args: Args) => R) => (...args: Args): R =>
+    ActiveDecisionSession.runWith(options.session, () => handler(...args));
+
+  // 文字数の上限や選択肢の数を含むツールのスキーマは、設定したポリシーから作る
+  const policy = DomainPolicy.current();
+
   const tools = [
-    defineIssueTool,
+    createDefineIssueTool(policy),
     getCurrentStatusTool,
-    createRegisterOptionsTool(server),
+    createRegisterOptionsTool(server, policy),
     createMakeTripwireTool(server),
-    resetTool
+    createCheckConstraintsTool(server),
+    createChallengeOptionTool(server),
+    submitTripwiresTool,
+    submitConstraintChecksTool,
+    submitCounterpointsTool,
+    addressCounterpointTool,
+    resetTool,
+    listDecisionsTool,
+    switchDecisionTool,
+    registerAssumptionsTool,
+    recordAssumptionTestResultTool,
+    recordDistanceEvaluationTool,
+    updateTripwireTool,
+    removeTripwireTool,
+    evaluateTripwiresTool,
+    makeDecisionTool,
+    startDecisionReviewTool,
+    scoreOptionsTool,
+    exportDecisionTool,
+    undoTool,
+    redoTool,
+    getUndoStackTool,
+    getOptionHistoryTool,
+    createAddOptionTool(policy),
+    createUpdateOptionTool(policy),
+    createRemoveOptionTool(policy)
   ];
 
-  tools.forEach(tool => {
-    server.registerTool(
-      tool.name,
-      {
-        title: tool.title,
-        description: tool.description,
-        inputSchema: tool.parameters,
-        outputSchema: tool.outputSchema.shape,
-      },
-      tool.handler
-    );
+  const registeredTools = tools.map(tool => {
+    // 引数の型はツールごとに違うので、SDK が検証済みの引数を渡すコールバックとして扱う
+    const handler = tool.handler as ToolCallback<ZodRawShape>;
+    return {
+      tool,
+      registered: server.registerTool(
+        tool.name,
+        {
+          title: tool.title,
+          description: tool.description,
+          inputSchema: tool.parameters,
+          outputSchema: tool.outputSchema.shape,
+        },
+        inSession(inClientLocale(server, handler))
+      )
+    };
   });
 
   const prompts = [
     identifyIssuePrompt,
-    widenOptionsPrompt
+    widenOptionsPrompt,
+    attainDistancePrompt
   ];
 
-  prompts.forEach(prompt => {
-    server.registerPrompt(
+  const registeredPrompts = prompts.map(prompt => ({
+    prompt,
+    registered: server.registerPrompt(
       prompt.name,
       {
         description: prompt.description,
         argsSchema: prompt.parameters,
       },
-      prompt.handler
+      inSession(inClientLocale(server, prompt.handler))
+    )
+  }));
+
+  // 説明文とスキーマはクライアントのロケールで作り直す（一覧の変更通知は送らない）
+  onClientLocale(server, () => {
+    registeredTools.forEach(({ tool, registered }) => {
+      registered.description = tool.description;
+      registered.inputSchema = z.object(tool.parameters);
+      registered.outputSchema = tool.outputSchema;
+    });
+    registeredPrompts.forEach(({ prompt, registered }) => {
+      registered.description = prompt.description;
+      registered.argsSchema = z.object<Record<string, z.ZodOptional<z.ZodString>>>(prompt.parameters);
+    });
+  });
+
+  const resources = [
+    currentIssueResource,
+    currentOptionsResource,
+    currentWorkflowResource
+  ];
+
+  resources.forEach(resource => {
+    server.registerResource(
+      resource.name,
+      resource.uri,
+      {
+        title: resource.title,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      },
+      inSession(inClientLocale(server, resource.handler))
     );
   });
 
+  const resourceTemplates = [
+    decisionResource,
+    decisionRecordMarkdownResource,
+    decisionRecordJsonResource
+  ];
+
+  resourceTemplates.forEach(resource => {
+    server.registerResource(
+      resource.name,
+      new ResourceTemplate(resource.uriTemplate, { list: resource.list }),
+      {
+        title: resource.title,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      },
+      inSession(inClientLocale(server, resource.handler))
+    );
+  });
+
+  enableResourceNotifications(server, options.session);
+
+  // サンプリング・対話入力の有無は、クライアントが initialize で宣言した機能で決まる
+  reportClientSupport(server);
+
   return server;
 }
\ No newline at end of file
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { toClientSupport } from './client-capabilities.js';
+import { createServer } from './Server.js';
+import { DecisionId } from '../domain/term/decision.js';
+import { loadRecordedEvents } from '../effect/journal-storage.js';
+import { setStorageBackend } from '../effect/storage-backend.js';
+import { createMemoryBackend, createFileSystemBackend } from '../effect/backend/index.js';
+
+describe('toClientSupport', () => {
+  it('宣言された機能だけを使えるものとして扱う', () => {
+    expect(toClientSupport({ sampling: {} })).toEqual({ sampling: true, elicitation: false });
+    expect(toClientSupport({ elicitation: {} })).toEqual({ sampling: false, elicitation: true });
+  });
+
+  it('initialize 前は何も使えないものとして扱う', () => {
+    expect(toClientSupport(undefined)).toEqual({ sampling: false, elicitation: false });
+  });
+});
+
+describe('onClientLocale', () => {
+  const clients: Client[] = [];
+
+  const connect = async (locale?: string): Promise<Client> => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client(
+      { name: 'locale-test-client', version: '1.0.0' },
+      { capabilities: locale ? { experimental: { locale } } : {} }
+    );
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+    clients.push(client);
+    return client;
+  };
+
+  const defineIssueOf = async (client: Client) =>
+    (await client.listTools()).tools.find(tool => tool.name === 'define_issue');
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+  });
+
+  it('ツールの説明とスキーマをクライアントが宣言したロケールで返す', async () => {
+    // When
+    const client = await connect('en');
+    const defineIssue = await defineIssueOf(client);
+    const prompt = (await client.listPrompts()).prompts.find(p => p.name === 'identify-the-issue');
+
+    // Then
+    expect(defineIssue?.description).toMatch(/^Supports the issue-definition stage/);
+    expect(JSON.stringify(defineIssue?.inputSchema)).toContain('The issue that needs a decision');
+    expect(prompt?.arguments?.[0].description).toBe('Problem description provided by the user');
+  });
+
+  it('ロケールを宣言しないクライアントには既定のロケールで返す', async () => {
+    // When
+    const defineIssue = await defineIssueOf(await connect());
+
+    // Then
+    expect(defineIssue?.description).toMatch(/^WRAP意思決定フレームワーク/);
+    expect(JSON.stringify(defineIssue?.inputSchema)).toContain('意思決定が必要な課題');
+  });
+});
+
+describe('サンプリングと対話入力に対応していないクライアント', () => {
+  let client: Client;
+
+  type StructuredResult<T> = CallToolResult & { structuredContent: T };
+  type RegisteredOption = { id: string; text: string };
+  type AgentRequestResult = {
+    agentRequest?: { submitTool: string };
+    metadata: { saved: boolean; source: string };
+  };
+
+  const callTool = async <T>(name: string, args: Record<string, unknown>): Promise<StructuredResult<T>> =>
+    await client.callTool({ name, arguments: args }) as StructuredResult<T>;
+
+  const textOf = (result: CallToolResult): string =>
+    result.content.map(content => content.type === 'text' ? content.text : '').join('\n');
+
+  const recordedEventTypes = async (decisionId: string): Promise<string[]> =>
+    (await loadRecordedEvents(DecisionId.fromString(decisionId)._unsafeUnwrap()))._unsafeUnwrap().map(event => event.type);
+
+  const defineIssue = async () => (await callTool<{
+    decisionId: string;
+    constraintItems: { id: string }[];
+  }>('define_issue', {
+    issue: 'サーバーを移行するか',
+    context: 'サーバーの更新時期が近い',
+    constraints: '今期の予算内',
+    constraintItems: [{ kind: 'hard', text: '今期の予算内' }]
+  })).structuredContent;
+
+  const registerOptions = async (texts: string[]) =>
+    await callTool<{ options: RegisteredOption[] }>('register_options', {
+      options: texts,
+      widenOptionsStep: { type: 'initial_registered' }
+    });
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'fallback-test-client', version: '1.0.0' });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setStorageBackend(createFileSystemBackend());
+  });
+
+  describe('2段階モード', () => {
+    let decisionId: string;
+    let constraintId: string;
+    let options: RegisteredOption[];
+
+    beforeEach(async () => {
+      const issue = await defineIssue();
+      decisionId = issue.decisionId;
+      constraintId = issue.constraintItems[0].id;
+      options = (await registerOptions(['オンプレに残す', 'クラウドへ移す', 'ハイブリッドにする'])).structuredContent.options;
+    });
+
+    it('make-tripwire は submit-tripwires への依頼を返し、送られた撤退基準を保存する', async () => {
+      // When
+      const requested = await callTool<AgentRequestResult>('make-tripwire', {
+        options: options.map(option => ({ id: option.id, name: option.text, description: option.text }))
+      });
+
+      // Then
+      expect(requested.isError).toBe(false);
+      expect(requested.structuredContent.agentRequest?.submitTool).toBe('submit-tripwires');
+      expect(requested.structuredContent.metadata).toMatchObject({ saved: false, source: 'agent' });
+      expect(await recordedEventTypes(decisionId)).not.toContain('TripwiresSet');
+
+      // When
+      const submitted = await callTool<AgentRequestResult>('submit-tripwires', {
+        tripwires: options.map(option => ({
+          optionId: option.id,
+          criteria: [{ description: '移行費用が予算を超える', type: 'cost', threshold: '予算の120%', severity: 'high' }]
+        }))
+      });
+
+      // Then
+      expect(submitted.isError).toBe(false);
+      expect(submitted.structuredContent.metadata).toMatchObject({ saved: true, source: 'agent' });
+      expect(await recordedEventTypes(decisionId)).toContain('TripwiresSet');
+    });
+
+    it('check-constraints は submit-constraint-checks への依頼を返し、送られた判定を保存する', async () => {
+      // When
+      const requested = await callTool<AgentRequestResult>('check-constraints', {});
+
+      // Then
+      expect(requested.isError).toBe(false);
+      expect(requested.structuredContent.agentRequest?.submitTool).toBe('submit-constraint-checks');
+      expect(requested.structuredContent.metadata).toMatchObject({ saved: false, source: 'agent' });
+      expect(await recordedEventTypes(decisionId)).not.toContain('ConstraintsChecked');
+
+      // When
+      const submitted = await callTool<AgentRequestResult>('submit-constraint-checks', {
+        checks: options.map(option => ({
+          optionId: option.id,
+          constraintId,
+          verdict: 'satisfied',
+          reasoning: '見積もりが予算内に収まる'
+        }))
+      });
+
+      // Then
+      expect(submitted.isError).toBe(false);
+      expect(submitted.structuredContent.metadata).toMatchObject({ saved: true, source: 'agent' });
+      expect(await recordedEventTypes(decisionId)).toContain('ConstraintsChecked');
+    });
+
+    it('challenge-option は submit-counterpoints への依頼を返し、送られた反論を保存する', async () => {
+      // Given
+      const target = options[1];
+
+      // When
+      const requested = await callTool<AgentRequestResult>('challenge-option', { optionId: target.id });
+
+      // Then
+      expect(requested.isError).toBe(false);
+      expect(requested.structuredContent.agentRequest?.submitTool).toBe('submit-counterpoints');
+      expect(requested.structuredContent.metadata).toMatchObject({ saved: false, source: 'agent' });
+      expect(await recordedEventTypes(decisionId)).not.toContain('OptionChallenged');
+
+      // When
+      const submitted = await callTool<AgentRequestResult & { optionId: string }>('submit-counterpoints', {
+        optionId: target.id,
+        strongestCase: '運用の手間が減る',
+        disconfirmingEvidence: ['データの転送費用が想定より高い']
+      });
+
+      // Then
+      expect(submitted.isError).toBe(false);
+      expect(submitted.structuredContent.optionId).toBe(target.id);
+      expect(submitted.structuredContent.metadata).toMatchObject({ saved: true, source: 'agent' });
+      expect(await recordedEventTypes(decisionId)).toContain('OptionChallenged');
+    });
+
+    it('依頼に合わない回答は保存しない', async () => {
+      // When
+      const submitted = await callTool<AgentRequestResult>('submit-constraint-checks', {
+        checks: [{ optionId: options[0].id, constraintId, verdict: 'satisfied', reasoning: '見積もりが予算内に収まる' }]
+      });
+
+      // Then
+      expect(submitted.isError).toBe(true);
+      expect(await recordedEventTypes(decisionId)).not.toContain('ConstraintsChecked');
+    });
+  });
+
+  describe('エージェントによる候補の絞り込み', () => {
+    it('上限を超える候補は登録せず、エージェントに絞り込みを依頼する', async () => {
+      // Given
+      const { decisionId } = await defineIssue();
+      const candidates = ['案A', '案B', '案C', '案D', '案E', '案F', '案G'];
+
+      // When
+      const result = await registerOptions(candidates);
+
+      // Then
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('2件落とし');
+      expect(textOf(result)).toContain('案G');
+      expect(await recordedEventTypes(decisionId)).not.toContain('OptionsGenerated');
+    });
+
+    it('絞り込んだ候補で呼び直すと登録する', async () => {
+      // Given
+      const { decisionId } = await defineIssue();
+      await registerOptions(['案A', '案B', '案C', '案D', '案E', '案F', '案G']);
+
+      // When
+      const result = await registerOptions(['案A', '案B', '案C', '案D', '案E']);
+
+      // Then
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent.options).toHaveLength(5);
+      expect(await recordedEventTypes(decisionId)).toContain('OptionsGenerated');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { I18n, type Locale } from '../common/i18n.js';
+
+/**
+ * Client Capability Negotiation
+ *
+ * クライアントが initialize で宣言した機能から、サーバー側から要求を送るツールの動き方を決める。
+ * サンプリングに対応していなければ、サンプリングツールはプロンプトをエージェントに返して
+ * 後続のツールで回答を受け取る2段階の動きになり、対話入力（elicitation）に対応していなければ
+ * 選択肢の間引きをエージェントに任せる。
+ * クライアントは experimental.locale でメッセージのロケールを宣言できる（設定で決めたロケールが優先）。
+ */
+
+export type ClientSupport = {
+  readonly sampling: boolean;
+  readonly elicitation: boolean;
+};
+
+export const toClientSupport = (capabilities: ClientCapabilities | undefined): ClientSupport => ({
+  sampling: capabilities?.sampling !== undefined,
+  elicitation: capabilities?.elicitation !== undefined
+});
+
+/**
+ * The support the connected client declared at initialize
+ *
+ * Before initialize no capability is known, so everything is treated as unsupported.
+ */
+export const getClientSupport = (server: McpServer): ClientSupport =>
+  toClientSupport(server.server.getClientCapabilities());
+
+/**
+ * The locale the client declared in experimental.locale, if it is supported
+ */
+export const getClientLocale = (server: McpServer): Locale | undefined => {
+  const declared = server.server.getClientCapabilities()?.experimental?.locale;
+  return typeof declared === 'string' ? I18n.parse(declared) : undefined;
+};
+
+/**
+ * Wrap a handler so its messages are written in the locale the client declared
+ */
+export const inClientLocale = <Args extends unknown[], R>(server: McpServer, handler: (...args: Args) => R) =>
+  (...args: Args): R => I18n.runWith(getClientLocale(server), () => handler(...args));
+
+const describeClientSupport = (support: ClientSupport): string => [
+  `sampling: ${support.sampling ? 'client' : 'two-step (agent answers and submits)'}`,
+  `elicitation: ${support.elicitation ? 'client' : 'agent-driven pruning'}`
+].join(', ');
+
+/**
+ * Report the negotiated modes once the client has initialized
+ */
+export const reportClientSupport = (server: McpServer): void => {
+  const previousOnInitialized = server.server.oninitialized;
+  server.server.oninitialized = () => {
+    const clientName = server.server.getClientVersion()?.name ?? 'unknown client';
+    const locale = I18n.runWith(getClientLocale(server), I18n.current);
+    console.error(`Client capabilities (${clientName}): ${describeClientSupport(getClientSupport(server))}, locale: ${locale}`);
+    previousOnInitialized?.();
+  };
+};
+
+/**
+ * Run a callback in the client's locale once the client has initialized
+ *
+ * The tool and prompt definitions are built before the client is known, so they are rebuilt here.
+ */
+export const onClientLocale = (server: McpServer, apply: () => void): void => {
+  const previousOnInitialized = server.server.oninitialized;
+  server.server.oninitialized = () => {
+    I18n.runWith(getClientLocale(server), apply);
+    previousOnInitialized?.();
+  };
+};
@@ -0,0 +1,18 @@
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { AttainDistancePromptParams } from './schema.js';
+import { prompts } from './prompt.js';
+
+export const attainDistancePromptHandler = async (args: AttainDistancePromptParams): Promise<GetPromptResult> => {
+  return {
+    description: "A prompt to guide users through the Attain Distance phase of the WRAP process",
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: prompts().instructions
+        }
+      }
+    ]
+  };
+};
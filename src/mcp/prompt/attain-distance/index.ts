@@ -0,0 +1,12 @@
+import { attainDistancePromptParams } from './schema.js';
+import { attainDistancePromptHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const attainDistancePrompt = {
+  name: 'attain-distance',
+  get description() {
+    return prompts().description;
+  },
+  parameters: attainDistancePromptParams,
+  handler: attainDistancePromptHandler
+};
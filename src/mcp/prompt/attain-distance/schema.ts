@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+// Input schema for the attain-distance prompt (no parameters needed)
+export const attainDistancePromptSchema = z.object({});
+
+export type AttainDistancePromptParams = z.infer<typeof attainDistancePromptSchema>;
+export const attainDistancePromptParams = attainDistancePromptSchema.shape;
@@ -1,6 +1,6 @@
 import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
 import { IdentifyIssuePromptParams } from './schema.js';
-import { IDENTIFY_ISSUE_PROMPT } from './prompt.js';
+import { IDENTIFY_ISSUE_PROMPT, localizedInstructions } from './prompt.js';
 
 // Simple template replacement function for Handlebars-like syntax
 const processTemplate = (template: string, variables: Record<string, any>): string => {
@@ -21,7 +21,8 @@ const processTemplate = (template: string, variables: Record<string, any>): stri
 
 export const identifyIssuePromptHandler = async (args: IdentifyIssuePromptParams): Promise<GetPromptResult> => {
   const processedPrompt = processTemplate(IDENTIFY_ISSUE_PROMPT, {
-    problem: args.problem
+    problem: args.problem,
+    ...localizedInstructions()
   });
 
   return {
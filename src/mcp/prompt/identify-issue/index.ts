@@ -1,9 +1,14 @@
-import { identifyIssuePromptParams } from './schema.js';
+import { createIdentifyIssuePromptSchema } from './schema.js';
 import { identifyIssuePromptHandler } from './handler.js';
+import { descriptions } from './prompt.js';
 
 export const identifyIssuePrompt = {
   name: 'identify-the-issue',
-  description: 'A prompt to help identify and define core issues through iterative dialogue as a problem definition expert',
-  parameters: identifyIssuePromptParams,
+  get description() {
+    return descriptions().prompt;
+  },
+  get parameters() {
+    return createIdentifyIssuePromptSchema().shape;
+  },
   handler: identifyIssuePromptHandler
-};
\ No newline at end of file
+};
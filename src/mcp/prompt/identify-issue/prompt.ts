@@ -1,3 +1,5 @@
+import { defineCatalog } from '../../../common/i18n.js';
+
 export const IDENTIFY_ISSUE_PROMPT = `
 An "issue" is a decision point where multiple options exist and a choice must be made. 
 Your job is to clarify these decision points, not to play detective about hidden problems.
@@ -28,7 +30,31 @@ Through iterative dialogue, you must crystallize the issue into these three esse
 - **Constraints**: What they can't or won't change (often the key)
 
 This is your deliverable. Everything else is just the path to get there.
-**上記の３要素を聞き出せたら、tool"define_issue"を使用し、課題を登録します。これを忘れないこと**
-
-Please respond to users in Japanese (no language restrictions for thinking or searching).
-`;
\ No newline at end of file
+{{registerIssue}}
+
+{{responseLanguage}}
+`;
+
+// The instructions that depend on the language the user is answered in
+export const localizedInstructions = defineCatalog({
+  ja: {
+    registerIssue: '**上記の３要素を聞き出せたら、tool"define_issue"を使用し、課題を登録します。これを忘れないこと**',
+    responseLanguage: 'Please respond to users in Japanese (no language restrictions for thinking or searching).'
+  },
+  en: {
+    registerIssue: '**Once you have drawn out the three components above, register the issue with the tool "define_issue". Do not forget this.**',
+    responseLanguage: 'Please respond to users in English (no language restrictions for thinking or searching).'
+  }
+});
+
+// The description of the prompt and its arguments
+export const descriptions = defineCatalog({
+  ja: {
+    prompt: '問題定義の専門家として、対話を重ねながら核となる課題を特定・定義するのを手伝うプロンプト',
+    problem: 'ユーザーが示した問題の説明'
+  },
+  en: {
+    prompt: 'A prompt to help identify and define core issues through iterative dialogue as a problem definition expert',
+    problem: 'Problem description provided by the user'
+  }
+});
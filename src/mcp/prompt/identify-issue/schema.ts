@@ -1,9 +1,9 @@
 import { z } from 'zod';
+import { descriptions } from './prompt.js';
 
 // Input schema for the prompt with optional problem parameter
-export const identifyIssuePromptSchema = z.object({
-  problem: z.string().optional().describe("Problem description provided by the user")
+export const createIdentifyIssuePromptSchema = () => z.object({
+  problem: z.string().optional().describe(descriptions().problem)
 });
 
-export type IdentifyIssuePromptParams = z.infer<typeof identifyIssuePromptSchema>;
-export const identifyIssuePromptParams = identifyIssuePromptSchema.shape;
\ No newline at end of file
+export type IdentifyIssuePromptParams = z.infer<ReturnType<typeof createIdentifyIssuePromptSchema>>;
@@ -1,6 +1,6 @@
 import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
 import { WidenOptionsPromptParams } from './schema.js';
-import { WIDEN_OPTIONS_PROMPT } from './prompt.js';
+import { prompts } from './prompt.js';
 
 export const widenOptionsPromptHandler = async (args: WidenOptionsPromptParams): Promise<GetPromptResult> => {
   return {
@@ -10,7 +10,7 @@ export const widenOptionsPromptHandler = async (args: WidenOptionsPromptParams):
         role: "user",
         content: {
           type: "text",
-          text: WIDEN_OPTIONS_PROMPT
+          text: prompts().instructions
         }
       }
     ]
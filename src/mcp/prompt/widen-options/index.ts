@@ -1,9 +1,12 @@
 import { widenOptionsPromptParams } from './schema.js';
 import { widenOptionsPromptHandler } from './handler.js';
+import { prompts } from './prompt.js';
 
 export const widenOptionsPrompt = {
   name: 'widen-options',
-  description: 'A prompt to guide users through the Widen Options phase of the WRAP process, expanding creative decision-making choices',
+  get description() {
+    return prompts().description;
+  },
   parameters: widenOptionsPromptParams,
   handler: widenOptionsPromptHandler
 };
\ No newline at end of file
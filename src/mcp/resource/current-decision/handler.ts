@@ -0,0 +1,78 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { getCurrentIssueStatus, serializeStatusView, formatReadError } from '../../../domain/read/current-status/index.js';
+import { getCurrentOptions, serializeOptionsView, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import { getDisplayName } from '../../../domain/term/workflow-state.js';
+import { DecisionId } from '../../../domain/term/decision.js';
+import { getCurrentState, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { getActiveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toJsonResourceResult } from '../util.js';
+
+/**
+ * Current Decision Resource Handlers
+ *
+ * アクティブな意思決定の課題・選択肢・ワークフロー状態を、リソースとして読めるようにする。
+ * まだ意思決定が始まっていない場合はエラーにせず decisionId: null を返す
+ */
+
+const resolveActiveDecisionId = async (): Promise<DecisionId | null> => {
+  const activeResult = await getActiveDecisionId();
+  if (activeResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatDecisionStorageError({ type: 'file_system_error', error: activeResult.error }));
+  }
+  return activeResult.value;
+};
+
+export const readCurrentIssue = async (uri: URL): Promise<ReadResourceResult> => {
+  const decisionId = await resolveActiveDecisionId();
+  if (decisionId === null) {
+    return toJsonResourceResult(uri, { decisionId: null, issue: null });
+  }
+
+  const statusResult = await getCurrentIssueStatus(decisionId);
+  if (statusResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatReadError(statusResult.error));
+  }
+
+  return toJsonResourceResult(uri, {
+    decisionId: DecisionId.toString(decisionId),
+    issue: statusResult.value ? serializeStatusView(statusResult.value) : null
+  });
+};
+
+export const readCurrentOptions = async (uri: URL): Promise<ReadResourceResult> => {
+  const decisionId = await resolveActiveDecisionId();
+  if (decisionId === null) {
+    return toJsonResourceResult(uri, { decisionId: null, options: [] });
+  }
+
+  const optionsResult = await getCurrentOptions(decisionId);
+  if (optionsResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatOptionsReadError(optionsResult.error));
+  }
+
+  return toJsonResourceResult(uri, {
+    decisionId: DecisionId.toString(decisionId),
+    options: optionsResult.value ? serializeOptionsView(optionsResult.value).options : []
+  });
+};
+
+export const readCurrentWorkflow = async (uri: URL): Promise<ReadResourceResult> => {
+  const decisionId = await resolveActiveDecisionId();
+  if (decisionId === null) {
+    return toJsonResourceResult(uri, { decisionId: null, workflowState: null });
+  }
+
+  const stateResult = await getCurrentState(decisionId);
+  if (stateResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatWorkflowStateStorageError(stateResult.error));
+  }
+
+  return toJsonResourceResult(uri, {
+    decisionId: DecisionId.toString(decisionId),
+    workflowState: {
+      current: stateResult.value.type,
+      displayName: getDisplayName(stateResult.value)
+    }
+  });
+};
@@ -0,0 +1,32 @@
+import { readCurrentIssue, readCurrentOptions, readCurrentWorkflow } from './handler.js';
+
+export const CURRENT_ISSUE_URI = 'decisive://current/issue';
+export const CURRENT_OPTIONS_URI = 'decisive://current/options';
+export const CURRENT_WORKFLOW_URI = 'decisive://current/workflow';
+
+export const currentIssueResource = {
+  name: 'current-issue',
+  uri: CURRENT_ISSUE_URI,
+  title: 'Current Issue',
+  description: 'The issue (issue, context, constraints) of the active decision',
+  mimeType: 'application/json',
+  handler: readCurrentIssue
+};
+
+export const currentOptionsResource = {
+  name: 'current-options',
+  uri: CURRENT_OPTIONS_URI,
+  title: 'Current Options',
+  description: 'The options currently registered for the active decision',
+  mimeType: 'application/json',
+  handler: readCurrentOptions
+};
+
+export const currentWorkflowResource = {
+  name: 'current-workflow',
+  uri: CURRENT_WORKFLOW_URI,
+  title: 'Current Workflow State',
+  description: 'The workflow state of the active decision',
+  mimeType: 'application/json',
+  handler: readCurrentWorkflow
+};
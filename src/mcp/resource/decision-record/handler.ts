@@ -0,0 +1,96 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ListResourcesResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  getDecisionRecord,
+  serializeDecisionRecord,
+  renderDecisionRecordMarkdown,
+  formatDecisionRecordReadError
+} from '../../../domain/read/decision-record/index.js';
+import type { DecisionRecordView } from '../../../domain/read/decision-record/types.js';
+import { listDecisions, formatDecisionsReadError } from '../../../domain/read/decisions/index.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { defineCatalog } from '../../../common/i18n.js';
+
+/**
+ * Decision Record Resource Handlers
+ *
+ * export-decision ツールと同じ決定記録を、Markdown / JSON のリソースとして読めるようにする
+ */
+
+const messages = defineCatalog({
+  ja: {
+    noRecord: '課題が定義されていないため、決定記録はまだありません'
+  },
+  en: {
+    noRecord: 'There is no decision record yet because the issue has not been defined'
+  }
+});
+
+type RecordFormat = {
+  readonly extension: 'md' | 'json';
+  readonly mimeType: string;
+  readonly render: (view: DecisionRecordView) => string;
+};
+
+export const MARKDOWN_FORMAT: RecordFormat = {
+  extension: 'md',
+  mimeType: 'text/markdown',
+  render: renderDecisionRecordMarkdown
+};
+
+export const JSON_FORMAT: RecordFormat = {
+  extension: 'json',
+  mimeType: 'application/json',
+  render: view => JSON.stringify(serializeDecisionRecord(view), null, 2)
+};
+
+export const toRecordUri = (decisionId: string, format: RecordFormat): string =>
+  `decisive://decisions/${decisionId}/record.${format.extension}`;
+
+/**
+ * List the record of every decision in the given format
+ */
+export const createListDecisionRecords = (format: RecordFormat) =>
+  async (): Promise<ListResourcesResult> => {
+    const listResult = await listDecisions();
+    if (listResult.isErr()) {
+      throw new McpError(ErrorCode.InternalError, formatDecisionsReadError(listResult.error));
+    }
+
+    return {
+      resources: listResult.value.decisions.map(summary => ({
+        uri: toRecordUri(summary.id, format),
+        name: summary.issue ?? summary.id,
+        mimeType: format.mimeType
+      }))
+    };
+  };
+
+/**
+ * Read the record of one decision in the given format
+ */
+export const createReadDecisionRecord = (format: RecordFormat) =>
+  async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+    const requestedId = Array.isArray(variables.decisionId) ? variables.decisionId[0] : variables.decisionId;
+    const decisionResult = await resolveDecisionId(requestedId);
+    if (decisionResult.isErr()) {
+      throw new McpError(ErrorCode.InvalidParams, formatDecisionStorageError(decisionResult.error));
+    }
+
+    const recordResult = await getDecisionRecord(decisionResult.value);
+    if (recordResult.isErr()) {
+      throw new McpError(ErrorCode.InternalError, formatDecisionRecordReadError(recordResult.error));
+    }
+    if (recordResult.value === null) {
+      throw new McpError(ErrorCode.InvalidParams, messages().noRecord);
+    }
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: format.mimeType,
+        text: format.render(recordResult.value)
+      }]
+    };
+  };
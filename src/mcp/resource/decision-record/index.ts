@@ -0,0 +1,26 @@
+import {
+  MARKDOWN_FORMAT,
+  JSON_FORMAT,
+  createListDecisionRecords,
+  createReadDecisionRecord
+} from './handler.js';
+
+export const decisionRecordMarkdownResource = {
+  name: 'decision-record-markdown',
+  uriTemplate: 'decisive://decisions/{decisionId}/record.md',
+  title: 'Decision Record (MADR)',
+  description: 'The decision exported as a MADR Markdown document',
+  mimeType: MARKDOWN_FORMAT.mimeType,
+  list: createListDecisionRecords(MARKDOWN_FORMAT),
+  handler: createReadDecisionRecord(MARKDOWN_FORMAT)
+};
+
+export const decisionRecordJsonResource = {
+  name: 'decision-record-json',
+  uriTemplate: 'decisive://decisions/{decisionId}/record.json',
+  title: 'Decision Record (JSON)',
+  description: 'The decision exported as a plain JSON bundle',
+  mimeType: JSON_FORMAT.mimeType,
+  list: createListDecisionRecords(JSON_FORMAT),
+  handler: createReadDecisionRecord(JSON_FORMAT)
+};
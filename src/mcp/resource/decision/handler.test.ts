@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../Server.js';
+import { DecisionSessionAggregate } from '../../../domain/command/decision-session.js';
+import { IssueDefinitionAggregate } from '../../../domain/command/define-issue.js';
+import { DecisionId } from '../../../domain/term/decision.js';
+import { recordEvent } from '../../../effect/workflow-state-storage.js';
+import { setActiveDecisionId } from '../../../effect/decision-storage.js';
+import { setStorageBackend } from '../../../effect/storage-backend.js';
+import { createMemoryBackend, createFileSystemBackend } from '../../../effect/backend/index.js';
+import { CURRENT_ISSUE_URI, CURRENT_OPTIONS_URI, CURRENT_WORKFLOW_URI } from '../current-decision/index.js';
+import { toDecisionUri } from './handler.js';
+
+const startDecision = async (issue?: string): Promise<string> => {
+  const started = DecisionSessionAggregate.startDecision({})._unsafeUnwrap();
+  await recordEvent(started.decisionId, started);
+  if (issue) {
+    await recordEvent(started.decisionId, IssueDefinitionAggregate.defineIssue({
+      issue,
+      context: 'サーバーの更新時期が近い',
+      constraints: '今期の予算内'
+    })._unsafeUnwrap());
+  }
+  await setActiveDecisionId(started.decisionId);
+  return DecisionId.toString(started.decisionId);
+};
+
+const readJson = async (client: Client, uri: string) => {
+  const result = await client.readResource({ uri });
+  const [content] = result.contents;
+  return JSON.parse('text' in content ? content.text : '');
+};
+
+describe('decision resources', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'resource-test-client', version: '1.0.0' });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setStorageBackend(createFileSystemBackend());
+  });
+
+  it('should list the current resources and one resource per decision', async () => {
+    // Given
+    const decisionId = await startDecision('サーバーを移行するか');
+
+    // When
+    const { resources } = await client.listResources();
+
+    // Then
+    expect(resources.map(resource => resource.uri)).toEqual(expect.arrayContaining([
+      CURRENT_ISSUE_URI,
+      CURRENT_OPTIONS_URI,
+      CURRENT_WORKFLOW_URI,
+      toDecisionUri(decisionId),
+      `${toDecisionUri(decisionId)}/record.md`,
+      `${toDecisionUri(decisionId)}/record.json`
+    ]));
+    expect(resources.find(resource => resource.uri === toDecisionUri(decisionId))?.name).toBe('サーバーを移行するか');
+  });
+
+  it('should read the current resources before and after a decision is started', async () => {
+    // Given
+    const before = await readJson(client, CURRENT_ISSUE_URI);
+    const decisionId = await startDecision('サーバーを移行するか');
+
+    // When
+    const issue = await readJson(client, CURRENT_ISSUE_URI);
+    const options = await readJson(client, CURRENT_OPTIONS_URI);
+
+    // Then
+    expect(before).toEqual({ decisionId: null, issue: null });
+    expect(issue.decisionId).toBe(decisionId);
+    expect(issue.issue.issue).toBe('サーバーを移行するか');
+    expect(options).toEqual({ decisionId, options: [] });
+  });
+
+  it('should read a decision and its record by ID', async () => {
+    // Given
+    const decisionId = await startDecision('サーバーを移行するか');
+    const notDefinedId = await startDecision();
+
+    // When
+    const decision = await readJson(client, toDecisionUri(decisionId));
+    const notDefined = await readJson(client, toDecisionUri(notDefinedId));
+    const record = await client.readResource({ uri: `${toDecisionUri(decisionId)}/record.md` });
+
+    // Then
+    expect(decision.decisionId).toBe(decisionId);
+    expect(decision.status).toBe('proposed');
+    expect(notDefined).toEqual({ decisionId: notDefinedId, workflowState: expect.objectContaining({ current: 'undefined' }) });
+    expect('text' in record.contents[0] && record.contents[0].text).toContain('# サーバーを移行するか');
+  });
+
+  it('should reject a decision that does not exist', async () => {
+    // When
+    const reading = client.readResource({ uri: toDecisionUri('decision-missing') });
+
+    // Then
+    await expect(reading).rejects.toThrow();
+  });
+});
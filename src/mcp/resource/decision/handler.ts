@@ -0,0 +1,73 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ListResourcesResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  getDecisionRecord,
+  serializeDecisionRecord,
+  formatDecisionRecordReadError
+} from '../../../domain/read/decision-record/index.js';
+import { listDecisions, formatDecisionsReadError } from '../../../domain/read/decisions/index.js';
+import { getDisplayName } from '../../../domain/term/workflow-state.js';
+import { DecisionId } from '../../../domain/term/decision.js';
+import { getCurrentState, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toJsonResourceResult } from '../util.js';
+
+/**
+ * Decision Resource Handlers
+ *
+ * 意思決定ごとの状態を、IDを指定してリソースとして読めるようにする
+ */
+
+export const toDecisionUri = (decisionId: string): string => `decisive://decisions/${decisionId}`;
+
+export const listDecisionResources = async (): Promise<ListResourcesResult> => {
+  const listResult = await listDecisions();
+  if (listResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatDecisionsReadError(listResult.error));
+  }
+
+  return {
+    resources: listResult.value.decisions.map(summary => ({
+      uri: toDecisionUri(summary.id),
+      name: summary.issue ?? summary.id,
+      mimeType: 'application/json'
+    }))
+  };
+};
+
+/**
+ * Read one decision
+ *
+ * Returns the same bundle as export-decision; before the issue is defined
+ * only the workflow state is available.
+ */
+export const readDecision = async (uri: URL, variables: Variables): Promise<ReadResourceResult> => {
+  const requestedId = Array.isArray(variables.decisionId) ? variables.decisionId[0] : variables.decisionId;
+  const decisionResult = await resolveDecisionId(requestedId);
+  if (decisionResult.isErr()) {
+    throw new McpError(ErrorCode.InvalidParams, formatDecisionStorageError(decisionResult.error));
+  }
+  const decisionId = decisionResult.value;
+
+  const recordResult = await getDecisionRecord(decisionId);
+  if (recordResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatDecisionRecordReadError(recordResult.error));
+  }
+  if (recordResult.value !== null) {
+    return toJsonResourceResult(uri, serializeDecisionRecord(recordResult.value));
+  }
+
+  const stateResult = await getCurrentState(decisionId);
+  if (stateResult.isErr()) {
+    throw new McpError(ErrorCode.InternalError, formatWorkflowStateStorageError(stateResult.error));
+  }
+
+  return toJsonResourceResult(uri, {
+    decisionId: DecisionId.toString(decisionId),
+    workflowState: {
+      current: stateResult.value.type,
+      displayName: getDisplayName(stateResult.value)
+    }
+  });
+};
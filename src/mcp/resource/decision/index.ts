@@ -0,0 +1,11 @@
+import { listDecisionResources, readDecision } from './handler.js';
+
+export const decisionResource = {
+  name: 'decision',
+  uriTemplate: 'decisive://decisions/{decisionId}',
+  title: 'Decision',
+  description: 'The issue, options, tripwires and final decision of one decision',
+  mimeType: 'application/json',
+  list: listDecisionResources,
+  handler: readDecision
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceUpdatedNotificationSchema,
+  ResourceListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../Server.js';
+import { DecisionSessionAggregate } from '../../domain/command/decision-session.js';
+import { IssueDefinitionAggregate } from '../../domain/command/define-issue.js';
+import { DecisionId } from '../../domain/term/decision.js';
+import { recordEvent } from '../../effect/workflow-state-storage.js';
+import { setActiveDecisionId } from '../../effect/decision-storage.js';
+import { setStorageBackend } from '../../effect/storage-backend.js';
+import { createMemoryBackend, createFileSystemBackend } from '../../effect/backend/index.js';
+import { CURRENT_ISSUE_URI, CURRENT_OPTIONS_URI } from './current-decision/index.js';
+import { toDecisionUri } from './decision/handler.js';
+
+const startDecision = async (): Promise<DecisionId> => {
+  const started = DecisionSessionAggregate.startDecision({})._unsafeUnwrap();
+  await recordEvent(started.decisionId, started);
+  await setActiveDecisionId(started.decisionId);
+  return started.decisionId;
+};
+
+const defineIssue = (issue: string) => IssueDefinitionAggregate.defineIssue({
+  issue,
+  context: 'サーバーの更新時期が近い',
+  constraints: '今期の予算内'
+})._unsafeUnwrap();
+
+describe('enableResourceNotifications', () => {
+  let client: Client;
+  let updated: string[];
+  let listChanged: number;
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    updated = [];
+    listChanged = 0;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'resource-test-client', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged += 1;
+    });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setStorageBackend(createFileSystemBackend());
+  });
+
+  it('should send resources/updated for subscribed URIs after recordEvent', async () => {
+    // Given
+    const decisionId = await startDecision();
+    const decisionUri = toDecisionUri(DecisionId.toString(decisionId));
+    await client.subscribeResource({ uri: CURRENT_ISSUE_URI });
+    await client.subscribeResource({ uri: decisionUri });
+
+    // When
+    await recordEvent(decisionId, defineIssue('サーバーを移行するか'));
+
+    // Then
+    await vi.waitFor(() => expect(updated).toEqual(expect.arrayContaining([CURRENT_ISSUE_URI, decisionUri])));
+    expect(updated).not.toContain(CURRENT_OPTIONS_URI);
+  });
+
+  it('should not notify current resources for a decision that is not active', async () => {
+    // Given
+    const inactiveId = await startDecision();
+    const activeId = await startDecision();
+    await client.subscribeResource({ uri: CURRENT_ISSUE_URI });
+    await client.subscribeResource({ uri: toDecisionUri(DecisionId.toString(inactiveId)) });
+
+    // When
+    await recordEvent(inactiveId, defineIssue('サーバーを移行するか'));
+    await recordEvent(activeId, defineIssue('監視を見直すか'));
+
+    // Then
+    await vi.waitFor(() => expect(updated).toContain(toDecisionUri(DecisionId.toString(inactiveId))));
+    await vi.waitFor(() => expect(updated).toContain(CURRENT_ISSUE_URI));
+    expect(updated.filter(uri => uri === CURRENT_ISSUE_URI)).toHaveLength(1);
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    // Given
+    const decisionId = await startDecision();
+    await client.subscribeResource({ uri: CURRENT_ISSUE_URI });
+    await client.unsubscribeResource({ uri: CURRENT_ISSUE_URI });
+    await client.subscribeResource({ uri: toDecisionUri(DecisionId.toString(decisionId)) });
+
+    // When
+    await recordEvent(decisionId, defineIssue('サーバーを移行するか'));
+
+    // Then
+    await vi.waitFor(() => expect(updated).toContain(toDecisionUri(DecisionId.toString(decisionId))));
+    expect(updated).not.toContain(CURRENT_ISSUE_URI);
+  });
+
+  it('should send resources/list_changed when a decision is started', async () => {
+    // When
+    await startDecision();
+
+    // Then
+    await vi.waitFor(() => expect(listChanged).toBe(1));
+  });
+});
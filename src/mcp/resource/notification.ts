@@ -0,0 +1,84 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DecisionId } from '../../domain/term/decision.js';
+import { getActiveDecisionId, ActiveDecisionSession } from '../../effect/decision-storage.js';
+import { onStorageChange, type StorageChange } from '../../effect/storage-change.js';
+import { CURRENT_ISSUE_URI, CURRENT_OPTIONS_URI, CURRENT_WORKFLOW_URI } from './current-decision/index.js';
+import { toDecisionUri } from './decision/handler.js';
+import { MARKDOWN_FORMAT, JSON_FORMAT, toRecordUri } from './decision-record/handler.js';
+
+/**
+ * Resource Change Notifications
+ *
+ * クライアントが resources/subscribe したリソースについて、ツールがストレージを
+ * 書き換えるたびに notifications/resources/updated を送る
+ */
+
+const CURRENT_DECISION_URIS = [CURRENT_ISSUE_URI, CURRENT_OPTIONS_URI, CURRENT_WORKFLOW_URI];
+
+const decisionUris = (decisionId: DecisionId): string[] => {
+  const id = DecisionId.toString(decisionId);
+  return [toDecisionUri(id), toRecordUri(id, MARKDOWN_FORMAT), toRecordUri(id, JSON_FORMAT)];
+};
+
+/**
+ * URIs whose content may have changed by the given storage change
+ *
+ * A journal append only affects decisive://current/* when it is the active decision of the session,
+ * and switching the active decision only affects the session that switched it.
+ */
+const affectedUris = async (change: StorageChange, session: ActiveDecisionSession | undefined): Promise<string[]> => {
+  switch (change.type) {
+    case 'active_decision_changed':
+      return change.session === (session ?? null) ? CURRENT_DECISION_URIS : [];
+    case 'journal_appended': {
+      const activeResult = await ActiveDecisionSession.runWith(session, getActiveDecisionId);
+      const isActive = activeResult.isOk() && activeResult.value === change.decisionId;
+      return [...decisionUris(change.decisionId), ...(isActive ? CURRENT_DECISION_URIS : [])];
+    }
+  }
+};
+
+/**
+ * Enable resources/subscribe and send resources/updated on storage changes
+ *
+ * Must be called before the server is connected, since it registers capabilities.
+ * The storage listener is removed when the connection closes.
+ */
+export const enableResourceNotifications = (server: McpServer, session?: ActiveDecisionSession): void => {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = async (change: StorageChange) => {
+    // 新しい意思決定が始まると decisive://decisions/{id} の一覧が変わる
+    if (change.type === 'journal_appended' && change.event.type === 'DecisionStarted') {
+      server.sendResourceListChanged();
+    }
+
+    const uris = (await affectedUris(change, session)).filter(uri => subscriptions.has(uri));
+    await Promise.all(uris.map(uri => server.server.sendResourceUpdated({ uri })));
+  };
+
+  const removeListener = onStorageChange(change => {
+    if (!server.isConnected()) {
+      return;
+    }
+    notify(change).catch(error => console.error('Failed to send resource notification:', error));
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    subscriptions.clear();
+    previousOnClose?.();
+  };
+};
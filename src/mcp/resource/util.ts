@@ -0,0 +1,14 @@
+import { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+
+export const toJsonResourceResult = (
+  uri: URL,
+  data: unknown,
+): ReadResourceResult => {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: "application/json",
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+};
@@ -0,0 +1,62 @@
+import { err } from 'neverthrow';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { OptionSelectionAggregate } from '../../../domain/command/option-selection.js';
+import {
+  getCurrentOptions,
+  applyOptionEdit,
+  serializeOptionsView,
+  formatOptionsReadError
+} from '../../../domain/read/options/index.js';
+import { recordEventWith, formatRecordEventWithError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { AddOptionParams, AddOptionResponse } from './schema.js';
+
+/**
+ * Add Option Tool Handler
+ *
+ * 選択肢を1つ追加する
+ */
+export const addOptionHandler = async (args: AddOptionParams): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  // 選択肢と状態を読んでから追記するまで、ほかの書き込みが割り込まないようにする
+  const recordResult = await recordEventWith(decisionId, async currentState => {
+    const optionsResult = await getCurrentOptions(decisionId);
+    if (optionsResult.isErr()) {
+      return err(formatOptionsReadError(optionsResult.error));
+    }
+    const currentOptions = optionsResult.value?.options ?? [];
+
+    return OptionSelectionAggregate.addOption({
+      option: {
+        text: args.text,
+        ...(args.supplementaryInfo && { supplementaryInfo: args.supplementaryInfo }),
+        ...(args.parentId && { parentId: args.parentId })
+      },
+      currentOptions,
+      currentState
+    })
+      .map(event => ({ event, currentOptions }))
+      .mapErr(OptionSelectionAggregate.toErrorMessage);
+  });
+  if (recordResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatRecordEventWithError(recordResult.error)}`], true);
+  }
+  const { event, currentOptions } = recordResult.value;
+
+  const edited = serializeOptionsView({ options: applyOptionEdit(currentOptions, event) });
+  const [option] = serializeOptionsView({ options: [event.option] }).options;
+  const response: AddOptionResponse = { ...edited, option };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().added(event.option.text, edited.options.length)],
+    false
+  );
+};
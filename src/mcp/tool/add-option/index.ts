@@ -0,0 +1,19 @@
+import { createAddOptionSchema, createAddOptionOutputSchema } from './schema.js';
+import { addOptionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+
+export const createAddOptionTool = (policy: DomainPolicy) => ({
+  name: 'add-option',
+  title: 'Add Option',
+  get description() {
+    return prompts().toolDescription(policy);
+  },
+  get parameters() {
+    return createAddOptionSchema(policy).shape;
+  },
+  get outputSchema() {
+    return createAddOptionOutputSchema();
+  },
+  handler: addOptionHandler
+});
@@ -0,0 +1,75 @@
+// Pure prompt strings for add-option tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: ({ optionCount }: DomainPolicy) => `
+選択肢を1つ追加するツールです。register_options のようにリスト全体を送り直す必要はありません。
+
+- 選択肢を広げている間（ラダリング・類推解決策調査・消去テスト）は、一時的に${optionCount.wideningMax}個まで増やせます
+- 選択肢をfixした後は、${optionCount.max}個を超えて追加できません（先に remove-option で外してください）
+- ラダリングで導いた選択肢には parentId に派生元の選択肢IDを指定してください
+
+fixするときは register_options（widenOptionsStep: fixed）で${optionCount.min}〜${optionCount.max}個に絞って登録します。
+`,
+    added: (text: string, count: number) => `✅ 選択肢「${text}」を追加しました（現在 ${count}個）`,
+
+    schemaValidation: {
+      tooLong: (max: number) => `選択肢は${max}文字以内で入力してください`
+    },
+
+    schemaDescriptions: {
+      text: (max: number) => `追加する選択肢（${max}文字まで）`,
+      supplementaryInfo: '選択肢の補足情報（オプション）',
+      parentId: 'ラダリングで派生した選択肢の場合、派生元の選択肢ID',
+      decisionId: '選択肢を追加する意思決定ID（省略時はアクティブな意思決定）',
+      option: {
+        id: '選択肢の一意識別子',
+        text: '選択肢のテキスト',
+        supplementaryInfo: '選択肢の補足情報',
+        parentId: '派生元の選択肢ID'
+      },
+      output: {
+        options: '編集後の選択肢',
+        option: '追加した選択肢'
+      }
+    }
+  },
+  en: {
+    toolDescription: ({ optionCount }: DomainPolicy) => `
+Adds a single option. Unlike register_options, the whole list does not have to be sent again.
+
+- While options are being widened (laddering, analogous solution research, elimination test), there can temporarily be up to ${optionCount.wideningMax} options
+- After the options are fixed, no more than ${optionCount.max} options can be added (remove one with remove-option first)
+- For an option derived by laddering, give the ID of the option it came from as parentId
+
+To fix the options, register ${optionCount.min} to ${optionCount.max} of them with register_options (widenOptionsStep: fixed).
+`,
+    added: (text: string, count: number) => `✅ Added the option "${text}" (${count} options now)`,
+
+    schemaValidation: {
+      tooLong: (max: number) => `An option must be at most ${max} characters`
+    },
+
+    schemaDescriptions: {
+      text: (max: number) => `The option to add (up to ${max} characters)`,
+      supplementaryInfo: 'Supplementary information about the option (optional)',
+      parentId: 'For an option derived by laddering, the ID of the option it came from',
+      decisionId: 'Decision to add the option to (defaults to the active decision)',
+      option: {
+        id: 'Unique identifier for the option',
+        text: 'Text of the option',
+        supplementaryInfo: 'Supplementary information about the option',
+        parentId: 'ID of the option it came from'
+      },
+      output: {
+        options: 'The options after the edit',
+        option: 'The added option'
+      }
+    }
+  }
+});
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import { prompts } from './prompt.js';
+
+// Input schema - 文字数の上限は DomainPolicy から、説明と検証メッセージは作った時点のロケールで作る
+export const createAddOptionSchema = (policy: DomainPolicy) => {
+  const maxLength = policy.textLimits.option;
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    text: z.string().max(maxLength, validation.tooLong(maxLength)).describe(text.text(maxLength)),
+    supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+    parentId: z.string().optional().describe(text.parentId),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+export const createOptionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.option;
+
+  return z.object({
+    id: z.string().describe(text.id),
+    text: z.string().describe(text.text),
+    supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+    parentId: z.string().optional().describe(text.parentId)
+  });
+};
+
+// Output schema (update-option / remove-option ツールでも使う)
+export const createEditedOptionsOutputSchema = () => z.object({
+  options: z.array(createOptionOutputSchema()).describe(prompts().schemaDescriptions.output.options)
+});
+
+export const createAddOptionOutputSchema = () => createEditedOptionsOutputSchema().extend({
+  option: createOptionOutputSchema().describe(prompts().schemaDescriptions.output.option)
+});
+
+export type AddOptionParams = z.infer<ReturnType<typeof createAddOptionSchema>>;
+export type AddOptionResponse = z.infer<ReturnType<typeof createAddOptionOutputSchema>>;
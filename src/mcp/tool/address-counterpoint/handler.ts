@@ -0,0 +1,77 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ChallengeOptionAggregate } from '../../../domain/command/challenge-option.js';
+import {
+  getCurrentOptions,
+  serializeCounterpoint,
+  formatCounterpointLine,
+  formatOptionsReadError
+} from '../../../domain/read/options/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { AddressCounterpointParams, AddressCounterpointResponse } from './schema.js';
+
+/**
+ * Address Counterpoint Tool Handler
+ *
+ * 選択肢に付けた反論に対処したかどうかを記録し、その選択肢に残っている未対処の反論を数える
+ */
+export const addressCounterpointHandler = async (
+  args: AddressCounterpointParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const optionsResult = await getCurrentOptions(decisionId);
+  if (optionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+  }
+  const challenges = optionsResult.value?.challenges ?? [];
+
+  const commandResult = ChallengeOptionAggregate.recordCounterpointStatus({
+    counterpointId: args.counterpointId,
+    addressed: args.addressed,
+    note: args.note,
+    registeredCounterpoints: challenges.flatMap(challenge => challenge.counterpoints)
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${ChallengeOptionAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const challenge = challenges.find(candidate =>
+    candidate.counterpoints.some(counterpoint => counterpoint.id === event.counterpointId)
+  )!;
+  const optionText = optionsResult.value?.options.find(option => option.id === challenge.optionId)?.text ?? challenge.optionId;
+  const status = { addressed: event.addressed, note: event.note, recordedAt: event.recordedAt };
+  const counterpoints = challenge.counterpoints.map(counterpoint =>
+    counterpoint.id === event.counterpointId ? { ...counterpoint, status } : counterpoint
+  );
+  const addressed = counterpoints.find(counterpoint => counterpoint.id === event.counterpointId)!;
+  const remainingOpen = counterpoints.filter(counterpoint => !counterpoint.status?.addressed).length;
+
+  const response: AddressCounterpointResponse = {
+    optionId: challenge.optionId,
+    optionText,
+    counterpoint: serializeCounterpoint(addressed),
+    remainingOpen
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().recorded(optionText, formatCounterpointLine(addressed)),
+      remainingOpen === 0 ? prompts().allAddressed : prompts().remaining(remainingOpen)
+    ],
+    false
+  );
+};
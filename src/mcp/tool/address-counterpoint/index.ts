@@ -0,0 +1,18 @@
+import { createAddressCounterpointSchema, createAddressCounterpointOutputSchema } from './schema.js';
+import { addressCounterpointHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const addressCounterpointTool = {
+  name: 'address-counterpoint',
+  title: 'Address Counterpoint',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createAddressCounterpointSchema().shape;
+  },
+  get outputSchema() {
+    return createAddressCounterpointOutputSchema();
+  },
+  handler: addressCounterpointHandler
+};
@@ -0,0 +1,74 @@
+// Pure prompt strings for address-counterpoint tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+challenge-option で選択肢に付けた反論（探すべき反証）に、対処したかどうかを記録するツールです。
+
+- **addressed: true**: 反証を探して反論に答えられた、または選択肢を見直して反論を解消した
+- **addressed: false**: まだ対処できていない（以前の記録を未対処に戻す）
+
+note には「問題ないと思う」ではなく、実際に探して分かった事実や、選択肢をどう変えたかを記録してください。
+同じ反論に記録し直した場合は、最新の記録で上書きされます。
+`,
+    recorded: (option: string, counterpoint: string) => `✅ 「${option}」への反論の対処を記録しました: ${counterpoint}`,
+    remaining: (remaining: number) => `
+NEXT ACTION: この選択肢には未対処の反論が残り${remaining}件あります。引き続き反証を探して対処を記録してください。`,
+    allAddressed: `
+NEXT ACTION: この選択肢への反論はすべて対処済みです。ほかの選択肢にも challenge-option で反論を立てるか、get_current_status で全体を確認して次のステップに進んでください。`,
+
+    schemaValidation: {
+      noteRequired: '対処の内容を入力してください'
+    },
+
+    schemaDescriptions: {
+      counterpointId: '対処を記録する反論ID（get_current_status で確認）',
+      addressed: '対処済みかどうか（false で未対処に戻す）',
+      note: '反証を探して分かったこと、または反論にどう対処したか',
+      decisionId: '反論が記録されている意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        optionId: '反論が紐づく選択肢ID',
+        optionText: '選択肢のテキスト',
+        counterpoint: '対処を記録した反論',
+        remainingOpen: 'この選択肢でまだ対処していない反論の数'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Records whether a counterpoint (disconfirming evidence to look for) attached to an option by challenge-option has been addressed.
+
+- **addressed: true**: The evidence was looked for and the case answered, or the option was revised so the case no longer holds
+- **addressed: false**: Not addressed yet (turns an earlier record back to open)
+
+Record in note the facts you actually found or how you changed the option, not that you believe it is fine.
+Recording the same counterpoint again overwrites it with the latest record.
+`,
+    recorded: (option: string, counterpoint: string) => `✅ Recorded how the counterpoint against "${option}" was addressed: ${counterpoint}`,
+    remaining: (remaining: number) => `
+NEXT ACTION: ${remaining} counterpoints against this option are still open. Keep looking for the evidence and record how each was addressed.`,
+    allAddressed: `
+NEXT ACTION: Every counterpoint against this option has been addressed. Challenge the other options with challenge-option too, or review everything with get_current_status and move on to the next step.`,
+
+    schemaValidation: {
+      noteRequired: 'Enter how the counterpoint was addressed'
+    },
+
+    schemaDescriptions: {
+      counterpointId: 'ID of the counterpoint to record the handling of (check with get_current_status)',
+      addressed: 'Whether it has been addressed (false reopens it)',
+      note: 'What was found while looking for the disconfirming evidence, or how the counterpoint was addressed',
+      decisionId: 'Decision the counterpoint is recorded in (defaults to the active decision)',
+      output: {
+        optionId: 'ID of the option the counterpoint belongs to',
+        optionText: 'Text of the option',
+        counterpoint: 'The counterpoint whose handling was recorded',
+        remainingOpen: 'Number of counterpoints of this option not addressed yet'
+      }
+    }
+  }
+});
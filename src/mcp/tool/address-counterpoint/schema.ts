@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createCounterpointOutputSchema } from '../challenge-option/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createAddressCounterpointSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    counterpointId: z.string().describe(text.counterpointId),
+    addressed: z.boolean()
+      .default(true)
+      .describe(text.addressed),
+    note: z.string()
+      .min(1, validation.noteRequired)
+      .describe(text.note),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createAddressCounterpointOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    optionText: z.string().describe(text.optionText),
+    counterpoint: createCounterpointOutputSchema().describe(text.counterpoint),
+    remainingOpen: z.number().describe(text.remainingOpen)
+  });
+};
+
+export type AddressCounterpointParams = z.infer<ReturnType<typeof createAddressCounterpointSchema>>;
+export type AddressCounterpointResponse = z.infer<ReturnType<typeof createAddressCounterpointOutputSchema>>;
@@ -0,0 +1,251 @@
+import { Result, ok, err } from 'neverthrow';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ChallengeOptionParams,
+  ChallengeOptionOutput,
+  ChallengeOptionSamplingResult,
+  challengeOptionSamplingResultSchema
+} from './schema.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import {
+  requestStructuredSample,
+  formatSamplingFailure,
+  formatAgentRequest,
+  placeholderNote,
+  agentRequestNote,
+  appendNote,
+  type AgentRequest
+} from '../sampling.js';
+import { getClientSupport } from '../../client-capabilities.js';
+import { ChallengeOptionAggregate } from '../../../domain/command/challenge-option.js';
+import { getCurrentIssueStatus, formatReadError } from '../../../domain/read/current-status/index.js';
+import {
+  getCurrentOptions,
+  formatOptionsReadError,
+  formatOptionChallenge,
+  serializeOptionChallenge
+} from '../../../domain/read/options/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import type { IssueStatusView } from '../../../domain/read/current-status/types.js';
+import type { OptionChallengeView } from '../../../domain/read/options/types.js';
+import type { DecisionId } from '../../../domain/term/decision.js';
+import type { Option } from '../../../domain/term/option.js';
+
+export const SUBMIT_TOOL_NAME = 'submit-counterpoints';
+
+/**
+ * 反論の由来 - サンプリングした回数、または2段階モードでエージェントが答えたこと
+ */
+export type ChallengeProvenance =
+  | { readonly source: 'ai'; readonly attempts: number }
+  | { readonly source: 'agent' };
+
+/**
+ * 反論の対象 - 反論する選択肢と、比較のためのほかの選択肢、課題
+ */
+export type ChallengeTarget = {
+  readonly issue: IssueStatusView | null;
+  readonly option: Option;
+  readonly options: readonly Option[];
+};
+
+/**
+ * 反論の対象を読み込む。選択肢が登録されていなければ反論できないので、その理由を返す
+ */
+export const loadChallengeTarget = async (
+  decisionId: DecisionId,
+  optionId: string
+): Promise<Result<ChallengeTarget, string>> => {
+  const [issueResult, optionsResult] = await Promise.all([
+    getCurrentIssueStatus(decisionId),
+    getCurrentOptions(decisionId)
+  ]);
+  if (issueResult.isErr()) {
+    return err(formatReadError(issueResult.error));
+  }
+  if (optionsResult.isErr()) {
+    return err(formatOptionsReadError(optionsResult.error));
+  }
+
+  const options = optionsResult.value?.options ?? [];
+  if (options.length === 0) {
+    return err(ChallengeOptionAggregate.toErrorMessage({ type: 'NoOptionsRegistered' }));
+  }
+  const option = options.find(candidate => candidate.id === optionId.trim());
+  if (!option) {
+    return err(ChallengeOptionAggregate.toErrorMessage({ type: 'UnknownOption', optionId }));
+  }
+  return ok({ issue: issueResult.value, option, options });
+};
+
+const toChallengeCommand = (sampled: ChallengeOptionSamplingResult, { option, options }: ChallengeTarget) =>
+  ChallengeOptionAggregate.challengeOption({
+    optionId: option.id,
+    strongestCase: sampled.strongestCase,
+    disconfirmingEvidence: sampled.disconfirmingEvidence,
+    existingOptionIds: options.map(candidate => candidate.id)
+  });
+
+/**
+ * サンプリングできなかったときの応答 - 反論のプレースホルダーを返し、保存はしない
+ */
+const placeholderOutput = (option: Option, attempts: number): ChallengeOptionOutput => ({
+  optionId: option.id,
+  optionText: option.text,
+  strongestCase: prompts().placeholderCase,
+  disconfirmingEvidence: [],
+  metadata: {
+    generatedAt: new Date().toISOString(),
+    totalCounterpoints: 0,
+    saved: false,
+    source: 'placeholder',
+    attempts,
+    note: appendNote(placeholderNote(), prompts().notSaved)
+  }
+});
+
+/**
+ * サンプリングに対応していないクライアントへの応答 - 反論をエージェントに依頼する
+ */
+const agentRequestOutput = (option: Option, agentRequest: AgentRequest): ChallengeOptionOutput => ({
+  optionId: option.id,
+  optionText: option.text,
+  strongestCase: '',
+  disconfirmingEvidence: [],
+  agentRequest,
+  metadata: {
+    generatedAt: new Date().toISOString(),
+    totalCounterpoints: 0,
+    saved: false,
+    source: 'agent',
+    attempts: 0,
+    note: agentRequestNote()
+  }
+});
+
+/**
+ * 回答された反論を選択肢に保存する（同じ選択肢への以前の反論は置き換わる）
+ *
+ * challenge-option のサンプリング結果と、submit-counterpoints でエージェントが送った回答の両方で使う。
+ */
+export const saveChallenge = async (
+  decisionId: DecisionId,
+  target: ChallengeTarget,
+  answer: ChallengeOptionSamplingResult,
+  provenance: ChallengeProvenance
+): Promise<CallToolResult> => {
+  const commandResult = toChallengeCommand(answer, target);
+  if (commandResult.isErr()) {
+    return toCallToolResult([
+      `${ERROR_MESSAGE_PREFIX}${ChallengeOptionAggregate.toErrorMessage(commandResult.error)}`,
+      prompts().notSaved
+    ], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const challenge: OptionChallengeView = {
+    optionId: event.optionId,
+    strongestCase: event.strongestCase,
+    counterpoints: event.counterpoints.map(counterpoint => ({ ...counterpoint, status: null }))
+  };
+  const response: ChallengeOptionOutput = {
+    optionId: target.option.id,
+    optionText: target.option.text,
+    ...serializeOptionChallenge(challenge),
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      totalCounterpoints: event.counterpoints.length,
+      saved: true,
+      source: provenance.source,
+      attempts: provenance.source === 'ai' ? provenance.attempts : 0
+    }
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().saved(target.option.text, event.counterpoints.length),
+      formatOptionChallenge(challenge, target.option.text),
+      prompts().nextAction
+    ],
+    false
+  );
+};
+
+const describeOption = (option: Option): string =>
+  `- **${option.text}** (ID: ${option.id})${option.supplementaryInfo ? `: ${option.supplementaryInfo}` : ''}`;
+
+const buildPrompt = ({ issue, option, options }: ChallengeTarget): string => {
+  const otherOptions = options.filter(candidate => candidate.id !== option.id);
+  const issueText = issue ? prompts().issueWithContext(issue.issue, issue.context) : prompts().issueUndefined;
+  const otherOptionsText = otherOptions.length > 0
+    ? otherOptions.map(describeOption).join('\n')
+    : prompts().noOtherOptions;
+
+  return prompts().challenge(issueText, describeOption(option), otherOptionsText);
+};
+
+export const createChallengeOptionHandler = (server: McpServer) => {
+  return async (args: ChallengeOptionParams): Promise<CallToolResult> => {
+    const decisionResult = await resolveDecisionId(args.decisionId);
+    if (decisionResult.isErr()) {
+      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+    }
+    const decisionId = decisionResult.value;
+
+    const targetResult = await loadChallengeTarget(decisionId, args.optionId);
+    if (targetResult.isErr()) {
+      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${targetResult.error}`], true);
+    }
+    const target = targetResult.value;
+    const prompt = buildPrompt(target);
+
+    // サンプリングできないクライアントでは、エージェントが答えて submit-counterpoints で送る
+    if (!getClientSupport(server).sampling) {
+      const agentRequest = { systemPrompt: prompts().system, prompt, submitTool: SUBMIT_TOOL_NAME };
+      return toStructuredCallToolResult(
+        agentRequestOutput(target.option, agentRequest),
+        [formatAgentRequest(agentRequest)],
+        false
+      );
+    }
+
+    const sampleResult = await requestStructuredSample(server, {
+      prompt,
+      systemPrompt: prompts().system,
+      schema: challengeOptionSamplingResultSchema,
+      maxTokens: 2000,
+      modelPreferences: {
+        costPriority: 0.3,
+        speedPriority: 0.3,
+        intelligencePriority: 0.9
+      },
+      // 長すぎる反論や空の証拠もモデルに直してもらう
+      validate: sampled => toChallengeCommand(sampled, target)
+        .map(() => sampled)
+        .mapErr(ChallengeOptionAggregate.toErrorMessage)
+    });
+
+    if (sampleResult.isErr()) {
+      const error = sampleResult.error;
+      return toStructuredCallToolResult(
+        placeholderOutput(target.option, error.attempts),
+        [`${error.type === 'sampling_failed' ? ERROR_MESSAGE_PREFIX : '⚠️ '}${formatSamplingFailure(error, prompts().notSaved)}`],
+        error.type === 'sampling_failed'
+      );
+    }
+
+    return saveChallenge(decisionId, target, sampleResult.value.data, {
+      source: 'ai',
+      attempts: sampleResult.value.attempts
+    });
+  };
+};
@@ -0,0 +1,19 @@
+import { createChallengeOptionSchema, createChallengeOptionOutputSchema } from './schema.js';
+import { createChallengeOptionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+export const createChallengeOptionTool = (server: McpServer) => ({
+  name: 'challenge-option',
+  title: 'Challenge Option',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createChallengeOptionSchema().shape;
+  },
+  get outputSchema() {
+    return createChallengeOptionOutputSchema();
+  },
+  handler: createChallengeOptionHandler(server)
+});
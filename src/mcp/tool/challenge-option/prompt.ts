@@ -0,0 +1,148 @@
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: '確証バイアスに対抗するため、クライアント側のLLMに選んだ選択肢への最も強い反論と、探すべき反証となる証拠を挙げさせ、反論としてその選択肢に保存するサンプリングツール。反論は get_current_status の選択肢に表示され、address-counterpoint で対処したかどうかを記録できます',
+
+    challenge: (issue: string, option: string, otherOptions: string) => `あなたは悪魔の代弁者（Devil's Advocate）です。意思決定者はこの選択肢に傾いており、都合のよい情報ばかり集めている恐れがあります。あえてこの選択肢に反対する立場から、反論を組み立ててください。
+
+## 反論のガイドライン：
+- strongestCase には、この選択肢を採るべきでない理由を、最も説得力のある形で400文字以内にまとめる
+- 藁人形論法は避け、賢明な反対者が実際に主張しそうな論点を選ぶ
+- disconfirmingEvidence には、見つかれば反論が正しいと分かる証拠を3〜5個、それぞれ200文字以内で挙げる
+- 証拠は「何を・どこで・どう確かめるか」が分かる具体的なものにする（データ、過去の事例、当事者への聞き取りなど）
+- 意思決定者が見落としていそうなもの、見たくないものを優先する
+
+次のJSON形式で回答してください：
+\`\`\`json
+{"strongestCase": "...", "disconfirmingEvidence": ["...", "..."]}
+\`\`\`
+
+## 課題：
+${issue}
+
+## 反論する選択肢：
+${option}
+
+## ほかの選択肢：
+${otherOptions}`,
+
+    issueWithContext: (issue: string, context: string) => `${issue}（背景: ${context}）`,
+
+    issueUndefined: '（課題は定義されていません）',
+
+    noOtherOptions: '（なし）',
+
+    system: 'あなたは意思決定支援の専門家として、確証バイアスを崩すために選択肢への最も強い反論を誠実に組み立てます。期待される形式でJSONを返してください。',
+
+    notSaved: '反論は保存されていません。内容を確認して challenge-option を再実行してください',
+
+    placeholderCase: '【プレースホルダー】反論は生成されていません',
+
+    saved: (option: string, count: number) => `✅ 「${option}」への反論と、探すべき反証${count}件を保存しました。`,
+
+    nextAction: `
+NEXT ACTION: 反証となる証拠を実際に探してください。見つけた内容や対処した方法は address-counterpoint ツールで反論ごとに記録できます。反論が正しかった場合は、update-option / remove-option で選択肢を見直してください。`,
+
+    schemaDescriptions: {
+      optionId: '反論する選択肢ID（get_current_status で確認）',
+      decisionId: '選択肢が登録されている意思決定ID（省略時はアクティブな意思決定）',
+      counterpoint: {
+        id: '反論ID',
+        evidence: '探すべき反証となる証拠',
+        addressed: '対処済みかどうか',
+        note: '対処の内容・見つかったこと（記録した場合）',
+        recordedAt: '対処を記録した日時（ISO 8601）'
+      },
+      challenge: {
+        strongestCase: '選択肢に対する最も強い反論',
+        disconfirmingEvidence: '反論を確かめるために探す反証と、その対処状況'
+      },
+      output: {
+        optionId: '反論した選択肢ID',
+        optionText: '選択肢のテキスト',
+        agentRequest: 'クライアントがサンプリングに対応していないときの依頼。答えた JSON を submit-counterpoints で送る',
+        metadata: '反論のメタデータ',
+        generatedAt: '反論を生成した日時（ISO 8601）',
+        totalCounterpoints: '反証の数',
+        saved: '反論を選択肢に保存したかどうか',
+        source: 'ai: クライアント側のLLMが生成した / agent: 2段階モードでエージェントが生成した / placeholder: AIの反論ではない仮の値（サンプリングに失敗した）',
+        attempts: 'サンプリングした回数（受け付けられなかった応答の直しを含む。2段階モードでは0）',
+        note: '生成の過程についての補足'
+      }
+    }
+  },
+  en: {
+    toolDescription: 'A sampling tool against confirmation bias: it has the client LLM build the strongest case against a chosen option and list the disconfirming evidence to look for, and saves them as counterpoints attached to that option. The counterpoints are shown with the options in get_current_status, and whether each has been addressed can be recorded with address-counterpoint',
+
+    challenge: (issue: string, option: string, otherOptions: string) => `You are the devil's advocate. The decision maker leans toward this option and may be collecting only the information that supports it. Argue against the option on purpose.
+
+## Guidelines for the challenge:
+- In strongestCase, sum up in the most convincing way, within 400 characters, why this option should not be taken
+- Avoid straw men; pick the points a sensible opponent would actually make
+- In disconfirmingEvidence, list 3 to 5 pieces of evidence that would show the case is right if found, each within 200 characters
+- Make each piece concrete: what to check, where and how (data, past cases, interviews with the people involved, and so on)
+- Put first what the decision maker is likely to overlook or would rather not see
+
+Answer in the following JSON format:
+\`\`\`json
+{"strongestCase": "...", "disconfirmingEvidence": ["...", "..."]}
+\`\`\`
+
+## Issue:
+${issue}
+
+## Option to challenge:
+${option}
+
+## Other options:
+${otherOptions}`,
+
+    issueWithContext: (issue: string, context: string) => `${issue} (context: ${context})`,
+
+    issueUndefined: '(no issue is defined)',
+
+    noOtherOptions: '(none)',
+
+    system: 'As a decision-support expert, you honestly build the strongest case against an option to break confirmation bias. Return JSON in the expected format.',
+
+    notSaved: 'The counterpoints have not been saved. Check the content and run challenge-option again',
+
+    placeholderCase: '[Placeholder] No case against the option was generated',
+
+    saved: (option: string, count: number) => `✅ Saved the case against "${option}" and ${count} pieces of disconfirming evidence to look for.`,
+
+    nextAction: `
+NEXT ACTION: Go and look for the disconfirming evidence. Record what you found or how you addressed each counterpoint with the address-counterpoint tool. If the case turns out to be right, revisit the option with update-option / remove-option.`,
+
+    schemaDescriptions: {
+      optionId: 'ID of the option to challenge (check with get_current_status)',
+      decisionId: 'Decision the option is registered to (defaults to the active decision)',
+      counterpoint: {
+        id: 'Counterpoint ID',
+        evidence: 'Disconfirming evidence to look for',
+        addressed: 'Whether it has been addressed',
+        note: 'How it was addressed or what was found (when recorded)',
+        recordedAt: 'When the handling was recorded (ISO 8601)'
+      },
+      challenge: {
+        strongestCase: 'The strongest case against the option',
+        disconfirmingEvidence: 'Disconfirming evidence to look for to test the case, and how each was handled'
+      },
+      output: {
+        optionId: 'ID of the challenged option',
+        optionText: 'Text of the option',
+        agentRequest: 'Set when the client cannot sample: answer this request and submit the JSON with submit-counterpoints',
+        metadata: 'Metadata about the counterpoints',
+        generatedAt: 'When the counterpoints were generated (ISO 8601)',
+        totalCounterpoints: 'Number of pieces of disconfirming evidence',
+        saved: 'Whether the counterpoints were saved to the option',
+        source: 'ai: generated by the client LLM / agent: generated by the agent in two-step mode / placeholder: not AI output, a stand-in value because sampling failed',
+        attempts: 'Number of sampling attempts, including repairs of rejected responses (0 in two-step mode)',
+        note: 'Additional notes about the generation process'
+      }
+    }
+  }
+});
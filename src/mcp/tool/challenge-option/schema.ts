@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { samplingSourceSchema, createAgentRequestOutputSchema } from '../sampling.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createChallengeOptionSchema = () => {
+  const text = prompts().schemaDescriptions;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// A single counterpoint, shared with get_current_status and address-counterpoint
+export const createCounterpointOutputSchema = () => {
+  const text = prompts().schemaDescriptions.counterpoint;
+
+  return z.object({
+    id: z.string().describe(text.id),
+    evidence: z.string().describe(text.evidence),
+    addressed: z.boolean().describe(text.addressed),
+    note: z.string().optional().describe(text.note),
+    recordedAt: z.string().optional().describe(text.recordedAt)
+  });
+};
+
+// The counterpoints attached to an option, shared with get_current_status
+export const createOptionChallengeOutputSchema = () => {
+  const text = prompts().schemaDescriptions.challenge;
+
+  return z.object({
+    strongestCase: z.string().describe(text.strongestCase),
+    disconfirmingEvidence: z.array(createCounterpointOutputSchema()).describe(text.disconfirmingEvidence)
+  });
+};
+
+// Output schema for structured response
+export const createChallengeOptionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return createOptionChallengeOutputSchema().extend({
+    optionId: z.string().describe(text.optionId),
+    optionText: z.string().describe(text.optionText),
+    agentRequest: createAgentRequestOutputSchema().optional()
+      .describe(text.agentRequest),
+    metadata: z.object({
+      generatedAt: z.string().describe(text.generatedAt),
+      totalCounterpoints: z.number().describe(text.totalCounterpoints),
+      saved: z.boolean().describe(text.saved),
+      source: samplingSourceSchema.describe(text.source),
+      attempts: z.number().describe(text.attempts),
+      note: z.string().optional().describe(text.note)
+    }).describe(text.metadata)
+  });
+};
+
+// Shape expected from the sampled LLM response
+export const challengeOptionSamplingResultSchema = z.object({
+  strongestCase: z.string(),
+  disconfirmingEvidence: z.array(z.string())
+});
+
+export type ChallengeOptionParams = z.infer<ReturnType<typeof createChallengeOptionSchema>>;
+export type ChallengeOptionOutput = z.infer<ReturnType<typeof createChallengeOptionOutputSchema>>;
+export type ChallengeOptionSamplingResult = z.infer<typeof challengeOptionSamplingResultSchema>;
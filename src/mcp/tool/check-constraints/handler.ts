@@ -0,0 +1,255 @@
+import { Result, ok, err } from 'neverthrow';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  CheckConstraintsParams,
+  CheckConstraintsOutput,
+  CheckConstraintsSamplingResult,
+  createCheckConstraintsSamplingResultSchema
+} from './schema.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import {
+  requestStructuredSample,
+  formatSamplingFailure,
+  formatAgentRequest,
+  placeholderNote,
+  agentRequestNote,
+  appendNote,
+  type AgentRequest
+} from '../sampling.js';
+import { getClientSupport } from '../../client-capabilities.js';
+import { ConstraintCheckAggregate } from '../../../domain/command/check-constraints.js';
+import { ConstraintKind, type Constraint } from '../../../domain/term/issue-definition.js';
+import { getCurrentIssueStatus, formatReadError } from '../../../domain/read/current-status/index.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import { findHardConstraintViolations, serializeConstraintCheck } from '../../../domain/read/constraint-checks/index.js';
+import { recordEventWith, formatRecordEventWithError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import type { IssueStatusView } from '../../../domain/read/current-status/types.js';
+import type { DecisionId } from '../../../domain/term/decision.js';
+import type { Option } from '../../../domain/term/option.js';
+
+export const SUBMIT_TOOL_NAME = 'submit-constraint-checks';
+
+/**
+ * 判定の由来 - サンプリングした回数、または2段階モードでエージェントが答えたこと
+ */
+export type ConstraintCheckProvenance =
+  | { readonly source: 'ai'; readonly attempts: number }
+  | { readonly source: 'agent' };
+
+/**
+ * 判定の対象 - 課題とその制約、登録されている選択肢
+ */
+type CheckTargets = {
+  readonly issue: IssueStatusView;
+  readonly options: readonly Option[];
+  readonly constraints: readonly Constraint[];
+};
+
+/**
+ * 判定の対象を読み込む。選択肢か制約がなければ判定できないので、その理由を返す
+ */
+const loadCheckTargets = async (decisionId: DecisionId): Promise<Result<CheckTargets, string>> => {
+  const [issueResult, optionsResult] = await Promise.all([
+    getCurrentIssueStatus(decisionId),
+    getCurrentOptions(decisionId)
+  ]);
+  if (issueResult.isErr()) {
+    return err(formatReadError(issueResult.error));
+  }
+  if (optionsResult.isErr()) {
+    return err(formatOptionsReadError(optionsResult.error));
+  }
+
+  const issue = issueResult.value;
+  const options = optionsResult.value?.options ?? [];
+  if (options.length === 0) {
+    return err(ConstraintCheckAggregate.toErrorMessage({ type: 'NoOptionsRegistered' }));
+  }
+  if (!issue || issue.constraintItems.length === 0) {
+    return err(ConstraintCheckAggregate.toErrorMessage({ type: 'NoConstraintsDefined' }));
+  }
+  return ok({ issue, options, constraints: issue.constraintItems });
+};
+
+const toCheckCommand = (
+  sampled: CheckConstraintsSamplingResult,
+  options: readonly Option[],
+  constraints: readonly Constraint[]
+) => ConstraintCheckAggregate.checkConstraints({
+  checks: sampled.checks,
+  existingOptionIds: options.map(option => option.id),
+  constraints
+});
+
+/**
+ * サンプリングできなかったときの応答 - すべての組を uncertain のプレースホルダーとして返し、保存はしない
+ */
+const placeholderOutput = (
+  options: readonly Option[],
+  constraints: readonly Constraint[],
+  attempts: number
+): CheckConstraintsOutput => {
+  const checks = options.flatMap(option => constraints.map(constraint => ({
+    optionId: option.id,
+    optionText: option.text,
+    constraintId: constraint.id,
+    verdict: 'uncertain' as const,
+    reasoning: prompts().unjudgedReasoning
+  })));
+
+  return {
+    checks,
+    hardConstraintViolations: [],
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      totalChecks: checks.length,
+      saved: false,
+      source: 'placeholder',
+      attempts,
+      note: appendNote(placeholderNote(), prompts().notSaved)
+    }
+  };
+};
+
+/**
+ * サンプリングに対応していないクライアントへの応答 - 判定をエージェントに依頼する
+ */
+const agentRequestOutput = (agentRequest: AgentRequest): CheckConstraintsOutput => ({
+  checks: [],
+  hardConstraintViolations: [],
+  agentRequest,
+  metadata: {
+    generatedAt: new Date().toISOString(),
+    totalChecks: 0,
+    saved: false,
+    source: 'agent',
+    attempts: 0,
+    note: agentRequestNote()
+  }
+});
+
+/**
+ * 回答された判定を保存し、必須の制約に反する選択肢を添えて応答する
+ *
+ * check-constraints のサンプリング結果と、submit-constraint-checks でエージェントが送った回答の両方で使う。
+ * 回答を待つ間に選択肢や制約が変わることがあるので、判定の対象はジャーナルのロックの中で読み直して検証する。
+ */
+export const saveChecks = async (
+  decisionId: DecisionId,
+  answer: CheckConstraintsSamplingResult,
+  provenance: ConstraintCheckProvenance
+): Promise<CallToolResult> => {
+  const recordResult = await recordEventWith(decisionId, async () => {
+    const targetsResult = await loadCheckTargets(decisionId);
+    if (targetsResult.isErr()) {
+      return err(targetsResult.error);
+    }
+    const targets = targetsResult.value;
+
+    return toCheckCommand(answer, targets.options, targets.constraints)
+      .map(event => ({ event, targets }))
+      .mapErr(ConstraintCheckAggregate.toErrorMessage);
+  });
+  if (recordResult.isErr()) {
+    const error = recordResult.error;
+    return toCallToolResult([
+      `${ERROR_MESSAGE_PREFIX}${formatRecordEventWithError(error)}`,
+      ...(error.type === 'command_rejected' ? [prompts().notSaved] : [])
+    ], true);
+  }
+  const { event, targets: { options, constraints } } = recordResult.value;
+
+  const optionText = (optionId: string) => options.find(option => option.id === optionId)?.text ?? optionId;
+  const violations = findHardConstraintViolations({ checks: event.checks }, constraints);
+  const response: CheckConstraintsOutput = {
+    checks: event.checks.map(check => ({ ...serializeConstraintCheck(check), optionText: optionText(check.optionId) })),
+    hardConstraintViolations: violations.map(violation => ({ ...violation, constraintIds: [...violation.constraintIds] })),
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      totalChecks: event.checks.length,
+      saved: true,
+      source: provenance.source,
+      attempts: provenance.source === 'ai' ? provenance.attempts : 0
+    }
+  };
+
+  const violationText = violations.length > 0
+    ? prompts().violations(violations.map(violation =>
+        prompts().violation(optionText(violation.optionId), violation.constraintIds.join(', '))
+      ).join(' / '))
+    : '';
+
+  return toStructuredCallToolResult(
+    response,
+    [`${prompts().saved(options.length, constraints.length)}${violationText}`, prompts().nextAction],
+    false
+  );
+};
+
+const buildPrompt = (issue: IssueStatusView, options: readonly Option[]): string => {
+  const constraintsText = issue.constraintItems.map(constraint =>
+    `- ${constraint.id} [${ConstraintKind.toDisplayName(constraint.kind)}] ${constraint.text}`
+  ).join('\n');
+  const optionsText = options.map(option =>
+    `- **${option.text}** (ID: ${option.id})${option.supplementaryInfo ? `: ${option.supplementaryInfo}` : ''}`
+  ).join('\n');
+
+  return prompts().constraintCheck(prompts().issueWithContext(issue.issue, issue.context), constraintsText, optionsText);
+};
+
+export const createCheckConstraintsHandler = (server: McpServer) => {
+  return async (args: CheckConstraintsParams): Promise<CallToolResult> => {
+    const decisionResult = await resolveDecisionId(args.decisionId);
+    if (decisionResult.isErr()) {
+      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+    }
+    const decisionId = decisionResult.value;
+
+    const targetsResult = await loadCheckTargets(decisionId);
+    if (targetsResult.isErr()) {
+      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${targetsResult.error}`], true);
+    }
+    const targets = targetsResult.value;
+    const { options, constraints } = targets;
+    const prompt = buildPrompt(targets.issue, options);
+
+    // サンプリングできないクライアントでは、エージェントが答えて submit-constraint-checks で送る
+    if (!getClientSupport(server).sampling) {
+      const agentRequest = { systemPrompt: prompts().system, prompt, submitTool: SUBMIT_TOOL_NAME };
+      return toStructuredCallToolResult(agentRequestOutput(agentRequest), [formatAgentRequest(agentRequest)], false);
+    }
+
+    const sampleResult = await requestStructuredSample(server, {
+      prompt,
+      systemPrompt: prompts().system,
+      schema: createCheckConstraintsSamplingResultSchema(),
+      maxTokens: 3000,
+      modelPreferences: {
+        costPriority: 0.3,
+        speedPriority: 0.4,
+        intelligencePriority: 0.8
+      },
+      // 判定の抜けや重複もモデルに直してもらう
+      validate: sampled => toCheckCommand(sampled, options, constraints)
+        .map(() => sampled)
+        .mapErr(ConstraintCheckAggregate.toErrorMessage)
+    });
+
+    if (sampleResult.isErr()) {
+      const error = sampleResult.error;
+      return toStructuredCallToolResult(
+        placeholderOutput(options, constraints, error.attempts),
+        [`${error.type === 'sampling_failed' ? ERROR_MESSAGE_PREFIX : '⚠️ '}${formatSamplingFailure(error, prompts().notSaved)}`],
+        error.type === 'sampling_failed'
+      );
+    }
+
+    return saveChecks(decisionId, sampleResult.value.data, {
+      source: 'ai',
+      attempts: sampleResult.value.attempts
+    });
+  };
+};
@@ -0,0 +1,19 @@
+import { createCheckConstraintsSchema, createCheckConstraintsOutputSchema } from './schema.js';
+import { createCheckConstraintsHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+export const createCheckConstraintsTool = (server: McpServer) => ({
+  name: 'check-constraints',
+  title: 'Check Constraints',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createCheckConstraintsSchema().shape;
+  },
+  get outputSchema() {
+    return createCheckConstraintsOutputSchema();
+  },
+  handler: createCheckConstraintsHandler(server)
+});
@@ -0,0 +1,152 @@
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: 'クライアント側のLLMに、登録済みの各選択肢が課題の制約（必須・希望）に合っているかを判定させ、選択肢と制約の組ごとの判定と理由を保存するサンプリングツール。必須の制約に反する選択肢は get_current_status で警告されます',
+
+    constraintCheck: (issue: string, constraints: string, options: string) => `あなたは意思決定の専門家です。課題に付けた制約に、それぞれの選択肢が合っているかを判定してください。
+
+## 制約の種類：
+- **必須（hard）**: 満たさない選択肢は採れない
+- **希望（soft）**: できれば満たしたい
+
+## 判定のガイドライン：
+- 選択肢と制約のすべての組について、判定を1つずつ返す
+- verdict は satisfied（満たす）/ violated（反する）/ uncertain（今ある情報では判断できない）のいずれか
+- 推測で satisfied にせず、根拠がなければ uncertain にする
+- reasoning には判定の根拠を200文字以内で書く
+
+次のJSON形式で回答してください（optionId と constraintId はそのまま使ってください）：
+\`\`\`json
+{"checks": [{"optionId": "...", "constraintId": "constraint-1", "verdict": "satisfied", "reasoning": "..."}]}
+\`\`\`
+
+## 課題：
+${issue}
+
+## 制約：
+${constraints}
+
+## 選択肢：
+${options}`,
+
+    issueWithContext: (issue: string, context: string) => `${issue}（背景: ${context}）`,
+
+    system: "あなたは意思決定支援の専門家として、選択肢が制約に合っているかを公平に判定します。期待される形式でJSONを返してください。",
+
+    notSaved: '判定は保存されていません。内容を確認して check-constraints を再実行してください',
+
+    unjudgedReasoning: '【プレースホルダー】判定していません',
+
+    saved: (optionCount: number, constraintCount: number) => `✅ ${optionCount}個の選択肢を${constraintCount}個の制約に照らした判定を保存しました。`,
+
+    violation: (option: string, constraintIds: string) => `${option}（${constraintIds}）`,
+
+    violations: (violations: string) => `\n⚠️ 必須の制約に反する選択肢: ${violations}`,
+
+    nextAction: `
+NEXT ACTION: 判定を保存しました。必須の制約に反する選択肢は get_current_status で警告されます。選択肢を見直す場合は update-option / remove-option を使ってください。`,
+
+    schemaDescriptions: {
+      decisionId: '判定する意思決定ID（省略時はアクティブな意思決定）',
+      check: {
+        optionId: '選択肢ID',
+        constraintId: '制約ID',
+        verdict: 'satisfied: 満たす / violated: 反する / uncertain: 判断できない',
+        reasoning: '判定の理由'
+      },
+      violation: {
+        optionId: '必須の制約に反する選択肢ID',
+        constraintIds: '反している必須の制約ID'
+      },
+      output: {
+        optionText: '選択肢のテキスト',
+        checks: '選択肢と制約の組ごとの判定',
+        hardConstraintViolations: '必須の制約に反する選択肢',
+        agentRequest: 'クライアントがサンプリングに対応していないときの依頼。答えた JSON を submit-constraint-checks で送る',
+        metadata: '判定のメタデータ',
+        generatedAt: '判定した日時（ISO 8601）',
+        totalChecks: '判定の数',
+        saved: '判定を意思決定に保存したかどうか',
+        source: 'ai: クライアント側のLLMが判定した / agent: 2段階モードでエージェントが判定した / placeholder: AIの判定ではない仮の値（サンプリングに失敗した）',
+        attempts: 'サンプリングした回数（受け付けられなかった応答の直しを含む。2段階モードでは0）',
+        note: '判定の過程についての補足'
+      }
+    }
+  },
+  en: {
+    toolDescription: 'A sampling tool that has the client LLM judge whether each registered option meets the constraints of the issue (hard and soft), and saves the verdict and reasoning for every pair of option and constraint. Options that violate a hard constraint are flagged by get_current_status',
+
+    constraintCheck: (issue: string, constraints: string, options: string) => `You are a decision-making expert. Judge whether each option meets the constraints attached to the issue.
+
+## Kinds of constraints:
+- **Hard**: an option that does not meet it cannot be taken
+- **Soft**: should be met if possible
+
+## Guidelines for judging:
+- Return exactly one verdict for every pair of option and constraint
+- verdict is one of satisfied / violated / uncertain (cannot be judged with the information at hand)
+- Do not guess satisfied; if there is no basis, use uncertain
+- Write the basis for the verdict in reasoning, within 200 characters
+
+Answer in the following JSON format (use optionId and constraintId as they are):
+\`\`\`json
+{"checks": [{"optionId": "...", "constraintId": "constraint-1", "verdict": "satisfied", "reasoning": "..."}]}
+\`\`\`
+
+## Issue:
+${issue}
+
+## Constraints:
+${constraints}
+
+## Options:
+${options}`,
+
+    issueWithContext: (issue: string, context: string) => `${issue} (context: ${context})`,
+
+    system: "As a decision-support expert, you judge fairly whether options meet the constraints. Return JSON in the expected format.",
+
+    notSaved: 'The verdicts have not been saved. Check the content and run check-constraints again',
+
+    unjudgedReasoning: '[Placeholder] Not judged',
+
+    saved: (optionCount: number, constraintCount: number) => `✅ Saved the verdicts of ${optionCount} options against ${constraintCount} constraints.`,
+
+    violation: (option: string, constraintIds: string) => `${option} (${constraintIds})`,
+
+    violations: (violations: string) => `\n⚠️ Options that violate hard constraints: ${violations}`,
+
+    nextAction: `
+NEXT ACTION: The verdicts have been saved. Options that violate hard constraints are flagged by get_current_status. To revisit the options, use update-option / remove-option.`,
+
+    schemaDescriptions: {
+      decisionId: 'Decision to check (defaults to the active decision)',
+      check: {
+        optionId: 'Option ID',
+        constraintId: 'Constraint ID',
+        verdict: 'satisfied: meets it / violated: breaks it / uncertain: cannot tell',
+        reasoning: 'Reasoning for the verdict'
+      },
+      violation: {
+        optionId: 'ID of an option that breaks a hard constraint',
+        constraintIds: 'IDs of the hard constraints it breaks'
+      },
+      output: {
+        optionText: 'Text of the option',
+        checks: 'Verdict for each pair of option and constraint',
+        hardConstraintViolations: 'Options that break a hard constraint',
+        agentRequest: 'Set when the client cannot sample: answer this request and submit the JSON with submit-constraint-checks',
+        metadata: 'Metadata about the checks',
+        generatedAt: 'When the checks were made (ISO 8601)',
+        totalChecks: 'Number of checks',
+        saved: 'Whether the checks were saved to the decision',
+        source: 'ai: checked by the client LLM / agent: checked by the agent in two-step mode / placeholder: not AI output, a stand-in value because sampling failed',
+        attempts: 'Number of sampling attempts, including repairs of rejected responses (0 in two-step mode)',
+        note: 'Additional notes about the checks'
+      }
+    }
+  }
+});
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { ConstraintVerdictSchema } from '../../../domain/term/constraint-check.js';
+import { samplingSourceSchema, createAgentRequestOutputSchema } from '../sampling.js';
+import { prompts } from './prompt.js';
+
+// Input schema - 判定するのは登録済みのすべての選択肢と、課題に付けたすべての制約
+export const createCheckConstraintsSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+// A single verdict, shared with get_current_status
+export const createConstraintCheckOutputSchema = () => {
+  const text = prompts().schemaDescriptions.check;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    constraintId: z.string().describe(text.constraintId),
+    verdict: ConstraintVerdictSchema.describe(text.verdict),
+    reasoning: z.string().describe(text.reasoning)
+  });
+};
+
+export const createHardConstraintViolationOutputSchema = () => {
+  const text = prompts().schemaDescriptions.violation;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    constraintIds: z.array(z.string()).describe(text.constraintIds)
+  });
+};
+
+// Output schema for structured response
+export const createCheckConstraintsOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    checks: z.array(createConstraintCheckOutputSchema().extend({
+      optionText: z.string().describe(text.optionText)
+    })).describe(text.checks),
+    hardConstraintViolations: z.array(createHardConstraintViolationOutputSchema()).describe(text.hardConstraintViolations),
+    agentRequest: createAgentRequestOutputSchema().optional()
+      .describe(text.agentRequest),
+    metadata: z.object({
+      generatedAt: z.string().describe(text.generatedAt),
+      totalChecks: z.number().describe(text.totalChecks),
+      saved: z.boolean().describe(text.saved),
+      source: samplingSourceSchema.describe(text.source),
+      attempts: z.number().describe(text.attempts),
+      note: z.string().optional().describe(text.note)
+    }).describe(text.metadata)
+  });
+};
+
+// Shape expected from the sampled LLM response
+export const createCheckConstraintsSamplingResultSchema = () => z.object({
+  checks: z.array(createConstraintCheckOutputSchema())
+});
+
+export type CheckConstraintsParams = z.infer<ReturnType<typeof createCheckConstraintsSchema>>;
+export type CheckConstraintsOutput = z.infer<ReturnType<typeof createCheckConstraintsOutputSchema>>;
+export type CheckConstraintsSamplingResult = z.infer<ReturnType<typeof createCheckConstraintsSamplingResultSchema>>;
@@ -7,7 +7,30 @@ import os from 'os';
 
 // 統合テスト専用のデータディレクトリを使用
 const INTEGRATION_DATA_DIR = path.join(os.tmpdir(), 'mcp-decisive-integration-test');
-const INTEGRATION_ISSUE_FILE = path.join(INTEGRATION_DATA_DIR, 'issue.json');
+const INTEGRATION_ACTIVE_DECISION_FILE = path.join(INTEGRATION_DATA_DIR, 'active-decision.json');
+
+// アクティブな意思決定のジャーナルファイルのパスを取得
+const activeJournalFile = async (): Promise<string> => {
+  const { decisionId } = JSON.parse(await fs.readFile(INTEGRATION_ACTIVE_DECISION_FILE, 'utf-8'));
+  return path.join(INTEGRATION_DATA_DIR, 'decisions', decisionId, 'journal.jsonl');
+};
+
+// ジャーナルの内容から最後に記録された課題定義を取得
+const lastIssueDefinition = (journalContent: string): DefineIssueParams => {
+  const issueEvents = journalContent
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map(line => JSON.parse(line).event)
+    .filter(event => event.type === 'IssueDefinitionCreated');
+  return issueEvents[issueEvents.length - 1]?.issueDefinition;
+};
+
+// 制約のリストと成功基準を指定しなかった課題定義の保存内容
+const storedIssueDefinition = (params: DefineIssueParams) => ({
+  ...params,
+  constraintItems: [],
+  successCriteria: []
+});
 
 describe('defineIssueHandler - ファイルシステム統合テスト', () => {
   beforeEach(async () => {
@@ -57,18 +80,14 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       const dirExistsAfter = await fs.access(INTEGRATION_DATA_DIR).then(() => true).catch(() => false);
       expect(dirExistsAfter).toBe(true);
 
-      // JSONファイルが作成されていることを確認
-      const fileExists = await fs.access(INTEGRATION_ISSUE_FILE).then(() => true).catch(() => false);
+      // ジャーナルファイルが作成されていることを確認
+      const fileExists = await fs.access(await activeJournalFile()).then(() => true).catch(() => false);
       expect(fileExists).toBe(true);
 
       // ファイル内容が正しいことを確認
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      const savedData = JSON.parse(fileContent);
-      expect(savedData).toEqual({
-        issue: '統合テスト課題',
-        context: '統合テストのコンテキスト',
-        constraints: '統合テストの制約'
-      });
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      const savedData = lastIssueDefinition(fileContent);
+      expect(savedData).toEqual(storedIssueDefinition(params));
     });
 
     it('複数回の上書きが正常に動作する', async () => {
@@ -83,13 +102,13 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
         expect(result.isError).toBe(false);
 
         // ファイル内容が正しく更新されていることを確認
-        const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-        const savedData = JSON.parse(fileContent);
-        expect(savedData).toEqual(params);
+        const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+        const savedData = lastIssueDefinition(fileContent);
+        expect(savedData).toEqual(storedIssueDefinition(params));
       }
     });
 
-    it('JSONファイルが適切にフォーマットされて保存される', async () => {
+    it('ジャーナルがJSON Lines形式で保存される', async () => {
       const params: DefineIssueParams = {
         issue: 'フォーマットテスト',
         context: 'インデント確認',
@@ -99,15 +118,15 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       await defineIssueHandler(params);
 
       // ファイル内容を文字列として確認
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      
-      // JSONが適切にインデントされていることを確認
-      expect(fileContent).toContain('{\n  "issue"');
-      expect(fileContent).toContain('  "context"');
-      expect(fileContent).toContain('  "constraints"');
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
       
-      // パースできることを確認
-      expect(() => JSON.parse(fileContent)).not.toThrow();
+      // 1行1イベントのJSON Lines形式であることを確認
+      const lines = fileContent.split('\n').filter(line => line.length > 0);
+      expect(fileContent.endsWith('\n')).toBe(true);
+      expect(lines.map(line => JSON.parse(line).event.type)).toEqual([
+        'DecisionStarted',
+        'IssueDefinitionCreated'
+      ]);
     });
 
     it('既存ファイルが存在する場合、正常に上書きされる', async () => {
@@ -122,13 +141,13 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       expect(firstResult.isError).toBe(false);
 
       // ファイルが作成されていることを確認
-      const fileExists = await fs.access(INTEGRATION_ISSUE_FILE).then(() => true).catch(() => false);
+      const fileExists = await fs.access(await activeJournalFile()).then(() => true).catch(() => false);
       if (!fileExists) {
         throw new Error('First file was not created');
       }
 
-      let fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      let savedData = JSON.parse(fileContent);
+      let fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      let savedData = lastIssueDefinition(fileContent);
       expect(savedData.issue).toBe('最初の課題');
 
       // 2回目のデータで上書き
@@ -138,13 +157,15 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
         constraints: '上書きされた制約'
       };
 
-      const secondResult = await defineIssueHandler(secondParams);
+      // 同じ意思決定の課題を再定義
+      const { decisionId } = firstResult.structuredContent as { decisionId: string };
+      const secondResult = await defineIssueHandler({ ...secondParams, decisionId });
       expect(secondResult.isError).toBe(false);
 
       // ファイル内容が更新されていることを確認
-      fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      savedData = JSON.parse(fileContent);
-      expect(savedData).toEqual(secondParams);
+      fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      savedData = lastIssueDefinition(fileContent);
+      expect(savedData).toEqual(storedIssueDefinition(secondParams));
     });
 
     it('日本語とUnicode文字が正しく保存・読み込みされる', async () => {
@@ -158,13 +179,46 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       expect(result.isError).toBe(false);
 
       // ファイルから直接読み込んで確認
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      const savedData = JSON.parse(fileContent);
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      const savedData = lastIssueDefinition(fileContent);
 
       expect(savedData.issue).toBe('日本語課題 🎯');
       expect(savedData.context).toBe('マークダウン**太字**と_斜体_、絵文字🚀');
       expect(savedData.constraints).toBe('制約：改行\nあり、特殊文字♪♫♪');
     });
+
+    it('必須・希望の制約と成功基準にIDを振って保存する', async () => {
+      const params: DefineIssueParams = {
+        issue: '会計システムの刷新',
+        context: '月次決算に5日かかっている',
+        constraints: '予算と移行時期に制約がある',
+        constraintItems: [
+          { kind: 'hard', text: '予算は1000万円以内' },
+          { kind: 'soft', text: '年度内に移行したい' }
+        ],
+        successCriteria: ['月次決算が2日で終わる']
+      };
+
+      const result = await defineIssueHandler(params);
+      expect(result.isError).toBe(false);
+
+      const expectedConstraintItems = [
+        { id: 'constraint-1', kind: 'hard', text: '予算は1000万円以内' },
+        { id: 'constraint-2', kind: 'soft', text: '年度内に移行したい' }
+      ];
+      const expectedSuccessCriteria = [{ id: 'criterion-1', text: '月次決算が2日で終わる' }];
+      expect(result.structuredContent).toMatchObject({
+        constraintItems: expectedConstraintItems,
+        successCriteria: expectedSuccessCriteria
+      });
+
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      expect(lastIssueDefinition(fileContent)).toEqual({
+        ...params,
+        constraintItems: expectedConstraintItems,
+        successCriteria: expectedSuccessCriteria
+      });
+    });
   });
 
   describe('権限エラーシナリオのテスト', () => {
@@ -182,7 +236,7 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       try {
         // ファイルを読み取り専用に設定（Unixライクシステムでのみ有効）
         if (process.platform !== 'win32') {
-          await fs.chmod(INTEGRATION_ISSUE_FILE, 0o444);
+          await fs.chmod(await activeJournalFile(), 0o444);
 
           // 上書きを試行
           const secondParams: DefineIssueParams = {
@@ -191,7 +245,8 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
             constraints: '読み取り専用ファイル'
           };
 
-          const secondResult = await defineIssueHandler(secondParams);
+          const { decisionId } = firstResult.structuredContent as { decisionId: string };
+          const secondResult = await defineIssueHandler({ ...secondParams, decisionId });
 
           // Unix系では権限エラーが発生することを期待
           expect(secondResult.isError).toBe(true);
@@ -206,7 +261,7 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
         // ファイル権限を元に戻してクリーンアップ
         try {
           if (process.platform !== 'win32') {
-            await fs.chmod(INTEGRATION_ISSUE_FILE, 0o644);
+            await fs.chmod(await activeJournalFile(), 0o644);
           }
         } catch {
           // 権限変更エラーは無視
@@ -313,7 +368,7 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
         try {
           (fs as any).writeFile = async () => {
             const error = new Error(errorCase.message) as NodeJS.ErrnoException;
-            error.code = errorCase.code as any;
+            error.code = errorCase.code;
             throw error;
           };
 
@@ -347,7 +402,7 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       await defineIssueHandler(params);
 
       // ファイル統計情報を取得
-      const stats = await fs.stat(INTEGRATION_ISSUE_FILE);
+      const stats = await fs.stat(await activeJournalFile());
 
       // ファイルであることを確認
       expect(stats.isFile()).toBe(true);
@@ -369,18 +424,19 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
         constraints: 'パス検証'
       };
 
-      await defineIssueHandler(params);
+      const result = await defineIssueHandler(params);
 
       // データディレクトリが存在し、ディレクトリであることを確認
       const dirStats = await fs.stat(INTEGRATION_DATA_DIR);
       expect(dirStats.isDirectory()).toBe(true);
 
-      // ファイルが正しいパスに作成されていることを確認
-      const expectedPath = path.join(INTEGRATION_DATA_DIR, 'issue.json');
-      expect(INTEGRATION_ISSUE_FILE).toBe(expectedPath);
+      // ファイルが意思決定ごとのディレクトリに作成されていることを確認
+      const { decisionId } = result.structuredContent as { decisionId: string };
+      const expectedPath = path.join(INTEGRATION_DATA_DIR, 'decisions', decisionId, 'journal.jsonl');
+      expect(await activeJournalFile()).toBe(expectedPath);
 
       // ファイルが存在することを確認
-      const fileStats = await fs.stat(INTEGRATION_ISSUE_FILE);
+      const fileStats = await fs.stat(await activeJournalFile());
       expect(fileStats.isFile()).toBe(true);
     });
 
@@ -408,15 +464,15 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       expect(result2.isError).toBe(false);
 
       // ファイルが存在することを確認
-      const fileExists = await fs.access(INTEGRATION_ISSUE_FILE).then(() => true).catch(() => false);
+      const fileExists = await fs.access(await activeJournalFile()).then(() => true).catch(() => false);
       expect(fileExists).toBe(true);
 
       // ファイル内容がいずれかのパラメータと一致することを確認
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      const savedData = JSON.parse(fileContent);
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      const savedData = lastIssueDefinition(fileContent);
       
-      const isParams1 = JSON.stringify(savedData) === JSON.stringify(params1);
-      const isParams2 = JSON.stringify(savedData) === JSON.stringify(params2);
+      const isParams1 = JSON.stringify(savedData) === JSON.stringify(storedIssueDefinition(params1));
+      const isParams2 = JSON.stringify(savedData) === JSON.stringify(storedIssueDefinition(params2));
       
       expect(isParams1 || isParams2).toBe(true);
     });
@@ -431,20 +487,22 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       await defineIssueHandler(params);
 
       // ファイル統計情報を取得
-      const stats = await fs.stat(INTEGRATION_ISSUE_FILE);
+      const stats = await fs.stat(await activeJournalFile());
       
       // ファイル内容を読み込み
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      const savedData = JSON.parse(fileContent);
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      const savedData = lastIssueDefinition(fileContent);
 
       // ファイルサイズが内容と一致することを確認
       expect(stats.size).toBe(Buffer.byteLength(fileContent, 'utf-8'));
       
       // 保存されたデータが正しいことを確認
-      expect(savedData).toEqual(params);
+      expect(savedData).toEqual(storedIssueDefinition(params));
       
-      // JSONが適切にフォーマットされていることを確認
-      expect(fileContent).toContain('{\n  "issue"');
+      // 各行が独立したJSONとして読めることを確認
+      fileContent.trim().split('\n').forEach(line => {
+        expect(() => JSON.parse(line)).not.toThrow();
+      });
     });
 
     it('ファイルの作成・更新タイムスタンプの検証', async () => {
@@ -458,7 +516,7 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       await defineIssueHandler(params);
       const afterTime = new Date();
 
-      const stats = await fs.stat(INTEGRATION_ISSUE_FILE);
+      const stats = await fs.stat(await activeJournalFile());
 
       // 作成時刻が実行時刻の範囲内であることを確認
       expect(stats.mtime.getTime()).toBeGreaterThanOrEqual(beforeTime.getTime() - 1000);
@@ -477,7 +535,7 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       await defineIssueHandler(updateParams);
       const updateAfterTime = new Date();
 
-      const updatedStats = await fs.stat(INTEGRATION_ISSUE_FILE);
+      const updatedStats = await fs.stat(await activeJournalFile());
 
       // 更新時刻が変更されていることを確認
       expect(updatedStats.mtime.getTime()).toBeGreaterThan(stats.mtime.getTime());
@@ -495,11 +553,11 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       await defineIssueHandler(params);
 
       // バイナリモードでファイルを読み込み
-      const buffer = await fs.readFile(INTEGRATION_ISSUE_FILE);
+      const buffer = await fs.readFile(await activeJournalFile());
       
       // UTF-8エンコーディングであることを確認
       const utf8Content = buffer.toString('utf-8');
-      const savedData = JSON.parse(utf8Content);
+      const savedData = lastIssueDefinition(utf8Content);
 
       expect(savedData.issue).toBe('エンコーディングテスト 🎯');
       expect(savedData.context).toBe('日本語とUnicode文字: こんにちは 🌸');
@@ -526,8 +584,8 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       expect(result.isError).toBe(false);
 
       // ファイルが完全に書き込まれていることを確認
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      const savedData = JSON.parse(fileContent);
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      const savedData = lastIssueDefinition(fileContent);
       
       expect(savedData.context).toBe(largeContext);
       expect(savedData.constraints).toBe(largeConstraints);
@@ -557,8 +615,8 @@ describe('defineIssueHandler - ファイルシステム統合テスト', () => {
       expect(endTime - startTime).toBeLessThan(1000);
 
       // データが正しく保存されていることを確認
-      const fileContent = await fs.readFile(INTEGRATION_ISSUE_FILE, 'utf-8');
-      const savedData = JSON.parse(fileContent);
+      const fileContent = await fs.readFile(await activeJournalFile(), 'utf-8');
+      const savedData = lastIssueDefinition(fileContent);
 
       expect(savedData.issue).toBe(maxIssue);
       expect(savedData.context).toBe(maxContext);
@@ -1,27 +1,37 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { DefineIssueParams, DefineIssueResponse, defineIssueSchema } from './schema.js';
+import { Result, ok, err } from 'neverthrow';
+import { DefineIssueParams, DefineIssueResponse, createDefineIssueSchema } from './schema.js';
+import { DomainPolicy } from '../../../domain/term/domain-policy.js';
 import { toStructuredCallToolResult } from '../util.js';
-import { saveIssueDefinition, FileSystemError } from '../../../effect/index.js';
-import { IssueDefinitionAggregate, DefineIssueRequest, IssueDefinitionError } from '../../../domain/command/define-issue.js';
-import { WorkflowState } from '../../../domain/term/workflow-state.js';
-import { updateState, WorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
 import {
-  NEXT_ACTION_GUIDANCE,
-  SUCCESS_MESSAGE_TEMPLATE,
-  DOMAIN_ERROR_MESSAGE,
-  VALIDATION_ERROR_MESSAGE,
-  VALIDATION_CORRECTION_GUIDANCE,
-  FILESYSTEM_ERROR_GUIDANCE,
-  VALIDATION_SPECIFIC_GUIDANCE,
-  INVALID_PARAMS_MESSAGE
-} from './prompt.js';
-
-const generateSuccessResponse = (issue: string): CallToolResult => {
-  const structuredData: DefineIssueResponse = { issue };
+  FileSystemError,
+  setActiveDecisionId,
+  resolveDecisionId,
+  formatDecisionStorageError,
+  DecisionStorageError
+} from '../../../effect/index.js';
+import { IssueDefinitionAggregate, DefineIssueRequest, IssueDefinitionError, IssueDefinition } from '../../../domain/command/define-issue.js';
+import { DecisionSessionAggregate } from '../../../domain/command/decision-session.js';
+import { DecisionId } from '../../../domain/term/decision.js';
+import { recordEvent, WorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { prompts } from './prompt.js';
+
+const generateSuccessResponse = (decisionId: DecisionId, issueDefinition: IssueDefinition): CallToolResult => {
+  const { constraintItems, successCriteria } = issueDefinition;
+  const structuredData: DefineIssueResponse = {
+    decisionId: DecisionId.toString(decisionId),
+    issue: issueDefinition.issue,
+    ...(constraintItems.length > 0 && {
+      constraintItems: constraintItems.map(({ id, kind, text }) => ({ id, kind, text }))
+    }),
+    ...(successCriteria.length > 0 && {
+      successCriteria: successCriteria.map(({ id, text }) => ({ id, text }))
+    })
+  };
 
   return toStructuredCallToolResult(
     structuredData,
-    [NEXT_ACTION_GUIDANCE],
+    [prompts().nextAction],
     false
   );
 };
@@ -32,7 +42,7 @@ const generateDomainErrorResponse = (error: IssueDefinitionError): CallToolResul
   return toStructuredCallToolResult(
     null,
     [
-      DOMAIN_ERROR_MESSAGE,
+      prompts().domainError,
       errorMessage
     ],
     true
@@ -40,52 +50,85 @@ const generateDomainErrorResponse = (error: IssueDefinitionError): CallToolResul
 };
 
 const generateFileSystemErrorResponse = (fsError: FileSystemError): CallToolResult => {
-  const correctionGuidance = FILESYSTEM_ERROR_GUIDANCE[fsError.type] || FILESYSTEM_ERROR_GUIDANCE.unknown;
+  const correctionGuidance = prompts().fileSystemErrorGuidance[fsError.type];
 
   return toStructuredCallToolResult(
     null,
     [
-      `ファイルシステムエラー: ${fsError.message}`,
+      prompts().fileSystemError(fsError.message),
       correctionGuidance
     ],
     true
   );
 };
 
+const generateDecisionErrorResponse = (decisionError: DecisionStorageError): CallToolResult => {
+  return toStructuredCallToolResult(
+    null,
+    [formatDecisionStorageError(decisionError)],
+    true
+  );
+};
+
+/**
+ * 課題を登録する意思決定を決める
+ * - decisionId 指定あり: 既存の意思決定の課題を再定義し、その意思決定をアクティブにする
+ * - decisionId 指定なし: 新しい意思決定を開始する
+ */
+const prepareDecision = async (requestedId?: string): Promise<Result<DecisionId, CallToolResult>> => {
+  if (requestedId !== undefined) {
+    const resolved = await resolveDecisionId(requestedId);
+    if (resolved.isErr()) {
+      return err(generateDecisionErrorResponse(resolved.error));
+    }
+    const activateResult = await setActiveDecisionId(resolved.value);
+    return activateResult.isErr()
+      ? err(generateFileSystemErrorResponse(activateResult.error))
+      : ok(resolved.value);
+  }
+
+  const started = DecisionSessionAggregate.startDecision({});
+  if (started.isErr()) {
+    return err(toStructuredCallToolResult(
+      null,
+      [prompts().domainError, DecisionSessionAggregate.toErrorMessage(started.error)],
+      true
+    ));
+  }
+  const decisionId = started.value.decisionId;
+  const recordResult = await recordEvent(decisionId, started.value);
+  if (recordResult.isErr()) {
+    return err(generateStateErrorResponse(recordResult.error));
+  }
+  const activateResult = await setActiveDecisionId(decisionId);
+  return activateResult.isErr()
+    ? err(generateFileSystemErrorResponse(activateResult.error))
+    : ok(decisionId);
+};
+
 const generateStateErrorResponse = (stateError: WorkflowStateStorageError): CallToolResult => {
+  const messages = prompts().stateError;
   let message: string;
   let guidance: string;
 
   switch (stateError.type) {
     case 'invalid_transition':
-      message = `状態遷移エラー: ${stateError.from.type} から ${stateError.to.type} への遷移は無効です`;
-      guidance = "現在の状態から有効な遷移を確認してください。";
+      message = messages.invalidTransition(stateError.from.type, stateError.to.type);
+      guidance = messages.invalidTransitionGuidance;
       break;
     case 'file_system_error':
       const fsError = stateError.error;
-      message = `ファイルシステムエラー: ${fsError.message}`;
+      message = prompts().fileSystemError(fsError.message);
       
-      switch (fsError.type) {
-        case 'permission_denied':
-          guidance = "ディレクトリの書き込み権限を確認してください。";
-          break;
-        case 'disk_full':
-          guidance = "ディスクの空き容量を確認してください。";
-          break;
-        case 'directory_create_failed':
-          guidance = "ディレクトリの作成権限を確認してください。";
-          break;
-        default:
-          guidance = "ファイルシステムの状態を確認してください。";
-      }
+      guidance = messages.fileSystemGuidance[fsError.type] ?? messages.fileSystemGuidance.unknown;
       break;
     case 'parse_error':
-      message = `データ解析エラー: ${stateError.message}`;
-      guidance = "データファイルが破損している可能性があります。強制的に状態をリセットすることを検討してください。";
+      message = messages.parseError(stateError.message);
+      guidance = messages.parseErrorGuidance;
       break;
     default:
-      message = `状態管理エラー: 予期しないエラーが発生しました`;
-      guidance = "システム管理者に相談してください。";
+      message = messages.unexpected;
+      guidance = messages.unexpectedGuidance;
   }
 
   return toStructuredCallToolResult(
@@ -96,24 +139,25 @@ const generateStateErrorResponse = (stateError: WorkflowStateStorageError): Call
 };
 
 export const defineIssueHandler = async (args: unknown): Promise<CallToolResult> => {
-  const zodResult = defineIssueSchema.safeParse(args);
+  const zodResult = createDefineIssueSchema(DomainPolicy.current()).safeParse(args);
   if (!zodResult.success) {
     // Zod validation errors should be processed as validation errors
     const errorMessages = zodResult.error.issues.map(issue => issue.message);
-    const correctionGuidance = `${VALIDATION_CORRECTION_GUIDANCE}\n` +
+    const correctionGuidance = `${prompts().validationCorrection}\n` +
       errorMessages.map(msg => `• ${msg}`).join('\n');
 
     return toStructuredCallToolResult(
       null,
       [
-        VALIDATION_ERROR_MESSAGE,
+        prompts().validationError,
         correctionGuidance
       ],
       true
     );
   }
 
-  const request: DefineIssueRequest = zodResult.data;
+  const { decisionId: requestedDecisionId, ...fields } = zodResult.data;
+  const request: DefineIssueRequest = fields;
   const domainResult = IssueDefinitionAggregate.defineIssue(request);
 
   if (domainResult.isErr()) {
@@ -121,17 +165,17 @@ export const defineIssueHandler = async (args: unknown): Promise<CallToolResult>
     const error = domainResult.error;
     if (error.type === 'ValidationFailed') {
       const errorMessages = error.validationErrors.map(validationError => {
-        const specificGuidance = VALIDATION_SPECIFIC_GUIDANCE[validationError.type](validationError.field);
+        const specificGuidance = prompts().validationGuidance[validationError.type](validationError.field, DomainPolicy.current().textLimits);
         return `${validationError.message} ${specificGuidance}`;
       });
 
-      const correctionGuidance = `${VALIDATION_CORRECTION_GUIDANCE}\n` +
+      const correctionGuidance = `${prompts().validationCorrection}\n` +
         errorMessages.map(msg => `• ${msg}`).join('\n');
 
       return toStructuredCallToolResult(
         null,
         [
-          VALIDATION_ERROR_MESSAGE,
+          prompts().validationError,
           correctionGuidance
         ],
         true
@@ -140,18 +184,18 @@ export const defineIssueHandler = async (args: unknown): Promise<CallToolResult>
     return generateDomainErrorResponse(domainResult.error);
   }
 
-  const event = domainResult.value;
-  const saveResult = await saveIssueDefinition(event.issueDefinition);
-
-  if (saveResult.isErr()) {
-    return generateFileSystemErrorResponse(saveResult.error);
+  const decisionResult = await prepareDecision(requestedDecisionId);
+  if (decisionResult.isErr()) {
+    return decisionResult.error;
   }
+  const decisionId = decisionResult.value;
 
-  // 課題定義が成功したら状態を遷移
-  const stateResult = await updateState(WorkflowState.issueDefined());
+  // 課題定義イベントをジャーナルに記録（状態は課題定義済みに遷移）
+  const event = domainResult.value;
+  const stateResult = await recordEvent(decisionId, event);
   
   return stateResult.match(
-    () => generateSuccessResponse(event.issueDefinition.issue),
+    () => generateSuccessResponse(decisionId, event.issueDefinition),
     (stateError) => generateStateErrorResponse(stateError)
   );
 };
@@ -1,11 +1,19 @@
-import { defineIssueParams, defineIssueOutputSchema } from './schema.js';
+import { createDefineIssueSchema, createDefineIssueOutputSchema } from './schema.js';
 import { defineIssueHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
 
-export const defineIssueTool = {
+export const createDefineIssueTool = (policy: DomainPolicy) => ({
   name: 'define_issue',
   title: 'Define Issue',
-  description: 'WRAP意思決定フレームワークの課題定義段階を支援するツール。課題、コンテキスト、制約を構造化して保存し、意思決定プロセスを開始します。',
-  parameters: defineIssueParams,
-  outputSchema: defineIssueOutputSchema,
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createDefineIssueSchema(policy).shape;
+  },
+  get outputSchema() {
+    return createDefineIssueOutputSchema();
+  },
   handler: defineIssueHandler
-};
\ No newline at end of file
+});
@@ -1,53 +1,234 @@
 // AI instruction prompts for define-issue tool
 
-export const NEXT_ACTION_GUIDANCE = 
-  "課題が正常に定義されました。次は「Widen Options（選択肢を広げる）」ステップに進み、" +
-  "可能な解決策や選択肢を洗い出しましょう。";
-
-export const SUCCESS_MESSAGE_TEMPLATE = (issue: string) => 
-  `課題「${issue}」を正常に登録しました。`;
-
-export const DOMAIN_ERROR_MESSAGE = "ドメインエラーが発生しました。";
-
-export const VALIDATION_ERROR_MESSAGE = "入力検証エラーが発生しました。";
-
-export const VALIDATION_CORRECTION_GUIDANCE = "以下の項目を修正して再実行してください：";
-
-export const FILESYSTEM_ERROR_GUIDANCE = {
-  permission_denied: "権限エラーの解決方法：\n" +
-    "• ディレクトリの書き込み権限を確認してください\n" +
-    "• ファイルが他のプロセスで使用されていないか確認してください\n" +
-    "• 管理者権限で実行することを検討してください",
-
-  directory_create_failed: "ディレクトリ作成エラーの解決方法：\n" +
-    "• 親ディレクトリの書き込み権限を確認してください\n" +
-    "• 同名のファイルが存在しないか確認してください\n" +
-    "• パスに無効な文字が含まれていないか確認してください",
-
-  file_write_failed: "ファイル書き込みエラーの解決方法：\n" +
-    "• ファイルの書き込み権限を確認してください\n" +
-    "• ファイルが読み取り専用になっていないか確認してください\n" +
-    "• ファイルが他のアプリケーションで開かれていないか確認してください",
-
-  disk_full: "ディスク容量エラーの解決方法：\n" +
-    "• ディスクの空き容量を確認してください\n" +
-    "• 不要なファイルを削除して容量を確保してください\n" +
-    "• 別のディスクへの保存を検討してください",
-
-  unknown: "予期しないファイルシステムエラーの解決方法：\n" +
-    "• システムの状態を確認してください\n" +
-    "• 一時的な問題の可能性があるため、しばらく待ってから再実行してください\n" +
-    "• 問題が継続する場合は、システム管理者に相談してください"
-};
-
-export const VALIDATION_SPECIFIC_GUIDANCE = {
-  required: (field: string) => `${field}は必須項目です。`,
-  too_short: (field: string) => `${field}は1文字以上で入力してください。`,
-  too_long: (field: string) => {
-    const maxLength = field === 'issue' ? '30' : '60';
-    return `${field}は${maxLength}文字以内で入力してください。`;
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import type { FileSystemError } from '../../../effect/filesystem.js';
+
+const maxLengthOf = (field: string, textLimits: DomainPolicy['textLimits']): number =>
+  field === 'issue' ? textLimits.issue
+    : field === 'context' ? textLimits.context
+    : field === 'successCriteria' ? textLimits.successCriterion
+    : textLimits.constraints;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: 'WRAP意思決定フレームワークの課題定義段階を支援するツール。課題、コンテキスト、制約を構造化して保存し、必須（hard）・希望（soft）の制約と成功基準をリストで登録できます。新しい意思決定を開始します（decisionId を指定すると既存の意思決定の課題を再定義します）。',
+
+    nextAction:
+      "課題が正常に定義されました。次は「Widen Options（選択肢を広げる）」ステップに進み、" +
+      "可能な解決策や選択肢を洗い出しましょう。",
+
+    success: (issue: string) =>
+      `課題「${issue}」を正常に登録しました。`,
+
+    domainError: "ドメインエラーが発生しました。",
+
+    validationError: "入力検証エラーが発生しました。",
+
+    validationCorrection: "以下の項目を修正して再実行してください：",
+
+    invalidParams: "入力パラメータが無効です",
+
+    schemaValidation: {
+      required: (label: string) => `${label}は必須です`,
+      tooLong: (label: string, max: number) => `${label}は${max}文字以内で入力してください`,
+      labels: { issue: '課題', context: 'コンテキスト', constraints: '制約', successCriterion: '成功基準' }
+    },
+
+    fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+
+    fileSystemErrorGuidance: {
+      permission_denied: "権限エラーの解決方法：\n" +
+        "• ディレクトリの書き込み権限を確認してください\n" +
+        "• ファイルが他のプロセスで使用されていないか確認してください\n" +
+        "• 管理者権限で実行することを検討してください",
+
+      directory_create_failed: "ディレクトリ作成エラーの解決方法：\n" +
+        "• 親ディレクトリの書き込み権限を確認してください\n" +
+        "• 同名のファイルが存在しないか確認してください\n" +
+        "• パスに無効な文字が含まれていないか確認してください",
+
+      file_write_failed: "ファイル書き込みエラーの解決方法：\n" +
+        "• ファイルの書き込み権限を確認してください\n" +
+        "• ファイルが読み取り専用になっていないか確認してください\n" +
+        "• ファイルが他のアプリケーションで開かれていないか確認してください",
+
+      disk_full: "ディスク容量エラーの解決方法：\n" +
+        "• ディスクの空き容量を確認してください\n" +
+        "• 不要なファイルを削除して容量を確保してください\n" +
+        "• 別のディスクへの保存を検討してください",
+
+      lock_contention: "ロック競合エラーの解決方法：\n" +
+        "• 他のエージェントやツール呼び出しが同じ意思決定を更新中です\n" +
+        "• しばらく待ってから再実行してください\n" +
+        "• 異常終了したプロセスのロックは一定時間後に自動で解除されます",
+
+      data_corruption: "データ破損エラーの解決方法：\n" +
+        "• 保存データが壊れているか、より新しいバージョンの mcp-decisive で書かれています\n" +
+        "• mcp-decisive を最新版に更新してください\n" +
+        "• 直らない場合は、エラーに示された行を確認するか新しい意思決定を開始してください",
+
+      unknown: "予期しないファイルシステムエラーの解決方法：\n" +
+        "• システムの状態を確認してください\n" +
+        "• 一時的な問題の可能性があるため、しばらく待ってから再実行してください\n" +
+        "• 問題が継続する場合は、システム管理者に相談してください"
+    } satisfies Record<FileSystemError['type'], string>,
+
+    validationGuidance: {
+      required: (field: string) => `${field}は必須項目です。`,
+      too_short: (field: string) => `${field}は1文字以上で入力してください。`,
+      too_long: (field: string, textLimits: DomainPolicy['textLimits']) =>
+        `${field}は${maxLengthOf(field, textLimits)}文字以内で入力してください。`,
+      invalid_type: (field: string) => `${field}は文字列で入力してください。`
+    },
+
+    stateError: {
+      invalidTransition: (from: string, to: string) => `状態遷移エラー: ${from} から ${to} への遷移は無効です`,
+      invalidTransitionGuidance: "現在の状態から有効な遷移を確認してください。",
+      fileSystemGuidance: {
+        permission_denied: "ディレクトリの書き込み権限を確認してください。",
+        disk_full: "ディスクの空き容量を確認してください。",
+        directory_create_failed: "ディレクトリの作成権限を確認してください。",
+        lock_contention: "他の処理が同じ意思決定を更新中です。しばらく待ってから再実行してください。",
+        data_corruption: "データファイルが破損しているか、より新しいバージョンで書かれています。mcp-decisive を更新してください。",
+        unknown: "ファイルシステムの状態を確認してください。"
+      } as Partial<Record<FileSystemError['type'], string>> & { readonly unknown: string },
+      parseError: (message: string) => `データ解析エラー: ${message}`,
+      parseErrorGuidance: "データファイルが破損している可能性があります。強制的に状態をリセットすることを検討してください。",
+      unexpected: `状態管理エラー: 予期しないエラーが発生しました`,
+      unexpectedGuidance: "システム管理者に相談してください。"
+    },
+
+    schemaDescriptions: {
+      issue: (max: number) => `意思決定が必要な課題（1〜${max}文字）`,
+      context: (max: number) => `課題の背景情報（マークダウン形式、1〜${max}文字）`,
+      constraints: (max: number) => `意思決定における制約条件の概要（マークダウン形式、1〜${max}文字）`,
+      constraintKind: 'hard: 満たさない選択肢は採れない制約 / soft: できれば満たしたい希望',
+      constraintText: (max: number) => `制約（1〜${max}文字）`,
+      constraintItems: '選択肢を照らし合わせる個々の制約（順番に constraint-1, constraint-2, ... の ID が振られる）',
+      successCriteria: (max: number) => `決定がうまくいったと言える条件（各1〜${max}文字、順番に criterion-1, criterion-2, ... の ID が振られる）`,
+      decisionId: '課題を再定義する既存の意思決定ID（省略時は新しい意思決定を開始）',
+      output: {
+        constraintId: '制約ID',
+        constraintKind: 'hard: 必須 / soft: 希望',
+        constraintText: '制約',
+        successCriterionId: '成功基準ID',
+        successCriterionText: '成功基準',
+        decisionId: '課題が登録された意思決定ID',
+        issue: '登録された課題',
+        constraintItems: '登録された個々の制約',
+        successCriteria: '登録された成功基準'
+      }
+    }
   },
-  invalid_type: (field: string) => `${field}は文字列で入力してください。`
-};
+  en: {
+    toolDescription: 'Supports the issue-definition stage of the WRAP decision framework. Saves the issue, context and constraints in a structured form, and accepts lists of hard (must) and soft (nice-to-have) constraints and success criteria. Starts a new decision (with a decisionId, redefines the issue of that existing decision).',
+
+    nextAction:
+      "The issue has been defined. Next, move on to the \"Widen Options\" step " +
+      "and list the possible solutions and options.",
+
+    success: (issue: string) =>
+      `Registered the issue "${issue}".`,
+
+    domainError: "A domain error occurred.",
+
+    validationError: "The input is invalid.",
+
+    validationCorrection: "Fix the following and run again:",
+
+    invalidParams: "The input parameters are invalid",
+
+    schemaValidation: {
+      required: (label: string) => `${label} is required`,
+      tooLong: (label: string, max: number) => `${label} must be at most ${max} characters`,
+      labels: { issue: 'The issue', context: 'The context', constraints: 'The constraint', successCriterion: 'The success criterion' }
+    },
+
+    fileSystemError: (message: string) => `File system error: ${message}`,
+
+    fileSystemErrorGuidance: {
+      permission_denied: "How to fix the permission error:\n" +
+        "• Check the write permission of the directory\n" +
+        "• Check that no other process is using the file\n" +
+        "• Consider running with administrator rights",
+
+      directory_create_failed: "How to fix the directory creation error:\n" +
+        "• Check the write permission of the parent directory\n" +
+        "• Check that no file with the same name exists\n" +
+        "• Check that the path contains no invalid characters",
+
+      file_write_failed: "How to fix the file write error:\n" +
+        "• Check the write permission of the file\n" +
+        "• Check that the file is not read-only\n" +
+        "• Check that no other application has the file open",
+
+      disk_full: "How to fix the disk space error:\n" +
+        "• Check the free disk space\n" +
+        "• Delete unneeded files to free up space\n" +
+        "• Consider saving to another disk",
+
+      lock_contention: "How to fix the lock contention error:\n" +
+        "• Another agent or tool call is updating the same decision\n" +
+        "• Wait a moment and run again\n" +
+        "• Locks left by crashed processes are released automatically after a while",
+
+      data_corruption: "How to fix the data corruption error:\n" +
+        "• The saved data is broken or was written by a newer version of mcp-decisive\n" +
+        "• Update mcp-decisive to the latest version\n" +
+        "• If that does not help, check the line named in the error or start a new decision",
+
+      unknown: "How to fix the unexpected file system error:\n" +
+        "• Check the state of the system\n" +
+        "• It may be a temporary problem, so wait a moment and run again\n" +
+        "• If the problem persists, contact your system administrator"
+    },
+
+    validationGuidance: {
+      required: (field: string) => `${field} is required.`,
+      too_short: (field: string) => `${field} must be at least 1 character.`,
+      too_long: (field: string, textLimits: DomainPolicy['textLimits']) =>
+        `${field} must be at most ${maxLengthOf(field, textLimits)} characters.`,
+      invalid_type: (field: string) => `${field} must be a string.`
+    },
+
+    stateError: {
+      invalidTransition: (from: string, to: string) => `State transition error: the transition from ${from} to ${to} is not allowed`,
+      invalidTransitionGuidance: "Check which transitions are allowed from the current state.",
+      fileSystemGuidance: {
+        permission_denied: "Check the write permission of the directory.",
+        disk_full: "Check the free disk space.",
+        directory_create_failed: "Check the permission to create the directory.",
+        lock_contention: "Another process is updating the same decision. Wait a moment and run again.",
+        data_corruption: "The data file is broken or was written by a newer version. Update mcp-decisive.",
+        unknown: "Check the state of the file system."
+      },
+      parseError: (message: string) => `Data parse error: ${message}`,
+      parseErrorGuidance: "The data file may be broken. Consider forcing a reset of the state.",
+      unexpected: `State management error: an unexpected error occurred`,
+      unexpectedGuidance: "Contact your system administrator."
+    },
 
-export const INVALID_PARAMS_MESSAGE = "入力パラメータが無効です";
\ No newline at end of file
+    schemaDescriptions: {
+      issue: (max: number) => `The issue that needs a decision (1 to ${max} characters)`,
+      context: (max: number) => `Background of the issue (markdown, 1 to ${max} characters)`,
+      constraints: (max: number) => `Summary of the constraints on the decision (markdown, 1 to ${max} characters)`,
+      constraintKind: 'hard: an option that does not meet it cannot be taken / soft: a wish to meet if possible',
+      constraintText: (max: number) => `The constraint (1 to ${max} characters)`,
+      constraintItems: 'Individual constraints to check the options against (given the IDs constraint-1, constraint-2, ... in order)',
+      successCriteria: (max: number) => `Conditions under which the decision can be called a success (1 to ${max} characters each, given the IDs criterion-1, criterion-2, ... in order)`,
+      decisionId: 'Existing decision ID whose issue is redefined (starts a new decision when omitted)',
+      output: {
+        constraintId: 'Constraint ID',
+        constraintKind: 'hard: required / soft: wish',
+        constraintText: 'The constraint',
+        successCriterionId: 'Success criterion ID',
+        successCriterionText: 'The success criterion',
+        decisionId: 'Decision ID the issue was registered to',
+        issue: 'The registered issue',
+        constraintItems: 'The registered individual constraints',
+        successCriteria: 'The registered success criteria'
+      }
+    }
+  }
+});
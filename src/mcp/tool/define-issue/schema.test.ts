@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { defineIssueSchema, defineIssueOutputSchema, type DefineIssueParams, type DefineIssueResponse } from './schema';
+import { createDefineIssueSchema, createDefineIssueOutputSchema, type DefineIssueParams, type DefineIssueResponse } from './schema';
+import { DEFAULT_DOMAIN_POLICY } from '../../../domain/term/domain-policy';
+
+const defineIssueSchema = createDefineIssueSchema(DEFAULT_DOMAIN_POLICY);
 
 describe('defineIssueSchema', () => {
   describe('正常系', () => {
@@ -137,15 +140,32 @@ describe('defineIssueSchema', () => {
       }
     });
   });
+
+  describe('ポリシー', () => {
+    it('設定したポリシーの文字数上限で検証する', () => {
+      const schema = createDefineIssueSchema({
+        ...DEFAULT_DOMAIN_POLICY,
+        textLimits: { ...DEFAULT_DOMAIN_POLICY.textLimits, constraints: 200 }
+      });
+
+      const result = schema.safeParse({
+        issue: '課題',
+        context: 'コンテキスト',
+        constraints: 'c'.repeat(200)
+      });
+      expect(result.success).toBe(true);
+    });
+  });
 });
 
 describe('defineIssueOutputSchema', () => {
   it('有効な出力データを正常に検証する', () => {
     const validOutput = {
+      decisionId: 'decision-1',
       issue: '新機能の優先順位決定'
     };
 
-    const result = defineIssueOutputSchema.safeParse(validOutput);
+    const result = createDefineIssueOutputSchema().safeParse(validOutput);
     expect(result.success).toBe(true);
     
     if (result.success) {
@@ -156,7 +176,7 @@ describe('defineIssueOutputSchema', () => {
   it('issueフィールドが欠けている場合、バリデーションエラーが発生する', () => {
     const invalidOutput = {};
 
-    const result = defineIssueOutputSchema.safeParse(invalidOutput);
+    const result = createDefineIssueOutputSchema().safeParse(invalidOutput);
     expect(result.success).toBe(false);
   });
 });
@@ -1,26 +1,81 @@
 import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import { prompts } from './prompt.js';
 
-export const defineIssueSchema = z.object({
-  issue: z.string()
-    .min(1, "課題は必須です")
-    .max(30, "課題は30文字以内で入力してください")
-    .describe("意思決定が必要な課題（1〜30文字）"),
-  
-  context: z.string()
-    .min(1, "コンテキストは必須です")
-    .max(60, "コンテキストは60文字以内で入力してください")
-    .describe("課題の背景情報（マークダウン形式、1〜60文字）"),
-  
-  constraints: z.string()
-    .min(1, "制約は必須です")
-    .max(60, "制約は60文字以内で入力してください")
-    .describe("意思決定における制約条件（マークダウン形式、1〜60文字）")
-});
-
-export const defineIssueOutputSchema = z.object({
-  issue: z.string().describe("登録された課題")
-});
-
-export type DefineIssueParams = z.infer<typeof defineIssueSchema>;
-export const defineIssueParams = defineIssueSchema.shape;
-export type DefineIssueResponse = z.infer<typeof defineIssueOutputSchema>;
\ No newline at end of file
+// Input schema - 文字数の上限は DomainPolicy から、説明と検証メッセージは作った時点のロケールで作る
+export const createDefineIssueSchema = (policy: DomainPolicy) => {
+  const { issue, context, constraints, successCriterion } = policy.textLimits;
+  const { schemaValidation: { required, tooLong, labels }, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    issue: z.string()
+      .min(1, required(labels.issue))
+      .max(issue, tooLong(labels.issue, issue))
+      .describe(text.issue(issue)),
+    
+    context: z.string()
+      .min(1, required(labels.context))
+      .max(context, tooLong(labels.context, context))
+      .describe(text.context(context)),
+    
+    constraints: z.string()
+      .min(1, required(labels.constraints))
+      .max(constraints, tooLong(labels.constraints, constraints))
+      .describe(text.constraints(constraints)),
+
+    constraintItems: z.array(z.object({
+      kind: z.enum(['hard', 'soft'])
+        .describe(text.constraintKind),
+      text: z.string()
+        .min(1, required(labels.constraints))
+        .max(constraints, tooLong(labels.constraints, constraints))
+        .describe(text.constraintText(constraints))
+    }))
+      .optional()
+      .describe(text.constraintItems),
+
+    successCriteria: z.array(z.string()
+      .min(1, required(labels.successCriterion))
+      .max(successCriterion, tooLong(labels.successCriterion, successCriterion)))
+      .optional()
+      .describe(text.successCriteria(successCriterion)),
+
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+export const createConstraintItemOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    id: z.string().describe(text.constraintId),
+    kind: z.enum(['hard', 'soft']).describe(text.constraintKind),
+    text: z.string().describe(text.constraintText)
+  });
+};
+
+export const createSuccessCriterionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    id: z.string().describe(text.successCriterionId),
+    text: z.string().describe(text.successCriterionText)
+  });
+};
+
+export const createDefineIssueOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    decisionId: z.string().describe(text.decisionId),
+    issue: z.string().describe(text.issue),
+    constraintItems: z.array(createConstraintItemOutputSchema()).optional().describe(text.constraintItems),
+    successCriteria: z.array(createSuccessCriterionOutputSchema()).optional().describe(text.successCriteria)
+  });
+};
+
+export type DefineIssueParams = z.infer<ReturnType<typeof createDefineIssueSchema>>;
+export type DefineIssueResponse = z.infer<ReturnType<typeof createDefineIssueOutputSchema>>;
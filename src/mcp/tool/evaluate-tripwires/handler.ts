@@ -0,0 +1,109 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { PrepareToBeWrongAggregate } from '../../../domain/command/prepare-to-be-wrong.js';
+import { TripwireConditionModel } from '../../../domain/term/tripwire.js';
+import { getCurrentTripwires, formatTripwiresReadError } from '../../../domain/read/tripwires/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { EvaluateTripwiresParams, EvaluateTripwiresResponse } from './schema.js';
+
+const SEVERITY_ORDER = ['critical', 'high', 'medium', 'low'] as const;
+
+/**
+ * Evaluate Tripwires Tool Handler
+ *
+ * 観測値を撤退基準の判定条件と突き合わせ、抵触した基準を重要度ごとに返す
+ */
+export const evaluateTripwiresHandler = async (
+  args: EvaluateTripwiresParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const tripwiresResult = await getCurrentTripwires(decisionId);
+  if (tripwiresResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatTripwiresReadError(tripwiresResult.error)}`], true);
+  }
+  const tripwires = tripwiresResult.value.tripwires;
+
+  const commandResult = PrepareToBeWrongAggregate.evaluateTripwires({
+    observations: args.observations,
+    currentTripwires: tripwires
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${PrepareToBeWrongAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  // critical に抵触していれば、ここでワークフローが再検討中に移る
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const observedMetrics = new Set<string>(event.observations.map(observation => observation.metric));
+  const criteria = tripwires.flatMap(tripwire => tripwire.criteria);
+  const conditions = criteria.flatMap(criterion => (criterion.condition ? [criterion.condition] : []));
+
+  const fired = event.firedCriteria.flatMap(firedCriterion => {
+    const criterion = criteria.find(candidate => candidate.id === firedCriterion.criterionId);
+    return criterion?.condition
+      ? [{ ...firedCriterion, description: criterion.description, condition: criterion.condition }]
+      : [];
+  });
+  const bySeverity = (severity: typeof SEVERITY_ORDER[number]) =>
+    fired
+      .filter(item => item.severity === severity)
+      .map(item => ({
+        optionId: item.optionId,
+        criterionId: item.criterionId,
+        description: item.description,
+        condition: { ...item.condition },
+        observedValue: item.observedValue
+      }));
+
+  const reconsiderRequired = fired.some(item => item.severity === 'critical');
+
+  const response: EvaluateTripwiresResponse = {
+    fired: {
+      critical: bySeverity('critical'),
+      high: bySeverity('high'),
+      medium: bySeverity('medium'),
+      low: bySeverity('low')
+    },
+    evaluatedCriteriaCount: conditions.filter(condition => observedMetrics.has(condition.metric)).length,
+    unobservedMetrics: [...new Set<string>(conditions.map(condition => condition.metric))]
+      .filter(metric => !observedMetrics.has(metric)),
+    reconsiderRequired
+  };
+
+  const firedText = fired.length > 0
+    ? SEVERITY_ORDER
+        .filter(severity => fired.some(item => item.severity === severity))
+        .map(severity =>
+          `[${severity}]\n` + fired
+            .filter(item => item.severity === severity)
+            .map(item => `  - ${prompts().firedCriterion(item.description, TripwireConditionModel.format(item.condition), item.observedValue)}`)
+            .join('\n')
+        )
+        .join('\n')
+    : prompts().noneFired;
+
+  const nextActionPrompt = reconsiderRequired
+    ? prompts().reconsider
+    : fired.length > 0 ? prompts().fired : prompts().notFired;
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().evaluated(response.evaluatedCriteriaCount, firedText) +
+        (response.unobservedMetrics.length > 0 ? `\n${prompts().unobservedMetrics(response.unobservedMetrics.join(', '))}` : ''),
+      nextActionPrompt
+    ],
+    false
+  );
+};
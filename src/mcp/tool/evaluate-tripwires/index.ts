@@ -0,0 +1,18 @@
+import { createEvaluateTripwiresSchema, createEvaluateTripwiresOutputSchema } from './schema.js';
+import { evaluateTripwiresHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const evaluateTripwiresTool = {
+  name: 'evaluate-tripwires',
+  title: 'Evaluate Tripwires',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createEvaluateTripwiresSchema().shape;
+  },
+  get outputSchema() {
+    return createEvaluateTripwiresOutputSchema();
+  },
+  handler: evaluateTripwiresHandler
+};
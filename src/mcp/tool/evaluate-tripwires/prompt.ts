@@ -0,0 +1,104 @@
+// Pure prompt strings for evaluate-tripwires tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+観測した指標の値を、保存済みの撤退基準（トリップワイヤー）の判定条件と突き合わせるツールです。
+
+## 判定
+- 撤退基準の condition（指標・比較演算子・数値）について「観測値 比較演算子 数値」が成り立つと抵触とみなします
+- condition を持たない撤退基準、観測値が与えられなかった指標の撤退基準は判定されません
+- 結果は重要度（critical / high / medium / low）ごとにまとめて返します
+
+critical な撤退基準に1つでも抵触すると、意思決定は「再検討中」に移ります。
+`,
+    evaluated: (count: number, fired: string) => `✅ ${count}件の撤退基準を評価しました:\n${fired}`,
+    firedCriterion: (description: string, condition: string, observedValue: number) =>
+      `${description}（${condition}、観測値: ${observedValue}）`,
+    noneFired: '抵触した撤退基準はありません',
+    unobservedMetrics: (metrics: string) => `観測値がなく判定できなかった指標: ${metrics}`,
+    reconsider: `
+NEXT ACTION: critical な撤退基準に抵触しました。この選択を続ける前に見直してください。
+選択肢を出し直す（register_options）、前提を検証し直す（register-assumptions）、距離を置いて再評価する（record-distance-evaluation）のいずれかで判断を更新してください。`,
+    fired: `
+NEXT ACTION: 抵触した撤退基準があります。重要度の高いものから、対策が必要かを検討してください。`,
+    notFired: `
+NEXT ACTION: 抵触した撤退基準はありません。引き続き指標を観測し、定期的に評価してください。`,
+
+    schemaValidation: {
+      observationsEmpty: '観測値を1つ以上入力してください'
+    },
+
+    schemaDescriptions: {
+      metric: '指標名（撤退基準の condition.metric と一致させる）',
+      value: '観測した値',
+      observations: '観測した指標の値',
+      decisionId: '撤退基準を評価する意思決定ID（省略時はアクティブな意思決定）',
+      firedCriterion: {
+        optionId: '撤退基準が設定されている選択肢ID',
+        criterionId: '抵触した撤退基準ID',
+        description: '撤退基準の説明',
+        condition: '抵触した判定条件',
+        observedValue: '観測値'
+      },
+      output: {
+        fired: '重要度ごとの抵触した撤退基準',
+        evaluatedCriteriaCount: '観測値があり判定できた撤退基準の数',
+        unobservedMetrics: '判定条件にあるが観測値が与えられなかった指標',
+        reconsiderRequired: 'critical な撤退基準に抵触し、再検討が必要かどうか'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Checks observed metric values against the conditions of the saved trip wires.
+
+## Evaluation
+- A trip wire fires when "observed value comparator value" holds for its condition (metric, comparator and value)
+- Trip wires without a condition, and trip wires on metrics without an observed value, are not evaluated
+- Results are grouped by severity (critical / high / medium / low)
+
+If even one critical trip wire fires, the decision moves to "reconsidering".
+`,
+    evaluated: (count: number, fired: string) => `✅ Evaluated ${count} trip wires:\n${fired}`,
+    firedCriterion: (description: string, condition: string, observedValue: number) =>
+      `${description} (${condition}, observed: ${observedValue})`,
+    noneFired: 'No trip wire fired',
+    unobservedMetrics: (metrics: string) => `Metrics that could not be evaluated for lack of an observed value: ${metrics}`,
+    reconsider: `
+NEXT ACTION: A critical trip wire fired. Revisit the choice before continuing with it.
+Update the decision by generating options again (register_options), testing the premises again (register-assumptions) or re-evaluating from a distance (record-distance-evaluation).`,
+    fired: `
+NEXT ACTION: Some trip wires fired. Starting from the most severe, consider whether action is needed.`,
+    notFired: `
+NEXT ACTION: No trip wire fired. Keep observing the metrics and evaluate them regularly.`,
+
+    schemaValidation: {
+      observationsEmpty: 'Enter at least one observation'
+    },
+
+    schemaDescriptions: {
+      metric: 'Name of the metric (match the condition.metric of the trip wire)',
+      value: 'Observed value',
+      observations: 'Observed values of the metrics',
+      decisionId: 'Decision whose trip wires are evaluated (defaults to the active decision)',
+      firedCriterion: {
+        optionId: 'ID of the option the trip wire is set on',
+        criterionId: 'ID of the trip wire that fired',
+        description: 'Description of the trip wire',
+        condition: 'The condition that fired',
+        observedValue: 'Observed value'
+      },
+      output: {
+        fired: 'Trip wires that fired, by severity',
+        evaluatedCriteriaCount: 'Number of trip wires that could be evaluated because their metric was observed',
+        unobservedMetrics: 'Metrics in conditions for which no observation was given',
+        reconsiderRequired: 'Whether a critical trip wire fired and the decision must be reconsidered'
+      }
+    }
+  }
+});
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createConditionSchema } from '../make-tripwire/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createEvaluateTripwiresSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    observations: z.array(z.object({
+      metric: z.string().describe(text.metric),
+      value: z.number().describe(text.value)
+    }))
+      .min(1, validation.observationsEmpty)
+      .describe(text.observations),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+const createFiredCriterionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.firedCriterion;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    criterionId: z.string().describe(text.criterionId),
+    description: z.string().describe(text.description),
+    condition: createConditionSchema().describe(text.condition),
+    observedValue: z.number().describe(text.observedValue)
+  });
+};
+
+export const createEvaluateTripwiresOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+  const firedCriterionOutputSchema = createFiredCriterionOutputSchema();
+
+  return z.object({
+    fired: z.object({
+      critical: z.array(firedCriterionOutputSchema),
+      high: z.array(firedCriterionOutputSchema),
+      medium: z.array(firedCriterionOutputSchema),
+      low: z.array(firedCriterionOutputSchema)
+    }).describe(text.fired),
+    evaluatedCriteriaCount: z.number().describe(text.evaluatedCriteriaCount),
+    unobservedMetrics: z.array(z.string()).describe(text.unobservedMetrics),
+    reconsiderRequired: z.boolean().describe(text.reconsiderRequired)
+  });
+};
+
+export type EvaluateTripwiresParams = z.infer<ReturnType<typeof createEvaluateTripwiresSchema>>;
+export type EvaluateTripwiresResponse = z.infer<ReturnType<typeof createEvaluateTripwiresOutputSchema>>;
@@ -0,0 +1,45 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  getDecisionRecord,
+  serializeDecisionRecord,
+  renderDecisionRecordMarkdown,
+  formatDecisionRecordReadError
+} from '../../../domain/read/decision-record/index.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { ExportDecisionParams, ExportDecisionResponse } from './schema.js';
+
+/**
+ * Export Decision Tool Handler
+ *
+ * 意思決定を MADR 形式の Markdown と JSON バンドルとして書き出す
+ */
+export const exportDecisionHandler = async (
+  args: ExportDecisionParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+
+  const recordResult = await getDecisionRecord(decisionResult.value);
+  if (recordResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionRecordReadError(recordResult.error)}`], true);
+  }
+  const view = recordResult.value;
+  if (view === null) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${prompts().issueNotDefined}`], true);
+  }
+
+  const response: ExportDecisionResponse = {
+    markdown: renderDecisionRecordMarkdown(view),
+    bundle: serializeDecisionRecord(view)
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [response.markdown, prompts().nextAction],
+    false
+  );
+};
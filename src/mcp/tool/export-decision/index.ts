@@ -0,0 +1,18 @@
+import { createExportDecisionSchema, createExportDecisionOutputSchema } from './schema.js';
+import { exportDecisionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const exportDecisionTool = {
+  name: 'export-decision',
+  title: 'Export Decision',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createExportDecisionSchema().shape;
+  },
+  get outputSchema() {
+    return createExportDecisionOutputSchema();
+  },
+  handler: exportDecisionHandler
+};
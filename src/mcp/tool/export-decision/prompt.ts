@@ -0,0 +1,114 @@
+// Pure prompt strings for export-decision tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+意思決定を、リポジトリに残せる決定記録（ADR）として書き出すツールです。
+
+## 書き出す内容
+- 課題（課題・背景・制約）
+- Widen Options の各ステップで登録した選択肢の変遷
+- 選択肢ごとの撤退基準
+- 最終決定（選んだ選択肢・理由・選ばなかった理由・レビュー予定日）
+
+MADR テンプレートに沿った Markdown と、同じ内容の JSON バンドルを返します。
+同じ内容は decisive://decisions/{decisionId}/record.md と record.json リソースからも取得できます。
+`,
+    issueNotDefined: '課題が定義されていないため、書き出す内容がありません。先に define_issue ツールで課題を定義してください',
+    nextAction: `
+NEXT ACTION: Markdown をユーザーに提示し、リポジトリの ADR ディレクトリ（例: docs/decisions/）に保存するか確認してください。`,
+
+    schemaDescriptions: {
+      decisionId: '書き出す意思決定ID（省略時はアクティブな意思決定）',
+      option: {
+        id: '選択肢ID',
+        text: '選択肢のテキスト',
+        supplementaryInfo: '選択肢の補足情報'
+      },
+      bundle: {
+        decisionId: '意思決定ID',
+        status: 'MADR のステータス（決定を記録済みなら accepted、決定後に critical な撤退基準に抵触して再検討中なら rejected）',
+        workflowStateCurrent: 'ワークフロー状態',
+        workflowStateDisplayName: '状態の表示名',
+        workflowState: 'ワークフロー状態',
+        startedAt: '意思決定を開始した日時（ISO 8601）',
+        issueText: '課題',
+        context: '背景',
+        constraints: '制約',
+        constraintItems: '個々の制約（hard: 必須 / soft: 希望）',
+        successCriteria: '成功基準',
+        issue: '課題',
+        options: '現在の選択肢',
+        step: 'Widen Options のステップ',
+        stepDisplayName: 'ステップの表示名',
+        stepOptions: 'そのステップで登録した選択肢',
+        optionHistory: 'Widen Options のステップごとに登録した選択肢の変遷',
+        tripwireOptionId: '選択肢ID',
+        criteria: '撤退基準',
+        tripwires: '選択肢ごとの撤退基準',
+        finalDecision: '記録した決定'
+      },
+      output: {
+        markdown: 'MADR 形式の Markdown',
+        bundle: '同じ内容の JSON バンドル'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Exports the decision as a decision record (ADR) that can be kept in a repository.
+
+## What is exported
+- The issue (issue, context and constraints)
+- How the options changed over the steps of Widen Options
+- The trip wires of each option
+- The final decision (chosen option, rationale, reasons for rejecting the others and review date)
+
+Returns Markdown following the MADR template and a JSON bundle with the same content.
+The same content is available from the decisive://decisions/{decisionId}/record.md and record.json resources.
+`,
+    issueNotDefined: 'There is nothing to export because the issue has not been defined. Define it with the define_issue tool first',
+    nextAction: `
+NEXT ACTION: Show the Markdown to the user and ask whether to save it in the repository's ADR directory (e.g. docs/decisions/).`,
+
+    schemaDescriptions: {
+      decisionId: 'Decision to export (defaults to the active decision)',
+      option: {
+        id: 'Option ID',
+        text: 'Text of the option',
+        supplementaryInfo: 'Supplementary information about the option'
+      },
+      bundle: {
+        decisionId: 'Decision ID',
+        status: 'MADR status (accepted once the decision is recorded, rejected while it is reconsidered after a critical trip wire fired)',
+        workflowStateCurrent: 'Workflow state',
+        workflowStateDisplayName: 'Display name of the state',
+        workflowState: 'Workflow state',
+        startedAt: 'When the decision was started (ISO 8601)',
+        issueText: 'The issue',
+        context: 'Background',
+        constraints: 'Constraints',
+        constraintItems: 'Individual constraints (hard: required / soft: wish)',
+        successCriteria: 'Success criteria',
+        issue: 'The issue',
+        options: 'The current options',
+        step: 'Widen Options step',
+        stepDisplayName: 'Display name of the step',
+        stepOptions: 'Options registered in that step',
+        optionHistory: 'How the options changed over the Widen Options steps',
+        tripwireOptionId: 'Option ID',
+        criteria: 'Trip wires',
+        tripwires: 'Trip wires of each option',
+        finalDecision: 'The recorded decision'
+      },
+      output: {
+        markdown: 'Markdown in MADR format',
+        bundle: 'JSON bundle with the same content'
+      }
+    }
+  }
+});
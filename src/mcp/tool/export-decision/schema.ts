@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createCriterionOutputSchema } from '../make-tripwire/schema.js';
+import { createFinalDecisionOutputSchema } from '../make-decision/schema.js';
+import { createConstraintItemOutputSchema, createSuccessCriterionOutputSchema } from '../define-issue/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createExportDecisionSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+const createOptionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.option;
+
+  return z.object({
+    id: z.string().describe(text.id),
+    text: z.string().describe(text.text),
+    supplementaryInfo: z.string().optional().describe(text.supplementaryInfo)
+  });
+};
+
+// Output schema - JSON bundle of the decision record
+export const createDecisionRecordBundleSchema = () => {
+  const text = prompts().schemaDescriptions.bundle;
+  const optionOutputSchema = createOptionOutputSchema();
+
+  return z.object({
+    decisionId: z.string().describe(text.decisionId),
+    status: z.enum(['proposed', 'accepted', 'rejected']).describe(text.status),
+    workflowState: z.object({
+      current: z.string().describe(text.workflowStateCurrent),
+      displayName: z.string().describe(text.workflowStateDisplayName)
+    }).describe(text.workflowState),
+    startedAt: z.string().optional().describe(text.startedAt),
+    issue: z.object({
+      issue: z.string().describe(text.issueText),
+      context: z.string().describe(text.context),
+      constraints: z.string().describe(text.constraints),
+      constraintItems: z.array(createConstraintItemOutputSchema()).describe(text.constraintItems),
+      successCriteria: z.array(createSuccessCriterionOutputSchema()).describe(text.successCriteria)
+    }).describe(text.issue),
+    options: z.array(optionOutputSchema).describe(text.options),
+    optionHistory: z.array(z.object({
+      step: z.string().describe(text.step),
+      stepDisplayName: z.string().describe(text.stepDisplayName),
+      options: z.array(optionOutputSchema).describe(text.stepOptions)
+    })).describe(text.optionHistory),
+    tripwires: z.array(z.object({
+      optionId: z.string().describe(text.tripwireOptionId),
+      criteria: z.array(createCriterionOutputSchema()).describe(text.criteria)
+    })).describe(text.tripwires),
+    finalDecision: createFinalDecisionOutputSchema().optional().describe(text.finalDecision)
+  });
+};
+
+export const createExportDecisionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    markdown: z.string().describe(text.markdown),
+    bundle: createDecisionRecordBundleSchema().describe(text.bundle)
+  });
+};
+
+export type ExportDecisionParams = z.infer<ReturnType<typeof createExportDecisionSchema>>;
+export type ExportDecisionResponse = z.infer<ReturnType<typeof createExportDecisionOutputSchema>>;
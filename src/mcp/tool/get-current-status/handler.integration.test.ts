@@ -11,7 +11,13 @@ const __dirname = path.dirname(__filename);
 
 // Test data directory
 const TEST_DATA_DIR = path.join(__dirname, '../../../../.test-data');
-const ISSUE_FILE_PATH = path.join(TEST_DATA_DIR, 'issue.json');
+
+// アクティブな意思決定のジャーナルファイルのパスを取得
+const activeJournalFilePath = async (): Promise<string> => {
+  const activeFile = path.join(TEST_DATA_DIR, 'active-decision.json');
+  const { decisionId } = JSON.parse(await fs.readFile(activeFile, 'utf-8'));
+  return path.join(TEST_DATA_DIR, 'decisions', decisionId, 'journal.jsonl');
+};
 
 describe('getCurrentStatus Integration Tests', () => {
   beforeEach(async () => {
@@ -75,9 +81,14 @@ describe('getCurrentStatus Integration Tests', () => {
       });
     });
 
-    it('should handle corrupted issue file gracefully', async () => {
-      // Given - Create a corrupted issue file
-      await fs.writeFile(ISSUE_FILE_PATH, 'invalid json content', 'utf-8');
+    it('should handle corrupted journal file gracefully', async () => {
+      // Given - Start a decision and corrupt its journal
+      await defineIssueHandler({
+        issue: '破損テスト',
+        context: '破損ファイルの検証',
+        constraints: 'なし'
+      });
+      await fs.writeFile(await activeJournalFilePath(), 'invalid json content', 'utf-8');
 
       // When
       const result = await getCurrentStatusHandler({});
@@ -105,7 +116,7 @@ describe('getCurrentStatus Integration Tests', () => {
         constraints: '読み取り権限なし'
       });
       
-      await fs.chmod(ISSUE_FILE_PATH, 0o000);
+      await fs.chmod(await activeJournalFilePath(), 0o000);
 
       try {
         // When
@@ -116,7 +127,7 @@ describe('getCurrentStatus Integration Tests', () => {
         expect(result.content.some(c => c.text.includes('ファイルシステムエラー'))).toBe(true);
       } finally {
         // Restore permissions for cleanup
-        await fs.chmod(ISSUE_FILE_PATH, 0o644);
+        await fs.chmod(await activeJournalFilePath(), 0o644);
       }
     });
   });
@@ -25,6 +25,12 @@ vi.mock('../../../domain/read/current-status/index.js', () => ({
   })
 }));
 
+// Mock decision resolution so that the handler always targets one decision
+vi.mock('../../../effect/decision-storage.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../effect/decision-storage.js')>()),
+  resolveDecisionId: vi.fn(async () => ok('decision-test'))
+}));
+
 describe('getCurrentStatusHandler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
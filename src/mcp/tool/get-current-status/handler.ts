@@ -1,12 +1,37 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { GetCurrentStatusResponse, getCurrentStatusSchema } from './schema.js';
+import { GetCurrentStatusResponse, createGetCurrentStatusSchema } from './schema.js';
 import { toStructuredCallToolResult } from '../util.js';
-import { getCurrentIssueStatus, serializeStatusView, formatReadError } from '../../../domain/read/current-status/index.js';
-import { getCurrentOptions, serializeOptionsView, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import { prompts } from './prompt.js';
+import { getCurrentIssueStatus, serializeStatusView, formatIssueCriteria, formatReadError } from '../../../domain/read/current-status/index.js';
+import {
+  getCurrentOptions,
+  serializeOptionsView,
+  formatOptionChallenge,
+  formatOptionsReadError
+} from '../../../domain/read/options/index.js';
+import { getCurrentAssumptions, serializeAssumptionView, formatAssumptionLine } from '../../../domain/read/assumptions/index.js';
 import type { IssueStatusView, ReadError } from '../../../domain/read/current-status/types.js';
 import type { OptionsView, OptionsReadError } from '../../../domain/read/options/types.js';
+import type { AssumptionsView } from '../../../domain/read/assumptions/types.js';
+import { getCurrentDistanceEvaluations, serializeDistanceEvaluation } from '../../../domain/read/distance-evaluations/index.js';
+import type { DistanceEvaluationsView } from '../../../domain/read/distance-evaluations/types.js';
+import { getCurrentTripwires, serializeTripwire, formatTripwire } from '../../../domain/read/tripwires/index.js';
+import type { TripwiresView } from '../../../domain/read/tripwires/types.js';
+import { getCurrentFinalDecision, serializeFinalDecisionView, formatFinalDecision } from '../../../domain/read/final-decision/index.js';
+import type { FinalDecisionView } from '../../../domain/read/final-decision/types.js';
+import { getCurrentOptionScores, serializeScoreMatrixView, formatScoreMatrix } from '../../../domain/read/option-scores/index.js';
+import type { ScoreMatrixView } from '../../../domain/read/option-scores/types.js';
+import {
+  getCurrentConstraintChecks,
+  findHardConstraintViolations,
+  serializeConstraintCheck,
+  formatConstraintChecks
+} from '../../../domain/read/constraint-checks/index.js';
+import type { ConstraintChecksView } from '../../../domain/read/constraint-checks/types.js';
 import { getCurrentState } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
 import { getDisplayName } from '../../../domain/term/workflow-state.js';
+import { DecisionId } from '../../../domain/term/decision.js';
 
 /**
  * Get Current Status Tool Handler
@@ -25,56 +50,179 @@ import { getDisplayName } from '../../../domain/term/workflow-state.js';
 /**
  * Generate success response when issue exists
  */
-const generateIssueExistsResponse = async (statusView: IssueStatusView, optionsView: OptionsView | null): Promise<CallToolResult> => {
+const generateIssueExistsResponse = async (
+  decisionId: DecisionId,
+  statusView: IssueStatusView,
+  optionsView: OptionsView | null,
+  assumptionsView: AssumptionsView | null,
+  distanceEvaluationsView: DistanceEvaluationsView | null,
+  tripwiresView: TripwiresView | null,
+  scoreMatrixView: ScoreMatrixView | null,
+  finalDecisionView: FinalDecisionView | null,
+  constraintChecksView: ConstraintChecksView | null
+): Promise<CallToolResult> => {
+  const messages = prompts();
   const serializedView = serializeStatusView(statusView);
   const serializedOptions = optionsView ? serializeOptionsView(optionsView) : null;
+  const assumptions = assumptionsView?.assumptions ?? [];
+  const optionIds = optionsView?.options.map(option => option.id) ?? [];
+  // 現在の選択肢に対する評価だけを数える
+  const distanceEvaluations = (distanceEvaluationsView?.evaluations ?? [])
+    .filter(evaluation => optionIds.includes(evaluation.optionId));
+  const isDistanceAttained = optionIds.length > 0 && distanceEvaluations.length === optionIds.length;
+  const tripwires = (tripwiresView?.tripwires ?? [])
+    .filter(tripwire => optionIds.includes(tripwire.optionId));
+  const constraintChecks = constraintChecksView ?? { checks: [] };
+  const hardConstraintViolations = findHardConstraintViolations(constraintChecks, statusView.constraintItems);
+  const optionText = (optionId: string) =>
+    optionsView?.options.find(option => option.id === optionId)?.text ?? optionId;
+  const challenges = optionsView?.challenges ?? [];
+  const openCounterpointCount = challenges
+    .flatMap(challenge => challenge.counterpoints)
+    .filter(counterpoint => !counterpoint.status?.addressed).length;
   
   // ワークフロー状態を取得
-  const workflowStateResult = await getCurrentState();
+  const workflowStateResult = await getCurrentState(decisionId);
   const workflowState = workflowStateResult.isOk() ? workflowStateResult.value : { type: 'undefined' as const };
   
   // Widen Options が最後の fixed である場合の条件チェック
   const isWidenOptionsLastFixed = workflowState.type === 'options_fixed';
   
-  const nextActionGuidance = optionsView 
-    ? "課題と選択肢が定義されています。次のアクションを検討してください：\n" +
-      "• Reality-Test Assumptions（仮説を現実検証する）- 前提条件を検証する\n" +
-      "• Attain Distance（距離を置いて判断する）- 客観的な視点で評価する\n" +
-      "• Prepare to be Wrong（間違いに備える）- リスクと対策を検討する" +
-      (isWidenOptionsLastFixed ? "\n• 何もしない（そのリソースを他に使う）" : "")
-    : "課題が定義されています。次のアクションを検討してください：\n" +
-      "• Widen Options（選択肢を広げる）- 可能な解決策を洗い出す\n" +
-      "• Reality-Test Assumptions（仮説を現実検証する）- 前提条件を検証する\n" +
-      "• Attain Distance（距離を置いて判断する）- 客観的な視点で評価する\n" +
-      "• Prepare to be Wrong（間違いに備える）- リスクと対策を検討する";
+  const untestedCount = assumptions.filter(assumption => assumption.testResult === null).length;
+  const realityTestGuidance = untestedCount > 0
+    ? messages.realityTest.untested(untestedCount)
+    : messages.realityTest.notStarted;
+
+  const counterpointsGuidance = openCounterpointCount > 0
+    ? messages.counterpoints.open(openCounterpointCount)
+    : challenges.length === 0
+      ? messages.counterpoints.notStarted
+      : "";
+
+  const attainDistanceGuidance = isDistanceAttained
+    ? messages.attainDistance.attained(optionIds.length)
+    : distanceEvaluations.length > 0
+      ? messages.attainDistance.inProgress(distanceEvaluations.length, optionIds.length)
+      : messages.attainDistance.notStarted;
+
+  const prepareToBeWrongGuidance = tripwires.length > 0
+    ? messages.prepareToBeWrong.inProgress(tripwires.length, optionIds.length)
+    : messages.prepareToBeWrong.notStarted;
+
+  // critical な撤退基準に抵触した場合は、他のどのステップよりも先に選択の見直しを促す
+  const firedCriticalCount = tripwiresView?.lastEvaluation?.firedCriteria
+    .filter(criterion => criterion.severity === 'critical').length ?? 0;
+  const reconsiderGuidance = workflowState.type === 'reconsidering'
+    ? messages.reconsider(firedCriticalCount)
+    : "";
+
+  // 必須の制約に反する選択肢は、採る前に見直すよう先に示す
+  const constraintGuidance = hardConstraintViolations.length > 0
+    ? messages.constraintViolations(hardConstraintViolations.map(violation =>
+        messages.constraintViolation(optionText(violation.optionId), violation.constraintIds.join(', '))
+      ).join(' / '))
+    : optionsView && statusView.constraintItems.length > 0 && constraintChecks.checks.length === 0
+      ? messages.constraintsUnchecked
+      : "";
+
+  // 決定済み・レビュー中は、WRAPの各ステップより決定の扱いを先に示す
+  const decisionGuidance = !finalDecisionView
+    ? ""
+    : workflowState.type === 'under_review'
+      ? messages.decision.underReview
+      : workflowState.type === 'decided'
+        ? (finalDecisionView.decision.reviewDate.getTime() <= Date.now()
+            ? messages.decision.reviewDue
+            : messages.decision.decided(serializeFinalDecisionView(finalDecisionView).reviewDate))
+        : "";
+
+  const nextActionGuidance = reconsiderGuidance + constraintGuidance + decisionGuidance + (optionsView 
+    ? messages.nextActionsWithOptions +
+      realityTestGuidance +
+      counterpointsGuidance +
+      attainDistanceGuidance +
+      prepareToBeWrongGuidance +
+      (isWidenOptionsLastFixed ? messages.doNothing : "")
+    : messages.nextActionsWithoutOptions);
 
   const structuredData: GetCurrentStatusResponse = {
+    decisionId: DecisionId.toString(decisionId),
     workflowState: {
       current: workflowState.type,
       displayName: getDisplayName(workflowState)
     },
     currentStatus: {
-      課題: {
+      issue: {
         issue: serializedView.issue,
         context: serializedView.context,
-        constraints: serializedView.constraints
+        constraints: serializedView.constraints,
+        ...(serializedView.constraintItems.length > 0 && { constraintItems: serializedView.constraintItems }),
+        ...(serializedView.successCriteria.length > 0 && { successCriteria: serializedView.successCriteria })
       },
-      選択肢: serializedOptions?.options
+      options: serializedOptions?.options,
+      ...(assumptions.length > 0 && { assumptions: assumptions.map(serializeAssumptionView) }),
+      ...(optionsView && {
+        distanceEvaluation: {
+          completed: isDistanceAttained,
+          evaluations: distanceEvaluations.map(serializeDistanceEvaluation)
+        }
+      }),
+      ...(tripwires.length > 0 && { tripwires: tripwires.map(serializeTripwire) }),
+      ...(constraintChecks.checks.length > 0 && {
+        constraintChecks: {
+          checks: constraintChecks.checks.map(serializeConstraintCheck),
+          hardConstraintViolations: hardConstraintViolations.map(violation => ({
+            optionId: violation.optionId,
+            constraintIds: [...violation.constraintIds]
+          }))
+        }
+      }),
+      ...(scoreMatrixView && { scoreMatrix: serializeScoreMatrixView(scoreMatrixView) }),
+      ...(finalDecisionView && { finalDecision: serializeFinalDecisionView(finalDecisionView) })
     },
     nextActions: nextActionGuidance
   };
 
-  const statusText = `ワークフロー状態: ${getDisplayName(workflowState)}\n現在の課題: ${serializedView.issue}\n背景: ${serializedView.context}\n制約: ${serializedView.constraints}`;
+  const statusText = messages.status(getDisplayName(workflowState), serializedView.issue, serializedView.context, serializedView.constraints);
+  const issueCriteria = formatIssueCriteria(statusView);
+  const criteriaText = issueCriteria ? `\n${issueCriteria}` : '';
   const optionsText = optionsView 
-    ? `\n選択肢: ${serializedOptions?.options.map((opt, idx) => 
-        `${idx + 1}. ${opt.text}${opt.supplementaryInfo ? ` (補足: ${opt.supplementaryInfo})` : ''}`
+    ? `\n${messages.optionsHeading}: ${serializedOptions?.options.map((opt, idx) => 
+        `${idx + 1}. ${opt.text}${opt.supplementaryInfo ? messages.supplementaryInfo(opt.supplementaryInfo) : ''}`
       ).join('\n')}`
     : '';
+  const assumptionsText = assumptions.length > 0
+    ? `\n${messages.assumptionsHeading}:\n${assumptions.map(assumption => `• ${formatAssumptionLine(assumption)}`).join('\n')}`
+    : '';
+  const counterpointsText = challenges.length > 0
+    ? `\n${messages.counterpointsHeading}:\n${challenges.map(challenge =>
+        formatOptionChallenge(challenge, optionText(challenge.optionId))
+      ).join('\n')}`
+    : '';
+  const tripwiresText = tripwires.length > 0
+    ? `\n${messages.tripwiresHeading}:\n${tripwires.map(tripwire => {
+        const option = optionsView?.options.find(candidate => candidate.id === tripwire.optionId);
+        return formatTripwire(tripwire, option ? option.text : tripwire.optionId);
+      }).join('\n')}`
+    : '';
+  const scoreMatrixText = scoreMatrixView
+    ? `\n${messages.scoreMatrixHeading}:\n${formatScoreMatrix(scoreMatrixView, optionId =>
+        optionsView?.options.find(option => option.id === optionId)?.text ?? optionId
+      )}`
+    : '';
+  const constraintChecksText = constraintChecks.checks.length > 0
+    ? `\n${messages.constraintChecksHeading}:\n${formatConstraintChecks(constraintChecks, statusView.constraintItems, optionText)}`
+    : '';
+  const finalDecisionText = finalDecisionView
+    ? `\n${formatFinalDecision(finalDecisionView, optionId =>
+        optionsView?.options.find(option => option.id === optionId)?.text ?? optionId
+      )}`
+    : '';
 
   return toStructuredCallToolResult(
     structuredData,
     [
-      statusText + optionsText,
+      statusText + criteriaText + optionsText + assumptionsText + counterpointsText + constraintChecksText + tripwiresText + scoreMatrixText + finalDecisionText,
       nextActionGuidance
     ],
     false
@@ -84,17 +232,15 @@ const generateIssueExistsResponse = async (statusView: IssueStatusView, optionsV
 /**
  * Generate response when no issue is defined (not an error)
  */
-const generateNoIssueResponse = async (): Promise<CallToolResult> => {
-  // ワークフロー状態を取得
-  const workflowStateResult = await getCurrentState();
-  const workflowState = workflowStateResult.isOk() ? workflowStateResult.value : { type: 'undefined' as const };
+const generateNoIssueResponse = async (decisionId: DecisionId | null): Promise<CallToolResult> => {
+  // ワークフロー状態を取得（意思決定が未開始なら初期状態）
+  const workflowStateResult = decisionId ? await getCurrentState(decisionId) : null;
+  const workflowState = workflowStateResult?.isOk() ? workflowStateResult.value : { type: 'undefined' as const };
   
-  const nextActionGuidance = 
-    "まだ課題が定義されていません。WRAPプロセスを開始するために：\n" +
-    "• identify-issue プロンプトを使用して課題を特定してください\n" +
-    "• define-issue ツールを使用して課題を定義してください";
+  const nextActionGuidance = prompts().noIssue;
 
   const structuredData: GetCurrentStatusResponse = {
+    ...(decisionId && { decisionId: DecisionId.toString(decisionId) }),
     workflowState: {
       current: workflowState.type,
       displayName: getDisplayName(workflowState)
@@ -116,27 +262,10 @@ const generateNoIssueResponse = async (): Promise<CallToolResult> => {
 const generateFileSystemErrorResponse = (error: ReadError): CallToolResult => {
   const errorMessage = formatReadError(error);
   
-  let correctionGuidance: string;
-  
-  if (error.type === 'FileSystemError') {
-    correctionGuidance = 
-      "ファイルシステムエラーの解決方法：\n" +
-      "• ファイルの読み取り権限を確認してください\n" +
-      "• ファイルが他のプロセスで使用されていないか確認してください\n" +
-      "• ディスクの空き容量を確認してください\n" +
-      "• 一時的な問題の可能性があるため、しばらく待ってから再実行してください";
-  } else if (error.type === 'DataCorruption') {
-    correctionGuidance = 
-      "データ破損エラーの解決方法：\n" +
-      "• 課題を再定義してください（define-issue ツールを使用）\n" +
-      "• 破損したファイルを削除して新しく作成することを検討してください\n" +
-      "• バックアップがある場合は復元を検討してください";
-  } else {
-    correctionGuidance = 
-      "予期しないエラーの解決方法：\n" +
-      "• システムの状態を確認してください\n" +
-      "• 問題が継続する場合は、システム管理者に相談してください";
-  }
+  const guidance = prompts().readErrorGuidance;
+  const correctionGuidance = error.type === 'FileSystemError' || error.type === 'DataCorruption'
+    ? guidance[error.type]
+    : guidance.unknown;
 
   return toStructuredCallToolResult(
     null,
@@ -160,22 +289,49 @@ const generateFileSystemErrorResponse = (error: ReadError): CallToolResult => {
  */
 export const getCurrentStatusHandler = async (args: unknown): Promise<CallToolResult> => {
   // Input validation using Zod schema
-  const zodResult = getCurrentStatusSchema.safeParse(args);
+  const zodResult = createGetCurrentStatusSchema().safeParse(args);
   if (!zodResult.success) {
     return toStructuredCallToolResult(
       null,
-      [
-        "入力パラメータが無効です。",
-        "このツールはパラメータを必要としません。"
-      ],
+      [...prompts().invalidParams],
       true
     );
   }
 
+  // Resolve the target decision (explicit ID or the active one)
+  const decisionResult = await resolveDecisionId(zodResult.data.decisionId);
+  if (decisionResult.isErr()) {
+    // No decision has been started yet - this is a normal state, not an error
+    if (decisionResult.error.type === 'no_active_decision') {
+      return await generateNoIssueResponse(null);
+    }
+    return toStructuredCallToolResult(
+      null,
+      [formatDecisionStorageError(decisionResult.error)],
+      true
+    );
+  }
+  const decisionId = decisionResult.value;
+
   // Call domain read models to get current status and options
-  const [statusResult, optionsResult] = await Promise.all([
-    getCurrentIssueStatus(),
-    getCurrentOptions()
+  const [
+    statusResult,
+    optionsResult,
+    assumptionsResult,
+    distanceEvaluationsResult,
+    tripwiresResult,
+    scoreMatrixResult,
+    finalDecisionResult,
+    constraintChecksResult
+  ] = await Promise.all([
+    getCurrentIssueStatus(decisionId),
+    getCurrentOptions(decisionId),
+    getCurrentAssumptions(decisionId),
+    getCurrentDistanceEvaluations(decisionId),
+    getCurrentTripwires(decisionId),
+    getCurrentOptionScores(decisionId),
+    getCurrentFinalDecision(decisionId),
+    getCurrentConstraintChecks(decisionId)
   ]);
 
   // Handle issue status errors
@@ -185,14 +341,30 @@ export const getCurrentStatusHandler = async (args: unknown): Promise<CallToolRe
 
   // Handle options errors (but don't fail the entire request)
   const optionsView = optionsResult.isOk() ? optionsResult.value : null;
+  const assumptionsView = assumptionsResult.isOk() ? assumptionsResult.value : null;
+  const distanceEvaluationsView = distanceEvaluationsResult.isOk() ? distanceEvaluationsResult.value : null;
+  const tripwiresView = tripwiresResult.isOk() ? tripwiresResult.value : null;
+  const scoreMatrixView = scoreMatrixResult.isOk() ? scoreMatrixResult.value : null;
+  const finalDecisionView = finalDecisionResult.isOk() ? finalDecisionResult.value : null;
+  const constraintChecksView = constraintChecksResult.isOk() ? constraintChecksResult.value : null;
 
   const statusView = statusResult.value;
   
   if (statusView === null) {
     // No issue defined - this is a normal state, not an error
-    return await generateNoIssueResponse();
+    return await generateNoIssueResponse(decisionId);
   } else {
-    // Issue exists - return structured issue information with options
-    return await generateIssueExistsResponse(statusView, optionsView);
+    // Issue exists - return structured issue information with options and assumptions
+    return await generateIssueExistsResponse(
+      decisionId,
+      statusView,
+      optionsView,
+      assumptionsView,
+      distanceEvaluationsView,
+      tripwiresView,
+      scoreMatrixView,
+      finalDecisionView,
+      constraintChecksView
+    );
   }
 };
@@ -1,11 +1,18 @@
-import { getCurrentStatusParams, getCurrentStatusOutputSchema } from './schema.js';
+import { createGetCurrentStatusSchema, createGetCurrentStatusOutputSchema } from './schema.js';
 import { getCurrentStatusHandler } from './handler.js';
+import { prompts } from './prompt.js';
 
 export const getCurrentStatusTool = {
   name: 'get_current_status',
   title: 'Get Current Status',
-  description: 'WRAP意思決定フレームワークにおいて現在定義されている課題（Issue）情報を取得するツール。意思決定プロセスの現状把握と次のアクション決定を支援します。',
-  parameters: getCurrentStatusParams,
-  outputSchema: getCurrentStatusOutputSchema,
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createGetCurrentStatusSchema().shape;
+  },
+  get outputSchema() {
+    return createGetCurrentStatusOutputSchema();
+  },
   handler: getCurrentStatusHandler
 };
\ No newline at end of file
@@ -0,0 +1,224 @@
+// Pure prompt strings for get_current_status tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: 'WRAP意思決定フレームワークにおいて現在定義されている課題（Issue）情報を取得するツール。意思決定プロセスの現状把握と次のアクション決定を支援します。',
+
+    realityTest: {
+      untested: (count: number) => `• Reality-Test Assumptions（仮説を現実検証する）- 未検証の仮説が${count}件あります。検証して record-assumption-test-result ツールで結果を記録する\n`,
+      notStarted: "• Reality-Test Assumptions（仮説を現実検証する）- register-assumptions ツールで前提条件を登録し検証する\n"
+    },
+    counterpoints: {
+      open: (count: number) => `• 確証バイアスに備える - 未対処の反論が${count}件あります。反証を探して address-counterpoint ツールで対処を記録する\n`,
+      notStarted: "• 確証バイアスに備える - challenge-option ツールで有力な選択肢への最も強い反論と、探すべき反証を挙げる\n"
+    },
+    attainDistance: {
+      attained: (total: number) => `• Attain Distance（距離を置いて判断する）- 実施済み（${total}件すべての選択肢を評価済み）\n`,
+      inProgress: (evaluated: number, total: number) => `• Attain Distance（距離を置いて判断する）- ${evaluated}/${total}件を評価済み。record-distance-evaluation ツールで残りの選択肢を評価する\n`,
+      notStarted: "• Attain Distance（距離を置いて判断する）- attain-distance プロンプトに沿って、record-distance-evaluation ツールで選択肢ごとに 10/10/10 と外部の視点を記録する\n"
+    },
+    prepareToBeWrong: {
+      inProgress: (set: number, total: number) => `• Prepare to be Wrong（間違いに備える）- ${set}/${total}件の選択肢に撤退基準を設定済み。観測値が得られたら evaluate-tripwires ツールで判定し、update-tripwire / remove-tripwire ツールで見直す`,
+      notStarted: "• Prepare to be Wrong（間違いに備える）- make-tripwire ツールで選択肢ごとの撤退基準を設定する"
+    },
+    reconsider: (firedCriticalCount: number) => `⚠️ critical な撤退基準（${firedCriticalCount}件）に抵触しています。この選択を続ける前に、選択肢・前提・評価を見直してください。\n`,
+    constraintViolation: (option: string, constraintIds: string) => `${option}（${constraintIds}）`,
+    constraintViolations: (violations: string) => `⚠️ 必須の制約に反する選択肢があります: ${violations}。update-option / remove-option で見直してください。\n`,
+    constraintsUnchecked: "• 課題の制約に照らした判定がまだありません。check-constraints ツールで選択肢を判定してください。\n",
+    decision: {
+      underReview: "決定をレビュー中です。決定を維持・変更する場合は make-decision ツールで改めて記録してください。\n",
+      reviewDue: "レビュー予定日を過ぎています。start-decision-review ツールで決定を見直してください。\n",
+      decided: (reviewDate: string) => `決定済みです（レビュー予定日: ${reviewDate}）。\n`
+    },
+    nextActionsWithOptions: "課題と選択肢が定義されています。次のアクションを検討してください：\n",
+    doNothing: "\n• 何もしない（そのリソースを他に使う）",
+    nextActionsWithoutOptions:
+      "課題が定義されています。次のアクションを検討してください：\n" +
+      "• Widen Options（選択肢を広げる）- 可能な解決策を洗い出す\n" +
+      "• Reality-Test Assumptions（仮説を現実検証する）- 前提条件を検証する\n" +
+      "• Attain Distance（距離を置いて判断する）- 客観的な視点で評価する\n" +
+      "• Prepare to be Wrong（間違いに備える）- リスクと対策を検討する",
+    noIssue:
+      "まだ課題が定義されていません。WRAPプロセスを開始するために：\n" +
+      "• identify-issue プロンプトを使用して課題を特定してください\n" +
+      "• define-issue ツールを使用して課題を定義してください",
+
+    status: (workflowState: string, issue: string, context: string, constraints: string) =>
+      `ワークフロー状態: ${workflowState}\n現在の課題: ${issue}\n背景: ${context}\n制約: ${constraints}`,
+    optionsHeading: '選択肢',
+    supplementaryInfo: (info: string) => ` (補足: ${info})`,
+    assumptionsHeading: '仮説',
+    counterpointsHeading: '反論',
+    tripwiresHeading: '撤退基準',
+    scoreMatrixHeading: '評価マトリクスの順位',
+    constraintChecksHeading: '制約の判定',
+
+    readErrorGuidance: {
+      FileSystemError:
+        "ファイルシステムエラーの解決方法：\n" +
+        "• ファイルの読み取り権限を確認してください\n" +
+        "• ファイルが他のプロセスで使用されていないか確認してください\n" +
+        "• ディスクの空き容量を確認してください\n" +
+        "• 一時的な問題の可能性があるため、しばらく待ってから再実行してください",
+      DataCorruption:
+        "データ破損エラーの解決方法：\n" +
+        "• 課題を再定義してください（define-issue ツールを使用）\n" +
+        "• 破損したファイルを削除して新しく作成することを検討してください\n" +
+        "• バックアップがある場合は復元を検討してください",
+      unknown:
+        "予期しないエラーの解決方法：\n" +
+        "• システムの状態を確認してください\n" +
+        "• 問題が継続する場合は、システム管理者に相談してください"
+    },
+    invalidParams: [
+      "入力パラメータが無効です。",
+      "decisionId は省略するか、既存の意思決定IDを指定してください。"
+    ],
+
+    schemaDescriptions: {
+      decisionId: '状況を取得する意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        decisionId: '対象の意思決定ID',
+        workflowStateCurrent: '現在のワークフロー状態',
+        workflowStateDisplayName: '状態の表示名',
+        workflowState: 'ワークフロー状態',
+        issueTitle: '課題のタイトル',
+        context: '課題の背景情報',
+        constraints: '制約条件',
+        constraintItems: '個々の制約（hard: 必須 / soft: 希望）',
+        successCriteria: '成功基準',
+        issue: '課題情報',
+        optionId: '選択肢の一意識別子',
+        optionText: '選択肢のテキスト',
+        supplementaryInfo: '選択肢の補足情報（オプション）',
+        counterpoints: 'challenge-option で記録した反論と、反証ごとの対処状況',
+        options: '登録された選択肢',
+        assumptions: '選択肢に紐づく仮説と検証結果',
+        distanceCompleted: 'すべての選択肢について Attain Distance を実施済みかどうか',
+        distanceEvaluations: '選択肢ごとの 10/10/10 と外部の視点',
+        distanceEvaluation: 'Attain Distance の実施状況',
+        tripwireOptionId: '撤退基準が設定されている選択肢ID',
+        tripwireCriteria: 'この選択肢の撤退基準',
+        tripwires: '選択肢ごとに保存された撤退基準（トリップワイヤー）',
+        checks: 'check-constraints で記録した選択肢と制約の組ごとの判定',
+        hardConstraintViolations: '必須の制約に反する選択肢',
+        constraintChecks: '課題の制約に照らした選択肢の判定',
+        scoreMatrix: 'score-options で記録した評価軸・スコアと、加重スコアの順位・感度',
+        finalDecision: 'make-decision で記録した決定',
+        currentStatus: '現在の課題状況',
+        nextActions: '推奨される次のアクション'
+      }
+    }
+  },
+  en: {
+    toolDescription: 'Gets the issue currently defined in the WRAP decision framework. Helps you see where the decision process stands and decide the next action.',
+
+    realityTest: {
+      untested: (count: number) => `• Reality-Test Assumptions - ${count} assumption(s) have not been tested yet. Test them and record the results with the record-assumption-test-result tool\n`,
+      notStarted: "• Reality-Test Assumptions - register the assumptions with the register-assumptions tool and test them\n"
+    },
+    counterpoints: {
+      open: (count: number) => `• Guard against confirmation bias - ${count} counterpoint(s) are still open. Look for the evidence and record how each was addressed with the address-counterpoint tool\n`,
+      notStarted: "• Guard against confirmation bias - with the challenge-option tool, build the strongest case against the leading option and list the disconfirming evidence to look for\n"
+    },
+    attainDistance: {
+      attained: (total: number) => `• Attain Distance - done (all ${total} options evaluated)\n`,
+      inProgress: (evaluated: number, total: number) => `• Attain Distance - ${evaluated}/${total} evaluated. Evaluate the remaining options with the record-distance-evaluation tool\n`,
+      notStarted: "• Attain Distance - following the attain-distance prompt, record 10/10/10 and an outside view for each option with the record-distance-evaluation tool\n"
+    },
+    prepareToBeWrong: {
+      inProgress: (set: number, total: number) => `• Prepare to be Wrong - trip wires set for ${set}/${total} options. When observations come in, judge them with the evaluate-tripwires tool and revise with the update-tripwire / remove-tripwire tools`,
+      notStarted: "• Prepare to be Wrong - set trip wires for each option with the make-tripwire tool"
+    },
+    reconsider: (firedCriticalCount: number) => `⚠️ Critical trip wires (${firedCriticalCount}) have fired. Before continuing with this choice, revisit the options, assumptions and evaluations.\n`,
+    constraintViolation: (option: string, constraintIds: string) => `${option} (${constraintIds})`,
+    constraintViolations: (violations: string) => `⚠️ Some options violate hard constraints: ${violations}. Revisit them with update-option / remove-option.\n`,
+    constraintsUnchecked: "• The options have not been checked against the issue's constraints yet. Check them with the check-constraints tool.\n",
+    decision: {
+      underReview: "The decision is under review. To keep or change it, record it again with the make-decision tool.\n",
+      reviewDue: "The review date has passed. Review the decision with the start-decision-review tool.\n",
+      decided: (reviewDate: string) => `Decided (review date: ${reviewDate}).\n`
+    },
+    nextActionsWithOptions: "The issue and options are defined. Consider the next action:\n",
+    doNothing: "\n• Do nothing (use those resources elsewhere)",
+    nextActionsWithoutOptions:
+      "The issue is defined. Consider the next action:\n" +
+      "• Widen Options - list the possible solutions\n" +
+      "• Reality-Test Assumptions - test the assumptions\n" +
+      "• Attain Distance - evaluate from an objective point of view\n" +
+      "• Prepare to be Wrong - consider the risks and countermeasures",
+    noIssue:
+      "No issue has been defined yet. To start the WRAP process:\n" +
+      "• Identify the issue with the identify-issue prompt\n" +
+      "• Define the issue with the define-issue tool",
+
+    status: (workflowState: string, issue: string, context: string, constraints: string) =>
+      `Workflow state: ${workflowState}\nCurrent issue: ${issue}\nContext: ${context}\nConstraints: ${constraints}`,
+    optionsHeading: 'Options',
+    supplementaryInfo: (info: string) => ` (note: ${info})`,
+    assumptionsHeading: 'Assumptions',
+    counterpointsHeading: 'Counterpoints',
+    tripwiresHeading: 'Trip wires',
+    scoreMatrixHeading: 'Score matrix ranking',
+    constraintChecksHeading: 'Constraint checks',
+
+    readErrorGuidance: {
+      FileSystemError:
+        "How to fix the file system error:\n" +
+        "• Check the read permission of the file\n" +
+        "• Check that no other process is using the file\n" +
+        "• Check the free disk space\n" +
+        "• It may be a temporary problem, so wait a moment and run again",
+      DataCorruption:
+        "How to fix the data corruption error:\n" +
+        "• Redefine the issue (with the define-issue tool)\n" +
+        "• Consider deleting the broken file and creating it again\n" +
+        "• If you have a backup, consider restoring it",
+      unknown:
+        "How to fix the unexpected error:\n" +
+        "• Check the state of the system\n" +
+        "• If the problem persists, contact your system administrator"
+    },
+    invalidParams: [
+      "The input parameters are invalid.",
+      "Omit decisionId or give the ID of an existing decision."
+    ],
+
+    schemaDescriptions: {
+      decisionId: 'Decision to get the status of (defaults to the active decision)',
+      output: {
+        decisionId: 'Target decision ID',
+        workflowStateCurrent: 'Current workflow state',
+        workflowStateDisplayName: 'Display name of the state',
+        workflowState: 'Workflow state',
+        issueTitle: 'Title of the issue',
+        context: 'Background of the issue',
+        constraints: 'Constraints',
+        constraintItems: 'Individual constraints (hard: required / soft: wish)',
+        successCriteria: 'Success criteria',
+        issue: 'The issue',
+        optionId: 'Unique identifier for the option',
+        optionText: 'Text of the option',
+        supplementaryInfo: 'Supplementary information about the option (optional)',
+        counterpoints: 'Counterpoints recorded by challenge-option and how each piece of disconfirming evidence was handled',
+        options: 'The registered options',
+        assumptions: 'Assumptions of the options and their test results',
+        distanceCompleted: 'Whether Attain Distance has been done for every option',
+        distanceEvaluations: '10/10/10 and the outside view of each option',
+        distanceEvaluation: 'Progress of Attain Distance',
+        tripwireOptionId: 'ID of the option the trip wires are set on',
+        tripwireCriteria: 'Trip wires of this option',
+        tripwires: 'Trip wires saved for each option',
+        checks: 'Verdicts recorded by check-constraints for each pair of option and constraint',
+        hardConstraintViolations: 'Options that break a hard constraint',
+        constraintChecks: 'Verdicts on the options against the constraints of the issue',
+        scoreMatrix: 'Criteria and scores recorded by score-options, with the ranking and sensitivity of the weighted scores',
+        finalDecision: 'The decision recorded by make-decision',
+        currentStatus: 'Current status of the issue',
+        nextActions: 'Recommended next actions'
+      }
+    }
+  }
+});
@@ -1,36 +1,73 @@
 import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createAssumptionOutputSchema } from '../register-assumptions/schema.js';
+import { createDistanceEvaluationOutputSchema } from '../record-distance-evaluation/schema.js';
+import { createCriterionOutputSchema } from '../make-tripwire/schema.js';
+import { createFinalDecisionOutputSchema } from '../make-decision/schema.js';
+import { createScoreMatrixOutputSchema } from '../score-options/schema.js';
+import { createConstraintItemOutputSchema, createSuccessCriterionOutputSchema } from '../define-issue/schema.js';
+import { createConstraintCheckOutputSchema, createHardConstraintViolationOutputSchema } from '../check-constraints/schema.js';
+import { createOptionChallengeOutputSchema } from '../challenge-option/schema.js';
+import { prompts } from './prompt.js';
 
 /**
  * Get Current Status Tool Schema
  * 
  * 現在定義されている課題（Issue）情報を取得するためのMCPツールスキーマ
+ * 構造化出力のキーはロケールに依存しない識別子にし、説明だけをロケールごとに引く
  */
 
-// Input schema - パラメータなし（現在の課題情報を単純に取得）
-export const getCurrentStatusSchema = z.object({});
+// Input schema - 対象の意思決定ID（省略時はアクティブな意思決定）
+export const createGetCurrentStatusSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
 
 // Output schema - 構造化された課題情報とワークフロー状態
-export const getCurrentStatusOutputSchema = z.object({
-  workflowState: z.object({
-    current: z.string().describe("現在のワークフロー状態"),
-    displayName: z.string().describe("状態の日本語表示名")
-  }).describe("ワークフロー状態"),
-  currentStatus: z.object({
-    課題: z.object({
-      issue: z.string().optional().describe("課題のタイトル"),
-      context: z.string().optional().describe("課題の背景情報"),
-      constraints: z.string().optional().describe("制約条件")
-    }).optional().describe("課題情報"),
-    選択肢: z.array(z.object({
-      id: z.string().describe("選択肢の一意識別子"),
-      text: z.string().describe("選択肢のテキスト"),
-      supplementaryInfo: z.string().optional().describe("選択肢の補足情報（オプション）")
-    })).optional().describe("登録された選択肢")
-  }).describe("現在の課題状況"),
-  nextActions: z.string().describe("推奨される次のアクション")
-});
+export const createGetCurrentStatusOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    decisionId: z.string().optional().describe(text.decisionId),
+    workflowState: z.object({
+      current: z.string().describe(text.workflowStateCurrent),
+      displayName: z.string().describe(text.workflowStateDisplayName)
+    }).describe(text.workflowState),
+    currentStatus: z.object({
+      issue: z.object({
+        issue: z.string().optional().describe(text.issueTitle),
+        context: z.string().optional().describe(text.context),
+        constraints: z.string().optional().describe(text.constraints),
+        constraintItems: z.array(createConstraintItemOutputSchema()).optional().describe(text.constraintItems),
+        successCriteria: z.array(createSuccessCriterionOutputSchema()).optional().describe(text.successCriteria)
+      }).optional().describe(text.issue),
+      options: z.array(z.object({
+        id: z.string().describe(text.optionId),
+        text: z.string().describe(text.optionText),
+        supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+        counterpoints: createOptionChallengeOutputSchema().optional().describe(text.counterpoints)
+      })).optional().describe(text.options),
+      assumptions: z.array(createAssumptionOutputSchema()).optional().describe(text.assumptions),
+      distanceEvaluation: z.object({
+        completed: z.boolean().describe(text.distanceCompleted),
+        evaluations: z.array(createDistanceEvaluationOutputSchema()).describe(text.distanceEvaluations)
+      }).optional().describe(text.distanceEvaluation),
+      tripwires: z.array(z.object({
+        optionId: z.string().describe(text.tripwireOptionId),
+        criteria: z.array(createCriterionOutputSchema()).describe(text.tripwireCriteria)
+      })).optional().describe(text.tripwires),
+      constraintChecks: z.object({
+        checks: z.array(createConstraintCheckOutputSchema()).describe(text.checks),
+        hardConstraintViolations: z.array(createHardConstraintViolationOutputSchema()).describe(text.hardConstraintViolations)
+      }).optional().describe(text.constraintChecks),
+      scoreMatrix: createScoreMatrixOutputSchema().optional().describe(text.scoreMatrix),
+      finalDecision: createFinalDecisionOutputSchema().optional().describe(text.finalDecision)
+    }).describe(text.currentStatus),
+    nextActions: z.string().describe(text.nextActions)
+  });
+};
 
 // TypeScript types derived from schemas
-export type GetCurrentStatusParams = z.infer<typeof getCurrentStatusSchema>;
-export const getCurrentStatusParams = getCurrentStatusSchema.shape;
-export type GetCurrentStatusResponse = z.infer<typeof getCurrentStatusOutputSchema>;
\ No newline at end of file
+export type GetCurrentStatusParams = z.infer<ReturnType<typeof createGetCurrentStatusSchema>>;
+export type GetCurrentStatusResponse = z.infer<ReturnType<typeof createGetCurrentStatusOutputSchema>>;
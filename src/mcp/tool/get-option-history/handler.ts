@@ -0,0 +1,32 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  getOptionLineage,
+  serializeOptionLineageView,
+  formatOptionLineage,
+  formatOptionLineageReadError
+} from '../../../domain/read/option-lineage/index.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX } from './prompt.js';
+import type { GetOptionHistoryParams, GetOptionHistoryResponse } from './schema.js';
+
+/**
+ * Get Option History Tool Handler
+ *
+ * 選択肢ごとの追加・除外ステップと派生元を返す
+ */
+export const getOptionHistoryHandler = async (args: GetOptionHistoryParams): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+
+  const lineageResult = await getOptionLineage(decisionResult.value);
+  if (lineageResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionLineageReadError(lineageResult.error)}`], true);
+  }
+
+  const response: GetOptionHistoryResponse = serializeOptionLineageView(lineageResult.value);
+
+  return toStructuredCallToolResult(response, [formatOptionLineage(lineageResult.value)], false);
+};
@@ -0,0 +1,18 @@
+import { createGetOptionHistorySchema, createGetOptionHistoryOutputSchema } from './schema.js';
+import { getOptionHistoryHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const getOptionHistoryTool = {
+  name: 'get-option-history',
+  title: 'Get Option History',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createGetOptionHistorySchema().shape;
+  },
+  get outputSchema() {
+    return createGetOptionHistoryOutputSchema();
+  },
+  handler: getOptionHistoryHandler
+};
@@ -0,0 +1,48 @@
+// Pure prompt strings for get-option-history tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+Widen Options の各ステップで選択肢がどう変わってきたかを確認するツールです。
+選択肢ごとに、追加されたステップ・外されたステップ・ラダリングの派生元を木構造で表示します。
+register_options で選択肢を引き継ぐときは、ここで確認した選択肢IDを id に指定してください。
+`,
+
+    schemaDescriptions: {
+      decisionId: '対象の意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        id: '選択肢の一意識別子',
+        text: '選択肢のテキスト',
+        supplementaryInfo: '選択肢の補足情報',
+        introducedAt: '選択肢が追加されたWidenOptionsStep',
+        removedAt: '選択肢が外されたWidenOptionsStep（現在も登録されていれば省略）',
+        parentId: 'ラダリングの派生元の選択肢ID',
+        options: 'リセット以降に登録されたすべての選択肢（追加された順）'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Shows how the options changed over the steps of Widen Options.
+Each option is shown in a tree with the step it was added in, the step it was removed in and the option it was laddered from.
+When carrying options over with register_options, give the option IDs shown here as id.
+`,
+
+    schemaDescriptions: {
+      decisionId: 'Target decision ID (defaults to the active decision)',
+      output: {
+        id: 'Unique identifier for the option',
+        text: 'Text of the option',
+        supplementaryInfo: 'Supplementary information about the option',
+        introducedAt: 'WidenOptionsStep in which the option was added',
+        removedAt: 'WidenOptionsStep in which the option was removed (omitted while it is still registered)',
+        parentId: 'ID of the option it was laddered from',
+        options: 'Every option registered since the last reset (in the order they were added)'
+      }
+    }
+  }
+});
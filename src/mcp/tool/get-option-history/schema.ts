@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createGetOptionHistorySchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+// Output schema
+export const createGetOptionHistoryOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    options: z.array(z.object({
+      id: z.string().describe(text.id),
+      text: z.string().describe(text.text),
+      supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+      introducedAt: z.string().describe(text.introducedAt),
+      removedAt: z.string().optional().describe(text.removedAt),
+      parentId: z.string().optional().describe(text.parentId)
+    })).describe(text.options)
+  });
+};
+
+export type GetOptionHistoryParams = z.infer<ReturnType<typeof createGetOptionHistorySchema>>;
+export type GetOptionHistoryResponse = z.infer<ReturnType<typeof createGetOptionHistoryOutputSchema>>;
@@ -0,0 +1,34 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  getUndoStack,
+  serializeUndoStackView,
+  formatUndoStack,
+  formatUndoStackReadError
+} from '../../../domain/read/undo-stack/index.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX } from './prompt.js';
+import type { GetUndoStackParams, GetUndoStackResponse } from './schema.js';
+
+/**
+ * Get Undo Stack Tool Handler
+ *
+ * 取り消せるコマンドとやり直せるコマンドを返す
+ */
+export const getUndoStackHandler = async (args: GetUndoStackParams): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+
+  const stackResult = await getUndoStack(decisionResult.value);
+  if (stackResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatUndoStackReadError(stackResult.error)}`], true);
+  }
+
+  const response: GetUndoStackResponse = {
+    undoStack: serializeUndoStackView(stackResult.value)
+  };
+
+  return toStructuredCallToolResult(response, [formatUndoStack(stackResult.value)], false);
+};
@@ -0,0 +1,18 @@
+import { createGetUndoStackSchema, createGetUndoStackOutputSchema } from './schema.js';
+import { getUndoStackHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const getUndoStackTool = {
+  name: 'get-undo-stack',
+  title: 'Get Undo Stack',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createGetUndoStackSchema().shape;
+  },
+  get outputSchema() {
+    return createGetUndoStackOutputSchema();
+  },
+  handler: getUndoStackHandler
+};
@@ -0,0 +1,52 @@
+// Pure prompt strings for get-undo-stack tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+undo / redo ツールが取り消す・やり直すコマンドの一覧を確認するツールです。
+取り消すとどの状態に戻るかもあわせて表示します。undo を実行する前に確認してください。
+`,
+
+    schemaDescriptions: {
+      decisionId: '対象の意思決定ID（省略時はアクティブな意思決定）',
+      command: {
+        position: 'ジャーナル上の位置',
+        eventType: '記録されたイベントの種類',
+        description: 'コマンドが行ったことの説明'
+      },
+      undoStack: {
+        undoable: '取り消せるコマンド（新しい順。先頭が undo の対象）',
+        redoable: 'やり直せるコマンド（先頭が redo の対象）',
+        currentState: '現在のワークフロー状態',
+        stateAfterUndo: '取り消した場合のワークフロー状態',
+        stateAfterRedo: 'やり直した場合のワークフロー状態'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Lists the commands the undo / redo tools would undo or redo,
+together with the state an undo returns to. Check it before running undo.
+`,
+
+    schemaDescriptions: {
+      decisionId: 'Target decision ID (defaults to the active decision)',
+      command: {
+        position: 'Position in the journal',
+        eventType: 'Type of the recorded event',
+        description: 'What the command did'
+      },
+      undoStack: {
+        undoable: 'Commands that can be undone (newest first; the first one is undone next)',
+        redoable: 'Commands that can be redone (the first one is redone next)',
+        currentState: 'Current workflow state',
+        stateAfterUndo: 'Workflow state after an undo',
+        stateAfterRedo: 'Workflow state after a redo'
+      }
+    }
+  }
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createGetUndoStackSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+const createUndoableCommandOutputSchema = () => {
+  const text = prompts().schemaDescriptions.command;
+
+  return z.object({
+    position: z.number().describe(text.position),
+    eventType: z.string().describe(text.eventType),
+    description: z.string().describe(text.description)
+  });
+};
+
+// Output schema (undo / redo ツールでも使う)
+export const createUndoStackOutputSchema = () => {
+  const text = prompts().schemaDescriptions.undoStack;
+
+  return z.object({
+    undoable: z.array(createUndoableCommandOutputSchema()).describe(text.undoable),
+    redoable: z.array(createUndoableCommandOutputSchema()).describe(text.redoable),
+    currentState: z.string().describe(text.currentState),
+    stateAfterUndo: z.string().optional().describe(text.stateAfterUndo),
+    stateAfterRedo: z.string().optional().describe(text.stateAfterRedo)
+  });
+};
+
+export const createGetUndoStackOutputSchema = () => z.object({
+  undoStack: createUndoStackOutputSchema()
+});
+
+export type GetUndoStackParams = z.infer<ReturnType<typeof createGetUndoStackSchema>>;
+export type GetUndoStackResponse = z.infer<ReturnType<typeof createGetUndoStackOutputSchema>>;
@@ -0,0 +1,44 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ListDecisionsParams, ListDecisionsResponse } from './schema.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { prompts } from './prompt.js';
+import { listDecisions, serializeDecisionSummary, formatDecisionsReadError } from '../../../domain/read/decisions/index.js';
+
+/**
+ * List Decisions Tool Handler
+ * 
+ * 並行して進めている意思決定を一覧し、再開すべき意思決定を選べるようにする
+ */
+export const listDecisionsHandler = async (_args: ListDecisionsParams): Promise<CallToolResult> => {
+  const listResult = await listDecisions();
+
+  if (listResult.isErr()) {
+    return toCallToolResult(
+      [formatDecisionsReadError(listResult.error)],
+      true
+    );
+  }
+
+  const view = listResult.value;
+  const decisions = view.decisions.map(serializeDecisionSummary);
+
+  const response: ListDecisionsResponse = {
+    ...(view.activeDecisionId && { activeDecisionId: view.activeDecisionId }),
+    decisions
+  };
+
+  const listText = decisions.length > 0
+    ? decisions.map(decision =>
+        `${decision.isActive ? '▶' : '・'} ${decision.id}: ${decision.issue ?? prompts().issueUndefined} [${decision.workflowStateDisplayName}]`
+      ).join('\n')
+    : prompts().noDecisions;
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      listText,
+      prompts().nextAction
+    ],
+    false
+  );
+};
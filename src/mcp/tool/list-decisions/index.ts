@@ -0,0 +1,16 @@
+import { listDecisionsParams, createListDecisionsOutputSchema } from './schema.js';
+import { listDecisionsHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const listDecisionsTool = {
+  name: 'list-decisions',
+  title: 'List Decisions',
+  get description() {
+    return prompts().toolDescription;
+  },
+  parameters: listDecisionsParams,
+  get outputSchema() {
+    return createListDecisionsOutputSchema();
+  },
+  handler: listDecisionsHandler
+};
@@ -0,0 +1,40 @@
+// Pure prompt strings for list-decisions tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: '保存されているすべての意思決定（課題・ワークフロー状態・開始日時）を一覧するツール。並行して進めている意思決定の中から再開するものを選ぶ際に使用します。',
+    issueUndefined: '（課題未定義）',
+    noDecisions: 'まだ意思決定がありません。define_issue ツールで新しい意思決定を開始してください。',
+    nextAction: '過去の意思決定を再開するには switch-decision ツールを使用してください。',
+
+    schemaDescriptions: {
+      activeDecisionId: '現在アクティブな意思決定ID',
+      id: '意思決定ID',
+      issue: '課題のタイトル',
+      workflowState: 'ワークフロー状態',
+      workflowStateDisplayName: '状態の表示名',
+      startedAt: '意思決定を開始した日時（ISO 8601）',
+      isActive: 'アクティブな意思決定かどうか',
+      decisions: '意思決定の一覧（新しい順）'
+    }
+  },
+  en: {
+    toolDescription: 'Lists every saved decision (issue, workflow state and start time). Use it to pick which of the decisions in progress to resume.',
+    issueUndefined: '(issue not defined)',
+    noDecisions: 'There are no decisions yet. Start a new decision with the define_issue tool.',
+    nextAction: 'To resume an earlier decision, use the switch-decision tool.',
+
+    schemaDescriptions: {
+      activeDecisionId: 'ID of the currently active decision',
+      id: 'Decision ID',
+      issue: 'Title of the issue',
+      workflowState: 'Workflow state',
+      workflowStateDisplayName: 'Display name of the state',
+      startedAt: 'When the decision was started (ISO 8601)',
+      isActive: 'Whether this is the active decision',
+      decisions: 'The decisions (newest first)'
+    }
+  }
+});
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { prompts } from './prompt.js';
+
+/**
+ * List Decisions Tool Schema
+ * 
+ * 保存されているすべての意思決定を一覧するためのMCPツールスキーマ
+ */
+
+// Input schema - パラメータなし
+export const listDecisionsSchema = z.object({});
+
+// Output schema - 意思決定の一覧とアクティブな意思決定
+export const createListDecisionsOutputSchema = () => {
+  const text = prompts().schemaDescriptions;
+
+  return z.object({
+    activeDecisionId: z.string().optional().describe(text.activeDecisionId),
+    decisions: z.array(z.object({
+      id: z.string().describe(text.id),
+      issue: z.string().optional().describe(text.issue),
+      workflowState: z.string().describe(text.workflowState),
+      workflowStateDisplayName: z.string().describe(text.workflowStateDisplayName),
+      startedAt: z.string().describe(text.startedAt),
+      isActive: z.boolean().describe(text.isActive)
+    })).describe(text.decisions)
+  });
+};
+
+export type ListDecisionsParams = z.infer<typeof listDecisionsSchema>;
+export const listDecisionsParams = listDecisionsSchema.shape;
+export type ListDecisionsResponse = z.infer<ReturnType<typeof createListDecisionsOutputSchema>>;
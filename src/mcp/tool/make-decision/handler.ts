@@ -0,0 +1,64 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { MakeDecisionAggregate } from '../../../domain/command/make-decision.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import { serializeFinalDecisionView, formatFinalDecision } from '../../../domain/read/final-decision/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { MakeDecisionParams, MakeDecisionResponse } from './schema.js';
+
+/**
+ * Make Decision Tool Handler
+ *
+ * 選んだ選択肢・理由・選ばなかった理由・レビュー予定日を記録する
+ */
+export const makeDecisionHandler = async (
+  args: MakeDecisionParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const optionsResult = await getCurrentOptions(decisionId);
+  if (optionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+  }
+  const options = optionsResult.value?.options ?? [];
+
+  const commandResult = MakeDecisionAggregate.makeDecision({
+    chosenOptionId: args.chosenOptionId,
+    rationale: args.rationale,
+    rejectedOptions: args.rejectedOptions,
+    reviewDate: args.reviewDate,
+    existingOptionIds: options.map(option => option.id)
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${MakeDecisionAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const view = { decision: event.decision, decidedAt: event.decidedAt, reviewStartedAt: null };
+  const response: MakeDecisionResponse = {
+    decision: serializeFinalDecisionView(view)
+  };
+
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? optionId;
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().decided(formatFinalDecision(view, optionText)),
+      prompts().nextAction(response.decision.reviewDate)
+    ],
+    false
+  );
+};
@@ -0,0 +1,18 @@
+import { createMakeDecisionSchema, createMakeDecisionOutputSchema } from './schema.js';
+import { makeDecisionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const makeDecisionTool = {
+  name: 'make-decision',
+  title: 'Make Decision',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createMakeDecisionSchema().shape;
+  },
+  get outputSchema() {
+    return createMakeDecisionOutputSchema();
+  },
+  handler: makeDecisionHandler
+};
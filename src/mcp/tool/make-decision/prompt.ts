@@ -0,0 +1,102 @@
+// Pure prompt strings for make-decision tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+WRAPプロセスの結論として、実際に選んだ選択肢とその理由を記録するツールです。
+
+## 記録する内容
+- **chosenOptionId**: 選んだ選択肢（現在登録されている選択肢から選ぶ）
+- **rationale**: その選択肢を選んだ理由
+- **rejectedOptions**: 選ばなかった選択肢と、選ばなかった理由
+- **reviewDate**: 決定を見直す予定日
+
+選択肢が fixed になった後に記録できます。レビュー中に再度記録すると、決定が更新されます。
+`,
+    decided: (decision: string) => `✅ 決定を記録しました:\n${decision}`,
+    nextAction: (reviewDate: string) => `
+NEXT ACTION: 決定を記録しました。レビュー予定日（${reviewDate}）になったら start-decision-review ツールで決定を見直してください。
+それまでに撤退基準の指標が得られた場合は、evaluate-tripwires ツールで判定してください。`,
+
+    schemaValidation: {
+      rationaleRequired: '選択理由を入力してください',
+      rationaleTooLong: '選択理由は500文字以内で入力してください',
+      rejectedReasonTooLong: '選ばなかった理由は200文字以内で入力してください',
+      reviewDateFormat: 'レビュー予定日は YYYY-MM-DD 形式で入力してください'
+    },
+
+    schemaDescriptions: {
+      chosenOptionId: '選んだ選択肢ID（get_current_status で確認）',
+      rationale: 'その選択肢を選んだ理由',
+      rejectedOptionId: '選ばなかった選択肢ID',
+      rejectedReason: 'その選択肢を選ばなかった理由',
+      rejectedOptions: '選ばなかった選択肢と、その理由',
+      reviewDate: '決定を見直す予定日（YYYY-MM-DD）',
+      decisionId: '決定を記録する意思決定ID（省略時はアクティブな意思決定）',
+      finalDecision: {
+        chosenOptionId: '選んだ選択肢ID',
+        rationale: '選んだ理由',
+        rejectedOptionId: '選ばなかった選択肢ID',
+        rejectedReason: '選ばなかった理由',
+        rejectedOptions: '選ばなかった選択肢と、その理由',
+        reviewDate: 'レビュー予定日（YYYY-MM-DD）',
+        decidedAt: '決定を記録した日時（ISO 8601）',
+        reviewStartedAt: 'レビューを開始した日時（ISO 8601）'
+      },
+      output: {
+        decision: '記録した決定'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Records the option actually chosen and the reasons for it, as the conclusion of the WRAP process.
+
+## What to record
+- **chosenOptionId**: The chosen option (one of the currently registered options)
+- **rationale**: Why that option was chosen
+- **rejectedOptions**: The options not chosen and why
+- **reviewDate**: When to revisit the decision
+
+It can be recorded once the options are fixed. Recording again during a review updates the decision.
+`,
+    decided: (decision: string) => `✅ Recorded the decision:\n${decision}`,
+    nextAction: (reviewDate: string) => `
+NEXT ACTION: The decision is recorded. On the review date (${reviewDate}), revisit it with the start-decision-review tool.
+If trip wire metrics become available before then, check them with the evaluate-tripwires tool.`,
+
+    schemaValidation: {
+      rationaleRequired: 'Enter the rationale for the choice',
+      rationaleTooLong: 'The rationale must be at most 500 characters',
+      rejectedReasonTooLong: 'The reason for not choosing an option must be at most 200 characters',
+      reviewDateFormat: 'Enter the review date in YYYY-MM-DD format'
+    },
+
+    schemaDescriptions: {
+      chosenOptionId: 'ID of the chosen option (check with get_current_status)',
+      rationale: 'Why the option was chosen',
+      rejectedOptionId: 'ID of an option not chosen',
+      rejectedReason: 'Why the option was not chosen',
+      rejectedOptions: 'The options not chosen and why',
+      reviewDate: 'Date to review the decision (YYYY-MM-DD)',
+      decisionId: 'Decision to record the choice to (defaults to the active decision)',
+      finalDecision: {
+        chosenOptionId: 'ID of the chosen option',
+        rationale: 'Why it was chosen',
+        rejectedOptionId: 'ID of an option not chosen',
+        rejectedReason: 'Why it was not chosen',
+        rejectedOptions: 'The options not chosen and why',
+        reviewDate: 'Planned review date (YYYY-MM-DD)',
+        decidedAt: 'When the decision was recorded (ISO 8601)',
+        reviewStartedAt: 'When the review was started (ISO 8601)'
+      },
+      output: {
+        decision: 'The recorded decision'
+      }
+    }
+  }
+});
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createMakeDecisionSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    chosenOptionId: z.string().describe(text.chosenOptionId),
+    rationale: z.string()
+      .min(1, validation.rationaleRequired)
+      .max(500, validation.rationaleTooLong)
+      .describe(text.rationale),
+    rejectedOptions: z.array(z.object({
+      optionId: z.string().describe(text.rejectedOptionId),
+      reason: z.string()
+        .max(200, validation.rejectedReasonTooLong)
+        .describe(text.rejectedReason)
+    }))
+      .default([])
+      .describe(text.rejectedOptions),
+    reviewDate: z.string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, validation.reviewDateFormat)
+      .describe(text.reviewDate),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createFinalDecisionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.finalDecision;
+
+  return z.object({
+    chosenOptionId: z.string().describe(text.chosenOptionId),
+    rationale: z.string().describe(text.rationale),
+    rejectedOptions: z.array(z.object({
+      optionId: z.string().describe(text.rejectedOptionId),
+      reason: z.string().describe(text.rejectedReason)
+    })).describe(text.rejectedOptions),
+    reviewDate: z.string().describe(text.reviewDate),
+    decidedAt: z.string().describe(text.decidedAt),
+    reviewStartedAt: z.string().optional().describe(text.reviewStartedAt)
+  });
+};
+
+export const createMakeDecisionOutputSchema = () => z.object({
+  decision: createFinalDecisionOutputSchema().describe(prompts().schemaDescriptions.output.decision)
+});
+
+export type MakeDecisionParams = z.infer<ReturnType<typeof createMakeDecisionSchema>>;
+export type MakeDecisionResponse = z.infer<ReturnType<typeof createMakeDecisionOutputSchema>>;
@@ -1,176 +1,196 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { TripwireParams, TripwireOutput, tripwireOutputSchema } from './schema.js';
-import { TRIPWIRE_ANALYSIS_PROMPT } from './prompt.js';
-import { toStructuredCallToolResult } from '../util.js';
+import { TripwireParams, TripwireOutput, TripwireSamplingResult, createTripwireSamplingResultSchema } from './schema.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import {
+  requestStructuredSample,
+  formatSamplingFailure,
+  formatAgentRequest,
+  placeholderNote,
+  agentRequestNote,
+  appendNote,
+  type AgentRequest
+} from '../sampling.js';
+import { getClientSupport } from '../../client-capabilities.js';
+import { PrepareToBeWrongAggregate } from '../../../domain/command/prepare-to-be-wrong.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import { serializeTripwireCriterion } from '../../../domain/read/tripwires/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import type { DecisionId } from '../../../domain/term/decision.js';
+import type { OptionId } from '../../../domain/term/option.js';
 
-export const createTripwireHandler = (server: McpServer) => {
-  return async (args: TripwireParams): Promise<CallToolResult> => {
-  try {
-    // Format options for the prompt
-    const optionsText = args.options.map(option => 
-      `- **${option.name}** (ID: ${option.id}): ${option.description}`
-    ).join('\n');
+export const SUBMIT_TOOL_NAME = 'submit-tripwires';
 
-    // Create the prompt with options
-    const analysisPrompt = TRIPWIRE_ANALYSIS_PROMPT.replace('{{options}}', optionsText);
-
-    try {
-      // Use MCP sampling to request LLM analysis from the client
-      const response = await (server as any).server.createMessage({
-        messages: [{
-          role: "user",
-          content: {
-            type: "text",
-            text: analysisPrompt
-          }
-        }],
-        modelPreferences: {
-          costPriority: 0.3,
-          speedPriority: 0.5,
-          intelligencePriority: 0.8
-        },
-        systemPrompt: "あなたは意思決定支援の専門家として、撤退基準の設定を支援します。具体的で実用的な基準を提案してください。期待される形式でJSONを返してください。",
-        maxTokens: 2000
-      });
-
-      // Extract the response content
-      let analysisResult = '';
-      if (response.content.type === 'text') {
-        analysisResult = response.content.text;
-      } else {
-        throw new Error('Received non-text response from sampling');
-      }
+/**
+ * 撤退基準の由来 - サンプリングした回数、または2段階モードでエージェントが答えたこと
+ */
+export type TripwireProvenance =
+  | { readonly source: 'ai'; readonly attempts: number }
+  | { readonly source: 'agent' };
 
-      // Try to parse JSON response
-      let tripwiresData: TripwireOutput;
-      try {
-        // Look for JSON in the response
-        const jsonMatch = analysisResult.match(/```json\s*([\s\S]*?)\s*```/) || 
-                         analysisResult.match(/\{[\s\S]*\}/);
-        
-        if (jsonMatch) {
-          const jsonStr = jsonMatch[1] || jsonMatch[0];
-          const parsedData = JSON.parse(jsonStr);
-          
-          // Validate the parsed data with Zod schema
-          const validationResult = tripwireOutputSchema.safeParse(parsedData);
-          if (validationResult.success) {
-            tripwiresData = validationResult.data;
-          } else {
-            throw new Error(`Parsed JSON validation failed: ${validationResult.error.message}`);
-          }
-        } else {
-          throw new Error('No JSON found in response');
-        }
-      } catch (parseError) {
-        // Fallback: create structured response from text analysis
-        tripwiresData = {
-          tripwires: args.options.map(option => ({
-            optionId: option.id,
-            optionName: option.name,
-            criteria: [
-              {
-                id: `${option.id}-criterion-1`,
-                description: `AIが分析した${option.name}の撤退基準`,
-                type: 'other',
-                threshold: 'AI分析結果に基づく基準',
-                severity: 'medium'
-              }
-            ]
-          })),
-          metadata: {
-            generatedAt: new Date().toISOString(),
-            totalOptions: args.options.length,
-            totalCriteria: args.options.length,
-            note: 'AI応答からの自動生成'
-          }
-        };
-      }
+/**
+ * 回答された撤退基準を保存し、保存後のIDで応答を組み立てる
+ *
+ * make-tripwire のサンプリング結果と、submit-tripwires でエージェントが送った回答の両方で使う。
+ */
+export const saveTripwires = async (
+  decisionId: DecisionId,
+  optionName: (optionId: string) => string,
+  targetOptionIds: readonly OptionId[],
+  answer: TripwireSamplingResult,
+  provenance: TripwireProvenance
+): Promise<CallToolResult> => {
+  const commandResult = PrepareToBeWrongAggregate.setTripwires({
+    tripwires: answer.tripwires,
+    existingOptionIds: targetOptionIds
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${PrepareToBeWrongAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
 
-      const successMessage = `✅ AIが${args.options.length}個の選択肢について撤退基準を分析しました。\n\n**分析結果:**\n${analysisResult}`;
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
 
-      // Final validation before returning
-      const finalValidation = tripwireOutputSchema.safeParse(tripwiresData);
-      if (!finalValidation.success) {
-        throw new Error(`Final validation failed: ${finalValidation.error.message}`);
+  const response: TripwireOutput = {
+    tripwires: event.tripwires.map(tripwire => ({
+      optionId: tripwire.optionId,
+      optionName: optionName(tripwire.optionId),
+      criteria: tripwire.criteria.map(serializeTripwireCriterion)
+    })),
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      totalOptions: event.tripwires.length,
+      totalCriteria: event.tripwires.reduce((sum, tripwire) => sum + tripwire.criteria.length, 0),
+      saved: true,
+      source: provenance.source,
+      attempts: provenance.source === 'ai' ? provenance.attempts : 0
+    }
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().saved(event.tripwires.length), prompts().nextAction],
+    false
+  );
+};
+
+/**
+ * サンプリングできなかったときの応答 - 保存せず、撤退基準はプレースホルダーとして明示する
+ */
+const placeholderOutput = (args: TripwireParams, attempts: number): TripwireOutput => ({
+  tripwires: args.options.map(option => ({
+    optionId: option.id,
+    optionName: option.name,
+    criteria: [
+      {
+        id: `${option.id}-placeholder-1`,
+        description: prompts().placeholderCriterion(option.name),
+        type: 'other',
+        threshold: placeholderNote(),
+        severity: 'low'
       }
+    ]
+  })),
+  metadata: {
+    generatedAt: new Date().toISOString(),
+    totalOptions: args.options.length,
+    totalCriteria: args.options.length,
+    saved: false,
+    source: 'placeholder',
+    attempts,
+    note: appendNote(placeholderNote(), prompts().notSaved)
+  }
+});
 
-      return toStructuredCallToolResult(
-        finalValidation.data,
-        [],
-        false
-      );
+/**
+ * サンプリングに対応していないクライアントへの応答 - 分析をエージェントに依頼する
+ */
+const agentRequestOutput = (args: TripwireParams, agentRequest: AgentRequest): TripwireOutput => ({
+  tripwires: [],
+  agentRequest,
+  metadata: {
+    generatedAt: new Date().toISOString(),
+    totalOptions: args.options.length,
+    totalCriteria: 0,
+    saved: false,
+    source: 'agent',
+    attempts: 0,
+    note: agentRequestNote()
+  }
+});
 
-    } catch (samplingError) {
-      // If sampling fails, return an error with fallback structure
-      const errorMessage = `❌ サンプリング要求が失敗しました: ${samplingError instanceof Error ? samplingError.message : String(samplingError)}`;
-      
-      const fallbackResponse: TripwireOutput = {
-        tripwires: args.options.map(option => ({
-          optionId: option.id,
-          optionName: option.name,
-          criteria: [
-            {
-              id: `${option.id}-fallback-1`,
-              description: `${option.name}のパフォーマンス基準（フォールバック）`,
-              type: 'performance',
-              threshold: '目標値の70%を下回る状態が継続',
-              severity: 'high'
-            },
-            {
-              id: `${option.id}-fallback-2`,
-              description: `${option.name}のコスト基準（フォールバック）`,
-              type: 'cost',
-              threshold: '予算の120%を超過',
-              severity: 'critical'
-            }
-          ]
-        })),
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          totalOptions: args.options.length,
-          totalCriteria: args.options.length * 2,
-          note: 'フォールバック応答'
-        }
-      };
+export const createTripwireHandler = (server: McpServer) => {
+  return async (args: TripwireParams): Promise<CallToolResult> => {
+    const decisionResult = await resolveDecisionId(args.decisionId);
+    if (decisionResult.isErr()) {
+      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+    }
+    const decisionId = decisionResult.value;
+
+    // 撤退基準は登録済みの選択肢に紐づけるため、サンプリング前に選択肢IDを確認する
+    const optionsResult = await getCurrentOptions(decisionId);
+    if (optionsResult.isErr()) {
+      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+    }
+    const registeredIds: readonly string[] = (optionsResult.value?.options ?? []).map(option => option.id);
+    const unknownOption = args.options.find(option => !registeredIds.includes(option.id));
+    if (unknownOption) {
+      return toCallToolResult([
+        `${ERROR_MESSAGE_PREFIX}${PrepareToBeWrongAggregate.toErrorMessage({ type: 'UnknownOption', optionId: unknownOption.id })}`
+      ], true);
+    }
+    // 検証済みなので、指定された選択肢IDはそのまま登録済みの OptionId として扱える
+    const targetOptionIds = args.options.map(option => option.id as OptionId);
+
+    const optionsText = args.options.map(option =>
+      `- **${option.name}** (ID: ${option.id}): ${option.description}`
+    ).join('\n');
+
+    const prompt = prompts().analysis(optionsText);
+
+    // サンプリングできないクライアントでは、エージェントが答えて submit-tripwires で送る
+    if (!getClientSupport(server).sampling) {
+      const agentRequest = { systemPrompt: prompts().system, prompt, submitTool: SUBMIT_TOOL_NAME };
+      return toStructuredCallToolResult(agentRequestOutput(args, agentRequest), [formatAgentRequest(agentRequest)], false);
+    }
 
+    const sampleResult = await requestStructuredSample(server, {
+      prompt,
+      systemPrompt: prompts().system,
+      schema: createTripwireSamplingResultSchema(),
+      maxTokens: 2000,
+      modelPreferences: {
+        costPriority: 0.3,
+        speedPriority: 0.5,
+        intelligencePriority: 0.8
+      },
+      // 保存できない応答（対象外の選択肢など）もモデルに直してもらう
+      validate: sampled => PrepareToBeWrongAggregate.setTripwires({
+        tripwires: sampled.tripwires,
+        existingOptionIds: targetOptionIds
+      })
+        .map(() => sampled)
+        .mapErr(PrepareToBeWrongAggregate.toErrorMessage)
+    });
+
+    if (sampleResult.isErr()) {
+      const error = sampleResult.error;
       return toStructuredCallToolResult(
-        fallbackResponse,
-        [errorMessage],
-        true
+        placeholderOutput(args, error.attempts),
+        [`${error.type === 'sampling_failed' ? ERROR_MESSAGE_PREFIX : '⚠️ '}${formatSamplingFailure(error, prompts().notSaved)}`],
+        error.type === 'sampling_failed'
       );
     }
 
-  } catch (error) {
-    // Always return valid structured content even for errors
-    const errorResponse: TripwireOutput = {
-      tripwires: args.options.map(option => ({
-        optionId: option.id,
-        optionName: option.name,
-        criteria: [
-          {
-            id: `${option.id}-error-1`,
-            description: `${option.name}のエラー対応基準`,
-            type: 'other',
-            threshold: 'システムエラーによる基準設定不可',
-            severity: 'low'
-          }
-        ]
-      })),
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        totalOptions: args.options.length,
-        totalCriteria: args.options.length,
-        note: 'システムエラーによる最小限の応答'
-      }
-    };
-
-    return toStructuredCallToolResult(
-      errorResponse,
-      [`トリップワイヤー生成中にエラーが発生しました: ${error instanceof Error ? error.message : String(error)}`],
-      true
-    );
-  }
+    const optionName = (optionId: string) => args.options.find(option => option.id === optionId)?.name ?? optionId;
+    return await saveTripwires(decisionId, optionName, targetOptionIds, sampleResult.value.data, {
+      source: 'ai',
+      attempts: sampleResult.value.attempts
+    });
   };
 };
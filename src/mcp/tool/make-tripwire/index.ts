@@ -1,11 +1,19 @@
-import { tripwireParams, tripwireOutputSchema } from './schema.js';
+import { createTripwireSchema, createTripwireOutputSchema } from './schema.js';
 import { createTripwireHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
-export const createMakeTripwireTool = (server: any) => ({
+export const createMakeTripwireTool = (server: McpServer) => ({
   name: 'make-tripwire',
   title: 'Make Tripwire',
-  description: 'クライアント側で各選択肢の撤退基準（トリップワイヤー）を検討し、設定するためのサンプリングツール',
-  parameters: tripwireParams,
-  outputSchema: tripwireOutputSchema,
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createTripwireSchema().shape;
+  },
+  get outputSchema() {
+    return createTripwireOutputSchema();
+  },
   handler: createTripwireHandler(server)
-});
\ No newline at end of file
+});
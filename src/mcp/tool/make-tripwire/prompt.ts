@@ -1,4 +1,12 @@
-export const TRIPWIRE_ANALYSIS_PROMPT = `あなたは意思決定の専門家です。与えられた選択肢に対して、撤退基準（トリップワイヤー）を設定してください。
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: 'クライアント側で各選択肢の撤退基準（トリップワイヤー）を検討し、選択肢ごとに保存するサンプリングツール。保存した撤退基準は get_current_status で確認でき、update-tripwire / remove-tripwire で編集できます',
+
+    analysis: (options: string) => `あなたは意思決定の専門家です。与えられた選択肢に対して、撤退基準（トリップワイヤー）を設定してください。
 
 トリップワイヤーとは、その選択肢を続行すべきでないと判断する具体的な基準です。各選択肢について、以下の観点から撤退基準を検討してください：
 
@@ -22,6 +30,145 @@ export const TRIPWIRE_ANALYSIS_PROMPT = `あなたは意思決定の専門家で
 - type: カテゴリー（performance/cost/risk/timeline/quality/other）
 - threshold: 具体的な閾値や条件
 - severity: 重要度レベル
+- condition: 数値で観測できる基準には、機械的に判定できる条件（metric: 指標名, comparator: >, >=, <, <=, ==, != のいずれか, value: 数値）
+
+次のJSON形式で回答してください（optionId には選択肢のIDをそのまま使ってください）：
+\`\`\`json
+{"tripwires": [{"optionId": "...", "criteria": [{"description": "...", "type": "performance", "threshold": "...", "severity": "high", "condition": {"metric": "...", "comparator": "<", "value": 100}}]}]}
+\`\`\`
 
 分析対象の選択肢：
-{{options}}`;
\ No newline at end of file
+${options}`,
+
+    system: 'あなたは意思決定支援の専門家として、撤退基準の設定を支援します。具体的で実用的な基準を提案してください。期待される形式でJSONを返してください。',
+
+    notSaved: '撤退基準は保存されていません。内容を確認して make-tripwire を再実行してください',
+
+    saved: (count: number) => `✅ ${count}個の選択肢について撤退基準を保存しました。`,
+
+    placeholderCriterion: (optionName: string) => `【プレースホルダー】${optionName}の撤退基準は未設定です`,
+
+    nextAction: `
+NEXT ACTION: 撤退基準を保存しました。get_current_status で確認でき、update-tripwire / remove-tripwire で個別に編集・削除できます。`,
+
+    schemaDescriptions: {
+      optionId: '登録済みの選択肢ID（get_current_status で確認）',
+      optionName: '選択肢の名前',
+      optionDescription: 'この選択肢の内容',
+      options: '撤退基準を検討する選択肢',
+      decisionId: '撤退基準を保存する意思決定ID（省略時はアクティブな意思決定）',
+      condition: {
+        metric: '観測する指標の名前（例: 解約率）',
+        comparator: '`観測値 <comparator> value` が成り立つと撤退基準に該当する',
+        value: '数値のしきい値'
+      },
+      criterion: {
+        id: '撤退基準の一意識別子',
+        description: '撤退基準の内容',
+        type: '撤退基準の種類',
+        threshold: '撤退を判断する具体的なしきい値や条件',
+        severity: 'この撤退基準の重大度',
+        condition: 'evaluate-tripwires で判定する機械的なしきい値'
+      },
+      output: {
+        tripwireOptionId: 'この撤退基準が属する選択肢ID',
+        optionName: '選択肢の名前',
+        criteria: 'この選択肢の撤退基準',
+        tripwires: '選択肢ごとの撤退基準',
+        agentRequest: 'クライアントがサンプリングに対応していないときに設定される。この依頼に答え、JSON を submit-tripwires で送る',
+        metadata: '撤退基準の生成に関する情報',
+        generatedAt: '撤退基準を生成した日時（ISO 形式）',
+        totalOptions: '検討した選択肢の数',
+        totalCriteria: '生成した撤退基準の数',
+        saved: '撤退基準を意思決定に保存したかどうか',
+        source: 'ai: クライアント側のLLMが検討した / agent: 2段階モードでエージェントが答えた / placeholder: AIの出力ではない（サンプリングに失敗し、何も検討していない）',
+        attempts: '却下された応答のやり直しを含むサンプリングの回数（2段階モードでは0）',
+        note: '生成の過程についての補足'
+      }
+    }
+  },
+  en: {
+    toolDescription: 'A sampling tool that has the client consider exit criteria (trip wires) for each option and saves them per option. Saved trip wires can be checked with get_current_status and edited with update-tripwire / remove-tripwire',
+
+    analysis: (options: string) => `You are a decision-making expert. Set exit criteria (trip wires) for the given options.
+
+A trip wire is a concrete criterion for deciding that an option should not be continued. For each option, consider exit criteria from the following viewpoints:
+
+## Viewpoints to consider:
+1. **Performance**: criteria for when the expected results are not achieved
+2. **Cost**: criteria for budget overruns or worsening cost-effectiveness
+3. **Risk**: criteria for when an unacceptable risk materializes
+4. **Timeline**: the tolerable limit of schedule delays
+5. **Quality**: criteria for falling below quality standards
+6. **Other**: other important exit criteria
+
+## Guidelines for setting criteria:
+- Set concrete, measurable criteria
+- Use objective indicators rather than subjective judgment
+- Set criteria at the right time so problems are found early
+- Set severity (low, medium, high, critical) according to importance
+
+## Answer format:
+Set at least three exit criteria for each option. Each criterion must include:
+- description: a description of the criterion
+- type: the category (performance/cost/risk/timeline/quality/other)
+- threshold: the concrete threshold or condition
+- severity: the level of importance
+- condition: for criteria observable as numbers, a condition that can be judged mechanically (metric: the name of the indicator, comparator: one of >, >=, <, <=, ==, !=, value: a number)
+
+Answer in the following JSON format (use the option IDs as they are for optionId):
+\`\`\`json
+{"tripwires": [{"optionId": "...", "criteria": [{"description": "...", "type": "performance", "threshold": "...", "severity": "high", "condition": {"metric": "...", "comparator": "<", "value": 100}}]}]}
+\`\`\`
+
+Options to analyze:
+${options}`,
+
+    system: 'As a decision-support expert, you help set exit criteria. Propose concrete, practical criteria. Return JSON in the expected format.',
+
+    notSaved: 'The trip wires have not been saved. Check the content and run make-tripwire again',
+
+    saved: (count: number) => `✅ Saved trip wires for ${count} options.`,
+
+    placeholderCriterion: (optionName: string) => `[Placeholder] No trip wires have been set for ${optionName}`,
+
+    nextAction: `
+NEXT ACTION: The trip wires have been saved. Check them with get_current_status, and edit or delete them one by one with update-tripwire / remove-tripwire.`,
+
+    schemaDescriptions: {
+      optionId: 'Registered option ID (check with get_current_status)',
+      optionName: 'Name of the option',
+      optionDescription: 'Description of what this option entails',
+      options: 'List of options to create trip wires for',
+      decisionId: 'Decision to save the trip wires to (defaults to the active decision)',
+      condition: {
+        metric: 'Name of the observed metric (e.g. churn rate)',
+        comparator: 'The criterion fires when `observed <comparator> value` holds',
+        value: 'Numeric threshold'
+      },
+      criterion: {
+        id: 'Unique identifier for the criterion',
+        description: 'Description of the withdrawal criterion',
+        type: 'Category of the criterion',
+        threshold: 'Specific threshold or condition that triggers withdrawal',
+        severity: 'Severity level of this criterion',
+        condition: 'Machine-checkable threshold evaluated by evaluate-tripwires'
+      },
+      output: {
+        tripwireOptionId: 'ID of the option this trip wire belongs to',
+        optionName: 'Name of the option',
+        criteria: 'List of withdrawal criteria for this option',
+        tripwires: 'Trip wire criteria for each option',
+        agentRequest: 'Set when the client cannot sample: answer this request and submit the JSON with submit-tripwires',
+        metadata: 'Metadata about the trip wire generation',
+        generatedAt: 'ISO timestamp when the trip wires were generated',
+        totalOptions: 'Total number of options analyzed',
+        totalCriteria: 'Total number of criteria generated',
+        saved: 'Whether the trip wires were saved to the decision',
+        source: 'ai: analysed by the client LLM / agent: answered by the agent in two-step mode / placeholder: not AI output, sampling failed and nothing was analysed',
+        attempts: 'Number of sampling attempts, including repairs of rejected responses (0 in two-step mode)',
+        note: 'Additional notes about the generation process'
+      }
+    }
+  }
+});
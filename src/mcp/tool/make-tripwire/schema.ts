@@ -1,36 +1,82 @@
 import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { CriterionTypeSchema, CriterionSeveritySchema, ComparatorSchema } from '../../../domain/term/tripwire.js';
+import { samplingSourceSchema, createAgentRequestOutputSchema } from '../sampling.js';
+import { prompts } from './prompt.js';
 
-// Input schema for the trip wire tool
-const tripwireSchema = z.object({
-  options: z.array(z.object({
-    id: z.string().describe("Unique identifier for the option"),
-    name: z.string().describe("Name of the option"),
-    description: z.string().describe("Description of what this option entails")
-  })).min(1).describe("List of options to create trip wires for")
-});
+// Input schema for the trip wire tool - descriptions are written in the locale at creation time
+export const createTripwireSchema = () => {
+  const text = prompts().schemaDescriptions;
+
+  return z.object({
+    options: z.array(z.object({
+      id: z.string().describe(text.optionId),
+      name: z.string().describe(text.optionName),
+      description: z.string().describe(text.optionDescription)
+    })).min(1).describe(text.options),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Machine-checkable threshold: "<metric> <comparator> <value>" fires the criterion
+export const createConditionSchema = () => {
+  const text = prompts().schemaDescriptions.condition;
+
+  return z.object({
+    metric: z.string().describe(text.metric),
+    comparator: ComparatorSchema.describe(text.comparator),
+    value: z.number().describe(text.value)
+  });
+};
+
+// A single withdrawal criterion, shared with the update-tripwire / remove-tripwire tools
+export const createCriterionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.criterion;
+
+  return z.object({
+    id: z.string().describe(text.id),
+    description: z.string().describe(text.description),
+    type: CriterionTypeSchema.describe(text.type),
+    threshold: z.string().describe(text.threshold),
+    severity: CriterionSeveritySchema.describe(text.severity),
+    condition: createConditionSchema().optional().describe(text.condition)
+  });
+};
 
 // Output schema for structured response
-const outputSchema = z.object({
+export const createTripwireOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    tripwires: z.array(z.object({
+      optionId: z.string().describe(text.tripwireOptionId),
+      optionName: z.string().describe(text.optionName),
+      criteria: z.array(createCriterionOutputSchema()).describe(text.criteria)
+    })).describe(text.tripwires),
+    agentRequest: createAgentRequestOutputSchema().optional()
+      .describe(text.agentRequest),
+    metadata: z.object({
+      generatedAt: z.string().describe(text.generatedAt),
+      totalOptions: z.number().describe(text.totalOptions),
+      totalCriteria: z.number().describe(text.totalCriteria),
+      saved: z.boolean().describe(text.saved),
+      source: samplingSourceSchema.describe(text.source),
+      attempts: z.number().describe(text.attempts),
+      note: z.string().optional().describe(text.note)
+    }).describe(text.metadata)
+  });
+};
+
+// Shape expected from the sampled LLM response; criterion IDs are assigned when saving
+export const createTripwireSamplingResultSchema = () => z.object({
   tripwires: z.array(z.object({
-    optionId: z.string().describe("ID of the option this trip wire belongs to"),
-    optionName: z.string().describe("Name of the option"),
-    criteria: z.array(z.object({
-      id: z.string().describe("Unique identifier for the criterion"),
-      description: z.string().describe("Description of the withdrawal criterion"),
-      type: z.enum(['performance', 'cost', 'risk', 'timeline', 'quality', 'other']).describe("Category of the criterion"),
-      threshold: z.string().describe("Specific threshold or condition that triggers withdrawal"),
-      severity: z.enum(['low', 'medium', 'high', 'critical']).describe("Severity level of this criterion")
-    })).describe("List of withdrawal criteria for this option")
-  })).describe("Trip wire criteria for each option"),
-  metadata: z.object({
-    generatedAt: z.string().describe("ISO timestamp when the trip wires were generated"),
-    totalOptions: z.number().describe("Total number of options analyzed"),
-    totalCriteria: z.number().describe("Total number of criteria generated"),
-    note: z.string().optional().describe("Additional notes about the generation process")
-  }).describe("Metadata about the trip wire generation")
+    optionId: z.string(),
+    criteria: z.array(createCriterionOutputSchema().omit({ id: true }))
+  }))
 });
 
-export const tripwireParams = tripwireSchema.shape;
-export const tripwireOutputSchema = outputSchema;
-export type TripwireParams = z.infer<typeof tripwireSchema>;
-export type TripwireOutput = z.infer<typeof outputSchema>;
\ No newline at end of file
+export type TripwireParams = z.infer<ReturnType<typeof createTripwireSchema>>;
+export type TripwireOutput = z.infer<ReturnType<typeof createTripwireOutputSchema>>;
+export type TripwireSamplingResult = z.infer<ReturnType<typeof createTripwireSamplingResultSchema>>;
@@ -0,0 +1,78 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { RealityTestAggregate } from '../../../domain/command/reality-test.js';
+import {
+  getCurrentAssumptions,
+  serializeAssumptionView,
+  formatAssumptionLine,
+  formatAssumptionsReadError
+} from '../../../domain/read/assumptions/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { RecordAssumptionTestResultParams, RecordAssumptionTestResultResponse } from './schema.js';
+
+/**
+ * Record Assumption Test Result Tool Handler
+ *
+ * 仮説の検証結果を記録し、すべての仮説が検証されたら現実検証フェーズを完了させる
+ */
+export const recordAssumptionTestResultHandler = async (
+  args: RecordAssumptionTestResultParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const assumptionsResult = await getCurrentAssumptions(decisionId);
+  if (assumptionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatAssumptionsReadError(assumptionsResult.error)}`], true);
+  }
+  const { assumptions } = assumptionsResult.value;
+
+  const commandResult = RealityTestAggregate.recordTestResult({
+    assumptionId: args.assumptionId,
+    verdict: args.verdict,
+    evidence: args.evidence,
+    registeredAssumptions: assumptions,
+    testedAssumptionIds: assumptions
+      .filter(assumption => assumption.testResult !== null)
+      .map(assumption => assumption.id)
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${RealityTestAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const original = assumptions.find(assumption => assumption.id === event.assumptionId)!;
+  const tested = {
+    ...original,
+    testResult: { verdict: event.verdict, evidence: event.evidence, testedAt: event.testedAt }
+  };
+
+  const response: RecordAssumptionTestResultResponse = {
+    assumption: serializeAssumptionView(tested),
+    remainingUntested: event.remainingUntestedCount
+  };
+
+  const nextActionPrompt = event.remainingUntestedCount === 0
+    ? prompts().allTested
+    : prompts().remaining(event.remainingUntestedCount);
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().recorded(formatAssumptionLine(tested)),
+      prompts().verdictGuidance[event.verdict],
+      nextActionPrompt
+    ],
+    false
+  );
+};
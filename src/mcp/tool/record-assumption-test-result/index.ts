@@ -0,0 +1,18 @@
+import { createRecordAssumptionTestResultSchema, createRecordAssumptionTestResultOutputSchema } from './schema.js';
+import { recordAssumptionTestResultHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const recordAssumptionTestResultTool = {
+  name: 'record-assumption-test-result',
+  title: 'Record Assumption Test Result',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createRecordAssumptionTestResultSchema().shape;
+  },
+  get outputSchema() {
+    return createRecordAssumptionTestResultOutputSchema();
+  },
+  handler: recordAssumptionTestResultHandler
+};
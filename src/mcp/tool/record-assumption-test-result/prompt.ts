@@ -0,0 +1,86 @@
+// Pure prompt strings for record-assumption-test-result tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+import type { AssumptionVerdict } from '../../../domain/term/assumption.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+register-assumptions で登録した仮説を検証し、その結果を記録するツールです。
+
+## 検証結果の指定
+- **confirmed**: 検証で仮説が裏付けられた
+- **refuted**: 検証で仮説が覆された（その選択肢の評価を見直す必要がある）
+- **inconclusive**: 検証しても判断できなかった（別の検証方法を検討する）
+
+evidence には「そう思う」ではなく、検証で実際に観察した事実を記録してください。
+同じ仮説を再検証した場合は、最新の結果で上書きされます。
+`,
+    recorded: (assumption: string) => `✅ 検証結果を記録しました: ${assumption}`,
+    // Next action prompts based on the verdict
+    verdictGuidance: {
+      confirmed: `仮説が裏付けられました。この選択肢の前提は現時点で妥当です。`,
+      refuted: `仮説が覆されました。この仮説に依存している選択肢を見直すか、前提を変えた新しい選択肢を検討してください。`,
+      inconclusive: `判断できませんでした。より小さく試せる別の検証方法を検討し、再検証してください。`
+    } satisfies Record<AssumptionVerdict, string>,
+    remaining: (remaining: number) => `
+NEXT ACTION: 未検証の仮説が残り${remaining}件あります。引き続き検証して結果を記録してください。`,
+    allTested: `
+NEXT ACTION: すべての仮説の検証が完了しました。get_current_status で検証結果を確認し、次のステップに進んでください。`,
+
+    schemaValidation: {
+      evidenceRequired: '検証の根拠を入力してください'
+    },
+
+    schemaDescriptions: {
+      assumptionId: '検証した仮説ID（get_current_status で確認）',
+      verdict: '検証結果（confirmed: 裏付けられた / refuted: 覆された / inconclusive: 判断できなかった）',
+      evidence: '検証で実際に観察した事実・データ・聞き取った内容',
+      decisionId: '仮説が登録されている意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        assumption: '検証結果を記録した仮説',
+        remainingUntested: 'まだ検証されていない仮説の数'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Records the result of testing an assumption registered with register-assumptions.
+
+## Verdict
+- **confirmed**: The test supported the assumption
+- **refuted**: The test overturned the assumption (the option needs to be reassessed)
+- **inconclusive**: The test could not settle it (consider another test method)
+
+Record as evidence what was actually observed in the test, not what you believe.
+Testing the same assumption again overwrites it with the latest result.
+`,
+    recorded: (assumption: string) => `✅ Recorded the test result: ${assumption}`,
+    verdictGuidance: {
+      confirmed: `The assumption was confirmed. This premise of the option holds for now.`,
+      refuted: `The assumption was refuted. Revisit the options that depend on it, or consider new options built on different premises.`,
+      inconclusive: `The test was inconclusive. Consider a smaller test that could settle it and test again.`
+    },
+    remaining: (remaining: number) => `
+NEXT ACTION: ${remaining} assumptions are still untested. Keep testing them and record the results.`,
+    allTested: `
+NEXT ACTION: Every assumption has been tested. Review the results with get_current_status and move on to the next step.`,
+
+    schemaValidation: {
+      evidenceRequired: 'Enter the evidence of the test'
+    },
+
+    schemaDescriptions: {
+      assumptionId: 'ID of the tested assumption (check with get_current_status)',
+      verdict: 'Result of the test (confirmed: supported / refuted: overturned / inconclusive: could not tell)',
+      evidence: 'Facts, data or interviews actually observed in the test',
+      decisionId: 'Decision the assumption is registered to (defaults to the active decision)',
+      output: {
+        assumption: 'The assumption the test result was recorded for',
+        remainingUntested: 'Number of assumptions not tested yet'
+      }
+    }
+  }
+});
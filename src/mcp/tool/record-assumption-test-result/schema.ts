@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { AssumptionVerdictSchema } from '../../../domain/term/assumption.js';
+import { createAssumptionOutputSchema } from '../register-assumptions/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createRecordAssumptionTestResultSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    assumptionId: z.string().describe(text.assumptionId),
+    verdict: AssumptionVerdictSchema
+      .describe(text.verdict),
+    evidence: z.string()
+      .min(1, validation.evidenceRequired)
+      .describe(text.evidence),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createRecordAssumptionTestResultOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    assumption: createAssumptionOutputSchema().describe(text.assumption),
+    remainingUntested: z.number().describe(text.remainingUntested)
+  });
+};
+
+export type RecordAssumptionTestResultParams = z.infer<ReturnType<typeof createRecordAssumptionTestResultSchema>>;
+export type RecordAssumptionTestResultResponse = z.infer<ReturnType<typeof createRecordAssumptionTestResultOutputSchema>>;
@@ -0,0 +1,82 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AttainDistanceAggregate } from '../../../domain/command/attain-distance.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import {
+  getCurrentDistanceEvaluations,
+  serializeDistanceEvaluation,
+  formatDistanceEvaluation,
+  formatDistanceEvaluationsReadError
+} from '../../../domain/read/distance-evaluations/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { RecordDistanceEvaluationParams, RecordDistanceEvaluationResponse } from './schema.js';
+
+/**
+ * Record Distance Evaluation Tool Handler
+ *
+ * 選択肢ごとの 10/10/10 評価と外部の視点を記録し、
+ * すべての選択肢が評価されたら Attain Distance を完了させる
+ */
+export const recordDistanceEvaluationHandler = async (
+  args: RecordDistanceEvaluationParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const [optionsResult, evaluationsResult] = await Promise.all([
+    getCurrentOptions(decisionId),
+    getCurrentDistanceEvaluations(decisionId)
+  ]);
+  if (optionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+  }
+  if (evaluationsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDistanceEvaluationsReadError(evaluationsResult.error)}`], true);
+  }
+  const options = optionsResult.value?.options ?? [];
+
+  const commandResult = AttainDistanceAggregate.evaluateDistance({
+    evaluations: args.evaluations,
+    existingOptionIds: options.map(option => option.id),
+    evaluatedOptionIds: evaluationsResult.value.evaluations.map(evaluation => evaluation.optionId)
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${AttainDistanceAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const response: RecordDistanceEvaluationResponse = {
+    recorded: event.evaluations.map(serializeDistanceEvaluation),
+    remainingUnevaluated: event.remainingUnevaluatedCount
+  };
+
+  const recordedText = event.evaluations
+    .map(evaluation => {
+      const option = options.find(candidate => candidate.id === evaluation.optionId);
+      return formatDistanceEvaluation(evaluation, option ? option.text : evaluation.optionId);
+    })
+    .join('\n');
+
+  const nextActionPrompt = event.remainingUnevaluatedCount === 0
+    ? prompts().allEvaluated
+    : prompts().remaining(event.remainingUnevaluatedCount);
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().recorded(event.evaluations.length, recordedText),
+      nextActionPrompt
+    ],
+    false
+  );
+};
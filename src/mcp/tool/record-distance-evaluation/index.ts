@@ -0,0 +1,18 @@
+import { createRecordDistanceEvaluationSchema, createRecordDistanceEvaluationOutputSchema } from './schema.js';
+import { recordDistanceEvaluationHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const recordDistanceEvaluationTool = {
+  name: 'record-distance-evaluation',
+  title: 'Record Distance Evaluation',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createRecordDistanceEvaluationSchema().shape;
+  },
+  get outputSchema() {
+    return createRecordDistanceEvaluationOutputSchema();
+  },
+  handler: recordDistanceEvaluationHandler
+};
@@ -0,0 +1,98 @@
+// Pure prompt strings for record-distance-evaluation tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+WRAPプロセスの「Attain Distance（距離を置いて判断する）」の結果を、選択肢ごとに記録するツールです。
+
+## 記録する内容
+- **10/10/10**: その選択をして10分後・10ヶ月後・10年後に、それぞれどう感じているか
+- **外部の視点**: 自分の後任者（または親友）がこの状況に置かれたら、この選択肢をどう判断するか
+
+短期的な感情（10分後）と長期的な価値（10年後）のずれに注目してください。
+同じ選択肢を再評価した場合は、最新の評価で上書きされます。
+`,
+    recorded: (count: number, evaluations: string) => `✅ ${count}個の選択肢について距離を置いた評価を記録しました:\n${evaluations}`,
+    remaining: (remaining: number) => `
+NEXT ACTION: まだ評価していない選択肢が${remaining}件あります。すべての選択肢について距離を置いた評価を記録してください。`,
+    allEvaluated: `
+NEXT ACTION: すべての選択肢について距離を置いた評価が完了しました。
+10分後の感情に引きずられている選択肢や、外部の視点で明らかに選ばれる選択肢がないかを確認し、次のステップに進んでください。`,
+
+    schemaValidation: {
+      tooLong: (label: string) => `${label}は100文字以内で入力してください`,
+      labels: { tenMinutes: '10分後の評価', tenMonths: '10ヶ月後の評価', tenYears: '10年後の評価', outsideView: '外部の視点' },
+      empty: '評価を1つ以上入力してください'
+    },
+
+    schemaDescriptions: {
+      optionId: '評価する選択肢ID（get_current_status で確認）',
+      tenMinutes: 'この選択をして10分後、どう感じているか',
+      tenMonths: 'この選択をして10ヶ月後、どう感じているか',
+      tenYears: 'この選択をして10年後、どう感じているか',
+      outsideView: '自分の後任者（または親友）ならこの選択肢をどう判断するか',
+      evaluations: '選択肢ごとの距離を置いた評価',
+      decisionId: '評価を記録する意思決定ID（省略時はアクティブな意思決定）',
+      evaluation: {
+        optionId: '評価した選択肢ID',
+        tenMinutes: '10分後の評価',
+        tenMonths: '10ヶ月後の評価',
+        tenYears: '10年後の評価',
+        outsideView: '外部の視点（後任者ならどうするか）'
+      },
+      output: {
+        recorded: '今回記録された評価',
+        remainingUnevaluated: 'まだ評価されていない選択肢の数'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Records, for each option, the result of "Attain Distance" in the WRAP process.
+
+## What to record
+- **10/10/10**: How you would feel about the choice 10 minutes, 10 months and 10 years after making it
+- **Outside view**: How your successor (or a close friend) in the same situation would judge the option
+
+Pay attention to gaps between short-term feelings (10 minutes) and long-term values (10 years).
+Evaluating the same option again overwrites it with the latest evaluation.
+`,
+    recorded: (count: number, evaluations: string) => `✅ Recorded distance evaluations for ${count} options:\n${evaluations}`,
+    remaining: (remaining: number) => `
+NEXT ACTION: ${remaining} options have not been evaluated yet. Record a distance evaluation for every option.`,
+    allEvaluated: `
+NEXT ACTION: Every option has a distance evaluation.
+Check whether any option is driven by how you would feel in 10 minutes, or is clearly the one the outside view would choose, then move on to the next step.`,
+
+    schemaValidation: {
+      tooLong: (label: string) => `${label} must be at most 100 characters`,
+      labels: { tenMinutes: 'The 10-minute assessment', tenMonths: 'The 10-month assessment', tenYears: 'The 10-year assessment', outsideView: 'The outside view' },
+      empty: 'Enter at least one evaluation'
+    },
+
+    schemaDescriptions: {
+      optionId: 'ID of the option to evaluate (check with get_current_status)',
+      tenMinutes: 'How you feel 10 minutes after making this choice',
+      tenMonths: 'How you feel 10 months after making this choice',
+      tenYears: 'How you feel 10 years after making this choice',
+      outsideView: 'How your successor (or best friend) would judge this option',
+      evaluations: 'Distanced evaluation of each option',
+      decisionId: 'Decision to record the evaluations to (defaults to the active decision)',
+      evaluation: {
+        optionId: 'ID of the evaluated option',
+        tenMinutes: 'Assessment 10 minutes later',
+        tenMonths: 'Assessment 10 months later',
+        tenYears: 'Assessment 10 years later',
+        outsideView: 'Outside view (what a successor would do)'
+      },
+      output: {
+        recorded: 'Evaluations recorded this time',
+        remainingUnevaluated: 'Number of options not evaluated yet'
+      }
+    }
+  }
+});
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createRecordDistanceEvaluationSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+  const assessment = (label: string) => z.string().max(100, validation.tooLong(label));
+
+  return z.object({
+    evaluations: z.array(z.object({
+      optionId: z.string().describe(text.optionId),
+      tenMinutes: assessment(validation.labels.tenMinutes).describe(text.tenMinutes),
+      tenMonths: assessment(validation.labels.tenMonths).describe(text.tenMonths),
+      tenYears: assessment(validation.labels.tenYears).describe(text.tenYears),
+      outsideView: assessment(validation.labels.outsideView).describe(text.outsideView)
+    }))
+      .min(1, validation.empty)
+      .describe(text.evaluations),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createDistanceEvaluationOutputSchema = () => {
+  const text = prompts().schemaDescriptions.evaluation;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    tenMinutes: z.string().describe(text.tenMinutes),
+    tenMonths: z.string().describe(text.tenMonths),
+    tenYears: z.string().describe(text.tenYears),
+    outsideView: z.string().describe(text.outsideView)
+  });
+};
+
+export const createRecordDistanceEvaluationOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    recorded: z.array(createDistanceEvaluationOutputSchema()).describe(text.recorded),
+    remainingUnevaluated: z.number().describe(text.remainingUnevaluated)
+  });
+};
+
+export type RecordDistanceEvaluationParams = z.infer<ReturnType<typeof createRecordDistanceEvaluationSchema>>;
+export type RecordDistanceEvaluationResponse = z.infer<ReturnType<typeof createRecordDistanceEvaluationOutputSchema>>;
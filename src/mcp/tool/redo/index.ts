@@ -0,0 +1,18 @@
+import { createRedoSchema, createRedoOutputSchema } from './schema.js';
+import { redoHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const redoTool = {
+  name: 'redo',
+  title: 'Redo Undone Command',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createRedoSchema().shape;
+  },
+  get outputSchema() {
+    return createRedoOutputSchema();
+  },
+  handler: redoHandler
+};
@@ -0,0 +1,50 @@
+// Pure prompt strings for redo tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+undo ツールで取り消したコマンドをやり直すツールです。最後に取り消したものから順にやり直します。
+取り消した後に別のコマンドを記録した場合は、やり直せません。
+やり直した結果のワークフロー状態が現在の状態から遷移できない場合もやり直せません。
+`,
+    nextAction: `
+NEXT ACTION: やり直した状態から作業を続けてください。get-undo-stack ツールで取り消し履歴を確認できます。`,
+    redone: (description: string, state: string) => `✅ 「${description}」をやり直しました（現在の状態: ${state}）`,
+
+    schemaDescriptions: {
+      decisionId: '対象の意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        position: 'やり直したコマンドのジャーナル上の位置',
+        eventType: 'やり直したイベントの種類',
+        description: 'やり直したコマンドの説明',
+        workflowState: 'やり直した後のワークフロー状態',
+        undoStack: 'やり直した後の取り消し履歴'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Redoes a command undone with the undo tool, starting from the most recently undone one.
+Nothing can be redone once another command has been recorded after the undo.
+A command also cannot be redone if the resulting workflow state is not reachable from the current state.
+`,
+    nextAction: `
+NEXT ACTION: Continue from the redone state. The get-undo-stack tool shows the undo history.`,
+    redone: (description: string, state: string) => `✅ Redid "${description}" (current state: ${state})`,
+
+    schemaDescriptions: {
+      decisionId: 'Target decision ID (defaults to the active decision)',
+      output: {
+        position: 'Position of the redone command in the journal',
+        eventType: 'Type of the redone event',
+        description: 'What the redone command did',
+        workflowState: 'Workflow state after the redo',
+        undoStack: 'Undo history after the redo'
+      }
+    }
+  }
+});
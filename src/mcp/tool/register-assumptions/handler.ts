@@ -0,0 +1,73 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { RealityTestAggregate } from '../../../domain/command/reality-test.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import {
+  getCurrentAssumptions,
+  serializeAssumptionView,
+  formatAssumptionLine,
+  formatAssumptionsReadError
+} from '../../../domain/read/assumptions/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { RegisterAssumptionsParams, RegisterAssumptionsResponse } from './schema.js';
+
+/**
+ * Register Assumptions Tool Handler
+ *
+ * 選択肢に紐づく仮説を登録し、ワークフローを現実検証フェーズに進める
+ */
+export const registerAssumptionsHandler = async (args: RegisterAssumptionsParams): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  // 仮説は登録済みの選択肢にのみ紐づけられる
+  const optionsResult = await getCurrentOptions(decisionId);
+  if (optionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+  }
+
+  const commandResult = RealityTestAggregate.registerAssumptions({
+    assumptions: args.assumptions,
+    existingOptionIds: optionsResult.value?.options.map(option => option.id) ?? []
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${RealityTestAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const assumptionsResult = await getCurrentAssumptions(decisionId);
+  if (assumptionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatAssumptionsReadError(assumptionsResult.error)}`], true);
+  }
+
+  const registeredIds = new Set(event.assumptions.map(assumption => assumption.id));
+  const registered = assumptionsResult.value.assumptions.filter(assumption => registeredIds.has(assumption.id));
+
+  const response: RegisterAssumptionsResponse = {
+    registered: registered.map(serializeAssumptionView),
+    totalAssumptions: assumptionsResult.value.assumptions.length
+  };
+
+  const registeredList = registered
+    .map((assumption, idx) => `${idx + 1}. ${formatAssumptionLine(assumption)} (ID: ${assumption.id})`)
+    .join('\n');
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().registered(registered.length, registeredList),
+      prompts().nextAction
+    ],
+    false
+  );
+};
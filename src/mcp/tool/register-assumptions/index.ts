@@ -0,0 +1,18 @@
+import { createRegisterAssumptionsSchema, createRegisterAssumptionsOutputSchema } from './schema.js';
+import { registerAssumptionsHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const registerAssumptionsTool = {
+  name: 'register-assumptions',
+  title: 'Register Assumptions',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createRegisterAssumptionsSchema().shape;
+  },
+  get outputSchema() {
+    return createRegisterAssumptionsOutputSchema();
+  },
+  handler: registerAssumptionsHandler
+};
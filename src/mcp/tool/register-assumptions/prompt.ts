@@ -0,0 +1,106 @@
+// Pure prompt strings for register-assumptions tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+WRAPプロセスの「Reality-Test Assumptions（仮説を現実検証する）」を行うためのツールです。
+各選択肢について「この選択肢がうまくいくためには何が真でなければならないか？」を問い、その前提を仮説として登録します。
+
+## 仮説の立て方
+- 選択肢ごとに、成否を分ける前提を洗い出します（get_current_status で選択肢IDを確認）
+- 「うまくいくはず」という願望ではなく、外れたら選択肢の評価が変わる具体的な前提を書きます
+- 確信度（low / medium / high）は検証前の正直な見積もりを指定します
+
+## 検証方法の決め方
+- 大きく賭ける前に小さく試す（ウーチング）方法を優先します
+- 基準率（同種の事例でどうなったか）や、実際に経験した人の話で確かめる方法も有効です
+`,
+    registered: (count: number, list: string) => `✅ ${count}個の仮説を登録しました:\n${list}`,
+    nextAction: `
+NEXT ACTION: 登録した仮説を、検証方法に従って**確信度の低いものから**順に検証してください。
+検証が終わった仮説から record-assumption-test-result ツールで結果（confirmed / refuted / inconclusive）と根拠を記録してください。`,
+
+    schemaValidation: {
+      statementTooLong: '仮説は100文字以内で入力してください',
+      testMethodTooLong: '検証方法は100文字以内で入力してください',
+      empty: '仮説を1つ以上入力してください'
+    },
+
+    schemaDescriptions: {
+      optionId: '仮説を紐づける選択肢ID（get_current_status で確認）',
+      statement: 'その選択肢がうまくいくために真でなければならないこと',
+      confidence: '検証前の確信度（low / medium / high）',
+      testMethod: '仮説をどうやって確かめるか（小さく試す・データを見る・詳しい人に聞くなど）',
+      assumptions: '登録する仮説のリスト',
+      decisionId: '仮説を登録する意思決定ID（省略時はアクティブな意思決定）',
+      assumption: {
+        id: '仮説の一意識別子',
+        optionId: '仮説が紐づく選択肢ID',
+        statement: '仮説の内容',
+        confidence: '検証前の確信度',
+        testMethod: '検証方法',
+        verdict: '検証結果',
+        evidence: '検証で得られた根拠',
+        testedAt: '検証結果を記録した日時（ISO 8601）',
+        testResult: '最新の検証結果（未検証なら省略）'
+      },
+      output: {
+        registered: '今回登録された仮説',
+        totalAssumptions: 'この意思決定に登録されている仮説の総数'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Supports "Reality-Test Assumptions" in the WRAP process.
+For each option, ask "What would have to be true for this option to work?" and register those premises as assumptions.
+
+## Writing assumptions
+- List the premises that decide whether each option succeeds (check the option IDs with get_current_status)
+- Write concrete premises that would change your view of the option if they turned out false, not hopes that it will work out
+- Give an honest estimate of confidence (low / medium / high) before testing
+
+## Choosing a test method
+- Prefer small experiments before betting big (ooching)
+- Checking base rates (how similar cases turned out) or asking people with first-hand experience also works
+`,
+    registered: (count: number, list: string) => `✅ Registered ${count} assumptions:\n${list}`,
+    nextAction: `
+NEXT ACTION: Test the registered assumptions with their test methods, **starting from the lowest confidence**.
+As each test finishes, record the result (confirmed / refuted / inconclusive) and the evidence with the record-assumption-test-result tool.`,
+
+    schemaValidation: {
+      statementTooLong: 'An assumption must be at most 100 characters',
+      testMethodTooLong: 'A test method must be at most 100 characters',
+      empty: 'Enter at least one assumption'
+    },
+
+    schemaDescriptions: {
+      optionId: 'Option ID the assumption belongs to (check with get_current_status)',
+      statement: 'What must be true for the option to work',
+      confidence: 'Confidence before testing (low / medium / high)',
+      testMethod: 'How to check the assumption (try it small, look at data, ask someone who knows, and so on)',
+      assumptions: 'List of assumptions to register',
+      decisionId: 'Decision to register the assumptions to (defaults to the active decision)',
+      assumption: {
+        id: 'Unique identifier for the assumption',
+        optionId: 'Option ID the assumption belongs to',
+        statement: 'The assumption',
+        confidence: 'Confidence before testing',
+        testMethod: 'How to test it',
+        verdict: 'Result of the test',
+        evidence: 'Evidence found by the test',
+        testedAt: 'When the test result was recorded (ISO 8601)',
+        testResult: 'Latest test result (omitted when not yet tested)'
+      },
+      output: {
+        registered: 'Assumptions registered this time',
+        totalAssumptions: 'Total number of assumptions registered for this decision'
+      }
+    }
+  }
+});
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { AssumptionConfidenceSchema, AssumptionVerdictSchema } from '../../../domain/term/assumption.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createRegisterAssumptionsSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    assumptions: z.array(z.object({
+      optionId: z.string().describe(text.optionId),
+      statement: z.string()
+        .max(100, validation.statementTooLong)
+        .describe(text.statement),
+      confidence: AssumptionConfidenceSchema.describe(text.confidence),
+      testMethod: z.string()
+        .max(100, validation.testMethodTooLong)
+        .describe(text.testMethod)
+    }))
+      .min(1, validation.empty)
+      .describe(text.assumptions),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createAssumptionOutputSchema = () => {
+  const text = prompts().schemaDescriptions.assumption;
+
+  return z.object({
+    id: z.string().describe(text.id),
+    optionId: z.string().describe(text.optionId),
+    statement: z.string().describe(text.statement),
+    confidence: AssumptionConfidenceSchema.describe(text.confidence),
+    testMethod: z.string().describe(text.testMethod),
+    testResult: z.object({
+      verdict: AssumptionVerdictSchema.describe(text.verdict),
+      evidence: z.string().describe(text.evidence),
+      testedAt: z.string().describe(text.testedAt)
+    }).optional().describe(text.testResult)
+  });
+};
+
+export const createRegisterAssumptionsOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    registered: z.array(createAssumptionOutputSchema()).describe(text.registered),
+    totalAssumptions: z.number().describe(text.totalAssumptions)
+  });
+};
+
+export type RegisterAssumptionsParams = z.infer<ReturnType<typeof createRegisterAssumptionsSchema>>;
+export type RegisterAssumptionsResponse = z.infer<ReturnType<typeof createRegisterAssumptionsOutputSchema>>;
@@ -0,0 +1,19 @@
+import { createRemoveOptionSchema, createRemoveOptionOutputSchema } from './schema.js';
+import { removeOptionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+
+export const createRemoveOptionTool = (policy: DomainPolicy) => ({
+  name: 'remove-option',
+  title: 'Remove Option',
+  get description() {
+    return prompts().toolDescription(policy);
+  },
+  get parameters() {
+    return createRemoveOptionSchema().shape;
+  },
+  get outputSchema() {
+    return createRemoveOptionOutputSchema();
+  },
+  handler: removeOptionHandler
+});
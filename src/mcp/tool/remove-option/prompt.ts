@@ -0,0 +1,39 @@
+// Pure prompt strings for remove-option tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: ({ optionCount }: DomainPolicy) => `
+選択肢を1つ外すツールです。選択肢は${optionCount.min}個より少なくできません。
+外した選択肢は get-option-history で「除外」として確認できます。
+`,
+    removed: (text: string, count: number) => `✅ 選択肢「${text}」を外しました（残り ${count}個）`,
+
+    schemaDescriptions: {
+      optionId: '外す選択肢ID（get-option-history で確認）',
+      decisionId: '選択肢を外す意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        removedOptionId: '外した選択肢ID'
+      }
+    }
+  },
+  en: {
+    toolDescription: ({ optionCount }: DomainPolicy) => `
+Removes a single option. There cannot be fewer than ${optionCount.min} options.
+Removed options are shown as removed by get-option-history.
+`,
+    removed: (text: string, count: number) => `✅ Removed the option "${text}" (${count} left)`,
+
+    schemaDescriptions: {
+      optionId: 'ID of the option to remove (check with get-option-history)',
+      decisionId: 'Decision to remove the option from (defaults to the active decision)',
+      output: {
+        removedOptionId: 'ID of the removed option'
+      }
+    }
+  }
+});
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createEditedOptionsOutputSchema } from '../add-option/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createRemoveOptionSchema = () => {
+  const text = prompts().schemaDescriptions;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createRemoveOptionOutputSchema = () => createEditedOptionsOutputSchema().extend({
+  removedOptionId: z.string().describe(prompts().schemaDescriptions.output.removedOptionId)
+});
+
+export type RemoveOptionParams = z.infer<ReturnType<typeof createRemoveOptionSchema>>;
+export type RemoveOptionResponse = z.infer<ReturnType<typeof createRemoveOptionOutputSchema>>;
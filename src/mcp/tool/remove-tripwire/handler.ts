@@ -0,0 +1,53 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { PrepareToBeWrongAggregate } from '../../../domain/command/prepare-to-be-wrong.js';
+import { getCurrentTripwires, formatTripwiresReadError } from '../../../domain/read/tripwires/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { RemoveTripwireParams, RemoveTripwireResponse } from './schema.js';
+
+/**
+ * Remove Tripwire Tool Handler
+ *
+ * 保存済みの撤退基準を1つ削除する
+ */
+export const removeTripwireHandler = async (
+  args: RemoveTripwireParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const tripwiresResult = await getCurrentTripwires(decisionId);
+  if (tripwiresResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatTripwiresReadError(tripwiresResult.error)}`], true);
+  }
+
+  const commandResult = PrepareToBeWrongAggregate.removeTripwire({
+    criterionId: args.criterionId,
+    currentTripwires: tripwiresResult.value.tripwires
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${PrepareToBeWrongAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const response: RemoveTripwireResponse = {
+    optionId: event.optionId,
+    criterionId: event.criterionId
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().removed(event.criterionId)],
+    false
+  );
+};
@@ -0,0 +1,18 @@
+import { createRemoveTripwireSchema, createRemoveTripwireOutputSchema } from './schema.js';
+import { removeTripwireHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const removeTripwireTool = {
+  name: 'remove-tripwire',
+  title: 'Remove Tripwire',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createRemoveTripwireSchema().shape;
+  },
+  get outputSchema() {
+    return createRemoveTripwireOutputSchema();
+  },
+  handler: removeTripwireHandler
+};
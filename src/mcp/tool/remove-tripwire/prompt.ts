@@ -0,0 +1,42 @@
+// Pure prompt strings for remove-tripwire tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+make-tripwire で保存した撤退基準（トリップワイヤー）を1つ削除するツールです。
+
+選択肢の最後の撤退基準を削除すると、その選択肢には撤退基準が設定されていない状態に戻ります。
+`,
+    removed: (criterionId: string) => `✅ 撤退基準「${criterionId}」を削除しました`,
+
+    schemaDescriptions: {
+      criterionId: '削除する撤退基準ID（get_current_status で確認）',
+      decisionId: '撤退基準が設定されている意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        optionId: '撤退基準が設定されていた選択肢ID',
+        criterionId: '削除した撤退基準ID'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Removes a single trip wire saved with make-tripwire.
+
+Removing the last trip wire of an option leaves that option without trip wires.
+`,
+    removed: (criterionId: string) => `✅ Removed the trip wire "${criterionId}"`,
+
+    schemaDescriptions: {
+      criterionId: 'ID of the trip wire to remove (check with get_current_status)',
+      decisionId: 'Decision the trip wire is set in (defaults to the active decision)',
+      output: {
+        optionId: 'ID of the option the trip wire was set on',
+        criterionId: 'ID of the removed trip wire'
+      }
+    }
+  }
+});
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createRemoveTripwireSchema = () => {
+  const text = prompts().schemaDescriptions;
+
+  return z.object({
+    criterionId: z.string().describe(text.criterionId),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createRemoveTripwireOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    criterionId: z.string().describe(text.criterionId)
+  });
+};
+
+export type RemoveTripwireParams = z.infer<ReturnType<typeof createRemoveTripwireSchema>>;
+export type RemoveTripwireResponse = z.infer<ReturnType<typeof createRemoveTripwireOutputSchema>>;
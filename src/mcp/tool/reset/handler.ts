@@ -1,11 +1,15 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { ResetDecisionAggregate } from '../../../domain/command/reset-decision.js';
-import { resetAllDecisionData } from '../../../effect/reset-storage.js';
+import { recordEvent } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
 import { toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
 import type { ResetParams, ResetResponse } from './schema.js';
 
 /**
- * Reset handler - すべての保存データを削除し、意思決定プロセスを白紙に戻す
+ * Reset handler - 対象の意思決定にリセットイベントを記録し、意思決定プロセスを白紙に戻す
+ *
+ * ジャーナルは削除しないため、リセット前の履歴はそのまま残る
  */
 export const resetHandler = async (args: ResetParams): Promise<CallToolResult> => {
   // Domain command を実行してイベントを生成
@@ -19,34 +23,59 @@ export const resetHandler = async (args: ResetParams): Promise<CallToolResult> =
 
     return toStructuredCallToolResult(
       response,
-      ["❌ リセットコマンドの実行に失敗しました", JSON.stringify(response, null, 2)],
+      [`${ERROR_MESSAGE_PREFIX}${prompts().commandFailed}`, JSON.stringify(response, null, 2)],
       true
     );
   }
 
-  // イベントが生成されたので、Effect層でストレージ操作を実行
-  const storageResult = await resetAllDecisionData();
+  // 対象の意思決定を決定（省略時はアクティブな意思決定）
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    if (decisionResult.error.type === 'no_active_decision') {
+      const response: ResetResponse = {
+        success: true,
+        message: prompts().noDecision
+      };
+      return toStructuredCallToolResult(response, [], false);
+    }
+
+    const response: ResetResponse = {
+      success: false,
+      message: formatDecisionStorageError(decisionResult.error)
+    };
+    return toStructuredCallToolResult(
+      response,
+      [`${ERROR_MESSAGE_PREFIX}${prompts().decisionNotResolved}`, JSON.stringify(response, null, 2)],
+      true
+    );
+  }
+
+  // イベントが生成されたので、Effect層でジャーナルに記録
+  const storageResult = await recordEvent(decisionResult.value, commandResult.value);
   
   if (storageResult.isErr()) {
-    const errorMessage = storageResult.error.type === 'file_system_error' 
-      ? storageResult.error.error.message
-      : storageResult.error.message;
+    const storageError = storageResult.error;
+    const errorMessage = storageError.type === 'file_system_error'
+      ? storageError.error.message
+      : storageError.type === 'parse_error'
+        ? storageError.message
+        : prompts().invalidTransition(storageError.from.type, storageError.to.type);
     
     const response: ResetResponse = {
       success: false,
-      message: `リセット処理中にエラーが発生しました: ${storageResult.error.type} - ${errorMessage}`
+      message: prompts().resetFailedWithDetails(storageResult.error.type, errorMessage)
     };
 
     return toStructuredCallToolResult(
       response,
-      ["❌ リセット処理中にエラーが発生しました", JSON.stringify(response, null, 2)],
+      [`${ERROR_MESSAGE_PREFIX}${prompts().resetFailed}`, JSON.stringify(response, null, 2)],
       true
     );
   }
 
   const response: ResetResponse = {
     success: true,
-    message: "すべてのデータが削除され、意思決定プロセスが白紙に戻りました"
+    message: prompts().reset
   };
 
   return toStructuredCallToolResult(
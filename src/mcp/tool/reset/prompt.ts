@@ -0,0 +1,60 @@
+// Pure prompt strings for reset tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `意思決定プロセスをリセットし、課題定義・選択肢・ワークフロー状態を白紙に戻します。
+
+このツールは以下の操作を実行します:
+• 課題定義のクリア
+• 選択肢リストのクリア
+• ワークフロー状態の初期化
+• リセットイベントのジャーナルへの記録（これまでの履歴は削除されません）
+
+新しい意思決定プロセスを開始したい時に使用してください。。`,
+    commandFailed: 'リセットコマンドの実行に失敗しました',
+    noDecision: 'リセット対象の意思決定がありません',
+    decisionNotResolved: 'リセット対象の意思決定を特定できませんでした',
+    invalidTransition: (from: string, to: string) => `${from} から ${to} への遷移は無効です`,
+    resetFailed: 'リセット処理中にエラーが発生しました',
+    resetFailedWithDetails: (type: string, message: string) => `リセット処理中にエラーが発生しました: ${type} - ${message}`,
+    reset: '意思決定プロセスが白紙に戻りました（これまでの履歴はジャーナルに残ります）',
+
+    schemaDescriptions: {
+      decisionId: 'リセットする意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        success: 'リセット処理が成功したかどうか',
+        message: 'リセット処理の結果メッセージ'
+      }
+    }
+  },
+  en: {
+    toolDescription: `Resets the decision process, clearing the issue definition, options and workflow state.
+
+This tool:
+• Clears the issue definition
+• Clears the option list
+• Resets the workflow state
+• Records a reset event in the journal (earlier history is not deleted)
+
+Use it when you want to start a new decision process.`,
+    commandFailed: 'Failed to run the reset command',
+    noDecision: 'There is no decision to reset',
+    decisionNotResolved: 'Could not determine which decision to reset',
+    invalidTransition: (from: string, to: string) => `The transition from ${from} to ${to} is not allowed`,
+    resetFailed: 'An error occurred while resetting',
+    resetFailedWithDetails: (type: string, message: string) => `An error occurred while resetting: ${type} - ${message}`,
+    reset: 'The decision process has been reset (earlier history remains in the journal)',
+
+    schemaDescriptions: {
+      decisionId: 'Decision to reset (defaults to the active decision)',
+      output: {
+        success: 'Whether the reset succeeded',
+        message: 'Message describing the result of the reset'
+      }
+    }
+  }
+});
@@ -1,13 +1,22 @@
 import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
 
-// Reset tool takes no parameters
-export const resetSchema = z.object({});
-
-export const resetOutputSchema = z.object({
-  success: z.boolean().describe("リセット処理が成功したかどうか"),
-  message: z.string().describe("リセット処理の結果メッセージ")
+// Reset tool optionally takes the decision to reset
+export const createResetSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
 });
 
-export const resetParams = resetSchema.shape;
-export type ResetParams = z.infer<typeof resetSchema>;
-export type ResetResponse = z.infer<typeof resetOutputSchema>;
\ No newline at end of file
+export const createResetOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    success: z.boolean().describe(text.success),
+    message: z.string().describe(text.message)
+  });
+};
+
+export type ResetParams = z.infer<ReturnType<typeof createResetSchema>>;
+export type ResetResponse = z.infer<ReturnType<typeof createResetOutputSchema>>;
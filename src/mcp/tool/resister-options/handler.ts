@@ -1,43 +1,69 @@
+import { err } from 'neverthrow';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { OptionSelectionAggregate } from '../../../domain/command/option-selection.js';
 import { Values } from '../../../domain/term/option.js';
-import { saveOptions } from '../../../effect/options-storage.js';
+import { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
 import { toStructuredCallToolResult, toCallToolResult } from '../util.js';
-import { SUCCESS_MESSAGE_TEMPLATE, ERROR_MESSAGE_PREFIX, NEXT_ACTION_PROMPTS, processTemplate } from './prompt.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import { getClientSupport } from '../../client-capabilities.js';
 import type { RegisterOptionsParams, RegisterOptionsResponse } from './schema.js';
-import { WorkflowState } from '../../../domain/term/workflow-state.js';
-import { updateState } from '../../../effect/workflow-state-storage.js';
-import { toWorkflowStateType } from '../../../domain/term/widen-options-steps.js';
+import { recordEventWith } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
 
 export const createRegisterOptionsHandler = (server: McpServer) => async (args: RegisterOptionsParams): Promise<CallToolResult> => {
+  // Resolve the target decision before asking the user anything
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
   // Convert input format to RequestedOption format
   let requestedOptions = args.options.map(option => {
     if (typeof option === 'string') {
       return { text: option };
     } else {
       return {
+        ...(option.id && { id: option.id }),
         text: option.text,
-        ...(option.supplementaryInfo && { supplementaryInfo: option.supplementaryInfo })
+        ...(option.supplementaryInfo && { supplementaryInfo: option.supplementaryInfo }),
+        ...(option.parentId && { parentId: option.parentId })
       };
     }
   });
 
-  // If more than 5 options are provided, elicit user input to drop some
-  if (requestedOptions.length > 5) {
-    const toDrop = requestedOptions.length - 5;
+  // If more options than the policy allows are provided, elicit user input to drop some
+  const maxOptions = DomainPolicy.current().optionCount.max;
+  if (requestedOptions.length > maxOptions) {
+    const toDrop = requestedOptions.length - maxOptions;
+
+    // Without elicitation the agent prunes the candidates and registers again
+    if (!getClientSupport(server).elicitation) {
+      return toCallToolResult([
+        prompts().agentPruning(
+          requestedOptions.length,
+          maxOptions,
+          toDrop,
+          requestedOptions.map((option, idx) => `${idx + 1}. ${option.text}`).join('\n')
+        )
+      ], true);
+    }
+
     try {
+      const messages = prompts();
       let remaining = requestedOptions.slice();
       for (let step = 0; step < toDrop; step++) {
-        const elicitResult = await (server as any).server.elicitInput({
-          message: `候補が${requestedOptions.length}件あります。5件に収めるため、${toDrop}件を順に1件ずつ落としてください（${step + 1}/${toDrop}件目）。`,
+        const elicitResult = await server.server.elicitInput({
+          message: messages.elicitDrop.message(requestedOptions.length, maxOptions, toDrop, step + 1),
           requestedSchema: {
             type: 'object',
             properties: {
               dropIndex: {
                 type: 'string',
-                title: '今回落とす候補',
-                description: 'リストから1件選択',
+                title: messages.elicitDrop.title,
+                description: messages.elicitDrop.description,
                 enum: Array.from({ length: remaining.length }, (_, i) => String(i + 1)),
                 enumNames: remaining.map((o, i) => `${i + 1}. ${o.text}`)
               }
@@ -48,16 +74,16 @@ export const createRegisterOptionsHandler = (server: McpServer) => async (args:
 
         if (elicitResult.action !== 'accept') {
           return toCallToolResult([
-            `${ERROR_MESSAGE_PREFIX}ユーザー操作により選択肢の間引きが中断されました（action=${elicitResult.action}）。`],
+            `${ERROR_MESSAGE_PREFIX}${messages.pruningCancelled(elicitResult.action)}`],
             true
           );
         }
 
-        const dropIndexRaw: unknown = (elicitResult as any).content?.dropIndex;
+        const dropIndexRaw: unknown = elicitResult.content?.dropIndex;
         const parsed = typeof dropIndexRaw === 'string' && /^\d+$/.test(dropIndexRaw) ? parseInt(dropIndexRaw, 10) : NaN;
         if (!Number.isInteger(parsed) || parsed < 1 || parsed > remaining.length) {
           return toCallToolResult([
-            `${ERROR_MESSAGE_PREFIX}不正な選択です。もう一度やり直してください。`],
+            `${ERROR_MESSAGE_PREFIX}${messages.invalidSelection}`],
             true
           );
         }
@@ -69,108 +95,83 @@ export const createRegisterOptionsHandler = (server: McpServer) => async (args:
       requestedOptions = remaining;
     } catch (e) {
       return toCallToolResult([
-        `${ERROR_MESSAGE_PREFIX}対話的入力の取得に失敗しました: ${e instanceof Error ? e.message : String(e)}`
+        `${ERROR_MESSAGE_PREFIX}${prompts().elicitationFailed(e instanceof Error ? e.message : String(e))}`
       ], true);
     }
   }
 
-  const result = OptionSelectionAggregate.registerOptions({
-    options: requestedOptions
+  // 選択肢を読んで引き継ぎを検証してから追記するまで、ほかの書き込みが割り込まないようにする
+  const recordResult = await recordEventWith(decisionId, async () => {
+    // 引き継ぎ・派生元に指定できるのは現在の選択肢だけ
+    const currentOptionsResult = await getCurrentOptions(decisionId);
+    if (currentOptionsResult.isErr()) {
+      return err(formatOptionsReadError(currentOptionsResult.error));
+    }
+    const existingOptionIds = currentOptionsResult.value?.options.map(option => option.id) ?? [];
+
+    return OptionSelectionAggregate.registerOptions({
+      options: requestedOptions,
+      widenOptionsStep: args.widenOptionsStep,
+      existingOptionIds
+    })
+      .map(event => ({ event }))
+      .mapErr(OptionSelectionAggregate.toErrorMessage);
   });
 
-  return result.match(
-    async (event) => {
-      // Save options to storage
-      const saveResult = await saveOptions(event.optionList);
-      
-      if (saveResult.isErr()) {
-        return toCallToolResult([`${ERROR_MESSAGE_PREFIX}選択肢の保存に失敗しました: ${saveResult.error.message}`], true);
-      }
+  // 選択肢登録イベントをジャーナルに記録（入力されたWidenOptionsStepに基づいて状態が遷移）
+  if (recordResult.isErr()) {
+    const stateError = recordResult.error;
+    const messages = prompts().stateError;
+    let message: string;
+
+    switch (stateError.type) {
+      case 'command_rejected':
+        message = stateError.reason;
+        break;
+      case 'invalid_transition':
+        message = messages.invalidTransition(stateError.from.type, stateError.to.type);
+        break;
+      case 'file_system_error':
+        message = messages.fileSystemError(stateError.error.message);
+        break;
+      case 'parse_error':
+        message = messages.parseError(stateError.message);
+        break;
+      default:
+        message = messages.unexpected;
+    }
 
-      // 選択肢登録が成功したら状態を遷移（入力されたWidenOptionsStepに基づく）
-      const targetStep = args.widenOptionsStep;
-      const targetStateType = toWorkflowStateType(targetStep);
-      
-      let targetState: WorkflowState;
-      switch (targetStateType) {
-        case 'initial_options_registered':
-          targetState = WorkflowState.initialOptionsRegistered();
-          break;
-        case 'laddered':
-          targetState = WorkflowState.laddered();
-          break;
-        case 'analogical_research_done':
-          targetState = WorkflowState.analogicalResearchDone();
-          break;
-        case 'elimination_tested':
-          targetState = WorkflowState.eliminationTested();
-          break;
-        case 'options_fixed':
-          targetState = WorkflowState.optionsFixed();
-          break;
-        default:
-          // 予期しない状態タイプの場合はエラーを返す
-          return toCallToolResult([`${ERROR_MESSAGE_PREFIX}予期しないWidenOptionsSteps: ${targetStep.type}`], true);
-      }
-      
-      const stateResult = await updateState(targetState);
-      
-      if (stateResult.isErr()) {
-        const stateError = stateResult.error;
-        let message: string;
-        
-        switch (stateError.type) {
-          case 'invalid_transition':
-            message = `状態遷移エラー: ${stateError.from.type} から ${stateError.to.type} への遷移は無効です`;
-            break;
-          case 'file_system_error':
-            message = `ファイルシステムエラー: ${stateError.error.message}`;
-            break;
-          case 'parse_error':
-            message = `データ解析エラー: ${stateError.message}`;
-            break;
-          default:
-            message = `状態管理エラー: 予期しないエラーが発生しました`;
-        }
-        
-        return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${message}`], true);
-      }
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${message}`], true);
+  }
+  const { event } = recordResult.value;
 
-      const options = event.optionList.options.map(option => ({
-        id: Values.OptionId.toString(option.id),
-        text: Values.OptionText.toString(option.text),
-        ...(option.supplementaryInfo && { supplementaryInfo: option.supplementaryInfo })
-      }));
+  const options = event.optionList.options.map(option => ({
+    id: Values.OptionId.toString(option.id),
+    text: Values.OptionText.toString(option.text),
+    ...(option.supplementaryInfo && { supplementaryInfo: option.supplementaryInfo }),
+    ...(option.parentId && { parentId: Values.OptionId.toString(option.parentId) })
+  }));
 
-      // 入力されたWidenOptionsStepを使用
-      const widenOptionsStep = args.widenOptionsStep;
+  // 入力されたWidenOptionsStepを使用
+  const widenOptionsStep = args.widenOptionsStep;
 
-      const response: RegisterOptionsResponse = {
-        options,
-        widenOptionsStep
-      };
+  const response: RegisterOptionsResponse = {
+    options,
+    widenOptionsStep
+  };
 
-      const optionsList = options
-        .map((opt, idx) => `${idx + 1}. ${opt.text}`)
-        .join('\n');
-
-      const successMessage = processTemplate(SUCCESS_MESSAGE_TEMPLATE, {
-        count: options.length,
-        optionsList: optionsList
-      });
-
-      // WidenOptionsStepに基づく次のアクションプロンプトを取得
-      const nextActionPrompt = NEXT_ACTION_PROMPTS[widenOptionsStep.type];
-
-      return toStructuredCallToolResult(
-        response,
-        [nextActionPrompt],
-        false
-      );
-    },
-    (error) => {
-      const errorMessage = OptionSelectionAggregate.toErrorMessage(error);
-      return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${errorMessage}`], true);
-    }
+  const optionsList = options
+    .map((opt, idx) => `${idx + 1}. ${opt.text}`)
+    .join('\n');
+
+  const successMessage = prompts().success(options.length, optionsList);
+
+  // WidenOptionsStepに基づく次のアクションプロンプトを取得
+  const nextActionPrompt = prompts().nextAction[widenOptionsStep.type];
+
+  return toStructuredCallToolResult(
+    response,
+    [successMessage, nextActionPrompt],
+    false
   );
 };
@@ -1,12 +1,20 @@
-import { registerOptionsParams, registerOptionsOutputSchema } from './schema.js';
+import { createRegisterOptionsSchema, createRegisterOptionsOutputSchema } from './schema.js';
 import { createRegisterOptionsHandler } from './handler.js';
-import { TOOL_DESCRIPTION } from './prompt.js';
+import { prompts } from './prompt.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
-export const createRegisterOptionsTool = (server: any) => ({
+export const createRegisterOptionsTool = (server: McpServer, policy: DomainPolicy) => ({
   name: 'register_options',
   title: 'Register Options',
-  description: TOOL_DESCRIPTION,
-  parameters: registerOptionsParams,
-  outputSchema: registerOptionsOutputSchema,
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createRegisterOptionsSchema(policy).shape;
+  },
+  get outputSchema() {
+    return createRegisterOptionsOutputSchema(policy);
+  },
   handler: createRegisterOptionsHandler(server)
 });
@@ -1,13 +1,12 @@
 // Pure prompt strings for register-options tool
 
-export const SUCCESS_MESSAGE_TEMPLATE = `
-✅ {{count}}個の選択肢を登録しました:
-{{optionsList}}
-`;
+import { defineCatalog } from '../../../common/i18n.js';
 
 export const ERROR_MESSAGE_PREFIX = `❌ `;
 
-export const TOOL_DESCRIPTION = `
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
 WRAPプロセスの優れた実践者として、Widen Options のあらゆる技法を使用し、選択肢を螺旋的・全身的にブッシュアップしていきます。
 あなたは完全自律的なagentです。
 
@@ -20,6 +19,13 @@ WRAPプロセスの優れた実践者として、Widen Options のあらゆる
 選択肢において、**抽象語・スローガン（例：「最適化」「強化」「活用」）の使用は禁止する**。
 一般的過ぎたり抽象的すぎて何も言っていないようなものは選択肢と認めない。
 
+## 選択肢の引き継ぎ
+登録のたびに選択肢のリスト全体を置き換えます。前のステップから残す選択肢は、
+オブジェクト形式で **id** に現在の選択肢IDを指定して引き継いでください（IDを省略すると新しい選択肢として扱われます）。
+ラダリングで導いた選択肢には、**parentId** に派生元の選択肢IDを指定してください。
+選択肢IDと系譜は get-option-history ツールで確認できます。
+選択肢を1つずつ追加・変更・削除するだけなら、add-option / update-option / remove-option ツールを使ってください。
+
 ## WidenOptionsStepsの指定方法
 このツールを使用する際は、現在どの拡張ステップを実行しているかを必ず指定してください：
 
@@ -28,11 +34,44 @@ WRAPプロセスの優れた実践者として、Widen Options のあらゆる
 - **analogical_research_done**: 類推解決策調査で選択肢を拡張した時
 - **elimination_tested**: 消去テストで選択肢を拡張した時
 - **fixed**: すべての拡張手法を適用し、選択肢を確定する時
-`;
+`,
+
+    success: (count: number, optionsList: string) => `
+✅ ${count}個の選択肢を登録しました:
+${optionsList}
+`,
+
+    // クライアントが対話入力（elicitation）に対応していないときは、間引きをエージェントに任せる
+    agentPruning: (count: number, maxOptions: number, toDrop: number, optionsList: string) => `
+✂️ 候補が${count}件あり、${maxOptions}件を超えているため登録していません。
+このクライアントは対話入力に対応していないため、あなた（エージェント）が課題に照らして価値の低い候補や重複した候補を${toDrop}件落とし、
+残った${maxOptions}件以内で register_options をもう一度呼んでください。
+落とした候補とその理由は、ユーザーに簡潔に伝えてください。
+
+候補:
+${optionsList}
+`,
+
+    elicitDrop: {
+      message: (count: number, maxOptions: number, toDrop: number, current: number) =>
+        `候補が${count}件あります。${maxOptions}件に収めるため、${toDrop}件を順に1件ずつ落としてください（${current}/${toDrop}件目）。`,
+      title: '今回落とす候補',
+      description: 'リストから1件選択'
+    },
+    pruningCancelled: (action: string) => `ユーザー操作により選択肢の間引きが中断されました（action=${action}）。`,
+    invalidSelection: '不正な選択です。もう一度やり直してください。',
+    elicitationFailed: (message: string) => `対話的入力の取得に失敗しました: ${message}`,
 
-// Next action prompts based on WidenOptionsSteps
-export const NEXT_ACTION_PROMPTS = {
-  initial_registered: `
+    stateError: {
+      invalidTransition: (from: string, to: string) => `状態遷移エラー: ${from} から ${to} への遷移は無効です`,
+      fileSystemError: (message: string) => `ファイルシステムエラー: ${message}`,
+      parseError: (message: string) => `データ解析エラー: ${message}`,
+      unexpected: `状態管理エラー: 予期しないエラーが発生しました`
+    },
+
+    // Next action prompts based on WidenOptionsSteps
+    nextAction: {
+      initial_registered: `
   NEXT ACTION: 次は**ラダリング**をこのまま自動実行してください。
 
 **実行方法**:
@@ -44,7 +83,7 @@ export const NEXT_ACTION_PROMPTS = {
 
 各選択肢から最低1つずつ新しい選択肢を導出することを目指してください。`,
 
-  laddered: `
+      laddered: `
   NEXT ACTION: 次は**類推解決策調査**をのまま自動実行してください。
 
 **実行方法**:
@@ -56,7 +95,7 @@ export const NEXT_ACTION_PROMPTS = {
 
 有効な新選択肢を発見した場合は、選択肢を更新してください。`,
 
-  analogical_research_done: `
+      analogical_research_done: `
   NEXT ACTION: 次は**消去テスト**（バニシング・テスト）をこのまま自動実行してください。
 
 **実行方法**:
@@ -65,7 +104,7 @@ export const NEXT_ACTION_PROMPTS = {
 
 最低3つの異なる制約を消去してテストしてください。`,
 
-  elimination_tested: `
+      elimination_tested: `
   NEXT ACTION: 次は**選択肢をfix**してください。
 
 **fixする前の最終チェック**:
@@ -82,22 +121,168 @@ export const NEXT_ACTION_PROMPTS = {
 - すべて満たしている → 選択肢をfixする
 - 不足がある → 該当する拡張手法に戻って選択肢を再検討する`,
 
-  fixed: `選択肢の拡張と確定が完了しました。次のステップに進んでください。`
-} as const;
-
-// Template processing utility
-export const processTemplate = (template: string, variables: Record<string, any>): string => {
-  let result = template;
-  
-  // Handle {{#if variable}} blocks
-  result = result.replace(/\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g, (match, varName, content) => {
-    return variables[varName] ? content : '';
-  });
-  
-  // Handle {{variable}} replacements
-  result = result.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-    return variables[varName] || '';
-  });
-  
-  return result;
-};
\ No newline at end of file
+      fixed: `選択肢の拡張と確定が完了しました。次のステップに進んでください。`
+    },
+
+    schemaValidation: {
+      tooLong: (max: number) => `各選択肢は${max}文字以内で入力してください`,
+      tooFew: (min: number) => `選択肢は${min}個以上で入力してください`
+    },
+
+    schemaDescriptions: {
+      id: '前のステップから引き継ぐ選択肢のID（新しい選択肢なら省略）',
+      supplementaryInfo: '選択肢の補足情報（オプション）',
+      parentId: 'ラダリングで派生した選択肢の場合、派生元の選択肢ID',
+      options: (max: number, min: number) => `選択肢のリスト（各項目${max}文字まで、${min}個以上）。`,
+      widenOptionsStep: 'この操作が対応するWidenOptionsStepsの種類（type に initial_registered / laddered / analogical_research_done / elimination_tested / fixed のいずれかを指定）',
+      decisionId: '選択肢を登録する意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        id: '選択肢の一意識別子',
+        text: '選択肢のテキスト',
+        supplementaryInfo: '選択肢の補足情報（オプション）',
+        parentId: '派生元の選択肢ID',
+        options: '登録された選択肢',
+        widenOptionsStep: '現在の選択肢拡張ステップ'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+As a skilled practitioner of the WRAP process, use every Widen Options technique to push the options up in a spiral, whole-body way.
+You are a fully autonomous agent.
+
+## Removing options
+- If you cannot narrow the options down, register them all
+- You may remove clearly duplicated or unneeded options at your own discretion
+
+## Option constraints
+Each option must be essentially diverse, different down to the category level, and concrete.
+**Do not use abstract words or slogans (e.g. "optimize", "strengthen", "leverage") in options.**
+Options so general or abstract that they say nothing are not accepted.
+
+## Carrying options over
+Each registration replaces the whole list of options. To keep an option from the previous step,
+pass it in object form with its current option ID in **id** (an option without an ID is treated as new).
+For options derived by laddering, set **parentId** to the ID of the option they came from.
+Option IDs and lineage can be checked with the get-option-history tool.
+To only add, change or remove a single option, use the add-option / update-option / remove-option tools.
+
+## Specifying WidenOptionsSteps
+When using this tool, always specify which widening step you are currently performing:
+
+- **initial_registered**: the first registration of options
+- **laddered**: options widened by laddering
+- **analogical_research_done**: options widened by researching analogous solutions
+- **elimination_tested**: options widened by the vanishing options test
+- **fixed**: every widening technique has been applied and the options are settled
+`,
+
+    success: (count: number, optionsList: string) => `
+✅ Registered ${count} options:
+${optionsList}
+`,
+
+    agentPruning: (count: number, maxOptions: number, toDrop: number, optionsList: string) => `
+✂️ There are ${count} candidates, more than ${maxOptions}, so nothing has been registered.
+This client does not support interactive input, so you (the agent) should drop ${toDrop} candidates that are of low value for the issue or duplicated,
+and call register_options again with at most ${maxOptions} remaining.
+Briefly tell the user which candidates you dropped and why.
+
+Candidates:
+${optionsList}
+`,
+
+    elicitDrop: {
+      message: (count: number, maxOptions: number, toDrop: number, current: number) =>
+        `There are ${count} candidates. To fit within ${maxOptions}, drop ${toDrop} of them one at a time (${current}/${toDrop}).`,
+      title: 'Candidate to drop now',
+      description: 'Choose one from the list'
+    },
+    pruningCancelled: (action: string) => `Pruning the options was cancelled by the user (action=${action}).`,
+    invalidSelection: 'Invalid selection. Please try again.',
+    elicitationFailed: (message: string) => `Failed to get interactive input: ${message}`,
+
+    stateError: {
+      invalidTransition: (from: string, to: string) => `State transition error: the transition from ${from} to ${to} is not allowed`,
+      fileSystemError: (message: string) => `File system error: ${message}`,
+      parseError: (message: string) => `Data parse error: ${message}`,
+      unexpected: `State management error: an unexpected error occurred`
+    },
+
+    nextAction: {
+      initial_registered: `
+  NEXT ACTION: Next, run **laddering** automatically right away.
+
+**How**:
+1. **Dig into each option**: for every current option, ask "Why choose it?" and "What do we want to achieve?"
+2. **Extract the value**: clarify the essential value, purpose or need behind each option
+3. **Move up a level**: ask "Is there another way to realize that value?" and think at a more abstract level
+4. **Find new options**: explore other approaches or means that achieve the extracted value or purpose
+5. **Add options**: add the new approaches you found as concrete options
+
+Aim to derive at least one new option from each option.`,
+
+      laddered: `
+  NEXT ACTION: Next, run **research on analogous solutions** automatically right away.
+
+**How**:
+1. **Explore at least three kinds of analogies**: draw analogies from varied, different fields and domains
+2. **Lateral thinking**: look for solutions to similar problems in other fields, industries or situations at the same level
+3. **Vertical thinking**: look for solutions to similar problems at a more abstract or more concrete level
+4. **Find prior solutions** ⚠️**Important**: **make full use of web search** to extract concrete solutions and precedents from each analogy that apply to this issue
+5. **Find useful options**: translate the solutions from the analogies into this issue and add them as new options
+
+If you find useful new options, update the options.`,
+
+      analogical_research_done: `
+  NEXT ACTION: Next, run the **vanishing options test** automatically right away.
+
+**How**:
+- Think of options on the premise "Suppose none of the options you are considering were available. What else could you do?"
+- Squeeze out ideas as if the constraints you assume did not exist
+
+Test by removing at least three different constraints.`,
+
+      elimination_tested: `
+  NEXT ACTION: Next, **fix the options**.
+
+**Final check before fixing**:
+Check that every criterion below is met.
+
+✅ **Checklist**:
+1. [ ] **Diversity**: are the options essentially different at the category level?
+2. [ ] **Laddering reflected**: are there new options reflecting the value or purpose behind each option?
+3. [ ] **Analogies used**: are useful analogies from prior solutions found by web search reflected in the options?
+4. [ ] **Constraints overcome**: are there options that relax, avoid or overcome the constraints found in the vanishing options test?
+5. [ ] **Feasibility**: are all options realistically feasible?
+
+**Verdict**:
+- Everything is met → fix the options
+- Something is missing → go back to the relevant widening technique and reconsider the options`,
+
+      fixed: `Widening and settling the options is complete. Move on to the next step.`
+    },
+
+    schemaValidation: {
+      tooLong: (max: number) => `Each option must be at most ${max} characters`,
+      tooFew: (min: number) => `Enter at least ${min} options`
+    },
+
+    schemaDescriptions: {
+      id: 'ID of an option carried over from the previous step (omit for a new option)',
+      supplementaryInfo: 'Supplementary information about the option (optional)',
+      parentId: 'For an option derived by laddering, the ID of the option it came from',
+      options: (max: number, min: number) => `List of options (up to ${max} characters each, at least ${min}).`,
+      widenOptionsStep: 'The WidenOptionsSteps this operation belongs to (set type to one of initial_registered / laddered / analogical_research_done / elimination_tested / fixed)',
+      decisionId: 'Decision to register the options to (defaults to the active decision)',
+      output: {
+        id: 'Unique identifier for the option',
+        text: 'Text of the option',
+        supplementaryInfo: 'Supplementary information about the option (optional)',
+        parentId: 'ID of the option it came from',
+        options: 'The registered options',
+        widenOptionsStep: 'The current widening step'
+      }
+    }
+  }
+});
@@ -1,31 +1,49 @@
 import { z } from 'zod';
 import { WidenOptionsStepsSchema } from '../../../domain/term/widen-options-steps.js';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import { prompts } from './prompt.js';
 
-// Input schema
-export const registerOptionsSchema = z.object({
-  options: z.array(z.union([
-    z.string().max(30, "各選択肢は30文字以内で入力してください"),
-    z.object({
-      text: z.string().max(30, "各選択肢は30文字以内で入力してください"),
-      supplementaryInfo: z.string().optional().describe("選択肢の補足情報（オプション）")
-    })
-  ]))
-    .min(3, "選択肢は3個以上で入力してください")
-    .describe("選択肢のリスト（各項目30文字まで、3個以上）。"),
-  widenOptionsStep: WidenOptionsStepsSchema
-    .describe("この操作が対応するWidenOptionsStepsの種類")
-});
+// Input schema - 文字数の上限と選択肢の数は DomainPolicy から、説明と検証メッセージは作った時点のロケールで作る
+export const createRegisterOptionsSchema = (policy: DomainPolicy) => {
+  const maxLength = policy.textLimits.option;
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+  const optionText = z.string().max(maxLength, validation.tooLong(maxLength));
+
+  return z.object({
+    options: z.array(z.union([
+      optionText,
+      z.object({
+        id: z.string().optional().describe(text.id),
+        text: optionText,
+        supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+        parentId: z.string().optional().describe(text.parentId)
+      })
+    ]))
+      .min(policy.optionCount.min, validation.tooFew(policy.optionCount.min))
+      .describe(text.options(maxLength, policy.optionCount.min)),
+    widenOptionsStep: WidenOptionsStepsSchema
+      .describe(text.widenOptionsStep),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
 
 // Output schema
-export const registerOptionsOutputSchema = z.object({
-  options: z.array(z.object({
-    id: z.string().describe("選択肢の一意識別子"),
-    text: z.string().describe("選択肢のテキスト"),
-    supplementaryInfo: z.string().optional().describe("選択肢の補足情報（オプション）")
-  })).min(3).max(10).describe("登録された選択肢"),
-  widenOptionsStep: WidenOptionsStepsSchema.describe("現在の選択肢拡張ステップ")
-});
+export const createRegisterOptionsOutputSchema = (policy: DomainPolicy) => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    options: z.array(z.object({
+      id: z.string().describe(text.id),
+      text: z.string().describe(text.text),
+      supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+      parentId: z.string().optional().describe(text.parentId)
+    })).min(policy.optionCount.min).max(policy.optionCount.wideningMax).describe(text.options),
+    widenOptionsStep: WidenOptionsStepsSchema.describe(text.widenOptionsStep)
+  });
+};
 
-export type RegisterOptionsParams = z.infer<typeof registerOptionsSchema>;
-export const registerOptionsParams = registerOptionsSchema.shape;
-export type RegisterOptionsResponse = z.infer<typeof registerOptionsOutputSchema>;
+export type RegisterOptionsParams = z.infer<ReturnType<typeof createRegisterOptionsSchema>>;
+export type RegisterOptionsResponse = z.infer<ReturnType<typeof createRegisterOptionsOutputSchema>>;
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { err, ok } from 'neverthrow';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { requestStructuredSample, parseSamplingResponse } from './sampling.js';
+
+const schema = z.object({ answer: z.string() });
+
+const textResponse = (text: string) => ({ content: { type: 'text', text } });
+
+const createServer = (createMessage: ReturnType<typeof vi.fn>) =>
+  ({ server: { createMessage } }) as unknown as McpServer;
+
+describe('parseSamplingResponse', () => {
+  it('JSON ブロックを優先して取り出す', () => {
+    const result = parseSamplingResponse('前置き {"answer": "外"}\n```json\n{"answer": "中"}\n```', schema);
+
+    expect(result._unsafeUnwrap()).toEqual({ answer: '中' });
+  });
+
+  it('形式が違う場合、項目の場所と理由を返す', () => {
+    const result = parseSamplingResponse('{"answer": 1}', schema);
+
+    expect(result._unsafeUnwrapErr()).toContain('answer:');
+  });
+});
+
+describe('requestStructuredSample', () => {
+  it('受け付けられなかった応答と理由を会話に残して応答し直してもらう', async () => {
+    const createMessage = vi.fn()
+      .mockResolvedValueOnce(textResponse('JSON ではありません'))
+      .mockResolvedValueOnce(textResponse('{"answer": "直した"}'));
+
+    const result = await requestStructuredSample(createServer(createMessage), {
+      prompt: '答えて',
+      systemPrompt: 'system',
+      schema,
+      maxTokens: 100
+    });
+
+    expect(result._unsafeUnwrap()).toEqual({ data: { answer: '直した' }, attempts: 2 });
+    const retryMessages = createMessage.mock.calls[1][0].messages;
+    expect(retryMessages).toHaveLength(3);
+    expect(retryMessages[1]).toEqual({ role: 'assistant', content: { type: 'text', text: 'JSON ではありません' } });
+    expect(retryMessages[2].content.text).toContain('応答に JSON が見つかりません');
+  });
+
+  it('ドメインの検証に通らない応答は上限回数で打ち切る', async () => {
+    const createMessage = vi.fn().mockResolvedValue(textResponse('{"answer": "空振り"}'));
+
+    const result = await requestStructuredSample(createServer(createMessage), {
+      prompt: '答えて',
+      systemPrompt: 'system',
+      schema,
+      maxTokens: 100,
+      maxAttempts: 2,
+      validate: data => data.answer === '正解' ? ok(data) : err('正解ではありません')
+    });
+
+    expect(createMessage).toHaveBeenCalledTimes(2);
+    expect(result._unsafeUnwrapErr()).toEqual({
+      type: 'invalid_response',
+      message: '正解ではありません',
+      attempts: 2,
+      lastResponse: '{"answer": "空振り"}'
+    });
+  });
+
+  it('サンプリング要求そのものが失敗した場合は再試行しない', async () => {
+    const createMessage = vi.fn().mockRejectedValue(new Error('sampling is not supported'));
+
+    const result = await requestStructuredSample(createServer(createMessage), {
+      prompt: '答えて',
+      systemPrompt: 'system',
+      schema,
+      maxTokens: 100
+    });
+
+    expect(createMessage).toHaveBeenCalledTimes(1);
+    expect(result._unsafeUnwrapErr()).toEqual({
+      type: 'sampling_failed',
+      message: 'sampling is not supported',
+      attempts: 1
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { Result, ok, err } from 'neverthrow';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { defineCatalog } from '../../common/i18n.js';
+
+/**
+ * Sampling Helper for MCP tools
+ *
+ * クライアント側のLLMに JSON を返させるサンプリングツールの共通処理。
+ * 応答から JSON を取り出して Zod で検証し、解釈できなければ理由をモデルに伝えて
+ * 上限回数まで応答し直してもらう。上限に達したら失敗として返し、
+ * 呼び出し側はそれを AI の分析ではないプレースホルダーとして明示する。
+ * サンプリングに対応していないクライアントには、同じプロンプトをエージェントへの依頼として返し、
+ * エージェントが後続のツールで回答を送る。
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Types
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const DEFAULT_MAX_SAMPLING_ATTEMPTS = 3;
+
+type SamplingMessage = {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+};
+
+export type StructuredSamplingRequest<T> = {
+  readonly prompt: string;
+  readonly systemPrompt: string;
+  readonly schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  readonly maxTokens: number;
+  readonly modelPreferences?: {
+    readonly costPriority?: number;
+    readonly speedPriority?: number;
+    readonly intelligencePriority?: number;
+  };
+  // スキーマに合った応答をドメインのルールで確かめる。エラーの文言はそのままモデルに返す
+  readonly validate?: (data: T) => Result<T, string>;
+  readonly maxAttempts?: number;
+};
+
+export type StructuredSample<T> = {
+  readonly data: T;
+  readonly attempts: number;
+};
+
+/**
+ * sampling_failed: クライアントへの要求そのものが失敗した（応答し直しても意味がないので再試行しない）
+ * invalid_response: 上限回数まで応答し直してもらっても解釈できなかった
+ */
+export type SamplingError =
+  | { readonly type: 'sampling_failed'; readonly message: string; readonly attempts: number }
+  | { readonly type: 'invalid_response'; readonly message: string; readonly attempts: number; readonly lastResponse: string };
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Messages
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const messages = defineCatalog({
+  ja: {
+    placeholderNote: 'この内容はAIの分析結果ではなく、サンプリングに失敗したため入れたプレースホルダーです',
+    agentRequestNote: 'クライアントがサンプリングに対応していないため、まだ何も分析・保存していません',
+    appendNote: (message: string, note: string) => `${message}。${note}`,
+    lastResponse: (response: string) => `\n\n**最後の応答:**\n${response}`,
+    agentRequest: (request: AgentRequest) => `🔁 このクライアントはサンプリングに対応していないため、あなた（エージェント）が次の依頼に答えてください。
+回答の JSON のフィールドを引数にして ${request.submitTool} ツールを呼ぶと、検証して保存します。
+
+## 方針
+${request.systemPrompt}
+
+## 依頼
+${request.prompt}`,
+    noJson: '応答に JSON が見つかりません',
+    unreadableJson: (reason: string) => `JSON として読めません: ${reason}`,
+    wrongShape: (issues: string) => `形式が違います:\n${issues}`,
+    repair: (reason: string) => `前回の応答は次の理由で受け付けられませんでした。\n${reason}\n\n指示された形式に合う JSON だけを返してください。`,
+    samplingFailed: (message: string) => `サンプリング要求が失敗しました: ${message}`,
+    invalidResponse: (attempts: number, reason: string) => `AIの応答を${attempts}回とも解釈できませんでした（最後の理由: ${reason}）`
+  },
+  en: {
+    placeholderNote: 'This is not an AI analysis but a placeholder put in because sampling failed',
+    agentRequestNote: 'Nothing has been analyzed or saved yet because the client does not support sampling',
+    appendNote: (message: string, note: string) => `${message}. ${note}`,
+    lastResponse: (response: string) => `\n\n**Last response:**\n${response}`,
+    agentRequest: (request: AgentRequest) => `🔁 This client does not support sampling, so you (the agent) should answer the following request.
+Call the ${request.submitTool} tool with the fields of the JSON answer as arguments to validate and save it.
+
+## Guidelines
+${request.systemPrompt}
+
+## Request
+${request.prompt}`,
+    noJson: 'No JSON found in the response',
+    unreadableJson: (reason: string) => `Cannot read the response as JSON: ${reason}`,
+    wrongShape: (issues: string) => `The shape is wrong:\n${issues}`,
+    repair: (reason: string) => `The previous response was rejected for the following reason.\n${reason}\n\nReturn only JSON in the requested format.`,
+    samplingFailed: (message: string) => `The sampling request failed: ${message}`,
+    invalidResponse: (attempts: number, reason: string) => `Could not interpret the AI response in any of ${attempts} attempts (last reason: ${reason})`
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Placeholder Marking
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * 構造化出力の由来 - ai: サンプリングしたモデルの応答 / agent: エージェントが答えた（2段階モード） /
+ * placeholder: サンプリングに失敗したときの仮の値
+ */
+export const samplingSourceSchema = z.enum(['ai', 'agent', 'placeholder']);
+
+/**
+ * Note that the structured output is a placeholder, not an AI analysis
+ */
+export const placeholderNote = (): string => messages().placeholderNote;
+
+/**
+ * Append a follow-up note (e.g. that nothing was saved) to a message
+ */
+export const appendNote = (message: string, note: string): string => messages().appendNote(message, note);
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Two-Step Mode
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const agentRequestDescriptions = defineCatalog({
+  ja: {
+    systemPrompt: '回答するときの立場と方針',
+    prompt: '答えてほしい内容と、回答の JSON 形式',
+    submitTool: '回答の JSON を送るツール名'
+  },
+  en: {
+    systemPrompt: 'The stance and guidelines to answer with',
+    prompt: 'What to answer and the JSON format of the answer',
+    submitTool: 'Name of the tool to send the JSON answer to'
+  }
+});
+
+/**
+ * サンプリングの代わりにエージェントへ渡す依頼 - 回答の JSON を submitTool に渡してもらう
+ */
+export const createAgentRequestOutputSchema = () => {
+  const text = agentRequestDescriptions();
+
+  return z.object({
+    systemPrompt: z.string().describe(text.systemPrompt),
+    prompt: z.string().describe(text.prompt),
+    submitTool: z.string().describe(text.submitTool)
+  });
+};
+
+export type AgentRequest = z.infer<ReturnType<typeof createAgentRequestOutputSchema>>;
+
+export const agentRequestNote = (): string => messages().agentRequestNote;
+
+/**
+ * Instructions for the agent to answer the prompt itself and submit the result
+ */
+export const formatAgentRequest = (request: AgentRequest): string => messages().agentRequest(request);
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Response Parsing
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+
+/**
+ * Extract the JSON of a response and validate it
+ *
+ * A ```json block wins; otherwise the outermost braces are used.
+ */
+export const parseSamplingResponse = <T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Result<T, string> => {
+  const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return err(messages().noJson);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[1] || jsonMatch[0]);
+  } catch (error) {
+    return err(messages().unreadableJson(error instanceof Error ? error.message : String(error)));
+  }
+
+  const validated = schema.safeParse(parsed);
+  return validated.success ? ok(validated.data) : err(messages().wrongShape(formatIssues(validated.error)));
+};
+
+const repairMessage = (reason: string): SamplingMessage => ({
+  role: 'user',
+  content: {
+    type: 'text',
+    text: messages().repair(reason)
+  }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Sampling
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Request a structured response from the client LLM
+ *
+ * Each rejected response and the reason it was rejected are kept in the
+ * conversation, so the model can repair its answer on the next attempt.
+ */
+export const requestStructuredSample = async <T>(
+  server: McpServer,
+  request: StructuredSamplingRequest<T>
+): Promise<Result<StructuredSample<T>, SamplingError>> => {
+  const maxAttempts = request.maxAttempts ?? DEFAULT_MAX_SAMPLING_ATTEMPTS;
+  const messages: SamplingMessage[] = [{ role: 'user', content: { type: 'text', text: request.prompt } }];
+  let lastResponse = '';
+  let lastReason = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let text: string;
+    try {
+      const response = await server.server.createMessage({
+        messages,
+        modelPreferences: request.modelPreferences,
+        systemPrompt: request.systemPrompt,
+        maxTokens: request.maxTokens
+      });
+      if (response.content.type !== 'text') {
+        throw new Error('Received non-text response from sampling');
+      }
+      text = response.content.text;
+    } catch (error) {
+      return err({
+        type: 'sampling_failed',
+        message: error instanceof Error ? error.message : String(error),
+        attempts: attempt
+      });
+    }
+
+    const result = parseSamplingResponse(text, request.schema)
+      .andThen((data): Result<T, string> => request.validate ? request.validate(data) : ok(data));
+    if (result.isOk()) {
+      return ok({ data: result.value, attempts: attempt });
+    }
+
+    lastResponse = text;
+    lastReason = result.error;
+    messages.push({ role: 'assistant', content: { type: 'text', text } }, repairMessage(result.error));
+  }
+
+  return err({ type: 'invalid_response', message: lastReason, attempts: maxAttempts, lastResponse });
+};
+
+/**
+ * Convert SamplingError to user-friendly message
+ */
+export const formatSamplingError = (error: SamplingError): string => {
+  switch (error.type) {
+    case 'sampling_failed':
+      return messages().samplingFailed(error.message);
+    case 'invalid_response':
+      return messages().invalidResponse(error.attempts, error.message);
+  }
+};
+
+/**
+ * Explain a failed sampling with a follow-up note, quoting the last response that could not be interpreted
+ */
+export const formatSamplingFailure = (error: SamplingError, note: string): string =>
+  appendNote(formatSamplingError(error), note) +
+  (error.type === 'invalid_response' ? messages().lastResponse(error.lastResponse) : '');
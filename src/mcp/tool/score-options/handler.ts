@@ -0,0 +1,66 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ScoreOptionsAggregate } from '../../../domain/command/score-options.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import {
+  computeScoreMatrixView,
+  serializeScoreMatrixView,
+  formatScoreMatrix
+} from '../../../domain/read/option-scores/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { ScoreOptionsParams, ScoreOptionsResponse } from './schema.js';
+
+/**
+ * Score Options Tool Handler
+ *
+ * 評価軸と選択肢ごとのスコアを記録し、加重スコアの順位と感度を返す
+ */
+export const scoreOptionsHandler = async (
+  args: ScoreOptionsParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const optionsResult = await getCurrentOptions(decisionId);
+  if (optionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+  }
+  const options = optionsResult.value?.options ?? [];
+
+  const commandResult = ScoreOptionsAggregate.scoreOptions({
+    criteria: args.criteria,
+    scores: args.scores,
+    existingOptionIds: options.map(option => option.id)
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${ScoreOptionsAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const view = computeScoreMatrixView(event.criteria, event.scores);
+  const response: ScoreOptionsResponse = {
+    matrix: serializeScoreMatrixView(view)
+  };
+
+  const optionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text ?? optionId;
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().scored(formatScoreMatrix(view, optionText)),
+      prompts().nextAction
+    ],
+    false
+  );
+};
@@ -0,0 +1,18 @@
+import { createScoreOptionsSchema, createScoreOptionsOutputSchema } from './schema.js';
+import { scoreOptionsHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const scoreOptionsTool = {
+  name: 'score-options',
+  title: 'Score Options',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createScoreOptionsSchema().shape;
+  },
+  get outputSchema() {
+    return createScoreOptionsOutputSchema();
+  },
+  handler: scoreOptionsHandler
+};
@@ -0,0 +1,124 @@
+// Pure prompt strings for score-options tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+選択肢を複数の評価軸で採点し、重み付きの評価マトリクスとして記録するツールです。
+
+## 記録する内容
+- **criteria**: 評価軸（名前・重み・向き）。コストやリスクのように小さいほど良いものは direction を minimize にします
+- **scores**: すべての選択肢をすべての評価軸で 0〜10 で採点したスコア
+
+## 結果
+- 加重スコア（0〜10）と順位
+- 感度: 評価軸ごとに、重みをどれだけ変えると首位が入れ替わるか
+
+再度記録すると評価マトリクス全体が置き換わります。選択肢を登録し直した場合は採点し直してください。
+`,
+    scored: (matrix: string) => `✅ 評価マトリクスを記録しました:\n${matrix}`,
+    nextAction: `
+NEXT ACTION: 小さな重みの変化で首位が入れ替わる評価軸がある場合、その重みが本当に妥当かユーザーと確認してください。
+順位は判断材料の一つです。結論が固まったら make-decision ツールで決定を記録してください。`,
+
+    schemaValidation: {
+      criterionNameRequired: '評価軸の名前を入力してください',
+      criterionNameTooLong: '評価軸の名前は50文字以内で入力してください',
+      weightPositive: '重みは0より大きい数で入力してください',
+      criteriaEmpty: '評価軸を1つ以上入力してください',
+      scoreRange: 'スコアは0〜10の範囲で入力してください'
+    },
+
+    schemaDescriptions: {
+      criterionName: '評価軸の名前（例: コスト、実現までの期間）',
+      weight: '評価軸の重み（比率だけが意味を持つ）',
+      direction: 'maximize: スコアが大きいほど良い / minimize: スコアが小さいほど良い',
+      criteria: '選択肢を比較する評価軸',
+      optionId: '採点する選択肢ID（get_current_status で確認）',
+      scoreCriterion: '評価軸の名前（criteria の name）',
+      score: 'その評価軸でのスコア（0〜10）',
+      scores: 'すべての選択肢 × すべての評価軸のスコア',
+      decisionId: '採点する意思決定ID（省略時はアクティブな意思決定）',
+      matrix: {
+        criterionName: '評価軸の名前',
+        weight: '重み',
+        direction: 'スコアの向き',
+        criteria: '評価軸',
+        optionId: '選択肢ID',
+        score: 'スコア（0〜10）',
+        scores: '選択肢ごと・評価軸ごとのスコア',
+        weightedTotal: '加重スコア（0〜10）',
+        rank: '順位（同点は同順位）',
+        ranking: '加重スコアの高い順',
+        currentWeight: '現在の重み',
+        weightChange: '首位が入れ替わるのに必要な重みの変化（この重みだけでは変わらなければ null）',
+        newTopOptionId: 'そのとき首位に並ぶ選択肢ID',
+        sensitivity: '評価軸ごとの感度'
+      },
+      output: {
+        matrix: '記録した評価マトリクスと順位'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Scores the options on several criteria and records them as a weighted scoring matrix.
+
+## What to record
+- **criteria**: The criteria (name, weight and direction). For criteria where smaller is better, such as cost or risk, set direction to minimize
+- **scores**: A score from 0 to 10 for every option on every criterion
+
+## Result
+- The weighted score (0 to 10) and rank of each option
+- Sensitivity: for each criterion, how much its weight would have to change to swap the top option
+
+Recording again replaces the whole matrix. Score again after registering the options again.
+`,
+    scored: (matrix: string) => `✅ Recorded the scoring matrix:\n${matrix}`,
+    nextAction: `
+NEXT ACTION: If a small change in a weight swaps the top option, confirm with the user that the weight is really right.
+The ranking is one input to the decision. Once the conclusion is settled, record it with the make-decision tool.`,
+
+    schemaValidation: {
+      criterionNameRequired: 'Enter the name of the criterion',
+      criterionNameTooLong: 'The name of a criterion must be at most 50 characters',
+      weightPositive: 'The weight must be a number greater than 0',
+      criteriaEmpty: 'Enter at least one criterion',
+      scoreRange: 'The score must be between 0 and 10'
+    },
+
+    schemaDescriptions: {
+      criterionName: 'Name of the criterion (e.g. cost, time to deliver)',
+      weight: 'Weight of the criterion (only the ratios matter)',
+      direction: 'maximize: a higher score is better / minimize: a lower score is better',
+      criteria: 'Criteria to compare the options by',
+      optionId: 'ID of the option to score (check with get_current_status)',
+      scoreCriterion: 'Name of the criterion (the name in criteria)',
+      score: 'Score on the criterion (0 to 10)',
+      scores: 'Scores of every option on every criterion',
+      decisionId: 'Decision to score (defaults to the active decision)',
+      matrix: {
+        criterionName: 'Name of the criterion',
+        weight: 'Weight',
+        direction: 'Direction of the score',
+        criteria: 'Criteria',
+        optionId: 'Option ID',
+        score: 'Score (0 to 10)',
+        scores: 'Scores by option and criterion',
+        weightedTotal: 'Weighted score (0 to 10)',
+        rank: 'Rank (ties share a rank)',
+        ranking: 'Options by weighted score, highest first',
+        currentWeight: 'Current weight',
+        weightChange: 'Change in weight needed to change the top option (null when this weight alone cannot change it)',
+        newTopOptionId: 'Option ID that would then share the top',
+        sensitivity: 'Sensitivity of each criterion'
+      },
+      output: {
+        matrix: 'The recorded score matrix and ranking'
+      }
+    }
+  }
+});
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { ScoreDirectionSchema } from '../../../domain/term/scoring.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createScoreOptionsSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    criteria: z.array(z.object({
+      name: z.string()
+        .min(1, validation.criterionNameRequired)
+        .max(50, validation.criterionNameTooLong)
+        .describe(text.criterionName),
+      weight: z.number()
+        .positive(validation.weightPositive)
+        .describe(text.weight),
+      direction: ScoreDirectionSchema
+        .describe(text.direction)
+    }))
+      .min(1, validation.criteriaEmpty)
+      .describe(text.criteria),
+    scores: z.array(z.object({
+      optionId: z.string().describe(text.optionId),
+      criterion: z.string().describe(text.scoreCriterion),
+      score: z.number()
+        .min(0, validation.scoreRange)
+        .max(10, validation.scoreRange)
+        .describe(text.score)
+    }))
+      .describe(text.scores),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createScoreMatrixOutputSchema = () => {
+  const text = prompts().schemaDescriptions.matrix;
+
+  return z.object({
+    criteria: z.array(z.object({
+      name: z.string().describe(text.criterionName),
+      weight: z.number().describe(text.weight),
+      direction: ScoreDirectionSchema.describe(text.direction)
+    })).describe(text.criteria),
+    scores: z.array(z.object({
+      optionId: z.string().describe(text.optionId),
+      criterion: z.string().describe(text.criterionName),
+      score: z.number().describe(text.score)
+    })).describe(text.scores),
+    ranking: z.array(z.object({
+      optionId: z.string().describe(text.optionId),
+      weightedTotal: z.number().describe(text.weightedTotal),
+      rank: z.number().describe(text.rank)
+    })).describe(text.ranking),
+    sensitivity: z.array(z.object({
+      criterion: z.string().describe(text.criterionName),
+      weight: z.number().describe(text.currentWeight),
+      weightChange: z.number().nullable().describe(text.weightChange),
+      newTopOptionId: z.string().nullable().describe(text.newTopOptionId)
+    })).describe(text.sensitivity)
+  });
+};
+
+export const createScoreOptionsOutputSchema = () => z.object({
+  matrix: createScoreMatrixOutputSchema().describe(prompts().schemaDescriptions.output.matrix)
+});
+
+export type ScoreOptionsParams = z.infer<ReturnType<typeof createScoreOptionsSchema>>;
+export type ScoreOptionsResponse = z.infer<ReturnType<typeof createScoreOptionsOutputSchema>>;
@@ -0,0 +1,56 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { MakeDecisionAggregate } from '../../../domain/command/make-decision.js';
+import {
+  getCurrentFinalDecision,
+  serializeFinalDecisionView,
+  formatFinalDecisionReadError
+} from '../../../domain/read/final-decision/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { FinalDecisionView } from '../../../domain/read/final-decision/types.js';
+import type { StartDecisionReviewParams, StartDecisionReviewResponse } from './schema.js';
+
+/**
+ * Start Decision Review Tool Handler
+ *
+ * 記録済みの決定をレビュー中にする
+ */
+export const startDecisionReviewHandler = async (
+  args: StartDecisionReviewParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const finalDecisionResult = await getCurrentFinalDecision(decisionId);
+  if (finalDecisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatFinalDecisionReadError(finalDecisionResult.error)}`], true);
+  }
+  const view = finalDecisionResult.value;
+
+  const commandResult = MakeDecisionAggregate.startReview({ currentDecision: view?.decision ?? null });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${MakeDecisionAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const response: StartDecisionReviewResponse = {
+    // startReview は決定が記録済みの場合にのみ成功する
+    decision: serializeFinalDecisionView({ ...(view as FinalDecisionView), reviewStartedAt: event.startedAt })
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().reviewStarted(response.decision.rationale), prompts().nextAction],
+    false
+  );
+};
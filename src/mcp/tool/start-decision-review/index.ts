@@ -0,0 +1,18 @@
+import { createStartDecisionReviewSchema, createStartDecisionReviewOutputSchema } from './schema.js';
+import { startDecisionReviewHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const startDecisionReviewTool = {
+  name: 'start-decision-review',
+  title: 'Start Decision Review',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createStartDecisionReviewSchema().shape;
+  },
+  get outputSchema() {
+    return createStartDecisionReviewOutputSchema();
+  },
+  handler: startDecisionReviewHandler
+};
@@ -0,0 +1,44 @@
+// Pure prompt strings for start-decision-review tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+make-decision で記録した決定をレビューに入れるツールです。
+レビュー予定日を迎えたとき、または状況が変わって決定を見直したいときに使います。
+`,
+    nextAction: `
+NEXT ACTION: 決定した時の理由が今も成り立っているかを確認してください。
+• 決定を維持・変更する場合は、make-decision ツールで改めて決定を記録する
+• 前提が揺らいでいる場合は、register-assumptions ツールで仮説を登録し検証する`,
+    reviewStarted: (rationale: string) => `✅ 決定のレビューを開始しました（決定理由: ${rationale}）`,
+
+    schemaDescriptions: {
+      decisionId: 'レビューする意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        decision: 'レビュー対象の決定'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Puts the decision recorded with make-decision under review.
+Use it when the review date arrives or when circumstances change and the decision should be revisited.
+`,
+    nextAction: `
+NEXT ACTION: Check whether the reasons behind the decision still hold.
+• To keep or change the decision, record it again with the make-decision tool
+• If the premises are shaky, register assumptions with the register-assumptions tool and test them`,
+    reviewStarted: (rationale: string) => `✅ Started reviewing the decision (rationale: ${rationale})`,
+
+    schemaDescriptions: {
+      decisionId: 'Decision to review (defaults to the active decision)',
+      output: {
+        decision: 'The decision under review'
+      }
+    }
+  }
+});
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createFinalDecisionOutputSchema } from '../make-decision/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createStartDecisionReviewSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+// Output schema
+export const createStartDecisionReviewOutputSchema = () => z.object({
+  decision: createFinalDecisionOutputSchema().describe(prompts().schemaDescriptions.output.decision)
+});
+
+export type StartDecisionReviewParams = z.infer<ReturnType<typeof createStartDecisionReviewSchema>>;
+export type StartDecisionReviewResponse = z.infer<ReturnType<typeof createStartDecisionReviewOutputSchema>>;
@@ -0,0 +1,23 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult } from '../util.js';
+import { saveChecks } from '../check-constraints/handler.js';
+import { ERROR_MESSAGE_PREFIX } from './prompt.js';
+import type { SubmitConstraintChecksParams } from './schema.js';
+
+/**
+ * Submit Constraint Checks Tool Handler
+ *
+ * 2段階モードでエージェントが答えた判定を、check-constraints のサンプリング結果と同じ検証を通して保存する
+ */
+export const submitConstraintChecksHandler = async (
+  args: SubmitConstraintChecksParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  return await saveChecks(decisionId, { checks: args.checks }, { source: 'agent' });
+};
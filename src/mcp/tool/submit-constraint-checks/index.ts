@@ -0,0 +1,18 @@
+import { createSubmitConstraintChecksSchema, createSubmitConstraintChecksOutputSchema } from './schema.js';
+import { submitConstraintChecksHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const submitConstraintChecksTool = {
+  name: 'submit-constraint-checks',
+  title: 'Submit Constraint Checks',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createSubmitConstraintChecksSchema().shape;
+  },
+  get outputSchema() {
+    return createSubmitConstraintChecksOutputSchema();
+  },
+  handler: submitConstraintChecksHandler
+};
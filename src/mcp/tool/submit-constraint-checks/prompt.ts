@@ -0,0 +1,34 @@
+// Pure prompt strings for submit-constraint-checks tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+クライアントがサンプリングに対応していないとき、check-constraints が返した依頼（agentRequest）に
+エージェントが答えた判定を受け取り、検証して保存するツールです。
+
+回答の JSON の checks をそのまま引数に渡してください。選択肢と制約のすべての組をちょうど1回ずつ判定する必要があります。
+保存できない内容だった場合は理由を返すので、直してもう一度呼んでください。
+`,
+
+    schemaDescriptions: {
+      decisionId: '判定を保存する意思決定ID（省略時はアクティブな意思決定）'
+    }
+  },
+  en: {
+    toolDescription: `
+When the client does not support sampling, receives the verdicts the agent wrote in answer to the request (agentRequest)
+returned by check-constraints, validates them and saves them.
+
+Pass the checks of the JSON answer as the argument unchanged. Every pair of option and constraint must be checked exactly once.
+If they cannot be saved, the reason is returned; fix them and call again.
+`,
+
+    schemaDescriptions: {
+      decisionId: 'Decision to save the checks to (defaults to the active decision)'
+    }
+  }
+});
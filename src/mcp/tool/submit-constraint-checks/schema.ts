@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createCheckConstraintsSamplingResultSchema, createCheckConstraintsOutputSchema } from '../check-constraints/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema - check-constraints の依頼に答えた JSON をそのまま受け取る
+export const createSubmitConstraintChecksSchema = () => createCheckConstraintsSamplingResultSchema().extend({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+// Output schema - check-constraints と同じ形で返す
+export const createSubmitConstraintChecksOutputSchema = createCheckConstraintsOutputSchema;
+
+export type SubmitConstraintChecksParams = z.infer<ReturnType<typeof createSubmitConstraintChecksSchema>>;
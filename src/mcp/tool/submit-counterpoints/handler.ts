@@ -0,0 +1,33 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult } from '../util.js';
+import { loadChallengeTarget, saveChallenge } from '../challenge-option/handler.js';
+import { ERROR_MESSAGE_PREFIX } from './prompt.js';
+import type { SubmitCounterpointsParams } from './schema.js';
+
+/**
+ * Submit Counterpoints Tool Handler
+ *
+ * 2段階モードでエージェントが答えた反論を、challenge-option のサンプリング結果と同じ検証を通して保存する
+ */
+export const submitCounterpointsHandler = async (
+  args: SubmitCounterpointsParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const targetResult = await loadChallengeTarget(decisionId, args.optionId);
+  if (targetResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${targetResult.error}`], true);
+  }
+
+  return await saveChallenge(
+    decisionId,
+    targetResult.value,
+    { strongestCase: args.strongestCase, disconfirmingEvidence: args.disconfirmingEvidence },
+    { source: 'agent' }
+  );
+};
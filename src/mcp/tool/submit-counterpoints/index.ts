@@ -0,0 +1,18 @@
+import { createSubmitCounterpointsSchema, createSubmitCounterpointsOutputSchema } from './schema.js';
+import { submitCounterpointsHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const submitCounterpointsTool = {
+  name: 'submit-counterpoints',
+  title: 'Submit Counterpoints',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createSubmitCounterpointsSchema().shape;
+  },
+  get outputSchema() {
+    return createSubmitCounterpointsOutputSchema();
+  },
+  handler: submitCounterpointsHandler
+};
@@ -0,0 +1,36 @@
+// Pure prompt strings for submit-counterpoints tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+クライアントがサンプリングに対応していないとき、challenge-option が返した依頼（agentRequest）に
+エージェントが答えた反論を受け取り、検証して選択肢に保存するツールです。
+
+回答の JSON の strongestCase と disconfirmingEvidence に、反論した選択肢の optionId を添えて渡してください。
+保存できない内容だった場合は理由を返すので、直してもう一度呼んでください。
+`,
+
+    schemaDescriptions: {
+      optionId: '反論した選択肢ID（challenge-option に渡したもの）',
+      decisionId: '反論を保存する意思決定ID（省略時はアクティブな意思決定）'
+    }
+  },
+  en: {
+    toolDescription: `
+When the client does not support sampling, receives the counterpoints the agent wrote in answer to the request (agentRequest)
+returned by challenge-option, validates them and saves them to the option.
+
+Pass strongestCase and disconfirmingEvidence of the JSON answer together with the optionId of the challenged option.
+If they cannot be saved, the reason is returned; fix them and call again.
+`,
+
+    schemaDescriptions: {
+      optionId: 'ID of the challenged option (the one passed to challenge-option)',
+      decisionId: 'Decision to save the counterpoints to (defaults to the active decision)'
+    }
+  }
+});
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { challengeOptionSamplingResultSchema, createChallengeOptionOutputSchema } from '../challenge-option/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema - challenge-option の依頼に答えた JSON と、反論した選択肢IDを受け取る
+export const createSubmitCounterpointsSchema = () => {
+  const text = prompts().schemaDescriptions;
+
+  return challengeOptionSamplingResultSchema.extend({
+    optionId: z.string().describe(text.optionId),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema - challenge-option と同じ形で返す
+export const createSubmitCounterpointsOutputSchema = createChallengeOptionOutputSchema;
+
+export type SubmitCounterpointsParams = z.infer<ReturnType<typeof createSubmitCounterpointsSchema>>;
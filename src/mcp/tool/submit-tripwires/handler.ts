@@ -0,0 +1,37 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { getCurrentOptions, formatOptionsReadError } from '../../../domain/read/options/index.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult } from '../util.js';
+import { saveTripwires } from '../make-tripwire/handler.js';
+import { ERROR_MESSAGE_PREFIX } from './prompt.js';
+import type { SubmitTripwiresParams } from './schema.js';
+
+/**
+ * Submit Tripwires Tool Handler
+ *
+ * 2段階モードでエージェントが答えた撤退基準を、make-tripwire のサンプリング結果と同じ検証を通して保存する
+ */
+export const submitTripwiresHandler = async (
+  args: SubmitTripwiresParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const optionsResult = await getCurrentOptions(decisionId);
+  if (optionsResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatOptionsReadError(optionsResult.error)}`], true);
+  }
+  const options = optionsResult.value?.options ?? [];
+  const optionName = (optionId: string) => options.find(option => option.id === optionId)?.text ?? optionId;
+
+  return await saveTripwires(
+    decisionId,
+    optionName,
+    options.map(option => option.id),
+    { tripwires: args.tripwires },
+    { source: 'agent' }
+  );
+};
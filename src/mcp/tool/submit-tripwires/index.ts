@@ -0,0 +1,18 @@
+import { createSubmitTripwiresSchema, createSubmitTripwiresOutputSchema } from './schema.js';
+import { submitTripwiresHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const submitTripwiresTool = {
+  name: 'submit-tripwires',
+  title: 'Submit Tripwires',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createSubmitTripwiresSchema().shape;
+  },
+  get outputSchema() {
+    return createSubmitTripwiresOutputSchema();
+  },
+  handler: submitTripwiresHandler
+};
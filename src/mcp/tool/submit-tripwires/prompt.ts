@@ -0,0 +1,34 @@
+// Pure prompt strings for submit-tripwires tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+クライアントがサンプリングに対応していないとき、make-tripwire が返した依頼（agentRequest）に
+エージェントが答えた撤退基準を受け取り、検証して保存するツールです。
+
+回答の JSON の tripwires をそのまま引数に渡してください。保存できない内容だった場合は理由を返すので、
+直してもう一度呼んでください。
+`,
+
+    schemaDescriptions: {
+      decisionId: '撤退基準を保存する意思決定ID（省略時はアクティブな意思決定）'
+    }
+  },
+  en: {
+    toolDescription: `
+When the client does not support sampling, receives the trip wires the agent wrote in answer to the request (agentRequest)
+returned by make-tripwire, validates them and saves them.
+
+Pass the tripwires of the JSON answer as the argument unchanged. If they cannot be saved, the reason is returned;
+fix them and call again.
+`,
+
+    schemaDescriptions: {
+      decisionId: 'Decision to save the trip wires to (defaults to the active decision)'
+    }
+  }
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createTripwireSamplingResultSchema, createTripwireOutputSchema } from '../make-tripwire/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema - make-tripwire の依頼に答えた JSON をそのまま受け取る
+export const createSubmitTripwiresSchema = () => createTripwireSamplingResultSchema().extend({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+// Output schema - make-tripwire と同じ形で返す
+export const createSubmitTripwiresOutputSchema = createTripwireOutputSchema;
+
+export type SubmitTripwiresParams = z.infer<ReturnType<typeof createSubmitTripwiresSchema>>;
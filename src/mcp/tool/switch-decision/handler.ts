@@ -0,0 +1,69 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SwitchDecisionParams, SwitchDecisionResponse } from './schema.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import { DecisionSessionAggregate } from '../../../domain/command/decision-session.js';
+import { DecisionId } from '../../../domain/term/decision.js';
+import { listDecisionIds, setActiveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { appendEvent } from '../../../effect/journal-storage.js';
+
+/**
+ * Switch Decision Tool Handler
+ * 
+ * 指定した意思決定をアクティブにし、以降のツール呼び出しの対象にする
+ */
+export const switchDecisionHandler = async (args: SwitchDecisionParams): Promise<CallToolResult> => {
+  const idsResult = await listDecisionIds();
+  if (idsResult.isErr()) {
+    return toCallToolResult(
+      [`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError({ type: 'file_system_error', error: idsResult.error })}`],
+      true
+    );
+  }
+
+  const commandResult = DecisionSessionAggregate.switchDecision({
+    decisionId: args.decisionId,
+    existingDecisionIds: idsResult.value
+  });
+
+  if (commandResult.isErr()) {
+    return toCallToolResult(
+      [
+        `${ERROR_MESSAGE_PREFIX}${DecisionSessionAggregate.toErrorMessage(commandResult.error)}`,
+        prompts().checkDecisionIds
+      ],
+      true
+    );
+  }
+
+  // 切り替えイベントはワークフロー状態を変えないため、遷移チェックなしでジャーナルに追記
+  const event = commandResult.value;
+  const appendResult = await appendEvent(event.decisionId, event);
+  if (appendResult.isErr()) {
+    return toCallToolResult(
+      [`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError({ type: 'file_system_error', error: appendResult.error })}`],
+      true
+    );
+  }
+
+  const saveResult = await setActiveDecisionId(event.decisionId);
+  if (saveResult.isErr()) {
+    return toCallToolResult(
+      [`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError({ type: 'file_system_error', error: saveResult.error })}`],
+      true
+    );
+  }
+
+  const response: SwitchDecisionResponse = {
+    decisionId: DecisionId.toString(event.decisionId)
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [
+      prompts().switched(response.decisionId),
+      prompts().nextAction
+    ],
+    false
+  );
+};
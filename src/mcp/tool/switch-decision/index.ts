@@ -0,0 +1,18 @@
+import { createSwitchDecisionSchema, createSwitchDecisionOutputSchema } from './schema.js';
+import { switchDecisionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const switchDecisionTool = {
+  name: 'switch-decision',
+  title: 'Switch Decision',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createSwitchDecisionSchema().shape;
+  },
+  get outputSchema() {
+    return createSwitchDecisionOutputSchema();
+  },
+  handler: switchDecisionHandler
+};
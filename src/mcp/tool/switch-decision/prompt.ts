@@ -0,0 +1,34 @@
+// Pure prompt strings for switch-decision tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: '指定した意思決定をアクティブにするツール。decisionId を省略した各ツールの呼び出しは、アクティブな意思決定を対象にします。',
+    checkDecisionIds: 'list-decisions ツールで既存の意思決定IDを確認してください。',
+    switched: (decisionId: string) => `✅ 意思決定「${decisionId}」に切り替えました。`,
+    nextAction: 'get_current_status ツールで現在の状況を確認し、中断したステップから再開してください。',
+
+    schemaDescriptions: {
+      decisionId: '再開する意思決定ID（list-decisions で確認）',
+      output: {
+        decisionId: 'アクティブになった意思決定ID'
+      }
+    }
+  },
+  en: {
+    toolDescription: 'Makes the given decision active. Tool calls without a decisionId apply to the active decision.',
+    checkDecisionIds: 'Check the existing decision IDs with the list-decisions tool.',
+    switched: (decisionId: string) => `✅ Switched to decision "${decisionId}".`,
+    nextAction: 'Check where things stand with the get_current_status tool and resume from the step where you left off.',
+
+    schemaDescriptions: {
+      decisionId: 'ID of the decision to resume (check with list-decisions)',
+      output: {
+        decisionId: 'ID of the decision that became active'
+      }
+    }
+  }
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createSwitchDecisionSchema = () => z.object({
+  decisionId: DecisionIdSchema.describe(prompts().schemaDescriptions.decisionId)
+});
+
+// Output schema
+export const createSwitchDecisionOutputSchema = () => z.object({
+  decisionId: z.string().describe(prompts().schemaDescriptions.output.decisionId)
+});
+
+export type SwitchDecisionParams = z.infer<ReturnType<typeof createSwitchDecisionSchema>>;
+export type SwitchDecisionResponse = z.infer<ReturnType<typeof createSwitchDecisionOutputSchema>>;
@@ -0,0 +1,72 @@
+import { ok, err } from 'neverthrow';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { UndoRedoAggregate, type UndoableCommand } from '../../../domain/command/undo-redo.js';
+import {
+  getUndoStack,
+  serializeUndoStackView,
+  describeUndoableEvent,
+  formatUndoStackReadError
+} from '../../../domain/read/undo-stack/index.js';
+import { getDisplayName } from '../../../domain/term/workflow-state.js';
+import { recordEventWith, formatRecordEventWithError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { UndoParams, UndoResponse } from './schema.js';
+
+/**
+ * Undo Tool Handler
+ *
+ * 最後に有効なコマンドを取り消すイベントを記録する（ジャーナルから行は消さない）
+ */
+export const undoHandler = async (args: UndoParams): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  // 取り消すコマンドを読んでから追記するまで、ほかの書き込みが割り込まないようにする
+  const recordResult = await recordEventWith(decisionId, async () => {
+    const stackResult = await getUndoStack(decisionId);
+    if (stackResult.isErr()) {
+      return err(formatUndoStackReadError(stackResult.error));
+    }
+    const stack = stackResult.value;
+
+    const commandResult = UndoRedoAggregate.undo({
+      undoable: stack.undoable,
+      currentState: stack.currentState,
+      stateAfterUndo: stack.stateAfterUndo ?? stack.currentState
+    });
+    if (commandResult.isErr()) {
+      return err(UndoRedoAggregate.toErrorMessage(commandResult.error));
+    }
+    // undo は取り消せるコマンドがある場合にのみ成功し、その先頭を取り消す
+    const target = stack.undoable[0] as UndoableCommand;
+    return ok({ event: commandResult.value, target });
+  });
+  if (recordResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatRecordEventWithError(recordResult.error)}`], true);
+  }
+  const { target } = recordResult.value;
+
+  const afterResult = await getUndoStack(decisionId);
+  if (afterResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatUndoStackReadError(afterResult.error)}`], true);
+  }
+  const after = afterResult.value;
+
+  const description = describeUndoableEvent(target.event);
+  const response: UndoResponse = {
+    undone: { position: target.position, eventType: target.event.type, description },
+    workflowState: after.currentState.type,
+    undoStack: serializeUndoStackView(after)
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().undone(description, getDisplayName(after.currentState)), prompts().nextAction],
+    false
+  );
+};
@@ -0,0 +1,18 @@
+import { createUndoSchema, createUndoOutputSchema } from './schema.js';
+import { undoHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const undoTool = {
+  name: 'undo',
+  title: 'Undo Last Command',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createUndoSchema().shape;
+  },
+  get outputSchema() {
+    return createUndoOutputSchema();
+  },
+  handler: undoHandler
+};
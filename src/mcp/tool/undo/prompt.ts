@@ -0,0 +1,58 @@
+// Pure prompt strings for undo tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+最後に記録したコマンドを取り消し、課題・選択肢・ワークフロー状態などをその前の状態に戻すツールです。
+ラダリングや類推の段階でよくない選択肢を登録してしまった場合などに使います。
+繰り返し呼ぶと、さらに前のコマンドを取り消します。取り消したコマンドは redo ツールでやり直せます。
+何が取り消されるかは get-undo-stack ツールで事前に確認できます。
+取り消した結果のワークフロー状態が現在の状態から遷移できない場合は取り消せません。
+`,
+    nextAction: `
+NEXT ACTION: 戻った状態から作業を続けてください。
+• 取り消しすぎた場合は redo ツールでやり直せます
+• 新しいコマンドを記録すると、取り消したコマンドはやり直せなくなります`,
+    undone: (description: string, state: string) => `✅ 「${description}」を取り消しました（現在の状態: ${state}）`,
+
+    schemaDescriptions: {
+      decisionId: '対象の意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        position: '取り消したコマンドのジャーナル上の位置',
+        eventType: '取り消したイベントの種類',
+        description: '取り消したコマンドの説明',
+        workflowState: '取り消した後のワークフロー状態',
+        undoStack: '取り消した後の取り消し履歴'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Undoes the last recorded command and returns the issue, options, workflow state and so on to where they were before it.
+Use it when, for example, a poor option was registered while laddering or researching analogies.
+Calling it again undoes the command before that. Undone commands can be redone with the redo tool.
+Check what would be undone beforehand with the get-undo-stack tool.
+A command cannot be undone if the resulting workflow state is not reachable from the current state.
+`,
+    nextAction: `
+NEXT ACTION: Continue from the restored state.
+• If you undid too much, redo it with the redo tool
+• Recording a new command makes the undone commands impossible to redo`,
+    undone: (description: string, state: string) => `✅ Undid "${description}" (current state: ${state})`,
+
+    schemaDescriptions: {
+      decisionId: 'Target decision ID (defaults to the active decision)',
+      output: {
+        position: 'Position of the undone command in the journal',
+        eventType: 'Type of the undone event',
+        description: 'What the undone command did',
+        workflowState: 'Workflow state after the undo',
+        undoStack: 'Undo history after the undo'
+      }
+    }
+  }
+});
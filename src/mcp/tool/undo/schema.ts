@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createUndoStackOutputSchema } from '../get-undo-stack/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createUndoSchema = () => z.object({
+  decisionId: DecisionIdSchema
+    .optional()
+    .describe(prompts().schemaDescriptions.decisionId)
+});
+
+// Output schema
+export const createUndoOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    undone: z.object({
+      position: z.number().describe(text.position),
+      eventType: z.string().describe(text.eventType),
+      description: z.string().describe(text.description)
+    }),
+    workflowState: z.string().describe(text.workflowState),
+    undoStack: createUndoStackOutputSchema().describe(text.undoStack)
+  });
+};
+
+export type UndoParams = z.infer<ReturnType<typeof createUndoSchema>>;
+export type UndoResponse = z.infer<ReturnType<typeof createUndoOutputSchema>>;
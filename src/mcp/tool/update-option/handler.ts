@@ -0,0 +1,60 @@
+import { err } from 'neverthrow';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { OptionSelectionAggregate } from '../../../domain/command/option-selection.js';
+import {
+  getCurrentOptions,
+  applyOptionEdit,
+  serializeOptionsView,
+  formatOptionsReadError
+} from '../../../domain/read/options/index.js';
+import { recordEventWith, formatRecordEventWithError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { UpdateOptionParams, UpdateOptionResponse } from './schema.js';
+
+/**
+ * Update Option Tool Handler
+ *
+ * 選択肢を1つ、IDを変えずに書き直す
+ */
+export const updateOptionHandler = async (args: UpdateOptionParams): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  // 選択肢と状態を読んでから追記するまで、ほかの書き込みが割り込まないようにする
+  const recordResult = await recordEventWith(decisionId, async currentState => {
+    const optionsResult = await getCurrentOptions(decisionId);
+    if (optionsResult.isErr()) {
+      return err(formatOptionsReadError(optionsResult.error));
+    }
+    const currentOptions = optionsResult.value?.options ?? [];
+
+    return OptionSelectionAggregate.updateOption({
+      optionId: args.optionId,
+      ...(args.text !== undefined && { text: args.text }),
+      ...(args.supplementaryInfo !== undefined && { supplementaryInfo: args.supplementaryInfo }),
+      currentOptions,
+      currentState
+    })
+      .map(event => ({ event, currentOptions }))
+      .mapErr(OptionSelectionAggregate.toErrorMessage);
+  });
+  if (recordResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatRecordEventWithError(recordResult.error)}`], true);
+  }
+  const { event, currentOptions } = recordResult.value;
+
+  const edited = serializeOptionsView({ options: applyOptionEdit(currentOptions, event) });
+  const [option] = serializeOptionsView({ options: [event.option] }).options;
+  const response: UpdateOptionResponse = { ...edited, option };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().updated(event.option.id, event.option.text)],
+    false
+  );
+};
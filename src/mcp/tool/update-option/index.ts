@@ -0,0 +1,19 @@
+import { createUpdateOptionSchema, createUpdateOptionOutputSchema } from './schema.js';
+import { updateOptionHandler } from './handler.js';
+import { prompts } from './prompt.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+
+export const createUpdateOptionTool = (policy: DomainPolicy) => ({
+  name: 'update-option',
+  title: 'Update Option',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createUpdateOptionSchema(policy).shape;
+  },
+  get outputSchema() {
+    return createUpdateOptionOutputSchema();
+  },
+  handler: updateOptionHandler
+});
@@ -0,0 +1,50 @@
+// Pure prompt strings for update-option tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+選択肢を1つ、IDを変えずに書き直すツールです。テキストと補足情報のうち指定したものだけを変更します。
+選択肢を広げている間と、選択肢をfixした直後に使えます。
+`,
+    updated: (optionId: string, text: string) => `✅ 選択肢「${optionId}」を「${text}」に変更しました`,
+
+    schemaValidation: {
+      tooLong: (max: number) => `選択肢は${max}文字以内で入力してください`
+    },
+
+    schemaDescriptions: {
+      optionId: '変更する選択肢ID（get-option-history で確認）',
+      text: '新しい選択肢のテキスト（省略時は変更しない）',
+      supplementaryInfo: '新しい補足情報（省略時は変更しない）',
+      decisionId: '選択肢を変更する意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        option: '変更後の選択肢'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Rewrites a single option without changing its ID. Only the given fields of text and supplementary information change.
+It can be used while options are being widened and right after they are fixed.
+`,
+    updated: (optionId: string, text: string) => `✅ Changed the option "${optionId}" to "${text}"`,
+
+    schemaValidation: {
+      tooLong: (max: number) => `An option must be at most ${max} characters`
+    },
+
+    schemaDescriptions: {
+      optionId: 'ID of the option to change (check with get-option-history)',
+      text: 'New text of the option (unchanged when omitted)',
+      supplementaryInfo: 'New supplementary information (unchanged when omitted)',
+      decisionId: 'Decision to change the option in (defaults to the active decision)',
+      output: {
+        option: 'The changed option'
+      }
+    }
+  }
+});
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { createEditedOptionsOutputSchema, createOptionOutputSchema } from '../add-option/schema.js';
+import type { DomainPolicy } from '../../../domain/term/domain-policy.js';
+import { prompts } from './prompt.js';
+
+// Input schema - 文字数の上限は DomainPolicy から、説明と検証メッセージは作った時点のロケールで作る
+export const createUpdateOptionSchema = (policy: DomainPolicy) => {
+  const maxLength = policy.textLimits.option;
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    text: z.string().max(maxLength, validation.tooLong(maxLength)).optional().describe(text.text),
+    supplementaryInfo: z.string().optional().describe(text.supplementaryInfo),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createUpdateOptionOutputSchema = () => createEditedOptionsOutputSchema().extend({
+  option: createOptionOutputSchema().describe(prompts().schemaDescriptions.output.option)
+});
+
+export type UpdateOptionParams = z.infer<ReturnType<typeof createUpdateOptionSchema>>;
+export type UpdateOptionResponse = z.infer<ReturnType<typeof createUpdateOptionOutputSchema>>;
@@ -0,0 +1,65 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { PrepareToBeWrongAggregate } from '../../../domain/command/prepare-to-be-wrong.js';
+import {
+  getCurrentTripwires,
+  serializeTripwireCriterion,
+  formatTripwireCriterion,
+  formatTripwiresReadError
+} from '../../../domain/read/tripwires/index.js';
+import { recordEvent, formatWorkflowStateStorageError } from '../../../effect/workflow-state-storage.js';
+import { resolveDecisionId, formatDecisionStorageError } from '../../../effect/decision-storage.js';
+import { toCallToolResult, toStructuredCallToolResult } from '../util.js';
+import { ERROR_MESSAGE_PREFIX, prompts } from './prompt.js';
+import type { UpdateTripwireParams, UpdateTripwireResponse } from './schema.js';
+
+/**
+ * Update Tripwire Tool Handler
+ *
+ * 保存済みの撤退基準を1つ編集する
+ */
+export const updateTripwireHandler = async (
+  args: UpdateTripwireParams
+): Promise<CallToolResult> => {
+  const decisionResult = await resolveDecisionId(args.decisionId);
+  if (decisionResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatDecisionStorageError(decisionResult.error)}`], true);
+  }
+  const decisionId = decisionResult.value;
+
+  const tripwiresResult = await getCurrentTripwires(decisionId);
+  if (tripwiresResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatTripwiresReadError(tripwiresResult.error)}`], true);
+  }
+
+  const commandResult = PrepareToBeWrongAggregate.updateTripwire({
+    criterionId: args.criterionId,
+    changes: {
+      description: args.description,
+      type: args.type,
+      threshold: args.threshold,
+      severity: args.severity,
+      condition: args.condition
+    },
+    currentTripwires: tripwiresResult.value.tripwires
+  });
+  if (commandResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${PrepareToBeWrongAggregate.toErrorMessage(commandResult.error)}`], true);
+  }
+
+  const event = commandResult.value;
+  const stateResult = await recordEvent(decisionId, event);
+  if (stateResult.isErr()) {
+    return toCallToolResult([`${ERROR_MESSAGE_PREFIX}${formatWorkflowStateStorageError(stateResult.error)}`], true);
+  }
+
+  const response: UpdateTripwireResponse = {
+    optionId: event.optionId,
+    criterion: serializeTripwireCriterion(event.criterion)
+  };
+
+  return toStructuredCallToolResult(
+    response,
+    [prompts().updated(formatTripwireCriterion(event.criterion))],
+    false
+  );
+};
@@ -0,0 +1,18 @@
+import { createUpdateTripwireSchema, createUpdateTripwireOutputSchema } from './schema.js';
+import { updateTripwireHandler } from './handler.js';
+import { prompts } from './prompt.js';
+
+export const updateTripwireTool = {
+  name: 'update-tripwire',
+  title: 'Update Tripwire',
+  get description() {
+    return prompts().toolDescription;
+  },
+  get parameters() {
+    return createUpdateTripwireSchema().shape;
+  },
+  get outputSchema() {
+    return createUpdateTripwireOutputSchema();
+  },
+  handler: updateTripwireHandler
+};
@@ -0,0 +1,66 @@
+// Pure prompt strings for update-tripwire tool
+
+import { defineCatalog } from '../../../common/i18n.js';
+
+export const ERROR_MESSAGE_PREFIX = `❌ `;
+
+export const prompts = defineCatalog({
+  ja: {
+    toolDescription: `
+make-tripwire で保存した撤退基準（トリップワイヤー）を1つ編集するツールです。
+
+指定した項目（description / type / threshold / severity / condition）だけが変更され、撤退基準IDは変わりません。
+condition（指標・比較演算子・数値）を設定すると、evaluate-tripwires で観測値から機械的に判定できるようになります。
+状況が変わって閾値が現実に合わなくなったときなど、撤退基準を最新の判断に保つために使ってください。
+`,
+    updated: (criterion: string) => `✅ 撤退基準を更新しました:\n${criterion}`,
+
+    schemaValidation: {
+      descriptionTooLong: '撤退基準の説明は200文字以内で入力してください',
+      thresholdTooLong: '閾値は200文字以内で入力してください'
+    },
+
+    schemaDescriptions: {
+      criterionId: '編集する撤退基準ID（get_current_status で確認）',
+      description: '新しい撤退基準の説明（省略時は変更しない）',
+      type: '新しいカテゴリー（省略時は変更しない）',
+      threshold: '新しい閾値・条件（省略時は変更しない）',
+      severity: '新しい重要度（省略時は変更しない）',
+      condition: '機械的に判定できる条件（省略時は変更しない、null で条件を外す）',
+      decisionId: '撤退基準が設定されている意思決定ID（省略時はアクティブな意思決定）',
+      output: {
+        optionId: '撤退基準が設定されている選択肢ID',
+        criterion: '編集後の撤退基準'
+      }
+    }
+  },
+  en: {
+    toolDescription: `
+Edits a single trip wire saved with make-tripwire.
+
+Only the given fields (description / type / threshold / severity / condition) change; the trip wire ID stays the same.
+With a condition (metric, comparator and value), evaluate-tripwires can check the trip wire against observed values mechanically.
+Use it to keep trip wires in line with your current judgment, for example when circumstances change and a threshold no longer fits.
+`,
+    updated: (criterion: string) => `✅ Updated the trip wire:\n${criterion}`,
+
+    schemaValidation: {
+      descriptionTooLong: 'The description of a trip wire must be at most 200 characters',
+      thresholdTooLong: 'The threshold must be at most 200 characters'
+    },
+
+    schemaDescriptions: {
+      criterionId: 'ID of the trip wire to edit (check with get_current_status)',
+      description: 'New description of the trip wire (unchanged when omitted)',
+      type: 'New category (unchanged when omitted)',
+      threshold: 'New threshold or condition (unchanged when omitted)',
+      severity: 'New severity (unchanged when omitted)',
+      condition: 'Machine-checkable condition (unchanged when omitted, null removes it)',
+      decisionId: 'Decision the trip wire is set in (defaults to the active decision)',
+      output: {
+        optionId: 'ID of the option the trip wire is set on',
+        criterion: 'The trip wire after the edit'
+      }
+    }
+  }
+});
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { DecisionIdSchema } from '../../../domain/term/decision.js';
+import { CriterionTypeSchema, CriterionSeveritySchema } from '../../../domain/term/tripwire.js';
+import { createCriterionOutputSchema, createConditionSchema } from '../make-tripwire/schema.js';
+import { prompts } from './prompt.js';
+
+// Input schema
+export const createUpdateTripwireSchema = () => {
+  const { schemaValidation: validation, schemaDescriptions: text } = prompts();
+
+  return z.object({
+    criterionId: z.string().describe(text.criterionId),
+    description: z.string()
+      .max(200, validation.descriptionTooLong)
+      .optional()
+      .describe(text.description),
+    type: CriterionTypeSchema.optional().describe(text.type),
+    threshold: z.string()
+      .max(200, validation.thresholdTooLong)
+      .optional()
+      .describe(text.threshold),
+    severity: CriterionSeveritySchema.optional().describe(text.severity),
+    condition: createConditionSchema()
+      .nullable()
+      .optional()
+      .describe(text.condition),
+    decisionId: DecisionIdSchema
+      .optional()
+      .describe(text.decisionId)
+  });
+};
+
+// Output schema
+export const createUpdateTripwireOutputSchema = () => {
+  const text = prompts().schemaDescriptions.output;
+
+  return z.object({
+    optionId: z.string().describe(text.optionId),
+    criterion: createCriterionOutputSchema().describe(text.criterion)
+  });
+};
+
+export type UpdateTripwireParams = z.infer<ReturnType<typeof createUpdateTripwireSchema>>;
+export type UpdateTripwireResponse = z.infer<ReturnType<typeof createUpdateTripwireOutputSchema>>;
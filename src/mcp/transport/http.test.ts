@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpTransport, HEALTH_PATH, type HttpTransportHandle } from './http.js';
+import { setStorageBackend } from '../../effect/storage-backend.js';
+import { createMemoryBackend, createFileSystemBackend } from '../../effect/backend/index.js';
+
+const issueArgs = (issue: string) => ({
+  issue,
+  context: 'チームで共有しているHTTPサーバーから使う',
+  constraints: '今月中に決める'
+});
+
+describe('startHttpTransport', () => {
+  let handle: HttpTransportHandle;
+  const clients: Client[] = [];
+
+  const connect = async (): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> => {
+    const client = new Client({ name: 'http-test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(handle.url));
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  const health = async () => {
+    const response = await fetch(new URL(HEALTH_PATH, handle.url));
+    return { status: response.status, body: await response.json() };
+  };
+
+  const activeDecisionIdOf = async (client: Client) => {
+    const result = await client.callTool({ name: 'list-decisions', arguments: {} });
+    return (result.structuredContent as { activeDecisionId?: string }).activeDecisionId;
+  };
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend());
+    handle = await startHttpTransport({ host: '127.0.0.1', port: 0 });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    await handle.close();
+    setStorageBackend(createFileSystemBackend());
+  });
+
+  it('should report the open sessions on the health endpoint', async () => {
+    // Given
+    const before = await health();
+
+    // When
+    await connect();
+    const after = await health();
+
+    // Then
+    expect(before).toEqual({ status: 200, body: { status: 'ok', sessions: { streamableHttp: 0, sse: 0 } } });
+    expect(after.body.sessions).toEqual({ streamableHttp: 1, sse: 0 });
+  });
+
+  it('should create a session on initialize and reuse it for later requests', async () => {
+    // When
+    const { client, transport } = await connect();
+    const first = await client.listTools();
+    const second = await client.listTools();
+
+    // Then
+    expect(transport.sessionId).toBeDefined();
+    expect(first.tools.length).toBeGreaterThan(0);
+    expect(second.tools).toEqual(first.tools);
+    expect((await health()).body.sessions.streamableHttp).toBe(1);
+  });
+
+  it('should close the session when the client terminates it', async () => {
+    // Given
+    const { transport } = await connect();
+
+    // When
+    await transport.terminateSession();
+
+    // Then
+    expect((await health()).body.sessions.streamableHttp).toBe(0);
+  });
+
+  it('should reject requests without a valid session', async () => {
+    // When
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} })
+    });
+
+    // Then
+    expect(response.status).toBe(400);
+  });
+
+  it('should keep the active decision separate for each session', async () => {
+    // Given
+    const { client: alice } = await connect();
+    const { client: bob } = await connect();
+
+    // When - alice が意思決定を始めても、bob の操作対象は変わらない
+    await alice.callTool({ name: 'define_issue', arguments: issueArgs('採用するデータベースを決める') });
+    const aliceDecisionId = await activeDecisionIdOf(alice);
+    const bobBefore = await activeDecisionIdOf(bob);
+    const bobStatus = await bob.callTool({ name: 'get_current_status', arguments: {} });
+
+    await bob.callTool({ name: 'define_issue', arguments: issueArgs('監視ツールを決める') });
+    const bobDecisionId = await activeDecisionIdOf(bob);
+
+    // Then
+    expect(aliceDecisionId).toBeDefined();
+    expect(bobBefore).toBeUndefined();
+    expect(JSON.stringify(bobStatus.content)).not.toContain('採用するデータベースを決める');
+    expect(bobDecisionId).toBeDefined();
+    expect(bobDecisionId).not.toBe(aliceDecisionId);
+    expect(await activeDecisionIdOf(alice)).toBe(aliceDecisionId);
+  });
+
+  it('should let a session switch to a decision another session started', async () => {
+    // Given
+    const { client: alice } = await connect();
+    const { client: bob } = await connect();
+    await alice.callTool({ name: 'define_issue', arguments: issueArgs('採用するデータベースを決める') });
+    const aliceDecisionId = await activeDecisionIdOf(alice);
+
+    // When
+    const switched = await bob.callTool({ name: 'switch-decision', arguments: { decisionId: aliceDecisionId } });
+
+    // Then
+    expect(switched.isError).toBeFalsy();
+    expect(await activeDecisionIdOf(bob)).toBe(aliceDecisionId);
+  });
+
+  it('should close a session that sends no request within the idle timeout', async () => {
+    // Given - DELETE を送らずにいなくなるクライアント
+    await handle.close();
+    handle = await startHttpTransport({ host: '127.0.0.1', port: 0, sessionIdleTimeout: 50 });
+    const initialized = await fetch(handle.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'gone-client', version: '1.0.0' } }
+      })
+    });
+    await initialized.text();
+    const sessionId = initialized.headers.get('mcp-session-id');
+    expect((await health()).body.sessions.streamableHttp).toBe(1);
+
+    // When
+    await vi.waitFor(async () => expect((await health()).body.sessions.streamableHttp).toBe(0), { timeout: 2000 });
+
+    // Then
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': sessionId ?? ''
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} })
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('should keep a session that keeps sending requests', async () => {
+    // Given
+    await handle.close();
+    handle = await startHttpTransport({ host: '127.0.0.1', port: 0, sessionIdleTimeout: 200 });
+    const { client } = await connect();
+
+    // When
+    for (let i = 0; i < 4; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await client.listTools();
+    }
+
+    // Then
+    expect((await health()).body.sessions.streamableHttp).toBe(1);
+  });
+});
@@ -0,0 +1,258 @@
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../Server.js';
+import { ActiveDecisionSession } from '../../effect/decision-storage.js';
+
+/**
+ * HTTP Transport
+ *
+ * 1つのプロセスで複数のクライアント（チームのエージェント）を受け付ける。
+ * 接続（セッション）ごとに createServer() で MCP サーバーを作るため、
+ * リソースの購読などのサーバー状態はクライアント間で共有されない。
+ * アクティブな意思決定もセッションごとに持つため、あるクライアントが define_issue や
+ * switch-decision で切り替えても、ほかのクライアントの操作対象は変わらない。
+ *
+ *   POST/GET/DELETE /mcp   Streamable HTTP
+ *   GET /sse               legacy HTTP+SSE: イベントストリーム
+ *   POST /messages         legacy HTTP+SSE: クライアントからのメッセージ（?sessionId=）
+ *   GET /health            ヘルスチェック
+ *
+ * DELETE を送らずにいなくなった Streamable HTTP のクライアントのセッションは、
+ * 応答中のリクエストがないまま sessionIdleTimeout を過ぎると閉じる。
+ */
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// 最後にリクエストを受けた（応答を終えた）時刻と、応答中のリクエスト（GET のストリームを含む）の数
+type SessionActivity = {
+  lastSeenAt: number;
+  openRequests: number;
+};
+
+type Session =
+  | { readonly type: 'streamable_http'; readonly transport: StreamableHTTPServerTransport; readonly activity: SessionActivity }
+  | { readonly type: 'sse'; readonly transport: SSEServerTransport };
+
+export type HttpTransportOptions = {
+  readonly host: string;
+  readonly port: number;
+  // リクエストのないセッションを閉じるまでの時間（ミリ秒）
+  readonly sessionIdleTimeout?: number;
+};
+
+export type HttpTransportHandle = {
+  readonly url: string;
+  readonly close: () => Promise<void>;
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HTTP Utilities
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const sendJsonRpcError = (res: ServerResponse, status: number, code: number, message: string): void => {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+};
+
+/**
+ * Read and parse the JSON body of a request
+ */
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+};
+
+const headerValue = (req: IncomingMessage, name: string): string | undefined => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Count a request as session activity until its response is closed
+ */
+const trackRequest = (activity: SessionActivity, res: ServerResponse): void => {
+  activity.lastSeenAt = Date.now();
+  activity.openRequests += 1;
+  res.on('close', () => {
+    activity.lastSeenAt = Date.now();
+    activity.openRequests -= 1;
+  });
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// Server
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Start the HTTP transport
+ */
+export const startHttpTransport = async (options: HttpTransportOptions): Promise<HttpTransportHandle> => {
+  const sessions = new Map<string, Session>();
+  const sessionIdleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session && session.type !== 'streamable_http') {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: session uses a different transport');
+    }
+
+    if (req.method !== 'POST') {
+      // GET (server-to-client stream) and DELETE (session termination) need an existing session
+      if (!session) {
+        return sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+      }
+      trackRequest(session.activity, res);
+      return session.transport.handleRequest(req, res);
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      return sendJsonRpcError(res, 400, -32700, 'Parse error');
+    }
+
+    if (session) {
+      trackRequest(session.activity, res);
+      return session.transport.handleRequest(req, res, body);
+    }
+    if (sessionId || !isInitializeRequest(body)) {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+    }
+
+    const activity: SessionActivity = { lastSeenAt: Date.now(), openRequests: 0 };
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { type: 'streamable_http', transport, activity });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await createServer({ session: ActiveDecisionSession.create() }).connect(transport);
+    trackRequest(activity, res);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const closeIdleSessions = (): void => {
+    const now = Date.now();
+    sessions.forEach((session, id) => {
+      if (session.type === 'streamable_http' &&
+          session.activity.openRequests === 0 &&
+          now - session.activity.lastSeenAt >= sessionIdleTimeout) {
+        sessions.delete(id);
+        session.transport.close().catch(error => console.error('Error closing idle MCP session:', error));
+      }
+    });
+  };
+
+  const handleSseStream = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { type: 'sse', transport });
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+    });
+
+    await createServer({ session: ActiveDecisionSession.create() }).connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!session || session.type !== 'sse') {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: no SSE session found for sessionId');
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      return sendJsonRpcError(res, 400, -32700, 'Parse error');
+    }
+
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const handleHealth = (res: ServerResponse): void => {
+    const sessionList = [...sessions.values()];
+    sendJson(res, 200, {
+      status: 'ok',
+      sessions: {
+        streamableHttp: sessionList.filter(session => session.type === 'streamable_http').length,
+        sse: sessionList.filter(session => session.type === 'sse').length
+      }
+    });
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (url.pathname === MCP_PATH) {
+      return handleStreamableHttp(req, res);
+    }
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      return handleSseStream(res);
+    }
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      return handleSseMessage(req, res, url);
+    }
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      return handleHealth(res);
+    }
+    sendJson(res, 404, { error: 'Not Found' });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    route(req, res).catch(error => {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(sessionIdleTimeout, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  // port 0 のときは OS が選んだポートで待ち受ける
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host}:${port}${MCP_PATH}`,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map(session => session.transport.close()));
+      sessions.clear();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+};
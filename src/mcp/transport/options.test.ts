@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseTransportOptions } from './options.js';
+
+describe('parseTransportOptions', () => {
+  it('should default to stdio', () => {
+    expect(parseTransportOptions([], {})._unsafeUnwrap()).toEqual({ type: 'stdio' });
+  });
+
+  it('should read the http transport from environment variables', () => {
+    // When
+    const result = parseTransportOptions([], { MCP_DECISIVE_TRANSPORT: 'http', MCP_DECISIVE_PORT: '8080' });
+
+    // Then
+    expect(result._unsafeUnwrap()).toEqual({ type: 'http', host: '127.0.0.1', port: 8080 });
+  });
+
+  it('should prefer CLI flags over environment variables', () => {
+    // When
+    const result = parseTransportOptions(
+      ['--transport', 'http', '--port=4000', '--host', '0.0.0.0'],
+      { MCP_DECISIVE_TRANSPORT: 'stdio', MCP_DECISIVE_PORT: '8080' }
+    );
+
+    // Then
+    expect(result._unsafeUnwrap()).toEqual({ type: 'http', host: '0.0.0.0', port: 4000 });
+  });
+
+  it('should reject an unknown transport and an invalid port', () => {
+    expect(parseTransportOptions(['--transport', 'ws'], {})._unsafeUnwrapErr())
+      .toEqual({ type: 'unknown_transport', value: 'ws' });
+    expect(parseTransportOptions(['--transport', 'http', '--port', 'abc'], {})._unsafeUnwrapErr())
+      .toEqual({ type: 'invalid_port', value: 'abc' });
+    expect(parseTransportOptions(['--port'], {})._unsafeUnwrapErr())
+      .toEqual({ type: 'missing_value', flag: '--port' });
+  });
+});
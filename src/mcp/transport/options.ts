@@ -0,0 +1,78 @@
+import { Result, ok, err } from 'neverthrow';
+import { parseCliFlags, type ConfigFile } from '../../effect/config.js';
+
+/**
+ * Transport Options
+ *
+ * How the server is exposed, chosen by CLI flags, environment variables or
+ * the config file (in this order of precedence):
+ *
+ *   --transport <stdio|http>   MCP_DECISIVE_TRANSPORT   transport   (default: stdio)
+ *   --port <number>            MCP_DECISIVE_PORT        port        (default: 3000)
+ *   --host <address>           MCP_DECISIVE_HOST        host        (default: 127.0.0.1)
+ *
+ * The http transport serves Streamable HTTP and the legacy HTTP+SSE transport
+ * from the same server.
+ */
+
+export type TransportOptions =
+  | { readonly type: 'stdio' }
+  | { readonly type: 'http'; readonly host: string; readonly port: number };
+
+export type TransportOptionsError =
+  | { readonly type: 'unknown_transport'; readonly value: string }
+  | { readonly type: 'invalid_port'; readonly value: string }
+  | { readonly type: 'missing_value'; readonly flag: string };
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const FLAGS = ['transport', 'port', 'host'] as const;
+
+const parsePort = (value: string): Result<number, TransportOptionsError> => {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536
+    ? ok(port)
+    : err({ type: 'invalid_port', value });
+};
+
+/**
+ * Resolve the transport options from CLI arguments, environment variables and the config file
+ */
+export const parseTransportOptions = (
+  argv: readonly string[],
+  env: NodeJS.ProcessEnv,
+  file: ConfigFile = {}
+): Result<TransportOptions, TransportOptionsError> =>
+  parseCliFlags(argv, FLAGS).andThen((flags): Result<TransportOptions, TransportOptionsError> => {
+    const transport = flags.transport ?? env.MCP_DECISIVE_TRANSPORT ?? file.transport ?? 'stdio';
+
+    switch (transport) {
+      case 'stdio':
+        return ok({ type: 'stdio' });
+      case 'http': {
+        const portValue = flags.port ?? env.MCP_DECISIVE_PORT ?? file.port?.toString();
+        return (portValue === undefined ? ok(DEFAULT_PORT) : parsePort(portValue))
+          .map((port): TransportOptions => ({
+            type: 'http',
+            host: flags.host ?? env.MCP_DECISIVE_HOST ?? file.host ?? DEFAULT_HOST,
+            port
+          }));
+      }
+      default:
+        return err({ type: 'unknown_transport', value: transport });
+    }
+  });
+
+/**
+ * Convert TransportOptionsError to a message for the command line
+ */
+export const formatTransportOptionsError = (error: TransportOptionsError): string => {
+  switch (error.type) {
+    case 'unknown_transport':
+      return `Unknown transport "${error.value}" (expected "stdio" or "http")`;
+    case 'invalid_port':
+      return `Invalid port "${error.value}" (expected an integer between 1 and 65535)`;
+    case 'missing_value':
+      return `Missing value for ${error.flag}`;
+  }
+};